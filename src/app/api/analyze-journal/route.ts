@@ -0,0 +1,52 @@
+// API route for opt-in AI analysis of a student's journal entry
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMService, LLMResponseParseError } from '@/services/llmService';
+import { ServerAuthService } from '@/services/serverAuthService';
+import { JournalAnalysisService } from '@/services/journalAnalysisService';
+import { JournalAnalysis, JournalAnalysisInput } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ServerAuthService.verifyRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { entry } = await request.json() as { entry?: JournalAnalysisInput };
+
+    if (!entry?.content || !entry.mood) {
+      return NextResponse.json(
+        { error: 'Journal entry content and mood are required' },
+        { status: 400 }
+      );
+    }
+
+    const response = await LLMService.completeJSON<Partial<JournalAnalysis>>(
+      'journal-analysis',
+      JournalAnalysisService.buildAnalysisMessages(JournalAnalysisService.toAnalysisInput(entry))
+    );
+
+    const analysis = JournalAnalysisService.parseAnalysis(response.data);
+    if (!analysis) {
+      throw new LLMResponseParseError('Invalid sentiment score in journal analysis response', response.content);
+    }
+
+    return NextResponse.json({
+      success: true,
+      analysis,
+      model: response.model
+    });
+
+  } catch (error: unknown) {
+    console.error('Journal analysis API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to analyze journal entry: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+// API route for counselor response and conversation analysis
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMService, LLMSchemaValidationError } from '@/services/llmService';
+import { ServerAuthService } from '@/services/serverAuthService';
+import { AIAnalysisService } from '@/services/aiAnalysisService';
+import { ConversationAnalysisService } from '@/services/conversationAnalysisService';
+import { OpenAIService } from '@/services/openaiService';
+import { ConversationService } from '@/services/conversationService';
+import { FeedbackService } from '@/services/feedbackService';
+import { getServiceDb } from '@/services/serviceFirebase';
+import { aiFeedbackSchema, conversationFeedbackSchema } from '@/services/llm/analysisSchemas';
+
+type AnalysisKind = 'response' | 'conversation' | 'rating';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ServerAuthService.verifyRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const kind = body.kind as AnalysisKind;
+
+    // Cultural competency analysis of a counselor's stored reply, built from the stored conversation and
+    // saved with the service account so the scores a counselor sees can't be written by the counselor
+    if (kind === 'response' && body.messageId) {
+      const database = await getServiceDb();
+      const message = await ConversationService.getMessage(body.messageId, database);
+      const conversation = await ConversationService.getConversation(message.conversationId, database);
+      if (!conversation || conversation.counselorId !== user.uid ||
+        message.senderType !== 'counselor' || message.senderId !== user.uid) {
+        return NextResponse.json(
+          { error: 'Only the counselor who wrote this response can analyze it' },
+          { status: 403 }
+        );
+      }
+
+      // A response is analyzed once per counselor
+      const existing = await FeedbackService.findAIFeedback(message.id, user.uid, database);
+      if (existing) {
+        return NextResponse.json({ success: true, analysis: existing });
+      }
+
+      const messages = await ConversationService.getConversationMessages(conversation.id, database);
+      const context = AIAnalysisService.buildStoredResponseContext(conversation, messages, message.id);
+
+      const { data, model } = await LLMService.completeValidated(
+        'response-analysis',
+        AIAnalysisService.buildAnalysisMessages(context),
+        aiFeedbackSchema
+      );
+
+      const analysis = await FeedbackService.saveAIFeedback({
+        ...AIAnalysisService.buildAnalysisResult(data, model, context),
+        messageId: message.id,
+        counselorId: user.uid,
+        studentId: conversation.studentId
+      }, database);
+
+      return NextResponse.json({ success: true, analysis });
+    }
+
+    // Cultural competency analysis of supplied response text - not stored
+    if (kind === 'response') {
+      if (!body.context?.studentMessage || !body.context?.counselorResponse) {
+        return NextResponse.json(
+          { error: 'Student message and counselor response are required' },
+          { status: 400 }
+        );
+      }
+
+      const { data, model } = await LLMService.completeValidated(
+        'response-analysis',
+        AIAnalysisService.buildAnalysisMessages(body.context),
+        aiFeedbackSchema
+      );
+
+      return NextResponse.json({
+        success: true,
+        analysis: AIAnalysisService.buildAnalysisResult(data, model, body.context)
+      });
+    }
+
+    // Full analysis of a stored conversation, loaded and saved with the service account so
+    // the transcript and the stored scores come from the server
+    if (kind === 'conversation' && body.conversationId) {
+      const database = await getServiceDb();
+      const conversation = await ConversationService.getConversation(body.conversationId, database);
+      if (!conversation || conversation.counselorId !== user.uid) {
+        return NextResponse.json(
+          { error: 'Only the assigned counselor can analyze this conversation' },
+          { status: 403 }
+        );
+      }
+
+      const messages = await ConversationService.getConversationMessages(conversation.id, database);
+      const context = ConversationAnalysisService.buildStoredConversationContext(conversation, messages, user.uid);
+
+      const { data, model } = await LLMService.completeValidated(
+        'conversation-analysis',
+        ConversationAnalysisService.buildConversationAnalysisMessages(context),
+        conversationFeedbackSchema
+      );
+
+      const analysis = await ConversationAnalysisService.saveConversationFeedback(
+        ConversationAnalysisService.buildConversationAnalysisResult(data, model, context),
+        database
+      );
+
+      return NextResponse.json({ success: true, analysis });
+    }
+
+    // Full conversation analysis of supplied (sample or simulated) messages - not stored
+    if (kind === 'conversation') {
+      if (!body.context?.conversationId || !Array.isArray(body.context?.messages)) {
+        return NextResponse.json(
+          { error: 'Conversation context with messages is required' },
+          { status: 400 }
+        );
+      }
+
+      const { data, model } = await LLMService.completeValidated(
+        'conversation-analysis',
+        ConversationAnalysisService.buildConversationAnalysisMessages(body.context),
+        conversationFeedbackSchema
+      );
+
+      return NextResponse.json({
+        success: true,
+        analysis: ConversationAnalysisService.buildConversationAnalysisResult(data, model, body.context)
+      });
+    }
+
+    // Quick 1-10 rating of a counselor reply to a queued message
+    if (kind === 'rating') {
+      const { originalMessage, counselorResponse, culturalBackground } = body;
+      if (!originalMessage || !counselorResponse) {
+        return NextResponse.json(
+          { error: 'Original message and counselor response are required' },
+          { status: 400 }
+        );
+      }
+
+      const response = await LLMService.complete(
+        'response-feedback',
+        OpenAIService.buildResponseFeedbackMessages(originalMessage, counselorResponse, culturalBackground)
+      );
+
+      return NextResponse.json({
+        success: true,
+        feedback: OpenAIService.parseResponseFeedback(response.content)
+      });
+    }
+
+    return NextResponse.json(
+      { error: 'Invalid analysis kind. Supported: response, conversation, rating' },
+      { status: 400 }
+    );
+
+  } catch (error: unknown) {
+    console.error('Response analysis API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Reported to the caller so it can be recorded; no fallback scores are returned
+    if (error instanceof LLMSchemaValidationError) {
+      return NextResponse.json(
+        { error: 'AI analysis output failed validation: ' + errorMessage, validationFailure: error.details },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to analyze response: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY
-});
+import { CBTExerciseFeedback } from '@/types';
+import { LLMService, LLMResponseParseError, LLMSchemaValidationError } from '@/services/llmService';
+import { RubricService } from '@/services/rubricService';
+import { cbtExerciseFeedbackSchema } from '@/services/llm/analysisSchemas';
 
 export async function POST(request: NextRequest) {
-  let feedbackText: string | null = null;
-
   try {
     const { topicId, skillFocus, scenario, counselorResponse } = await request.json();
 
@@ -18,76 +15,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const prompt = `
-You are an expert CBT clinical supervisor evaluating a counselor-in-training's response to a practice scenario.
-
-SKILL FOCUS: ${skillFocus || 'General CBT skills'}
-TOPIC: ${topicId || 'General'}
-
-PRACTICE SCENARIO:
-${scenario}
-
-COUNSELOR'S RESPONSE:
-"${counselorResponse}"
-
-Evaluate this response and provide feedback as JSON:
-
-{
-  "overallScore": <1-10 score for overall quality>,
-  "techniqueScore": <1-10 score for CBT technique application>,
-  "empathyScore": <1-10 score for empathy and rapport>,
-  "strengths": ["3-4 specific things the counselor did well"],
-  "improvements": ["3-4 specific, actionable suggestions for improvement"],
-  "modelResponse": "A model response showing how an experienced CBT therapist might handle this scenario (2-4 sentences)"
-}
-
-Scoring guide:
-- 1-3: Significant issues, misses core CBT principles
-- 4-5: Shows basic understanding but misses key elements
-- 6-7: Competent application with room for improvement
-- 8-9: Strong, skillful application of CBT techniques
-- 10: Exceptional, expert-level response
-
-Be encouraging but honest. Focus on specific, actionable feedback rather than vague praise. The model response should demonstrate the skill being practiced.
-`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert CBT clinical supervisor providing constructive feedback on counselor training exercises. Always respond with valid JSON.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 1500
-    });
-
-    feedbackText = response.choices[0].message.content;
-    if (!feedbackText) {
-      throw new Error('No feedback generated');
-    }
-
-    // Clean the response text (remove markdown code blocks if present)
-    let cleanedText = feedbackText.trim();
-
-    if (cleanedText.startsWith('```json')) {
-      cleanedText = cleanedText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-    } else if (cleanedText.startsWith('```')) {
-      cleanedText = cleanedText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-    }
-
-    if (cleanedText.includes('```')) {
-      cleanedText = cleanedText.split('```')[0];
-    }
-
-    cleanedText = cleanedText.trim();
-
-    const feedback = JSON.parse(cleanedText);
+    const rubric = RubricService.getRubric('cbt-feedback');
+    const { data } = await LLMService.completeValidated('cbt-feedback', [
+      {
+        role: 'system',
+        content: rubric.systemPrompt
+      },
+      {
+        role: 'user',
+        content: RubricService.renderUserPrompt(rubric, {
+          skillFocus: skillFocus || 'General CBT skills',
+          topic: topicId || 'General',
+          scenario,
+          counselorResponse
+        })
+      }
+    ], cbtExerciseFeedbackSchema);
+    const feedback: CBTExerciseFeedback = { ...data, analysisVersion: rubric.version };
 
     return NextResponse.json({ success: true, feedback });
 
@@ -95,10 +39,16 @@ Be encouraging but honest. Focus on specific, actionable feedback rather than va
     console.error('CBT feedback API failed:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorName = error instanceof Error ? error.name : '';
 
-    if (errorName === 'SyntaxError' && errorMessage?.includes('JSON')) {
-      console.error('Raw response that failed to parse:', feedbackText?.substring(0, 500));
+    if (error instanceof LLMSchemaValidationError) {
+      return NextResponse.json(
+        { error: 'AI analysis output failed validation: ' + errorMessage, validationFailure: error.details },
+        { status: 502 }
+      );
+    }
+    
+    if (error instanceof LLMResponseParseError) {
+      console.error('Raw response that failed to parse:', error.raw.substring(0, 500));
       return NextResponse.json(
         { error: 'Failed to parse feedback response', details: errorMessage },
         { status: 500 }
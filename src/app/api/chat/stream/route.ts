@@ -0,0 +1,88 @@
+// API route for streaming AI chat responses as server-sent events
+import { NextRequest, NextResponse } from 'next/server';
+import { CulturalBackground, LLMStreamEvent } from '@/types';
+import { LLMService } from '@/services/llmService';
+import { OpenAIService } from '@/services/openaiService';
+import { ServerAuthService } from '@/services/serverAuthService';
+
+export async function POST(request: NextRequest) {
+  const user = await ServerAuthService.verifyRequest(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { userMessage, culturalBackground, conversationHistory, preferredLanguage } = await request.json();
+
+  if (!userMessage) {
+    return NextResponse.json(
+      { error: 'User message is required' },
+      { status: 400 }
+    );
+  }
+
+  const messages = OpenAIService.buildChatMessages(
+    userMessage,
+    culturalBackground as CulturalBackground,
+    conversationHistory || [],
+    preferredLanguage
+  );
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: LLMStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client already disconnected
+        }
+      };
+
+      try {
+        // Aborting the request (student cancels or navigates away) stops generation upstream
+        const completion = await LLMService.streamComplete(
+          'chat',
+          messages,
+          delta => send({ type: 'token', delta }),
+          request.signal,
+          { presencePenalty: 0.1, frequencyPenalty: 0.1 }
+        );
+
+        if (!completion.content) {
+          throw new Error('No response generated');
+        }
+
+        send({
+          type: 'done',
+          content: OpenAIService.cleanAIResponse(completion.content),
+          model: completion.model,
+          usage: completion.usage
+        });
+      } catch (error: unknown) {
+        if (!request.signal.aborted) {
+          console.error('Chat stream API error:', error);
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          send({ type: 'error', error: 'Failed to generate response: ' + errorMessage });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,59 @@
+// API route for LLM crisis risk classification of student messages
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMService, LLMResponseParseError } from '@/services/llmService';
+import { ServerAuthService } from '@/services/serverAuthService';
+import { OpenAIService } from '@/services/openaiService';
+import { CrisisClassification, CrisisRiskLevel } from '@/types';
+
+const RISK_LEVELS: CrisisRiskLevel[] = ['none', 'low', 'moderate', 'high', 'imminent'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ServerAuthService.verifyRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { message } = await request.json();
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message is required' },
+        { status: 400 }
+      );
+    }
+
+    const response = await LLMService.completeJSON<Partial<CrisisClassification>>(
+      'crisis-detection',
+      OpenAIService.buildCrisisMessages(message)
+    );
+
+    if (!response.data.riskLevel || !RISK_LEVELS.includes(response.data.riskLevel)) {
+      throw new LLMResponseParseError('Invalid risk level in classifier response', response.content);
+    }
+
+    const classification: CrisisClassification = {
+      riskLevel: response.data.riskLevel,
+      rationale: response.data.rationale || ''
+    };
+
+    return NextResponse.json({
+      success: true,
+      classification,
+      model: response.model
+    });
+
+  } catch (error: unknown) {
+    console.error('Crisis check API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // The client falls back to the keyword screen result to stay on the side of safety
+    return NextResponse.json(
+      { error: 'Failed to check message: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// API route for the scheduled job runner
+// Called by an external cron (e.g. Vercel Cron) with "Authorization: Bearer <CRON_SECRET>".
+// GET runs every due job; ?job=<name> runs one job immediately.
+import { NextRequest, NextResponse } from 'next/server';
+import { ENV } from '@/config/env';
+import { JobRunnerService } from '@/services/jobRunnerService';
+
+// Jobs touch Firestore and the LLM provider, so never cache or pre-render this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!ENV.JOBS.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${ENV.JOBS.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const job = request.nextUrl.searchParams.get('job');
+
+    if (job && !JobRunnerService.isJobName(job)) {
+      return NextResponse.json(
+        { error: 'Unknown job: ' + job },
+        { status: 400 }
+      );
+    }
+
+    const runs = JobRunnerService.isJobName(job)
+      ? [await JobRunnerService.runJob(job, 'manual')]
+      : await JobRunnerService.runDueJobs('cron');
+
+    return NextResponse.json({
+      success: runs.every(run => run.status !== 'failed'),
+      runs
+    });
+
+  } catch (error: unknown) {
+    console.error('Job runner API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to run jobs: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// API route for simulated patient responses during counselor training
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMService, LLMSchemaValidationError } from '@/services/llmService';
+import { ServerAuthService } from '@/services/serverAuthService';
+import { PatientSimulationService } from '@/services/patientSimulationService';
+import { PatientStateService } from '@/services/patientStateService';
+import { counselorTurnAssessmentSchema } from '@/services/llm/analysisSchemas';
+import { CounselorTurnAssessment, PatientEmotionalState } from '@/types/SimulatedPatient';
+import { ValidationFailureDetails } from '@/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ServerAuthService.verifyRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { patient, conversationHistory, counselorMessage, emotionalState, additionalSystemContext } = await request.json();
+
+    if (!patient || !counselorMessage) {
+      return NextResponse.json(
+        { error: 'Patient and counselor message are required' },
+        { status: 400 }
+      );
+    }
+
+    const history = conversationHistory || [];
+    const previousState: PatientEmotionalState = emotionalState || PatientStateService.initialState(patient);
+
+    // Score how the counselor's message landed, then reply from the updated state
+    let assessment: CounselorTurnAssessment | undefined;
+    let validationFailure: ValidationFailureDetails | undefined;
+    try {
+      const assessed = await LLMService.completeValidated(
+        'patient-turn-assessment',
+        PatientStateService.buildAssessmentMessages(patient, history, counselorMessage),
+        counselorTurnAssessmentSchema
+      );
+      assessment = assessed.data;
+    } catch (error: unknown) {
+      if (!(error instanceof LLMSchemaValidationError)) throw error;
+      validationFailure = error.details;
+    }
+    const state = assessment ? PatientStateService.applyTurn(previousState, assessment, patient) : previousState;
+
+    const messages = PatientSimulationService.buildPatientMessages(
+      patient,
+      history,
+      counselorMessage,
+      state,
+      additionalSystemContext
+    );
+
+    // Feature config uses a higher temperature for more natural, varied responses
+    const response = await LLMService.complete('patient-simulation', messages);
+    const content = PatientSimulationService.cleanPatientResponse(response.content);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      model: response.model,
+      state,
+      emotionalTone: PatientStateService.describeTone(state),
+      culturalReferences: PatientStateService.findCulturalReferences(content, patient),
+      ...(assessment && { assessment }),
+      ...(validationFailure && { validationFailure })
+    });
+
+  } catch (error: unknown) {
+    console.error('Patient simulation API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to generate patient response: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
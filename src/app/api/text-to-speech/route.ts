@@ -1,16 +1,10 @@
 // API route for text-to-speech (multilingual audio generation)
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-type Language = 'en' | 'es';
-type Voice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+import { Language, LLMVoice } from '@/types';
+import { LLMService } from '@/services/llmService';
 
 // Voice recommendations by language for natural pronunciation
-const VOICE_BY_LANGUAGE: Record<Language, Voice> = {
+const VOICE_BY_LANGUAGE: Record<Language, LLMVoice> = {
   en: 'nova',    // Clear, warm female voice for English
   es: 'nova'     // Same voice handles Spanish well with natural accent
 };
@@ -40,21 +34,20 @@ export async function POST(request: NextRequest) {
 
     const selectedVoice = VOICE_BY_LANGUAGE[lang];
 
-    // Generate audio using OpenAI's TTS API
-    const mp3 = await openai.audio.speech.create({
-      model: 'tts-1', // Use tts-1 for lower cost, tts-1-hd for higher quality
+    // Generate audio with the configured speech provider
+    const speech = await LLMService.synthesizeSpeech({
+      text,
       voice: selectedVoice,
-      input: text,
       speed: 1.0
     });
 
     // Convert the response to a buffer
-    const buffer = Buffer.from(await mp3.arrayBuffer());
+    const buffer = Buffer.from(speech.audio);
 
     // Return the audio file as a response
     return new NextResponse(buffer, {
       headers: {
-        'Content-Type': 'audio/mpeg',
+        'Content-Type': speech.contentType,
         'Content-Length': buffer.length.toString(),
       },
     });
@@ -0,0 +1,45 @@
+// API route for generating conversation titles
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMService } from '@/services/llmService';
+import { ServerAuthService } from '@/services/serverAuthService';
+import { OpenAIService } from '@/services/openaiService';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await ServerAuthService.verifyRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { messages } = await request.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'Messages are required' },
+        { status: 400 }
+      );
+    }
+
+    // Feature config uses a cheaper model for title generation
+    const response = await LLMService.complete('conversation-title', OpenAIService.buildTitleMessages(messages));
+
+    const title = response.content.trim();
+    if (!title) {
+      throw new Error('No title generated');
+    }
+
+    return NextResponse.json({ success: true, title });
+
+  } catch (error: unknown) {
+    console.error('Title API error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      { error: 'Failed to generate title: ' + errorMessage },
+      { status: 500 }
+    );
+  }
+}
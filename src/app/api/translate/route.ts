@@ -1,17 +1,7 @@
 // API route for bidirectional translation (English ↔ Spanish)
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-type Language = 'en' | 'es';
-
-const LANGUAGE_NAMES: Record<Language, string> = {
-  en: 'English',
-  es: 'Spanish'
-};
+import { Language } from '@/types';
+import { LLMService } from '@/services/llmService';
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,27 +33,13 @@ export async function POST(request: NextRequest) {
     const sourceLang = sourceLanguage || 'auto';
     const targetLang = targetLanguage as Language;
 
-    const systemPrompt = sourceLang === 'auto'
-      ? `You are a professional translator. Translate the given text to ${LANGUAGE_NAMES[targetLang]}. Maintain the tone, emotion, and cultural nuances. Only respond with the ${LANGUAGE_NAMES[targetLang]} translation, nothing else.`
-      : `You are a professional translator. Translate the given ${LANGUAGE_NAMES[sourceLang as Language]} text to ${LANGUAGE_NAMES[targetLang]}. Maintain the tone, emotion, and cultural nuances. Only respond with the ${LANGUAGE_NAMES[targetLang]} translation, nothing else.`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: text
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 500
+    const response = await LLMService.translate({
+      text,
+      sourceLanguage: validLanguages.includes(sourceLang) ? sourceLang : 'auto',
+      targetLanguage: targetLang
     });
 
-    const translation = response.choices[0].message.content;
+    const translation = response.content;
 
     if (!translation) {
       throw new Error('No translation generated');
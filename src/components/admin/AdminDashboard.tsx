@@ -12,11 +12,17 @@ import {
   RefreshCw,
   BookOpen,
   Lock,
-  Share2
+  Share2,
+  Lightbulb
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { AdminExportService, AdminExportFilters, PlatformStatistics } from '../../services/adminExportService';
-import { CulturalBackground } from '../../types';
+import { JournalPromptService } from '../../services/journalPromptService';
+import { JOURNAL_PROMPT_CATEGORY_LABELS } from '../../config/journalPrompts';
+import SupervisorReviewPanel from './SupervisorReviewPanel';
+import RubricVersionsPanel from './RubricVersionsPanel';
+import AnalysisValidationFailuresPanel from './AnalysisValidationFailuresPanel';
+import { CulturalBackground, JournalPromptEffectiveness } from '../../types';
 
 const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -24,6 +30,7 @@ const AdminDashboard: React.FC = () => {
   const [isLoadingStats, setIsLoadingStats] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [exportType, setExportType] = useState<'platform' | 'training'>('platform');
+  const [promptEffectiveness, setPromptEffectiveness] = useState<JournalPromptEffectiveness[]>([]);
   
   // Filter states
   const [filters, setFilters] = useState<AdminExportFilters>({
@@ -44,8 +51,15 @@ const AdminDashboard: React.FC = () => {
   const loadPlatformStatistics = async () => {
     try {
       setIsLoadingStats(true);
-      const platformStats = await AdminExportService.getPlatformStatistics();
+      const [platformStats, effectiveness] = await Promise.all([
+        AdminExportService.getPlatformStatistics(),
+        JournalPromptService.getPromptEffectiveness().catch(error => {
+          console.error('Failed to load prompt effectiveness:', error);
+          return [];
+        })
+      ]);
       setStats(platformStats);
+      setPromptEffectiveness(effectiveness);
     } catch (error) {
       console.error('Failed to load platform statistics:', error);
     } finally {
@@ -486,6 +500,65 @@ const AdminDashboard: React.FC = () => {
             </div>
           </div>
         )}
+
+        {/* Journal Prompt Effectiveness */}
+        {promptEffectiveness.length > 0 && (
+          <div className="bg-white rounded-lg p-6 shadow-sm mt-6">
+            <div className="flex items-center space-x-2 mb-1">
+              <Lightbulb className="h-5 w-5 text-amber-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Journal Prompt Effectiveness</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Entries written from each prompt, compared with the average across all prompted entries
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Prompt</th>
+                    <th className="py-2 pr-4 font-medium">Uses</th>
+                    <th className="py-2 pr-4 font-medium">Avg words</th>
+                    <th className="py-2 pr-4 font-medium">Avg mood</th>
+                    <th className="py-2 font-medium">Avg sentiment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {promptEffectiveness.slice(0, 10).map(item => (
+                    <tr key={item.promptId} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4 text-gray-900">
+                        <span className="block text-xs text-gray-500">{JOURNAL_PROMPT_CATEGORY_LABELS[item.category]}</span>
+                        {item.text}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900">{item.uses}</td>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {item.averageWordCount}
+                        <span className={`ml-1 text-xs ${item.wordCountLift >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          ({item.wordCountLift >= 0 ? '+' : ''}{item.wordCountLift})
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {item.averageMoodValue}/10
+                        <span className={`ml-1 text-xs ${item.moodLift >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          ({item.moodLift >= 0 ? '+' : ''}{item.moodLift})
+                        </span>
+                      </td>
+                      <td className="py-2 text-gray-900">{item.averageSentiment ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Supervisor review of AI feedback */}
+        <SupervisorReviewPanel />
+
+        {/* Versioned analysis rubrics and re-runs */}
+        <RubricVersionsPanel />
+
+        {/* AI output that failed schema validation */}
+        <AnalysisValidationFailuresPanel />
       </div>
     </div>
   );
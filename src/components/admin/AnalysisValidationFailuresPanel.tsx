@@ -0,0 +1,90 @@
+// Recent AI analyses whose output failed schema validation after the repair attempts
+import React, { useCallback, useEffect, useState } from 'react';
+import { FileWarning, RefreshCw } from 'lucide-react';
+import { AnalysisValidationService } from '../../services/analysisValidationService';
+import { AnalysisValidationFailure } from '../../types';
+
+const AnalysisValidationFailuresPanel: React.FC = () => {
+  const [failures, setFailures] = useState<AnalysisValidationFailure[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadFailures = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setFailures(await AnalysisValidationService.getRecentFailures());
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load validation failures');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFailures();
+  }, [loadFailures]);
+
+  const countsBySchema = failures.reduce<Record<string, number>>((counts, failure) => ({
+    ...counts,
+    [failure.schema]: (counts[failure.schema] || 0) + 1
+  }), {});
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <FileWarning className="h-5 w-5 text-orange-600" />
+          <h3 className="text-lg font-semibold text-gray-900">AI Output Validation Failures</h3>
+        </div>
+        <button onClick={loadFailures} disabled={isLoading} className="text-gray-500 hover:text-gray-700">
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {failures.length === 0 ? (
+        <p className="text-sm text-gray-600">{isLoading ? 'Loading...' : 'No analyses have failed validation recently.'}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-3">
+            {Object.entries(countsBySchema).map(([schemaName, count]) => `${schemaName}: ${count}`).join(' · ')}
+          </p>
+          <div className="space-y-2">
+            {failures.map(failure => (
+              <div key={failure.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <button
+                  onClick={() => setExpandedId(expandedId === failure.id ? null : failure.id)}
+                  className="w-full flex items-center justify-between text-left"
+                >
+                  <span className="text-gray-900">
+                    <span className="font-medium">{failure.schema}</span>
+                    <span className="text-gray-500"> · {failure.model} · {failure.attempts} attempts · {failure.issues.length} issue{failure.issues.length === 1 ? '' : 's'}</span>
+                  </span>
+                  <span className="text-xs text-gray-500">{failure.createdAt?.toLocaleString()}</span>
+                </button>
+                {expandedId === failure.id && (
+                  <div className="mt-2 space-y-2">
+                    <ul className="list-disc list-inside text-gray-700">
+                      {failure.issues.map((issue, index) => (
+                        <li key={index}><code className="text-xs">{issue.path}</code>: {issue.message}</li>
+                      ))}
+                    </ul>
+                    {failure.targetId && <p className="text-xs text-gray-500">Target: {failure.targetId}</p>}
+                    <pre className="p-2 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap max-h-40 overflow-y-auto">
+                      {failure.rawExcerpt}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisValidationFailuresPanel;
@@ -0,0 +1,264 @@
+// Analysis rubric versions, re-runs of stored analyses under another version, and score distributions per version
+import React, { useCallback, useEffect, useState } from 'react';
+import { BookOpen, CheckCircle, RefreshCw, Play } from 'lucide-react';
+import { RubricService } from '../../services/rubricService';
+import { RubricRerunService } from '../../services/rubricRerunService';
+import { RerunnableRubricKind, RubricKind, RubricVersionComparison } from '../../types';
+
+const RUBRIC_KINDS: Array<{ kind: RubricKind; label: string; rerunnable: boolean }> = [
+  { kind: 'response-analysis', label: 'Response analysis', rerunnable: true },
+  { kind: 'conversation-analysis', label: 'Conversation analysis', rerunnable: true },
+  { kind: 'conversation-outcome', label: 'Conversation outcome', rerunnable: false },
+  { kind: 'cbt-feedback', label: 'CBT feedback', rerunnable: false }
+];
+
+const DEFAULT_RERUN_COUNT = 25;
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const RubricVersionsPanel: React.FC = () => {
+  const [kind, setKind] = useState<RubricKind>('response-analysis');
+  const versions = RubricService.listVersions(kind);
+  const rerunnable = RUBRIC_KINDS.find(option => option.kind === kind)?.rerunnable || false;
+
+  const [rerunVersion, setRerunVersion] = useState('');
+  const [rerunCount, setRerunCount] = useState(DEFAULT_RERUN_COUNT);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [queuedMessage, setQueuedMessage] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<RubricVersionComparison | null>(null);
+  const [isLoadingComparison, setIsLoadingComparison] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComparison = useCallback(async () => {
+    if (!rerunnable) {
+      setComparison(null);
+      return;
+    }
+    try {
+      setIsLoadingComparison(true);
+      setError(null);
+      setComparison(await RubricRerunService.getComparison(kind as RerunnableRubricKind));
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load score distributions');
+    } finally {
+      setIsLoadingComparison(false);
+    }
+  }, [kind, rerunnable]);
+
+  useEffect(() => {
+    setRerunVersion(RubricService.getRubric(kind).version);
+    setQueuedMessage(null);
+    loadComparison();
+  }, [kind, loadComparison]);
+
+  const handleQueueReruns = async () => {
+    try {
+      setIsQueueing(true);
+      setError(null);
+      const queued = await RubricRerunService.queueReruns(kind as RerunnableRubricKind, rerunVersion, rerunCount);
+      setQueuedMessage(queued > 0
+        ? `Queued ${queued} re-run${queued === 1 ? '' : 's'} under v${rerunVersion}. They run with the next deferred analysis job.`
+        : `Every recent analysis already has v${rerunVersion} scores or is waiting for them.`);
+    } catch (queueError: unknown) {
+      setError(queueError instanceof Error ? queueError.message : 'Failed to queue re-runs');
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <BookOpen className="h-5 w-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Analysis Rubrics</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          {RUBRIC_KINDS.map(option => (
+            <button
+              key={option.kind}
+              onClick={() => setKind(option.kind)}
+              className={`px-3 py-1 text-sm rounded-lg ${kind === option.kind ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {/* Registered versions */}
+      <div className="space-y-3 mb-6">
+        {versions.map(rubric => (
+          <div key={rubric.version} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium text-gray-900">v{rubric.version} · {rubric.name}</span>
+              {RubricService.isActive(rubric) && (
+                <span className="flex items-center space-x-1 text-xs text-green-700">
+                  <CheckCircle size={12} />
+                  <span>Active</span>
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-600 mb-3">{rubric.changes}</p>
+            <table className="min-w-full text-sm mb-2">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Dimension</th>
+                  <th className="py-2 pr-4 font-medium">Definition</th>
+                  <th className="py-2 font-medium">Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rubric.dimensions.map(dimension => (
+                  <tr key={dimension.key} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900 whitespace-nowrap">{dimension.label}</td>
+                    <td className="py-2 pr-4 text-gray-700">{dimension.definition}</td>
+                    <td className="py-2 text-gray-900">{dimension.weight}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <details className="text-sm">
+              <summary className="cursor-pointer text-indigo-600 hover:text-indigo-800">Prompt</summary>
+              <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                {rubric.systemPrompt}
+                {rubric.userPromptTemplate && `\n\n---\n\n${rubric.userPromptTemplate.trim()}`}
+              </pre>
+            </details>
+          </div>
+        ))}
+      </div>
+
+      {!rerunnable ? (
+        <p className="text-sm text-gray-600">
+          Results of this analysis do not keep the input they were scored from, so they cannot be re-run under another version.
+        </p>
+      ) : (
+        <>
+          {/* Re-run stored analyses */}
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-sm">
+            <span className="text-gray-700">Re-score recent analyses under</span>
+            <select
+              value={rerunVersion}
+              onChange={(e) => setRerunVersion(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {versions.map(rubric => (
+                <option key={rubric.version} value={rubric.version}>v{rubric.version}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={rerunCount}
+              onChange={(e) => setRerunCount(Math.max(1, Math.min(200, Number(e.target.value) || 1)))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg"
+            />
+            <button
+              onClick={handleQueueReruns}
+              disabled={isQueueing || !rerunVersion}
+              className="flex items-center space-x-1 px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Play size={14} />
+              <span>{isQueueing ? 'Queueing...' : 'Queue re-runs'}</span>
+            </button>
+          </div>
+          {queuedMessage && <p className="text-sm text-green-700 mb-2">{queuedMessage}</p>}
+          <p className="text-xs text-gray-500 mb-6">
+            Re-run scores are kept separately; counselors keep seeing the feedback they were originally given.
+          </p>
+
+          {/* Distributions per version */}
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium text-gray-900">Weighted score distribution by version</h4>
+            <button onClick={loadComparison} disabled={isLoadingComparison} className="text-gray-500 hover:text-gray-700">
+              <RefreshCw size={14} className={isLoadingComparison ? 'animate-spin' : ''} />
+            </button>
+          </div>
+          {!comparison || comparison.distributions.length === 0 ? (
+            <p className="text-sm text-gray-600">{isLoadingComparison ? 'Loading...' : 'No analyses stored yet.'}</p>
+          ) : (
+            <>
+              <table className="min-w-full text-sm mb-6">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Version</th>
+                    <th className="py-2 pr-4 font-medium">Scores</th>
+                    <th className="py-2 pr-4 font-medium">Mean ± SD</th>
+                    <th className="py-2 pr-4 font-medium">P25 / Median / P75</th>
+                    <th className="py-2 font-medium">Distribution (1–10)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.distributions.map(distribution => {
+                    const tallest = Math.max(...distribution.histogram, 1);
+                    return (
+                      <tr key={distribution.version} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900">v{distribution.version}</td>
+                        <td className="py-2 pr-4 text-gray-900">
+                          {distribution.count}
+                          {distribution.rerunCount > 0 && (
+                            <span className="text-xs text-gray-500"> ({distribution.rerunCount} re-run)</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-900">{distribution.mean} ± {distribution.standardDeviation}</td>
+                        <td className="py-2 pr-4 text-gray-900">{distribution.p25} / {distribution.median} / {distribution.p75}</td>
+                        <td className="py-2">
+                          <div className="flex items-end space-x-0.5 h-8">
+                            {distribution.histogram.map((count, index) => (
+                              <div
+                                key={index}
+                                title={`${index + 1}: ${count}`}
+                                className="w-2 bg-indigo-400 rounded-t"
+                                style={{ height: `${(count / tallest) * 100}%` }}
+                              />
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <h4 className="font-medium text-gray-900 mb-2">Same analyses, re-scored</h4>
+              {comparison.pairedDifferences.length === 0 ? (
+                <p className="text-sm text-gray-600">No re-runs yet. Queue re-runs under another version to compare them on the same conversations.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Versions</th>
+                      <th className="py-2 pr-4 font-medium">Pairs</th>
+                      <th className="py-2 pr-4 font-medium">Weighted score change</th>
+                      <th className="py-2 font-medium">By dimension</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.pairedDifferences.map(difference => (
+                      <tr key={`${difference.fromVersion}-${difference.toVersion}`} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900 whitespace-nowrap">v{difference.fromVersion} → v{difference.toVersion}</td>
+                        <td className="py-2 pr-4 text-gray-900">{difference.pairs}</td>
+                        <td className="py-2 pr-4 text-gray-900">{signed(difference.meanDifference)}</td>
+                        <td className="py-2 text-gray-700">
+                          {Object.entries(difference.dimensionDifferences)
+                            .map(([key, change]) => `${RubricService.getRubric(kind, difference.toVersion).dimensions.find(dimension => dimension.key === key)?.label || key} ${signed(change)}`)
+                            .join(' · ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RubricVersionsPanel;
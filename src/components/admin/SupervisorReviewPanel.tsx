@@ -0,0 +1,375 @@
+// Supervisor review queue for AI feedback, and the AI/supervisor agreement report
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClipboardCheck, BarChart3, AlertTriangle, CheckCircle, RefreshCw, Flag } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { SupervisorReviewService, FEEDBACK_DIMENSIONS } from '../../services/supervisorReviewService';
+import { AIFeedback, AgreementGroup, CalibrationReport, FeedbackScores, SupervisorReview } from '../../types/Feedback';
+
+const DIMENSION_LABELS: Record<keyof FeedbackScores, string> = {
+  culturalSensitivity: 'Cultural Sensitivity',
+  culturalAwareness: 'Cultural Awareness',
+  empathy: 'Empathy',
+  professionalism: 'Professionalism',
+  actionability: 'Actionability',
+  questionQuality: 'Question Quality',
+  languageAppropriate: 'Language Appropriateness',
+  responseLength: 'Response Length',
+  overall: 'Overall'
+};
+
+const REPORT_RANGES = [
+  { value: 'all', label: 'All time', days: 0 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 }
+];
+
+const emptyScores = (): FeedbackScores =>
+  FEEDBACK_DIMENSIONS.reduce((scores, dimension) => ({ ...scores, [dimension]: 5 }), {} as FeedbackScores);
+
+const SupervisorReviewPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [view, setView] = useState<'queue' | 'report'>('queue');
+
+  // Queue
+  const [queue, setQueue] = useState<AIFeedback[]>([]);
+  const [includeUnflagged, setIncludeUnflagged] = useState(false);
+  const [isLoadingQueue, setIsLoadingQueue] = useState(false);
+  const [selected, setSelected] = useState<AIFeedback | null>(null);
+  const [scores, setScores] = useState<FeedbackScores>(emptyScores);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastReview, setLastReview] = useState<SupervisorReview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Report
+  const [range, setRange] = useState('all');
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isLoadingReport, setIsLoadingReport] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoadingQueue(true);
+      setError(null);
+      setQueue(await SupervisorReviewService.getReviewQueue(includeUnflagged));
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the review queue');
+    } finally {
+      setIsLoadingQueue(false);
+    }
+  }, [includeUnflagged]);
+
+  const loadReport = useCallback(async () => {
+    const days = REPORT_RANGES.find(option => option.value === range)?.days || 0;
+    try {
+      setIsLoadingReport(true);
+      setError(null);
+      setReport(await SupervisorReviewService.getCalibrationReport(
+        days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined
+      ));
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the agreement report');
+    } finally {
+      setIsLoadingReport(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    if (view === 'queue') loadQueue();
+    else loadReport();
+  }, [view, loadQueue, loadReport]);
+
+  const selectFeedback = (feedback: AIFeedback) => {
+    setSelected(feedback);
+    setScores(emptyScores());
+    setNotes('');
+    setLastReview(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || !user) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const review = await SupervisorReviewService.submitReview(
+        selected,
+        { id: user.uid, name: `${user.profile.firstName} ${user.profile.lastName}`.trim() },
+        scores,
+        notes
+      );
+      setLastReview(review);
+      setQueue(prev => prev.filter(item => item.id !== selected.id));
+      setSelected(null);
+    } catch (submitError: unknown) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to save the review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const biasColor = (bias: number) =>
+    Math.abs(bias) < 0.5 ? 'text-gray-900' : bias > 0 ? 'text-orange-600' : 'text-blue-600';
+
+  const kappaColor = (kappa: number) =>
+    kappa >= 0.6 ? 'text-green-600' : kappa >= 0.4 ? 'text-yellow-600' : 'text-red-600';
+
+  const renderGroupTable = (title: string, groups: AgreementGroup[]) => groups.length > 0 && (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2">{title}</h4>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b border-gray-200">
+            <th className="py-2 pr-4 font-medium">Group</th>
+            <th className="py-2 pr-4 font-medium">Pairs</th>
+            <th className="py-2 pr-4 font-medium">Overall MAE</th>
+            <th className="py-2 pr-4 font-medium">Overall bias</th>
+            <th className="py-2 font-medium">Overall kappa</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => {
+            const overall = group.dimensions.find(item => item.dimension === 'overall');
+            return (
+              <tr key={group.label} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-900 capitalize">{group.label.replace(/-/g, ' ')}</td>
+                <td className="py-2 pr-4 text-gray-900">{group.pairs}</td>
+                <td className="py-2 pr-4 text-gray-900">{overall?.meanAbsoluteError}</td>
+                <td className={`py-2 pr-4 ${biasColor(overall?.bias || 0)}`}>{overall && overall.bias > 0 ? '+' : ''}{overall?.bias}</td>
+                <td className={`py-2 ${kappaColor(overall?.kappa || 0)}`}>{overall?.kappa}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-sm mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Supervisor Review</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setView('queue')}
+            className={`px-3 py-1 text-sm rounded-lg ${view === 'queue' ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            Review Queue
+          </button>
+          <button
+            onClick={() => setView('report')}
+            className={`px-3 py-1 text-sm rounded-lg ${view === 'report' ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            Agreement Report
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {view === 'queue' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <label className="flex items-center space-x-2 text-gray-700">
+                <input type="checkbox" checked={includeUnflagged} onChange={(e) => setIncludeUnflagged(e.target.checked)} />
+                <span>Include unflagged sample</span>
+              </label>
+              <button onClick={loadQueue} disabled={isLoadingQueue} className="text-gray-500 hover:text-gray-700">
+                <RefreshCw size={14} className={isLoadingQueue ? 'animate-spin' : ''} />
+              </button>
+            </div>
+            {queue.length === 0 && !isLoadingQueue && (
+              <p className="text-sm text-gray-600">Nothing waiting for review.</p>
+            )}
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {queue.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => selectFeedback(item)}
+                  className={`w-full text-left p-3 border rounded-lg text-sm ${
+                    selected?.id === item.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:border-indigo-300'
+                  }`}
+                >
+                  <span className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                    <span className="capitalize">{item.responseContext.culturalBackground.replace(/-/g, ' ')}</span>
+                    {item.flaggedForReview && (
+                      <span className="flex items-center space-x-1 text-red-600">
+                        <Flag size={12} />
+                        <span>Flagged</span>
+                      </span>
+                    )}
+                  </span>
+                  <span className="block text-gray-900 line-clamp-2">{item.responseContext.counselorResponse}</span>
+                  <span className="block text-xs text-gray-500 mt-1">{item.analyzedAt?.toLocaleDateString()}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Review form */}
+          <div className="lg:col-span-2">
+            {lastReview && (
+              <div className="p-4 mb-4 bg-green-50 border border-green-200 rounded-lg text-sm">
+                <p className="flex items-center space-x-2 font-medium text-green-800 mb-2">
+                  <CheckCircle size={16} />
+                  <span>Review saved. Your scores compared with the AI:</span>
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-gray-700">
+                  {FEEDBACK_DIMENSIONS.map(dimension => (
+                    <span key={dimension}>
+                      {DIMENSION_LABELS[dimension]}: {lastReview.scores[dimension]} vs AI {lastReview.aiScores[dimension]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {selected ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-gray-50 rounded-lg text-sm space-y-3">
+                  {selected.responseContext.conversationHistory.length > 0 && (
+                    <div className="text-gray-600 space-y-1">
+                      {selected.responseContext.conversationHistory.map((line, index) => (
+                        <p key={index}>{line}</p>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase">Student</p>
+                    <p className="text-gray-900">{selected.responseContext.studentMessage}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase">Counselor response</p>
+                    <p className="text-gray-900">{selected.responseContext.counselorResponse}</p>
+                  </div>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Score the response yourself before seeing the AI scores. 1 is poor, 10 is excellent.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {FEEDBACK_DIMENSIONS.map(dimension => (
+                    <label key={dimension} className="flex items-center justify-between text-sm text-gray-700">
+                      <span>{DIMENSION_LABELS[dimension]}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        step={0.5}
+                        value={scores[dimension]}
+                        onChange={(e) => setScores({ ...scores, [dimension]: parseFloat(e.target.value) })}
+                        className="w-20 p-1 border border-gray-300 rounded text-black"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Notes on where the AI analysis was off (optional)"
+                  className="w-full h-20 p-2 border border-gray-300 rounded-lg text-sm text-black"
+                />
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : 'Save Review'}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Select a response from the queue to score it.</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {report
+                ? `${report.totalPairs} reviewed responses (${report.flaggedPairs} flagged by the AI). Bias is AI minus supervisor.`
+                : 'Loading...'}
+            </p>
+            <select
+              value={range}
+              onChange={(e) => setRange(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-black"
+            >
+              {REPORT_RANGES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {isLoadingReport ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : report && report.totalPairs > 0 ? (
+            <>
+              {report.driftingDimensions.length > 0 ? (
+                <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm">
+                  <p className="flex items-center space-x-2 font-medium text-orange-800 mb-2">
+                    <AlertTriangle size={16} />
+                    <span>Where the AI rubric drifts</span>
+                  </p>
+                  <ul className="space-y-1 text-orange-900">
+                    {report.driftingDimensions.map(item => (
+                      <li key={item.dimension}>
+                        <span className="font-medium">{DIMENSION_LABELS[item.dimension]}:</span> {item.reasons.join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="flex items-center space-x-2 text-sm text-green-700">
+                  <CheckCircle size={16} />
+                  <span>No drift detected on any dimension.</span>
+                </p>
+              )}
+
+              <div>
+                <h4 className="flex items-center space-x-2 font-medium text-gray-900 mb-2">
+                  <BarChart3 size={16} />
+                  <span>Agreement by dimension</span>
+                </h4>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Dimension</th>
+                      <th className="py-2 pr-4 font-medium">MAE</th>
+                      <th className="py-2 pr-4 font-medium">Bias</th>
+                      <th className="py-2 font-medium">Cohen&apos;s kappa</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.overall.map(item => (
+                      <tr key={item.dimension} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-900">{DIMENSION_LABELS[item.dimension]}</td>
+                        <td className="py-2 pr-4 text-gray-900">{item.meanAbsoluteError}</td>
+                        <td className={`py-2 pr-4 ${biasColor(item.bias)}`}>{item.bias > 0 ? '+' : ''}{item.bias}</td>
+                        <td className={`py-2 ${kappaColor(item.kappa)}`}>{item.kappa}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {renderGroupTable('By week', report.byWeek)}
+              {renderGroupTable('By model and prompt version', report.byAnalysisVersion)}
+              {renderGroupTable('By cultural background', report.byCulture)}
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">No supervisor reviews yet. Score responses from the queue to build the report.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupervisorReviewPanel;
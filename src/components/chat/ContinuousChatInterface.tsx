@@ -17,14 +17,43 @@ import {
   Languages,
   Volume2,
   Eye,
-  EyeOff
+  EyeOff,
+  Square,
+  Paperclip,
+  Link2,
+  Pencil,
+  Trash2,
+  History,
+  CornerUpLeft,
+  BookOpen,
+  ChevronDown,
+  ChevronUp,
+  AlertTriangle
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ConversationService } from '../../services/conversationService';
+import { PresenceService, TypingPublisher } from '../../services/presenceService';
 import { ExportService } from '../../services/exportService';
+import { AttachmentService } from '../../services/attachmentService';
+import { ALLOWED_ATTACHMENT_TYPES } from '../../config/attachments';
+import { JournalContextService } from '../../services/journalContextService';
+import { JournalAnalysisService } from '../../services/journalAnalysisService';
 import { ConversationOutcomeService, ConversationOutcome } from '../../services/conversationOutcomeService';
-import { Conversation, ConversationMessage } from '../../types';
+import { ConversationAnalysisService } from '../../services/conversationAnalysisService';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationMessageRevision,
+  ConversationParticipant,
+  JournalContext,
+  MessageAttachment,
+  UserPresence
+} from '../../types';
+import { ConversationFeedback } from '../../types/Feedback';
 import FeedbackInterface from '../counselor/FeedbackInterface';
+import ConversationFeedbackCard from '../feedback/ConversationFeedbackCard';
+import MessageAttachmentList from './MessageAttachmentList';
+import SharedJournalContext from '../journal/SharedJournalContext';
 
 interface ContinuousChatProps {
   conversation: Conversation;
@@ -52,13 +81,53 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
   const [isExporting, setIsExporting] = useState(false);
   const [showFeedback, setShowFeedback] = useState(false);
   const [feedbackMessage, setFeedbackMessage] = useState<ConversationMessage | null>(null);
-  const [feedbackStudentMessage, setFeedbackStudentMessage] = useState<ConversationMessage | null>(null);
   const [showEndConversationModal, setShowEndConversationModal] = useState(false);
   const [isEndingConversation, setIsEndingConversation] = useState(false);
   const [showOutcomeAnalysis, setShowOutcomeAnalysis] = useState(false);
   const [conversationOutcome, setConversationOutcome] = useState<ConversationOutcome | null>(null);
+  const [conversationFeedback, setConversationFeedback] = useState<ConversationFeedback | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Streaming AI reply state (null when no reply is in flight)
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  // Presence and typing state of the other participants
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  const [participantPresence, setParticipantPresence] = useState<Record<string, UserPresence>>({});
+  const [presenceClock, setPresenceClock] = useState(() => new Date());
+  const typingPublisherRef = useRef<TypingPublisher | null>(null);
+
+  // Attachments waiting to be sent with the next message
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [pendingLinks, setPendingLinks] = useState<MessageAttachment[]>([]);
+  const [showLinkInput, setShowLinkInput] = useState(false);
+  const [linkUrl, setLinkUrl] = useState('');
+  const [linkIsResource, setLinkIsResource] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Message editing and edit history (history is only readable by counselors and admins)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [editHistory, setEditHistory] = useState<ConversationMessageRevision[] | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const canViewEditHistory = user?.userType === 'counselor' || user?.userType === 'admin';
+
+  // Threaded replies: the message being replied to, and the quoted original briefly highlighted after a jump
+  const [replyingTo, setReplyingTo] = useState<ConversationMessage | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  // Journal entries the student shared when starting the conversation
+  const [sharedJournalContext, setSharedJournalContext] = useState<JournalContext[]>(
+    () => JournalContextService.normalize(conversation.sharedJournalContext)
+  );
+  const [showSharedJournal, setShowSharedJournal] = useState(false);
+  const [revokingEntryId, setRevokingEntryId] = useState<string | null>(null);
+  const canRevokeJournalContext = user?.uid === conversation.studentId;
+  const [journalRiskAlert, setJournalRiskAlert] = useState(conversation.journalRiskAlert);
+
   // Translation and audio state for bilingual mediation
   const [translations, setTranslations] = useState<Record<string, string>>({});
   const [showingTranslation, setShowingTranslation] = useState<Record<string, boolean>>({});
@@ -106,6 +175,8 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
 
     return () => {
       unsubscribe();
+      // Stop any in-flight AI reply; the partial text is still saved
+      streamAbortRef.current?.abort();
       // Cleanup audio on unmount
       if (audioRef.current) {
         audioRef.current.pause();
@@ -114,31 +185,216 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
     };
   }, [conversation.id, user?.uid, loadMessages, onUnreadCountChange]);
 
+  // Publish our typing state and follow the other participants
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    PresenceService.setActiveConversation(conversation.id);
+    const typingPublisher = PresenceService.createTypingPublisher(conversation.id, user.uid);
+    typingPublisherRef.current = typingPublisher;
+
+    const unsubscribe = PresenceService.subscribeToParticipants(conversation.id, (updatedParticipants) => {
+      setParticipants(updatedParticipants.filter(participant => participant.userId !== user.uid));
+    });
+
+    // Re-evaluate stale typing flags and heartbeats even when nothing new arrives
+    const clock = setInterval(() => setPresenceClock(new Date()), 5000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(clock);
+      typingPublisher.stop();
+      typingPublisherRef.current = null;
+      PresenceService.setActiveConversation(null);
+    };
+  }, [conversation.id, user?.uid]);
+
+  const otherParticipantIds = participants.map(participant => participant.userId).sort().join(',');
+  useEffect(() => {
+    return PresenceService.subscribeToUserPresence(
+      otherParticipantIds ? otherParticipantIds.split(',') : [],
+      setParticipantPresence
+    );
+  }, [otherParticipantIds]);
+
+  const typingParticipants = participants.filter(participant =>
+    PresenceService.isParticipantTyping(participant, presenceClock)
+  );
+  const otherParticipantOnline = participants.some(participant =>
+    PresenceService.getEffectiveState(participantPresence[participant.userId], presenceClock) === 'online'
+  );
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const hasPendingAttachments = pendingFiles.length > 0 || pendingLinks.length > 0;
+  const canSend = (newMessage.trim() !== '' || hasPendingAttachments) && !isSending;
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      AttachmentService.validateCount(pendingFiles.length + pendingLinks.length + files.length);
+      await Promise.all(files.map(file => AttachmentService.validateFile(file)));
+      setPendingFiles(prev => [...prev, ...files]);
+      setAttachmentError(null);
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : 'Unable to attach file');
+    }
+  };
+
+  const handleAddLink = () => {
+    try {
+      AttachmentService.validateCount(pendingFiles.length + pendingLinks.length + 1);
+      const link = AttachmentService.createLinkAttachment(linkUrl, { type: linkIsResource ? 'resource' : 'link' });
+      setPendingLinks(prev => [...prev, link]);
+      setLinkUrl('');
+      setLinkIsResource(false);
+      setShowLinkInput(false);
+      setAttachmentError(null);
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : 'Unable to attach link');
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || !user?.uid || isSending) return;
+    if (!canSend || !user?.uid || streamingContent !== null) return;
 
+    const content = newMessage.trim();
+    typingPublisherRef.current?.stop();
+    // Determine sender type based on user type
+    const senderType = user.userType === 'counselor' ? 'counselor' : 'student';
+    const streamReply = senderType === 'student' && conversation.type === 'ai' && content !== '';
+
+    let uploaded: MessageAttachment[] = [];
     try {
       setIsSending(true);
-      
-      // Determine sender type based on user type
-      const senderType = user.userType === 'counselor' ? 'counselor' : 'student';
+      setAttachmentError(null);
+
+      uploaded = await Promise.all(
+        pendingFiles.map(file => AttachmentService.uploadFile(conversation.id, user.uid, file))
+      );
       
       await ConversationService.sendMessage(
         conversation.id,
         user.uid,
         senderType,
-        newMessage.trim()
+        content,
+        replyingTo?.id,
+        { generateAIResponse: !streamReply, attachments: [...uploaded, ...pendingLinks] }
       );
       setNewMessage('');
+      setReplyingTo(null);
+      setPendingFiles([]);
+      setPendingLinks([]);
     } catch (error) {
       console.error('Failed to send message:', error);
+      // Don't leave orphaned files behind when the message itself didn't go through
+      if (uploaded.length > 0) {
+        AttachmentService.deleteUploadedFiles(uploaded);
+      }
+      if (hasPendingAttachments) {
+        setAttachmentError(error instanceof Error ? error.message : 'Failed to send attachments');
+      }
+      return;
     } finally {
       setIsSending(false);
     }
+
+    if (streamReply) {
+      await handleStreamAIResponse(content);
+    }
+  };
+
+  const handleStreamAIResponse = async (userMessage: string) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreamingContent('');
+
+    try {
+      await ConversationService.streamAIResponse(conversation.id, userMessage, {
+        onToken: (contentSoFar) => {
+          setStreamingContent(contentSoFar);
+          scrollToBottom();
+        },
+        signal: controller.signal
+      });
+    } catch (error) {
+      console.error('Failed to stream AI response:', error);
+    } finally {
+      streamAbortRef.current = null;
+      setStreamingContent(null);
+    }
+  };
+
+  const handleStartEdit = (message: ConversationMessage) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const handleSaveEdit = async (message: ConversationMessage) => {
+    if (!user?.uid) return;
+
+    try {
+      setIsSavingEdit(true);
+      await ConversationService.editMessage(message.id, user.uid, editDraft);
+      setEditingMessageId(null);
+      setEditHistory(null); // Refetch on next view
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      alert(error instanceof Error ? error.message : 'Failed to edit message. Please try again.');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleDeleteMessage = async (message: ConversationMessage) => {
+    if (!user?.uid || !confirm('Delete this message? This cannot be undone.')) return;
+
+    try {
+      await ConversationService.deleteMessage(message.id, user.uid);
+      setEditHistory(null);
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete message. Please try again.');
+    }
+  };
+
+  const handleToggleHistory = async (messageId: string) => {
+    if (historyMessageId === messageId) {
+      setHistoryMessageId(null);
+      return;
+    }
+
+    setHistoryMessageId(messageId);
+    if (editHistory) return;
+
+    try {
+      setEditHistory(await ConversationService.getConversationEditHistory(conversation.id));
+    } catch (error) {
+      console.error('Failed to load edit history:', error);
+      setHistoryMessageId(null);
+      alert('Failed to load edit history.');
+    }
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 2000);
+  };
+
+  const getSenderLabel = (message: ConversationMessage) => {
+    if (message.senderId === user?.uid) return 'You';
+    if (message.senderType === 'ai') return 'AI Companion';
+    return message.senderType === 'counselor' ? 'Counselor' : 'Student';
+  };
+
+  const handleStopStreaming = () => {
+    streamAbortRef.current?.abort();
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -148,6 +404,28 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
     }
   };
 
+  const handleRevokeJournalEntry = async (entryId: string) => {
+    try {
+      setRevokingEntryId(entryId);
+      await JournalContextService.revokeFromTarget('conversations', conversation.id, entryId);
+      setSharedJournalContext(prev => prev.filter(context => context.entryId !== entryId));
+    } catch (error) {
+      console.error('Failed to stop sharing journal entry:', error);
+      alert('Failed to stop sharing this entry. Please try again.');
+    } finally {
+      setRevokingEntryId(null);
+    }
+  };
+
+  const handleAcknowledgeJournalAlert = async () => {
+    try {
+      await JournalAnalysisService.acknowledgeRiskAlert(conversation.id);
+      setJournalRiskAlert(undefined);
+    } catch (error) {
+      console.error('Failed to acknowledge journal alert:', error);
+    }
+  };
+
   const handleExportJSON = async () => {
     if (!user?.uid || user.userType !== 'counselor') return;
     
@@ -195,16 +473,23 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
     try {
       setIsEndingConversation(true);
       
-      // Run comprehensive conversation analysis
-      const outcome = await ConversationOutcomeService.analyzeCompleteConversation(
-        conversation,
-        messages
-      );
+      // Run comprehensive conversation analysis. The assigned counselor also gets the stored,
+      // reply-aware feedback analysis; it is optional, so its failure doesn't block the outcome
+      const [outcome, feedback] = await Promise.all([
+        ConversationOutcomeService.analyzeCompleteConversation(conversation, messages),
+        conversation.counselorId === user.uid
+          ? ConversationAnalysisService.analyzeConversation(conversation.id).catch(error => {
+              console.error('Failed to run conversation feedback analysis:', error);
+              return null;
+            })
+          : Promise.resolve(null)
+      ]);
       
       // Mark conversation as analyzed (but keep it active)
       // await ConversationService.markConversationComplete(conversation.id, user.uid);
       
       setConversationOutcome(outcome);
+      setConversationFeedback(feedback);
       setShowEndConversationModal(false);
       setShowOutcomeAnalysis(true);
       
@@ -346,7 +631,10 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
     return (
       <div
         key={message.id}
-        className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-4`}
+        id={`message-${message.id}`}
+        className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'} mb-4 rounded-xl transition-colors ${
+          highlightedMessageId === message.id ? 'bg-yellow-50' : ''
+        }`}
       >
         <div className={`flex items-start space-x-2 max-w-[80%] ${isCurrentUser ? 'flex-row-reverse space-x-reverse' : ''}`}>
           {/* Avatar */}
@@ -372,17 +660,121 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
 
           {/* Message bubble */}
           <div className={`relative ${isCurrentUser ? 'text-right' : 'text-left'}`}>
-            <div className={`rounded-2xl px-4 py-2 ${
-              isCurrentUser
-                ? 'bg-gradient-to-r from-teal-500 to-blue-500 text-white'
-                : 'bg-gray-100 text-gray-900'
-            }`}>
-              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-            </div>
+            {/* Quoted message this one replies to */}
+            {message.replyTo && !message.deletedAt && (() => {
+              const original = messages.find(m => m.id === message.replyTo);
+              return (
+                <button
+                  onClick={() => original && handleJumpToMessage(original.id)}
+                  disabled={!original}
+                  className="mb-1 max-w-xs w-full flex items-start space-x-1 px-3 py-1.5 text-left text-xs bg-gray-50 border-l-4 border-teal-400 rounded-lg text-gray-600 hover:bg-gray-100 disabled:hover:bg-gray-50"
+                  title={original ? 'Go to original message' : undefined}
+                >
+                  <CornerUpLeft size={12} className="mt-0.5 flex-shrink-0 text-teal-500" />
+                  <span className="min-w-0">
+                    {original && !original.deletedAt ? (
+                      <>
+                        <span className="block font-medium text-gray-700">{getSenderLabel(original)}</span>
+                        <span className="block truncate">
+                          {original.content
+                            ? ConversationService.getQuoteSnippet(original.content)
+                            : `${original.attachments?.length || 0} attachment(s)`}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="italic">Original message {original ? 'was deleted' : 'is unavailable'}</span>
+                    )}
+                  </span>
+                </button>
+              );
+            })()}
+            {message.deletedAt ? (
+              <div className="rounded-2xl px-4 py-2 border border-dashed border-gray-300 text-gray-500">
+                <p className="text-sm italic">This message was deleted</p>
+              </div>
+            ) : editingMessageId === message.id ? (
+              <div className="w-72 text-left">
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-xl resize-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-black"
+                  rows={3}
+                  autoFocus
+                />
+                <div className="mt-1 flex justify-end space-x-2">
+                  <button
+                    onClick={() => setEditingMessageId(null)}
+                    className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleSaveEdit(message)}
+                    disabled={isSavingEdit || (!editDraft.trim() && !message.attachments?.length)}
+                    className="px-2 py-1 text-xs bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                  >
+                    {isSavingEdit ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            ) : message.content && (
+              <div className={`rounded-2xl px-4 py-2 ${
+                isCurrentUser
+                  ? 'bg-gradient-to-r from-teal-500 to-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-900'
+              }`}>
+                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              </div>
+            )}
+            {message.attachments && message.attachments.length > 0 && (
+              <MessageAttachmentList attachments={message.attachments} isCurrentUser={isCurrentUser} />
+            )}
+            {message.isPartial && (
+              <p className="mt-1 text-xs italic text-gray-500">Response stopped early</p>
+            )}
             
             {/* Timestamp and read status */}
             <div className={`flex items-center mt-1 text-xs text-gray-500 ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
               <span>{getTimeDisplay(message.timestamp)}</span>
+              {message.editedAt && !message.deletedAt && (
+                <span className="ml-1 italic">(edited)</span>
+              )}
+              {!message.deletedAt && editingMessageId !== message.id && (
+                <button
+                  onClick={() => setReplyingTo(message)}
+                  className="ml-2 text-gray-400 hover:text-teal-600"
+                  title="Reply to this message"
+                >
+                  <CornerUpLeft size={12} />
+                </button>
+              )}
+              {user?.uid && ConversationService.canModifyMessage(message, user.uid, presenceClock) && editingMessageId !== message.id && (
+                <>
+                  <button
+                    onClick={() => handleStartEdit(message)}
+                    className="ml-2 text-gray-400 hover:text-teal-600"
+                    title="Edit message"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteMessage(message)}
+                    className="ml-1 text-gray-400 hover:text-red-600"
+                    title="Delete message"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </>
+              )}
+              {canViewEditHistory && (message.editedAt || message.deletedAt) && (
+                <button
+                  onClick={() => handleToggleHistory(message.id)}
+                  className="ml-2 text-gray-400 hover:text-indigo-600"
+                  title="View edit history"
+                >
+                  <History size={12} />
+                </button>
+              )}
               {isCurrentUser && (
                 <div className="ml-1">
                   {isRead ? (
@@ -394,8 +786,29 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
               )}
             </div>
 
+            {/* Edit history (counselors and admins) */}
+            {historyMessageId === message.id && editHistory && (
+              <div className="mt-2 p-3 w-72 rounded-lg bg-gray-50 border border-gray-200 text-left">
+                <p className="text-xs font-medium text-gray-700 mb-2">Edit history</p>
+                {editHistory.filter(revision => revision.messageId === message.id).map(revision => (
+                  <div key={revision.id} className="mb-2 last:mb-0 text-xs">
+                    <p className="text-gray-500">
+                      {revision.action === 'delete' ? 'Deleted' : 'Edited'} {revision.editedAt.toLocaleString()}
+                      {revision.reason && ` - ${revision.reason}`}
+                    </p>
+                    <p className="text-gray-800 whitespace-pre-wrap line-through decoration-gray-400">{revision.originalContent}</p>
+                    {revision.originalAttachments && revision.originalAttachments.length > 0 && (
+                      <p className="text-gray-500">
+                        Attachments removed: {revision.originalAttachments.map(attachment => attachment.name).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Bilingual mediation & accessibility controls */}
-            {(() => {
+            {message.content && editingMessageId !== message.id && (() => {
               const messageLang = detectLanguage(message.content);
               const displayedText = showingTranslation[message.id] ? translations[message.id] : message.content;
               const displayedLang = showingTranslation[message.id] ? (messageLang === 'en' ? 'es' : 'en') : messageLang;
@@ -452,11 +865,7 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
               <div className={`mt-2 ${isCurrentUser ? 'text-right' : 'text-left'}`}>
                 <button
                   onClick={() => {
-                    const studentMessage = messages.find((m, index) => 
-                      index < messages.indexOf(message) && m.senderType === 'student'
-                    );
                     setFeedbackMessage(message);
-                    setFeedbackStudentMessage(studentMessage || null);
                     setShowFeedback(true);
                   }}
                   className="inline-flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
@@ -508,6 +917,12 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
               <p className="text-sm text-teal-100">
                 {conversation.type === 'ai' ? 'AI Companion' : 'Human Counselor'}
                 {conversation.isAnonymous && ' • Anonymous'}
+                {conversation.type === 'human' && participants.length > 0 && (
+                  <span className="inline-flex items-center ml-2">
+                    <span className={`w-2 h-2 rounded-full mr-1 ${otherParticipantOnline ? 'bg-green-300' : 'bg-gray-300'}`} />
+                    {otherParticipantOnline ? 'Online' : 'Offline'}
+                  </span>
+                )}
               </p>
             </div>
           </div>
@@ -571,6 +986,53 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
         </div>
       </div>
 
+      {/* Risk found in a journal entry the student shared (counselors only) */}
+      {journalRiskAlert && user?.userType === 'counselor' && (
+        <div className="flex items-start justify-between px-4 py-2 border-b border-amber-300 bg-amber-100 text-sm text-amber-900">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+            <div>
+              <span className="font-medium">Journal analysis flagged {journalRiskAlert.riskLevel} risk in a shared entry: </span>
+              <span>{journalRiskAlert.riskFactors.join('; ')}</span>
+            </div>
+          </div>
+          <button
+            onClick={handleAcknowledgeJournalAlert}
+            className="ml-4 text-xs font-medium text-amber-900 underline hover:text-amber-700 flex-shrink-0"
+          >
+            Acknowledge
+          </button>
+        </div>
+      )}
+
+      {/* Shared journal entries */}
+      {sharedJournalContext.length > 0 && (
+        <div className="border-b border-amber-200 bg-amber-50">
+          <button
+            onClick={() => setShowSharedJournal(!showSharedJournal)}
+            className="w-full flex items-center justify-between px-4 py-2 text-sm text-amber-900"
+          >
+            <span className="flex items-center space-x-2">
+              <BookOpen size={14} />
+              <span>
+                {sharedJournalContext.length} journal {sharedJournalContext.length === 1 ? 'entry' : 'entries'} shared
+                {canRevokeJournalContext ? ' with your counselor' : ' by the student'}
+              </span>
+            </span>
+            {showSharedJournal ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+          {showSharedJournal && (
+            <div className="px-4 pb-3 max-h-64 overflow-y-auto">
+              <SharedJournalContext
+                contexts={sharedJournalContext}
+                onRevoke={canRevokeJournalContext ? handleRevokeJournalEntry : undefined}
+                revokingEntryId={revokingEntryId}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 ? (
@@ -584,16 +1046,179 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
         ) : (
           messages.map(renderMessage)
         )}
+
+        {/* AI reply being streamed */}
+        {streamingContent !== null && (
+          <div className="flex justify-start mb-4">
+            <div className="flex items-start space-x-2 max-w-[80%]">
+              <div className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 bg-gradient-to-r from-purple-500 to-indigo-500">
+                <Bot size={16} className="text-white" />
+              </div>
+              <div className="rounded-2xl px-4 py-2 bg-gray-100 text-gray-900">
+                {streamingContent ? (
+                  <p className="text-sm whitespace-pre-wrap">
+                    {streamingContent}
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                  </p>
+                ) : (
+                  <div className="flex space-x-1 py-1">
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+        {/* Typing indicator for the other participants */}
+        {typingParticipants.length > 0 && (
+          <div className="flex items-center space-x-2 text-xs text-gray-500">
+            <div className="flex space-x-1">
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" />
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+            </div>
+            <span>{typingParticipants[0].userType === 'counselor' ? 'Counselor' : 'Student'} is typing...</span>
+          </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Message Input */}
       <div className="border-t border-gray-200 p-4">
+        {/* Pending attachments */}
+        {(hasPendingAttachments || attachmentError) && (
+          <div className="mb-2 space-y-2">
+            {hasPendingAttachments && (
+              <div className="flex flex-wrap gap-2">
+                {pendingFiles.map((file, index) => (
+                  <span key={`${file.name}-${index}`} className="inline-flex items-center space-x-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg">
+                    <Paperclip size={12} />
+                    <span className="max-w-[160px] truncate">{file.name}</span>
+                    <span className="text-gray-500">{AttachmentService.formatSize(file.size)}</span>
+                    <button
+                      onClick={() => setPendingFiles(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Remove attachment"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                {pendingLinks.map(link => (
+                  <span key={link.id} className="inline-flex items-center space-x-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg">
+                    <Link2 size={12} />
+                    <span className="max-w-[160px] truncate">{link.name}</span>
+                    {link.type === 'resource' && <span className="text-amber-700">Resource</span>}
+                    <button
+                      onClick={() => setPendingLinks(prev => prev.filter(pending => pending.id !== link.id))}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Remove link"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {attachmentError && (
+              <p className="text-xs text-red-600">{attachmentError}</p>
+            )}
+          </div>
+        )}
+
+        {/* Message being replied to */}
+        {replyingTo && (
+          <div className="mb-2 flex items-start justify-between px-3 py-2 bg-gray-50 border-l-4 border-teal-400 rounded-lg">
+            <div className="min-w-0 text-xs">
+              <p className="font-medium text-gray-700">Replying to {getSenderLabel(replyingTo)}</p>
+              <p className="text-gray-600 truncate">
+                {ConversationService.getQuoteSnippet(replyingTo.content) || `${replyingTo.attachments?.length || 0} attachment(s)`}
+              </p>
+            </div>
+            <button
+              onClick={() => setReplyingTo(null)}
+              className="ml-2 text-gray-500 hover:text-gray-700"
+              title="Cancel reply"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {showLinkInput && (
+          <div className="mb-2 flex items-center space-x-2">
+            <input
+              type="url"
+              value={linkUrl}
+              onChange={(e) => setLinkUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddLink();
+                }
+              }}
+              placeholder="https://"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent text-black"
+            />
+            {user?.userType === 'counselor' && (
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={linkIsResource}
+                  onChange={(e) => setLinkIsResource(e.target.checked)}
+                />
+                <span>Support resource</span>
+              </label>
+            )}
+            <button
+              onClick={handleAddLink}
+              disabled={!linkUrl.trim()}
+              className="px-3 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        )}
+
         <div className="flex items-end space-x-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={Object.keys(ALLOWED_ATTACHMENT_TYPES).join(',')}
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSending}
+            className="p-3 rounded-xl text-gray-500 hover:text-teal-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Attach an image or PDF"
+          >
+            <Paperclip size={20} />
+          </button>
+          <button
+            onClick={() => setShowLinkInput(prev => !prev)}
+            disabled={isSending}
+            className={`p-3 rounded-xl transition-colors disabled:opacity-50 ${
+              showLinkInput ? 'text-teal-600 bg-gray-100' : 'text-gray-500 hover:text-teal-600 hover:bg-gray-100'
+            }`}
+            title="Attach a link"
+          >
+            <Link2 size={20} />
+          </button>
           <div className="flex-1">
             <textarea
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                // Nobody watches typing in AI conversations, so skip the writes
+                if (conversation.type === 'human') {
+                  typingPublisherRef.current?.notifyTyping();
+                }
+              }}
               onKeyPress={handleKeyPress}
               placeholder="Type your message..."
               className="w-full p-3 border border-gray-300 rounded-xl resize-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-black"
@@ -601,21 +1226,31 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
               style={{ minHeight: '44px', maxHeight: '120px' }}
             />
           </div>
-          <button
-            onClick={handleSendMessage}
-            disabled={!newMessage.trim() || isSending}
-            className={`p-3 rounded-xl transition-colors ${
-              newMessage.trim() && !isSending
-                ? 'bg-gradient-to-r from-teal-500 to-blue-500 text-white hover:from-teal-600 hover:to-blue-600'
-                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-            }`}
-          >
-            {isSending ? (
-              <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" />
-            ) : (
-              <Send size={20} />
-            )}
-          </button>
+          {streamingContent !== null ? (
+            <button
+              onClick={handleStopStreaming}
+              className="p-3 rounded-xl transition-colors bg-gray-700 text-white hover:bg-gray-800"
+              title="Stop generating"
+            >
+              <Square size={20} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!canSend}
+              className={`p-3 rounded-xl transition-colors ${
+                canSend
+                  ? 'bg-gradient-to-r from-teal-500 to-blue-500 text-white hover:from-teal-600 hover:to-blue-600'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              {isSending ? (
+                <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" />
+              ) : (
+                <Send size={20} />
+              )}
+            </button>
+          )}
         </div>
       </div>
       
@@ -704,7 +1339,6 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
                 onClick={() => {
                   setShowFeedback(false);
                   setFeedbackMessage(null);
-                  setFeedbackStudentMessage(null);
                 }}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
               >
@@ -715,16 +1349,12 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
             <div className="overflow-y-auto max-h-[calc(90vh-80px)]">
               <div className="p-6">
                 <FeedbackInterface
-                  responseContent={feedbackMessage.content}
-                  studentMessage={feedbackStudentMessage?.content || 'No previous student message found'}
-                  conversationHistory={messages.slice(-5)} // Last 5 messages for context
+                  messageId={feedbackMessage.id}
                   counselorId={user?.uid || ''}
-                  culturalContext={conversation.culturalContext}
                   onFeedbackComplete={(feedback) => {
                     console.log('Feedback completed:', feedback);
                     setShowFeedback(false);
                     setFeedbackMessage(null);
-                    setFeedbackStudentMessage(null);
                   }}
                 />
               </div>
@@ -811,6 +1441,7 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
                 onClick={() => {
                   setShowOutcomeAnalysis(false);
                   setConversationOutcome(null);
+                  setConversationFeedback(null);
                   // Keep the conversation open - don't call onBack()
                 }}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -959,12 +1590,21 @@ const ContinuousChat: React.FC<ContinuousChatProps> = ({ conversation, onBack, o
                 </div>
               )}
 
+              {/* Reply-aware feedback on the stored conversation */}
+              {conversationFeedback && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Conversation Feedback</h3>
+                  <ConversationFeedbackCard feedback={conversationFeedback} compact />
+                </div>
+              )}
+
               {/* Continue Conversation Button */}
               <div className="mt-8 pt-6 border-t border-gray-200 text-center">
                 <button
                   onClick={() => {
                     setShowOutcomeAnalysis(false);
                     setConversationOutcome(null);
+                    setConversationFeedback(null);
                   }}
                   className="bg-teal-600 hover:bg-teal-700 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center space-x-2 mx-auto"
                 >
@@ -0,0 +1,111 @@
+// Attachments shown inside a chat message bubble
+import React, { useState, useEffect } from 'react';
+import { FileText, Link as LinkIcon, LifeBuoy, Image as ImageIcon } from 'lucide-react';
+import { AttachmentService } from '../../services/attachmentService';
+import { MessageAttachment } from '../../types';
+
+interface MessageAttachmentListProps {
+  attachments: MessageAttachment[];
+  isCurrentUser: boolean;
+}
+
+const MessageAttachmentList: React.FC<MessageAttachmentListProps> = ({ attachments, isCurrentUser }) => {
+  // Download URLs are resolved per viewer so storage rules decide who can open each file
+  const [resolvedUrls, setResolvedUrls] = useState<Record<string, { url: string; thumbnailUrl?: string }>>({});
+  const [failed, setFailed] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    attachments.forEach(async (attachment) => {
+      try {
+        const [url, thumbnailUrl] = await Promise.all([
+          AttachmentService.resolveUrl(attachment),
+          attachment.thumbnailUrl ? AttachmentService.resolveUrl(attachment, true) : Promise.resolve(undefined)
+        ]);
+        if (!cancelled) {
+          setResolvedUrls(prev => ({ ...prev, [attachment.id]: { url, thumbnailUrl } }));
+        }
+      } catch (error) {
+        console.error('Failed to load attachment:', error);
+        if (!cancelled) {
+          setFailed(prev => ({ ...prev, [attachment.id]: true }));
+        }
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachments]);
+
+  const getIcon = (attachment: MessageAttachment) => {
+    switch (attachment.type) {
+      case 'image':
+        return <ImageIcon size={16} />;
+      case 'document':
+        return <FileText size={16} />;
+      case 'resource':
+        return <LifeBuoy size={16} />;
+      default:
+        return <LinkIcon size={16} />;
+    }
+  };
+
+  return (
+    <div className={`mt-2 flex flex-col gap-2 ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+      {attachments.map(attachment => {
+        const resolved = resolvedUrls[attachment.id];
+
+        if (failed[attachment.id]) {
+          return (
+            <div key={attachment.id} className="px-3 py-2 text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-lg">
+              {attachment.name} is unavailable
+            </div>
+          );
+        }
+
+        if (attachment.type === 'image' && resolved) {
+          return (
+            <a key={attachment.id} href={resolved.url} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+              {/* Download URLs are signed per viewer, so the Next.js image optimizer can't be used */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={resolved.thumbnailUrl || resolved.url}
+                alt={attachment.name}
+                className="max-w-[240px] max-h-[240px] rounded-lg border border-gray-200 object-cover"
+              />
+            </a>
+          );
+        }
+
+        return (
+          <a
+            key={attachment.id}
+            href={resolved?.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`flex items-start space-x-2 max-w-[280px] px-3 py-2 rounded-lg border text-left transition-colors ${
+              attachment.type === 'resource'
+                ? 'bg-amber-50 border-amber-200 text-amber-900 hover:bg-amber-100'
+                : 'bg-white border-gray-200 text-gray-800 hover:bg-gray-50'
+            } ${resolved ? '' : 'pointer-events-none opacity-60'}`}
+          >
+            <span className="mt-0.5 flex-shrink-0">{getIcon(attachment)}</span>
+            <span className="min-w-0">
+              <span className="block text-sm font-medium truncate">{attachment.name}</span>
+              {attachment.description && (
+                <span className="block text-xs text-gray-600">{attachment.description}</span>
+              )}
+              {attachment.size !== undefined && (
+                <span className="block text-xs text-gray-500">{AttachmentService.formatSize(attachment.size)}</span>
+              )}
+            </span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachmentList;
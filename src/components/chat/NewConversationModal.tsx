@@ -1,9 +1,11 @@
 // Modal for starting new conversations
 import React, { useState } from 'react';
-import { X, Bot, User, Lock } from 'lucide-react';
+import { X, Bot, User, Lock, BookOpen } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ConversationService } from '../../services/conversationService';
-import { MessagePriority } from '../../types';
+import { DEFAULT_JOURNAL_CONTEXT_OPTIONS } from '../../services/journalContextService';
+import { MessagePriority, JournalContextOptions } from '../../types';
+import JournalContextPicker from '../journal/JournalContextPicker';
 
 interface NewConversationModalProps {
   isOpen: boolean;
@@ -24,6 +26,10 @@ const NewConversationModal: React.FC<NewConversationModalProps> = ({
   const [priority, setPriority] = useState<MessagePriority>('medium');
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [shareJournal, setShareJournal] = useState(false);
+  const [selectedJournalEntries, setSelectedJournalEntries] = useState<string[]>([]);
+  const [journalContextOptions, setJournalContextOptions] = useState<JournalContextOptions>(DEFAULT_JOURNAL_CONTEXT_OPTIONS);
+  const [createError, setCreateError] = useState<string | null>(null);
 
   if (!isOpen) return null;
 
@@ -32,7 +38,13 @@ const NewConversationModal: React.FC<NewConversationModalProps> = ({
 
     try {
       setIsCreating(true);
+      setCreateError(null);
       
+      // Journal entries can only be shared with human counselors
+      const journalContext = conversationType === 'human' && shareJournal && selectedJournalEntries.length > 0
+        ? { entryIds: selectedJournalEntries, options: journalContextOptions }
+        : undefined;
+
       // Create conversation
       const conversationId = await ConversationService.createConversation(
         user.uid,
@@ -40,7 +52,8 @@ const NewConversationModal: React.FC<NewConversationModalProps> = ({
         title.trim(),
         user.studentProfile?.culturalBackground || 'other',
         isAnonymous,
-        priority
+        priority,
+        journalContext
       );
 
       // Send first message
@@ -58,9 +71,13 @@ const NewConversationModal: React.FC<NewConversationModalProps> = ({
       setFirstMessage('');
       setPriority('medium');
       setIsAnonymous(false);
+      setShareJournal(false);
+      setSelectedJournalEntries([]);
+      setJournalContextOptions(DEFAULT_JOURNAL_CONTEXT_OPTIONS);
       onClose();
     } catch (error) {
       console.error('Failed to create conversation:', error);
+      setCreateError(error instanceof Error ? error.message : 'Failed to create conversation');
     } finally {
       setIsCreating(false);
     }
@@ -204,8 +221,44 @@ const NewConversationModal: React.FC<NewConversationModalProps> = ({
                 Your name and profile won&apos;t be shared with the counselor
               </p>
             </div>
+
+            {/* Journal context */}
+            {conversationType === 'human' && user?.uid && (
+              <div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={shareJournal}
+                    onChange={(e) => setShareJournal(e.target.checked)}
+                    className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  <BookOpen size={14} className="text-gray-600" />
+                  <span className="text-sm font-medium text-gray-700">Share journal entries with your counselor</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  You can stop sharing them at any time from the conversation
+                </p>
+                {shareJournal && (
+                  <div className="mt-3 ml-6">
+                    <JournalContextPicker
+                      studentId={user.uid}
+                      selectedEntryIds={selectedJournalEntries}
+                      onSelectedEntryIdsChange={setSelectedJournalEntries}
+                      options={journalContextOptions}
+                      onOptionsChange={setJournalContextOptions}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
+          {createError && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {createError}
+            </div>
+          )}
+
           {/* Info Banner */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
             <div className="flex items-start space-x-3">
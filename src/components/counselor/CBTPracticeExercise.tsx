@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Send, Loader2, Star, ArrowUp, Lightbulb, MessageSquare, ChevronRight, RotateCcw } from 'lucide-react';
 import { CBTPracticeExercise as ExerciseType, CBTExerciseFeedback, CBTTopicId } from '../../types/CBTTraining';
+import { AnalysisValidationService } from '../../services/analysisValidationService';
 
 interface CBTPracticeExerciseProps {
   exercises: ExerciseType[];
@@ -37,6 +38,10 @@ export const CBTPracticeExercise: React.FC<CBTPracticeExerciseProps> = ({ exerci
       });
 
       if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        if (errorData.validationFailure) {
+          await AnalysisValidationService.recordFailure(errorData.validationFailure, topicId);
+        }
         throw new Error('Failed to get feedback');
       }
 
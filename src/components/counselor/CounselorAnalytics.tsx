@@ -11,9 +11,12 @@ import {
   ArrowDown,
   Minus,
   Clock,
-  Globe
+  Globe,
+  Scale
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { FeedbackService } from '../../services/feedbackService';
+import { CounselorFeedbackAnalytics, SelfAssessmentArea, SelfAssessmentComparison } from '../../types/Feedback';
 
 interface PerformanceMetrics {
   overallScore: number;
@@ -68,11 +71,53 @@ interface CounselorAnalyticsProps {
   showDemoData?: boolean;
 }
 
+const SELF_ASSESSMENT_LABELS: Record<SelfAssessmentArea | 'overall', string> = {
+  overall: 'Overall',
+  empathy: 'Empathy & Listening',
+  culturalSensitivity: 'Cultural Sensitivity',
+  questioning: 'Questioning Skills',
+  goalOrientation: 'Goal Orientation',
+  professionalism: 'Professionalism'
+};
+
+// Shape stored feedback analytics for the dashboard
+const toAnalyticsData = (data: CounselorFeedbackAnalytics): AnalyticsData => {
+  const { overall, ...scoreBreakdown } = data.averageScores;
+
+  return {
+    metrics: {
+      overallScore: overall,
+      scoreChange: data.scoreChange,
+      totalResponses: data.totalResponses,
+      responseChange: data.totalResponses - data.previousPeriodResponses,
+      averageResponseTime: data.averageTimeSpent ?? 0,
+      timeChange: data.averageTimeSpent !== undefined && data.previousAverageTimeSpent !== undefined
+        ? data.averageTimeSpent - data.previousAverageTimeSpent
+        : 0,
+      flaggedResponses: data.flaggedResponses,
+      flaggedChange: data.flaggedResponses - data.previousPeriodFlagged
+    },
+    scoreBreakdown,
+    trends: data.dailyScores,
+    strengths: data.commonStrengths,
+    improvementAreas: data.improvementAreas,
+    achievements: [],
+    culturalCompetency: Object.fromEntries(
+      Object.entries(data.culturalCompetency).map(([background, competency]) => [
+        background.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+        competency
+      ])
+    )
+  };
+};
+
 const CounselorAnalytics: React.FC<CounselorAnalyticsProps> = ({ showDemoData = true }) => {
   const { user } = useAuth();
   const [timeframe, setTimeframe] = useState<'7d' | '30d' | '90d'>('30d');
+  const counselorId = user?.uid;
   const [loading, setLoading] = useState(true);
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+  const [selfComparison, setSelfComparison] = useState<SelfAssessmentComparison | null>(null);
 
   const getMockAnalytics = useCallback((): AnalyticsData => {
     const baseScore = 7.5 + Math.random() * 1.5; // 7.5-9.0 range
@@ -152,17 +197,21 @@ const CounselorAnalytics: React.FC<CounselorAnalyticsProps> = ({ showDemoData =
   const loadAnalytics = useCallback(async () => {
     setLoading(true);
     try {
-      // In a real implementation, this would fetch from the feedback service
-      // For now, using mock data that represents realistic analytics
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-      
-      setAnalytics(getMockAnalytics());
+      if (showDemoData || !counselorId) {
+        setAnalytics(getMockAnalytics());
+        setSelfComparison(null);
+        return;
+      }
+
+      const data = await FeedbackService.getCounselorAnalytics(counselorId, timeframe);
+      setAnalytics(data.totalResponses > 0 ? toAnalyticsData(data) : null);
+      setSelfComparison(data.selfAssessment.assessedResponses > 0 ? data.selfAssessment : null);
     } catch (error) {
       console.error('Failed to load analytics:', error);
     } finally {
       setLoading(false);
     }
-  }, [getMockAnalytics]);
+  }, [getMockAnalytics, showDemoData, counselorId, timeframe]);
 
   useEffect(() => {
     loadAnalytics();
@@ -367,6 +416,9 @@ const CounselorAnalytics: React.FC<CounselorAnalyticsProps> = ({ showDemoData =
         <div className="bg-white rounded-lg p-6 shadow-sm border">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Achievements</h3>
           <div className="space-y-4">
+            {analytics.achievements.length === 0 && (
+              <p className="text-sm text-gray-600">No achievements yet for this period.</p>
+            )}
             {analytics.achievements.map((achievement, index) => (
               <div key={index} className="flex items-start space-x-3 p-3 bg-blue-50 rounded-lg">
                 <div className="flex-shrink-0 w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600">
@@ -414,6 +466,45 @@ const CounselorAnalytics: React.FC<CounselorAnalyticsProps> = ({ showDemoData =
         </div>
       </div>
 
+      {/* Self-Assessment Calibration */}
+      {selfComparison && (
+        <div className="bg-white rounded-lg p-6 shadow-sm border">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2">
+              <Scale className="h-5 w-5 text-indigo-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Self-Assessment vs AI</h3>
+            </div>
+            <span className="text-sm text-gray-600">
+              {selfComparison.assessedResponses} self-rated {selfComparison.assessedResponses === 1 ? 'response' : 'responses'} ·{' '}
+              {selfComparison.calibrationTrend === 'converging'
+                ? 'your ratings are getting closer to the AI scores'
+                : selfComparison.calibrationTrend === 'diverging'
+                  ? 'your ratings are drifting from the AI scores'
+                  : 'calibration is steady'}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {(Object.keys(SELF_ASSESSMENT_LABELS) as (SelfAssessmentArea | 'overall')[]).map(area => {
+              const gap = selfComparison.averageGap[area];
+              return (
+                <div key={area} className="p-4 border rounded-lg">
+                  <p className="text-sm font-medium text-gray-700">{SELF_ASSESSMENT_LABELS[area]}</p>
+                  <p className={`text-xl font-bold ${Math.abs(gap) < 1 ? 'text-gray-900' : gap > 0 ? 'text-orange-600' : 'text-blue-600'}`}>
+                    {gap > 0 ? '+' : ''}{gap}
+                  </p>
+                  <p className="text-xs text-gray-600">
+                    {Math.abs(gap) < 1 ? 'In line with the AI' : gap > 0 ? 'You rate yourself higher' : 'You rate yourself lower'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Average difference between your self-rating and the AI score (overall): {selfComparison.meanAbsoluteGap} points
+          </p>
+        </div>
+      )}
+
       {/* Strengths and Improvement Areas */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg p-6 shadow-sm border">
@@ -12,13 +12,19 @@ import {
   LogOut,
   Download,
   BarChart3,
-  GraduationCap
+  GraduationCap,
+  Pin,
+  Zap,
+  Wifi,
+  BookOpen
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ConversationService } from '../../services/conversationService';
 import { ExportService } from '../../services/exportService';
-import { MessagePriority, Conversation } from '../../types';
+import { QueueRoutingService } from '../../services/queueRoutingService';
+import { MessagePriority, Conversation, RankedQueueItem } from '../../types';
 import ContinuousChat from '../chat/ContinuousChatInterface';
+import SharedJournalsView from './SharedJournalsView';
 
 // Lazy load the feedback dashboard and training components
 const CounselorFeedbackDashboard = React.lazy(() => import('../feedback/CounselorFeedbackDashboard'));
@@ -33,9 +39,10 @@ interface ConversationQueueProps {
   onSelectConversation?: (conversation: Conversation) => void;
   isLoading: boolean;
   isMyConversations?: boolean;
+  rankings?: Record<string, RankedQueueItem<Conversation>>; // Routing scores by conversation ID
 }
 
-const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, onClaimConversation, onSelectConversation, isLoading, isMyConversations = false }) => {
+const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, onClaimConversation, onSelectConversation, isLoading, isMyConversations = false, rankings }) => {
   const getPriorityColor = (priority: MessagePriority) => {
     switch (priority) {
       case 'urgent': return 'bg-red-100 text-red-800 border-red-200';
@@ -84,7 +91,9 @@ const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, on
       {conversations.map((conversation) => (
         <div 
           key={conversation.id} 
-          className="bg-white border rounded-lg p-6 hover:shadow-md transition-shadow"
+          className={`bg-white border rounded-lg p-6 hover:shadow-md transition-shadow ${
+            conversation.crisisRiskLevel ? 'border-red-300 ring-1 ring-red-200' : ''
+          }`}
         >
           <div className="flex items-start justify-between mb-4">
             <div className="flex items-center space-x-3">
@@ -106,6 +115,23 @@ const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, on
             </div>
             
             <div className="flex items-center space-x-2">
+              {conversation.pinnedAt && !isMyConversations && (
+                <Pin size={14} className="text-red-500" />
+              )}
+              {conversation.crisisRiskLevel && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium border bg-red-600 text-white border-red-700">
+                  CRISIS: {conversation.crisisRiskLevel.toUpperCase()}
+                </span>
+              )}
+              {conversation.journalRiskAlert && (
+                <span
+                  className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border bg-amber-100 text-amber-900 border-amber-300"
+                  title={conversation.journalRiskAlert.riskFactors.join('; ')}
+                >
+                  <BookOpen size={12} />
+                  <span>JOURNAL ALERT</span>
+                </span>
+              )}
               <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getPriorityColor(conversation.priority)}`}>
                 {conversation.priority.toUpperCase()}
               </span>
@@ -120,11 +146,45 @@ const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, on
             <p className="text-gray-600 text-sm">
               {conversation.messageCount} messages • Last activity {getTimeAgo(conversation.lastMessageAt)}
             </p>
+            {(conversation.sharedJournalEntryIds?.length ?? 0) > 0 && (
+              <span className="inline-flex items-center space-x-1 mt-2 px-2 py-1 rounded-full text-xs bg-amber-50 text-amber-800 border border-amber-200">
+                <BookOpen size={12} />
+                <span>{conversation.sharedJournalEntryIds!.length} journal {conversation.sharedJournalEntryIds!.length === 1 ? 'entry' : 'entries'} shared</span>
+              </span>
+            )}
           </div>
 
+          {/* Why this conversation was routed to you */}
+          {rankings?.[conversation.id] && (
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+              <span className="px-2 py-1 rounded-full bg-blue-50 text-blue-700 border border-blue-200 font-medium">
+                Match score {rankings[conversation.id].score}
+              </span>
+              {rankings[conversation.id].matchedSpecializations.map(tag => (
+                <span key={tag} className="px-2 py-1 rounded-full bg-teal-50 text-teal-700 border border-teal-200">
+                  Your specialization: {tag}
+                </span>
+              ))}
+              {conversation.studentLanguage && rankings[conversation.id].languageMatch !== null && (
+                <span className={`px-2 py-1 rounded-full border ${
+                  rankings[conversation.id].languageMatch
+                    ? 'bg-green-50 text-green-700 border-green-200'
+                    : 'bg-gray-50 text-gray-600 border-gray-200'
+                }`}>
+                  {rankings[conversation.id].languageMatch ? 'Speaks' : 'Prefers'} {QueueRoutingService.describeLanguage(conversation.studentLanguage)}
+                </span>
+              )}
+              {rankings[conversation.id].culturalMatch && (
+                <span className="px-2 py-1 rounded-full bg-purple-50 text-purple-700 border border-purple-200">
+                  Cultural background match
+                </span>
+              )}
+            </div>
+          )}
+
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4 text-sm text-gray-600">
-              <span>New Conversation Request</span>
+              <span>{conversation.type === 'ai' ? 'Escalated from AI Chat' : 'New Conversation Request'}</span>
               <span>Status: {conversation.status}</span>
             </div>
             
@@ -151,13 +211,15 @@ const ConversationQueue: React.FC<ConversationQueueProps> = ({ conversations, on
 const CounselorDashboard: React.FC = () => {
   const { user, signOut } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [rankings, setRankings] = useState<Record<string, RankedQueueItem<Conversation>>>({});
+  const [isFindingNext, setIsFindingNext] = useState(false);
   const [myConversations, setMyConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | MessagePriority>('all');
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [activeTab, setActiveTab] = useState<'new' | 'mine'>('new');
   const [myUnreadCount, setMyUnreadCount] = useState(0);
-  const [currentView, setCurrentView] = useState<'queue' | 'training' | 'feedback' | 'history'>('queue');
+  const [currentView, setCurrentView] = useState<'queue' | 'journals' | 'training' | 'feedback' | 'history'>('queue');
   const [patientMode, setPatientMode] = useState<'real' | 'simulated' | 'cbt'>('real');
   const [cbtSimulatorContext, setCbtSimulatorContext] = useState<{ suggestedConcern: string; objective: string; tips: string[] } | null>(null);
   const [stats, setStats] = useState({
@@ -166,6 +228,7 @@ const CounselorDashboard: React.FC = () => {
     claimed: 0,
     avgResponseTime: '45 min'
   });
+  const [counselorsOnline, setCounselorsOnline] = useState(0);
 
   useEffect(() => {
     loadConversations();
@@ -183,7 +246,18 @@ const CounselorDashboard: React.FC = () => {
   const loadConversations = async () => {
     try {
       setIsLoading(true);
-      const availableConversations = await ConversationService.getAvailableConversations();
+      // Rank the queue for this counselor; fall back to the plain queue if routing data is unavailable
+      let availableConversations: Conversation[];
+      try {
+        if (!user?.uid) throw new Error('Counselor not signed in');
+        const ranked = await ConversationService.getRankedConversations(user.uid);
+        availableConversations = ranked.map(entry => entry.item);
+        setRankings(Object.fromEntries(ranked.map(entry => [entry.item.id, entry])));
+      } catch (rankingError) {
+        console.warn('Failed to rank conversations, showing unranked queue:', rankingError);
+        availableConversations = await ConversationService.getAvailableConversations();
+        setRankings({});
+      }
       console.log('Fetched conversations:', availableConversations);
       
       // Filter conversations based on selected filter
@@ -200,6 +274,11 @@ const CounselorDashboard: React.FC = () => {
         claimed: 0, // TODO: Add claimed conversations count
         avgResponseTime: '45 min' // TODO: Calculate actual average
       });
+
+      // Counselor availability comes from presence heartbeats
+      ConversationService.getQueueStats()
+        .then(queueStats => setCounselorsOnline(queueStats.counselorsOnline))
+        .catch(error => console.warn('Failed to load queue stats:', error));
     } catch (error) {
       console.error('Failed to load conversations:', error);
     } finally {
@@ -248,6 +327,31 @@ const CounselorDashboard: React.FC = () => {
     }
   };
 
+  const handleTakeNextBest = async () => {
+    if (!user?.uid) return;
+
+    try {
+      setIsFindingNext(true);
+      const { match, reason } = await ConversationService.getNextBestConversation(user.uid);
+      if (!match) {
+        alert(reason === 'at-capacity'
+          ? "You're at capacity - only urgent conversations will be offered until you close some of your active ones."
+          : 'There are no conversations waiting in the queue right now.');
+        return;
+      }
+
+      await ConversationService.claimConversation(match.item.id, user.uid);
+      setSelectedConversation(match.item);
+      loadConversations();
+      loadMyConversations();
+    } catch (error) {
+      console.error('Failed to take next conversation:', error);
+      alert('Failed to take the next conversation. Please try again.');
+    } finally {
+      setIsFindingNext(false);
+    }
+  };
+
   const handleSelectMyConversation = (conversation: Conversation) => {
     setSelectedConversation(conversation);
     // Refresh unread count when opening a conversation
@@ -295,7 +399,7 @@ const CounselorDashboard: React.FC = () => {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6 mb-8">
           <div className="bg-white rounded-lg p-6 shadow-sm">
             <div className="flex items-center justify-between">
               <div>
@@ -335,6 +439,16 @@ const CounselorDashboard: React.FC = () => {
               <Clock className="h-8 w-8 text-purple-600" />
             </div>
           </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600">Counselors Online</p>
+                <p className="text-2xl font-bold text-teal-600">{counselorsOnline}</p>
+              </div>
+              <Wifi className="h-8 w-8 text-teal-600" />
+            </div>
+          </div>
         </div>
 
         {/* Main Navigation */}
@@ -353,6 +467,17 @@ const CounselorDashboard: React.FC = () => {
                   <MessageSquare size={16} />
                   <span>Message Queue</span>
                 </button>
+                <button
+                  onClick={() => setCurrentView('journals')}
+                  className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors flex items-center space-x-2 ${
+                    currentView === 'journals'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <BookOpen size={16} />
+                  <span>Shared Journals</span>
+                </button>
                 <button
                   onClick={() => setCurrentView('training')}
                   className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors flex items-center space-x-2 ${
@@ -434,6 +559,16 @@ const CounselorDashboard: React.FC = () => {
                 {activeTab === 'new' ? 'New Conversation Requests' : 'My Active Conversations'}
               </h2>
               <div className="flex items-center space-x-4">
+                {activeTab === 'new' && conversations.length > 0 && (
+                  <button
+                    onClick={handleTakeNextBest}
+                    disabled={isFindingNext}
+                    className="flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Zap size={16} />
+                    <span>{isFindingNext ? 'Finding...' : 'Take Next Best'}</span>
+                  </button>
+                )}
                 {activeTab === 'mine' && myConversations.length > 0 && (
                   <button
                     onClick={async () => {
@@ -474,6 +609,7 @@ const CounselorDashboard: React.FC = () => {
                   conversations={conversations}
                   onClaimConversation={handleClaimConversation}
                   isLoading={isLoading}
+                  rankings={rankings}
                 />
               ) : (
                 <ConversationQueue 
@@ -486,6 +622,12 @@ const CounselorDashboard: React.FC = () => {
               )}
             </div>
           </div>
+        ) : currentView === 'journals' ? (
+          /* Shared journal entries and counselor notes */
+          <SharedJournalsView
+            counselorId={user!.uid}
+            counselorName={`${user?.profile?.firstName || ''} ${user?.profile?.lastName || ''}`.trim() || 'Counselor'}
+          />
         ) : currentView === 'training' ? (
           /* Training Mode */
           <div className="space-y-6">
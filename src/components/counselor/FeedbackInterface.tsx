@@ -12,34 +12,39 @@ import {
   BarChart3,
   Clock,
   Award,
-  RefreshCw
+  RefreshCw,
+  AlertTriangle
 } from 'lucide-react';
 import { FeedbackService, AIFeedbackAnalysis, CounselorFeedbackSubmission } from '../../services/feedbackService';
-import { ConversationMessage, ResponseFeedback } from '../../types';
+import { ResponseFeedback } from '../../types';
+import { SelfAssessmentArea } from '../../types/Feedback';
 
 interface FeedbackInterfaceProps {
-  responseContent: string;
-  studentMessage: string;
-  conversationHistory?: ConversationMessage[];
+  messageId: string; // Stored counselor message; the server loads its text and context
   counselorId: string;
-  culturalContext: string;
   onFeedbackComplete?: (feedback: ResponseFeedback) => void;
 }
 
+const AREA_LABELS: Record<SelfAssessmentArea, string> = {
+  empathy: 'Empathy & Listening',
+  culturalSensitivity: 'Cultural Sensitivity',
+  questioning: 'Questioning Skills',
+  goalOrientation: 'Goal Orientation',
+  professionalism: 'Professionalism'
+};
+
 const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
-  responseContent,
-  studentMessage,
-  conversationHistory,
+  messageId,
   counselorId,
-  culturalContext,
   onFeedbackComplete
 }) => {
   const [aiAnalysis, setAiAnalysis] = useState<AIFeedbackAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [showSelfAssessment, setShowSelfAssessment] = useState(false);
   const [selfRating, setSelfRating] = useState(8);
   const [selfReflection, setSelfReflection] = useState('');
-  const [areas, setAreas] = useState({
+  const [areas, setAreas] = useState<Record<SelfAssessmentArea, number>>({
     empathy: 8,
     culturalSensitivity: 8,
     questioning: 7,
@@ -52,21 +57,25 @@ const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
 
   useEffect(() => {
     generateAIFeedback();
-  }, [responseContent, studentMessage]);
+  }, [messageId]);
 
   const generateAIFeedback = async () => {
     try {
       setIsAnalyzing(true);
-      const analysis = await FeedbackService.generateAIFeedback({
-        responseContent,
-        studentMessage,
-        conversationHistory,
-        counselorId,
-        culturalContext
-      });
+      setAnalysisError(null);
+      const analysis = await FeedbackService.generateAIFeedback({ messageId, counselorId });
       setAiAnalysis(analysis);
+      // Start from the earlier self-assessment when this response was already rated
+      if (analysis.selfAssessment) {
+        setSelfRating(analysis.selfAssessment.selfRating);
+        setSelfReflection(analysis.selfAssessment.selfReflection);
+        setAreas(analysis.selfAssessment.areas);
+        setImprovementGoals(analysis.selfAssessment.improvementGoals);
+        setTimeSpent(analysis.selfAssessment.timeSpent);
+      }
     } catch (error) {
       console.error('Failed to generate AI feedback:', error);
+      setAnalysisError('The response could not be analyzed right now.');
     } finally {
       setIsAnalyzing(false);
     }
@@ -79,7 +88,7 @@ const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
       setIsSubmitting(true);
       
       const submission: CounselorFeedbackSubmission = {
-        responseId: Date.now().toString(), // Use actual response ID in production
+        responseId: messageId,
         selfRating,
         selfReflection,
         areas,
@@ -104,6 +113,14 @@ const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
     }
   };
 
+  const aiScores: Record<SelfAssessmentArea, number> = {
+    empathy: aiAnalysis?.empathyScore ?? 0,
+    culturalSensitivity: aiAnalysis?.culturalSensitivityScore ?? 0,
+    questioning: aiAnalysis?.questioningScore ?? 0,
+    goalOrientation: aiAnalysis?.goalOrientationScore ?? 0,
+    professionalism: aiAnalysis?.professionalismScore ?? 0
+  };
+
   const ScoreBar: React.FC<{ label: string; score: number; icon: React.ReactNode }> = ({ label, score, icon }) => (
     <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
       <div className="text-blue-600">{icon}</div>
@@ -260,6 +277,42 @@ const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
               </div>
             )}
 
+            {/* Earlier self-assessment compared with the AI scores */}
+            {aiAnalysis.selfAssessment && (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-3">
+                  <BarChart3 size={20} className="text-blue-600" />
+                  <h3 className="font-semibold text-gray-900">Your Self-Assessment vs AI</h3>
+                </div>
+                <div className="space-y-2 text-sm">
+                  {[
+                    { label: 'Overall', self: aiAnalysis.selfAssessment.selfRating, ai: aiAnalysis.overallRating },
+                    ...(Object.keys(AREA_LABELS) as SelfAssessmentArea[]).map(area => ({
+                      label: AREA_LABELS[area],
+                      self: aiAnalysis.selfAssessment!.areas[area],
+                      ai: aiScores[area]
+                    }))
+                  ].map(row => {
+                    const gap = Math.round((row.self - row.ai) * 10) / 10;
+                    return (
+                      <div key={row.label} className="flex items-center justify-between">
+                        <span className="text-gray-700">{row.label}</span>
+                        <span className="text-gray-900">
+                          You {row.self} · AI {row.ai}
+                          <span className={`ml-2 ${Math.abs(gap) < 1 ? 'text-gray-500' : gap > 0 ? 'text-orange-600' : 'text-blue-600'}`}>
+                            ({gap > 0 ? '+' : ''}{gap})
+                          </span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-3">
+                  Submitted {aiAnalysis.selfAssessment.submittedAt?.toLocaleString()}
+                </p>
+              </div>
+            )}
+
             {/* Self-Assessment Toggle */}
             <div className="border-t pt-6">
               <button
@@ -267,10 +320,22 @@ const FeedbackInterface: React.FC<FeedbackInterfaceProps> = ({
                 className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 font-medium"
               >
                 <BarChart3 size={20} />
-                <span>{showSelfAssessment ? 'Hide' : 'Add'} Self-Assessment</span>
+                <span>{showSelfAssessment ? 'Hide' : aiAnalysis.selfAssessment ? 'Update' : 'Add'} Self-Assessment</span>
               </button>
             </div>
           </div>
+        ) : analysisError ? (
+          <div className="text-center py-8">
+            <AlertTriangle className="text-orange-500 mx-auto mb-3" size={32} />
+            <p className="text-gray-700 mb-4">{analysisError}</p>
+            <button
+              onClick={generateAIFeedback}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <RefreshCw size={16} />
+              <span>Try Again</span>
+            </button>
+          </div>
         ) : null}
 
         {/* Self-Assessment Section */}
@@ -0,0 +1,350 @@
+// Form for authoring a library persona, or saving a new version of one
+import React, { useState } from 'react';
+import { Save, Shuffle, X } from 'lucide-react';
+import {
+  PatientPersona,
+  PatientPersonaDraft,
+  SimulatedPatient,
+  MentalHealthConcern,
+  Gender
+} from '../../types/SimulatedPatient';
+import { CulturalBackground } from '../../types/User';
+import { PatientSimulationService } from '../../services/patientSimulationService';
+import { PatientPersonaService } from '../../services/patientPersonaService';
+import { useAuth } from '../../contexts/AuthContext';
+
+const CULTURAL_BACKGROUND_OPTIONS: Array<{ value: CulturalBackground; label: string }> = [
+  { value: 'african-american', label: 'African American' },
+  { value: 'african', label: 'African (International)' },
+  { value: 'asian-american', label: 'Asian American' },
+  { value: 'east-asian', label: 'East Asian' },
+  { value: 'south-asian', label: 'South Asian' },
+  { value: 'latino-hispanic', label: 'Latino/Hispanic' },
+  { value: 'white-american', label: 'White American' },
+  { value: 'middle-eastern', label: 'Middle Eastern' },
+  { value: 'native-american', label: 'Native American' },
+  { value: 'multiracial', label: 'Multiracial' },
+  { value: 'other', label: 'Other' }
+];
+
+const CONCERN_OPTIONS: MentalHealthConcern[] = [
+  'anxiety', 'depression', 'family-conflict', 'academic-stress',
+  'identity-issues', 'relationship-issues', 'cultural-adjustment', 'perfectionism'
+];
+
+const GENDER_OPTIONS: Gender[] = ['female', 'male', 'non-binary'];
+
+// List fields are edited one item per line
+interface PersonaForm {
+  name: string;
+  culturalBackground: CulturalBackground;
+  gender: Gender;
+  age: number;
+  mentalHealthConcern: MentalHealthConcern;
+  communicationStyle: SimulatedPatient['communicationStyle'];
+  emotionalExpression: SimulatedPatient['emotionalExpression'];
+  trustLevel: SimulatedPatient['trustLevel'];
+  backstory: string;
+  personalityTraits: string;
+  sessionGoals: string;
+  culturalFactors: string;
+  basePersona: string;
+  culturalNuances: string;
+  commonResponses: string;
+  progressionStages: string;
+  triggerTopics: string;
+  culturalStrengths: string;
+  openingMessage: string;
+  changeNote: string;
+  shared: boolean;
+}
+
+const lines = (items: string[] = []) => items.join('\n');
+const splitLines = (text: string) => text.split('\n');
+
+const formFromPatient = (patient: SimulatedPatient | PatientPersona['profile'], persona?: PatientPersona): PersonaForm => {
+  const prompt = persona?.prompt || ('personaPrompt' in patient ? patient.personaPrompt : undefined);
+  return {
+    name: patient.name,
+    culturalBackground: patient.culturalBackground,
+    gender: patient.gender,
+    age: patient.age,
+    mentalHealthConcern: patient.mentalHealthConcern,
+    communicationStyle: patient.communicationStyle,
+    emotionalExpression: patient.emotionalExpression,
+    trustLevel: patient.trustLevel,
+    backstory: patient.backstory,
+    personalityTraits: patient.personalityTraits.join(', '),
+    sessionGoals: lines(patient.sessionGoals),
+    culturalFactors: lines(patient.culturalFactors),
+    basePersona: prompt?.basePersona || '',
+    culturalNuances: lines(prompt?.culturalNuances),
+    commonResponses: lines(prompt?.commonResponses),
+    progressionStages: lines(prompt?.progressionStages),
+    triggerTopics: lines(prompt?.triggerTopics),
+    culturalStrengths: lines(prompt?.culturalStrengths),
+    openingMessage: persona?.openingMessage || '',
+    changeNote: '',
+    shared: persona?.shared || false
+  };
+};
+
+interface PatientPersonaEditorProps {
+  persona?: PatientPersona; // Omit to author a new persona
+  onSaved: (persona: PatientPersona) => void;
+  onCancel: () => void;
+}
+
+export const PatientPersonaEditor: React.FC<PatientPersonaEditorProps> = ({ persona, onSaved, onCancel }) => {
+  const { user } = useAuth();
+  const [form, setForm] = useState<PersonaForm>(() => persona
+    ? formFromPatient(persona.profile, persona)
+    : formFromPatient(PatientSimulationService.generateRandomPatient()));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof PersonaForm>(key: K, value: PersonaForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Start a new persona from a generated patient with the current background and concern
+  const regenerate = () => {
+    const generated = PatientSimulationService.generateRandomPatient({
+      culturalBackground: form.culturalBackground,
+      concern: form.mentalHealthConcern
+    });
+    setForm(prev => ({ ...formFromPatient(generated), shared: prev.shared }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!form.name.trim() || !form.backstory.trim() || !form.basePersona.trim()) {
+      setError('Name, backstory and persona notes are required.');
+      return;
+    }
+
+    const draft: PatientPersonaDraft = {
+      profile: {
+        name: form.name,
+        culturalBackground: form.culturalBackground,
+        gender: form.gender,
+        age: form.age,
+        mentalHealthConcern: form.mentalHealthConcern,
+        personalityTraits: form.personalityTraits.split(','),
+        backstory: form.backstory,
+        sessionGoals: splitLines(form.sessionGoals),
+        communicationStyle: form.communicationStyle,
+        emotionalExpression: form.emotionalExpression,
+        trustLevel: form.trustLevel,
+        culturalFactors: splitLines(form.culturalFactors)
+      },
+      prompt: {
+        basePersona: form.basePersona,
+        culturalNuances: splitLines(form.culturalNuances),
+        commonResponses: splitLines(form.commonResponses),
+        progressionStages: splitLines(form.progressionStages),
+        triggerTopics: splitLines(form.triggerTopics),
+        culturalStrengths: splitLines(form.culturalStrengths)
+      },
+      openingMessage: form.openingMessage,
+      changeNote: form.changeNote,
+      shared: form.shared
+    };
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const authorName = `${user.profile.firstName} ${user.profile.lastName}`.trim();
+      onSaved(await PatientPersonaService.savePersona(draft, { id: user.uid, name: authorName }, persona?.id));
+    } catch (saveError: unknown) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save persona');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+  const listField = (key: keyof PersonaForm, label: string, hint: string, rows = 3) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <textarea
+        value={form[key] as string}
+        onChange={(e) => update(key, e.target.value)}
+        rows={rows}
+        className={inputClass}
+      />
+      <p className="text-xs text-gray-500 mt-1">{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-gray-900">
+          {persona ? `Edit ${persona.profile.name} (saves as v${persona.version + 1})` : 'New Persona'}
+        </h4>
+        <div className="flex items-center space-x-2">
+          {!persona && (
+            <button
+              onClick={regenerate}
+              className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              <Shuffle className="w-4 h-4" />
+              <span>Generate starting point</span>
+            </button>
+          )}
+          <button onClick={onCancel} className="p-1 text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {/* Profile */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input value={form.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Age</label>
+          <input
+            type="number"
+            min={16}
+            max={60}
+            value={form.age}
+            onChange={(e) => update('age', Number(e.target.value) || form.age)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Gender</label>
+          <select value={form.gender} onChange={(e) => update('gender', e.target.value as Gender)} className={inputClass}>
+            {GENDER_OPTIONS.map(gender => <option key={gender} value={gender}>{gender}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Cultural Background</label>
+          <select
+            value={form.culturalBackground}
+            onChange={(e) => update('culturalBackground', e.target.value as CulturalBackground)}
+            className={inputClass}
+          >
+            {CULTURAL_BACKGROUND_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Primary Concern</label>
+          <select
+            value={form.mentalHealthConcern}
+            onChange={(e) => update('mentalHealthConcern', e.target.value as MentalHealthConcern)}
+            className={inputClass}
+          >
+            {CONCERN_OPTIONS.map(concern => <option key={concern} value={concern}>{concern.replace('-', ' ')}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Communication Style</label>
+          <select
+            value={form.communicationStyle}
+            onChange={(e) => update('communicationStyle', e.target.value as PersonaForm['communicationStyle'])}
+            className={inputClass}
+          >
+            <option value="direct">direct</option>
+            <option value="indirect">indirect</option>
+            <option value="mixed">mixed</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Emotional Expression</label>
+          <select
+            value={form.emotionalExpression}
+            onChange={(e) => update('emotionalExpression', e.target.value as PersonaForm['emotionalExpression'])}
+            className={inputClass}
+          >
+            <option value="open">open</option>
+            <option value="reserved">reserved</option>
+            <option value="selective">selective</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Trust Level</label>
+          <select
+            value={form.trustLevel}
+            onChange={(e) => update('trustLevel', e.target.value as PersonaForm['trustLevel'])}
+            className={inputClass}
+          >
+            <option value="high">high</option>
+            <option value="medium">medium</option>
+            <option value="low">low</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className={labelClass}>Backstory</label>
+          <textarea value={form.backstory} onChange={(e) => update('backstory', e.target.value)} rows={4} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Persona Notes</label>
+          <textarea value={form.basePersona} onChange={(e) => update('basePersona', e.target.value)} rows={4} className={inputClass} />
+          <p className="text-xs text-gray-500 mt-1">Who the patient is and how they present, in the actor&apos;s terms.</p>
+        </div>
+        <div>
+          <label className={labelClass}>Personality Traits</label>
+          <input value={form.personalityTraits} onChange={(e) => update('personalityTraits', e.target.value)} className={inputClass} />
+          <p className="text-xs text-gray-500 mt-1">Comma separated.</p>
+        </div>
+        <div>
+          <label className={labelClass}>Opening Message</label>
+          <input
+            value={form.openingMessage}
+            onChange={(e) => update('openingMessage', e.target.value)}
+            placeholder="Optional - a generic opening for the concern is used otherwise"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Roleplay detail */}
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        {listField('culturalFactors', 'Cultural Factors', 'One per line. Cultural elements affecting the case.')}
+        {listField('sessionGoals', 'Session Goals', 'One per line.')}
+        {listField('triggerTopics', 'Trigger Topics', 'One per line. The patient becomes guarded or upset if these are handled carelessly.')}
+        {listField('progressionStages', 'Progression Stages', 'One per line, in order. What the patient is willing to share as the session goes on.', 4)}
+        {listField('culturalNuances', 'Cultural Nuances', 'One per line.')}
+        {listField('culturalStrengths', 'Cultural Strengths', 'One per line. Resources the patient may draw on.')}
+        {listField('commonResponses', 'Typical Lines', 'One per line. Things the patient tends to say.')}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-gray-200">
+        <div className="flex items-center gap-4">
+          {persona && (
+            <input
+              value={form.changeNote}
+              onChange={(e) => update('changeNote', e.target.value)}
+              placeholder="What changed in this version?"
+              className="w-72 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={form.shared} onChange={(e) => update('shared', e.target.checked)} />
+            <span>Share with all counselors</span>
+          </label>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : persona ? 'Save New Version' : 'Save Persona'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
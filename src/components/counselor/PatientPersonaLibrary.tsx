@@ -0,0 +1,246 @@
+// Saved personas to practice with, their version history, and how the counselor's attempts at one compare
+import React, { useCallback, useEffect, useState } from 'react';
+import { BookUser, History, Plus, Pencil, Share2, Lock, RefreshCw } from 'lucide-react';
+import { PatientPersona, PersonaAttemptComparison } from '../../types/SimulatedPatient';
+import { PatientPersonaService } from '../../services/patientPersonaService';
+import { PatientPersonaEditor } from './PatientPersonaEditor';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface PatientPersonaLibraryProps {
+  selectedPersona: PatientPersona | null;
+  onSelect: (persona: PatientPersona | null) => void;
+}
+
+const formatLabel = (value: string) => value.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+export const PatientPersonaLibrary: React.FC<PatientPersonaLibraryProps> = ({ selectedPersona, onSelect }) => {
+  const { user } = useAuth();
+  const [personas, setPersonas] = useState<PatientPersona[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editor: null when closed, 'new' for a new persona, or the persona being edited
+  const [editing, setEditing] = useState<PatientPersona | 'new' | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PatientPersona[]>([]);
+  const [comparison, setComparison] = useState<PersonaAttemptComparison | null>(null);
+
+  const loadLibrary = useCallback(async () => {
+    if (!user) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPersonas(await PatientPersonaService.getLibrary(user.uid));
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load persona library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadLibrary();
+  }, [loadLibrary]);
+
+  // Attempts are compared across every version of the selected persona
+  const selectedPersonaId = selectedPersona?.id;
+  useEffect(() => {
+    setComparison(null);
+    if (!user || !selectedPersonaId) return;
+    PatientPersonaService.getAttemptComparison(user.uid, selectedPersonaId)
+      .then(setComparison)
+      .catch((loadError: unknown) => console.error('Failed to load persona attempts:', loadError));
+  }, [user, selectedPersonaId]);
+
+  const toggleHistory = async (personaId: string) => {
+    if (historyFor === personaId) {
+      setHistoryFor(null);
+      return;
+    }
+    try {
+      setHistoryFor(personaId);
+      setVersions([]);
+      setVersions(await PatientPersonaService.getVersions(personaId));
+    } catch (loadError: unknown) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load persona versions');
+    }
+  };
+
+  const toggleShared = async (persona: PatientPersona) => {
+    try {
+      await PatientPersonaService.setShared(persona.id, !persona.shared);
+      setPersonas(prev => prev.map(item => item.id === persona.id ? { ...item, shared: !persona.shared } : item));
+    } catch (shareError: unknown) {
+      setError(shareError instanceof Error ? shareError.message : 'Failed to update sharing');
+    }
+  };
+
+  const handleSaved = (saved: PatientPersona) => {
+    setEditing(null);
+    setHistoryFor(null);
+    setPersonas(prev => [saved, ...prev.filter(item => item.id !== saved.id)]);
+    if (selectedPersona?.id === saved.id) onSelect(saved);
+  };
+
+  if (editing) {
+    return (
+      <PatientPersonaEditor
+        persona={editing === 'new' ? undefined : editing}
+        onSaved={handleSaved}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <BookUser className="w-5 h-5 text-blue-600" />
+          <h4 className="text-lg font-semibold text-gray-900">Persona Library</h4>
+          <button onClick={loadLibrary} disabled={isLoading} className="text-gray-500 hover:text-gray-700">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Persona</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {personas.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          {isLoading ? 'Loading...' : 'No saved personas yet. Save one to replay the same patient across sessions.'}
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-3">
+          {personas.map(persona => {
+            const isSelected = selectedPersona?.id === persona.id;
+            const isAuthor = persona.authorId === user?.uid;
+            return (
+              <div
+                key={persona.id}
+                className={`border-2 rounded-lg p-3 text-sm ${isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+              >
+                <div className="flex items-start justify-between">
+                  <button onClick={() => onSelect(isSelected ? null : persona)} className="text-left flex-1">
+                    <p className="font-medium text-gray-900">
+                      {persona.profile.name}, {persona.profile.age}
+                      <span className="ml-2 text-xs text-gray-500">
+                        v{isSelected ? selectedPersona?.version : persona.version}
+                        {isSelected && selectedPersona?.version !== persona.version && ` (latest v${persona.version})`}
+                      </span>
+                    </p>
+                    <p className="text-gray-600">
+                      {formatLabel(persona.profile.culturalBackground)} · {formatLabel(persona.profile.mentalHealthConcern)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {isAuthor ? 'Yours' : `By ${persona.authorName || 'another trainer'}`}
+                      {persona.shared ? ' · Shared' : ' · Private'}
+                    </p>
+                  </button>
+                  <div className="flex items-center space-x-1">
+                    <button onClick={() => toggleHistory(persona.id)} className="p-1 text-gray-500 hover:text-gray-700" title="Version history">
+                      <History className="w-4 h-4" />
+                    </button>
+                    {isAuthor && (
+                      <>
+                        <button onClick={() => setEditing(persona)} className="p-1 text-gray-500 hover:text-gray-700" title="Edit (saves a new version)">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleShared(persona)}
+                          className="p-1 text-gray-500 hover:text-gray-700"
+                          title={persona.shared ? 'Stop sharing' : 'Share with all counselors'}
+                        >
+                          {persona.shared ? <Lock className="w-4 h-4" /> : <Share2 className="w-4 h-4" />}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {historyFor === persona.id && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+                    {versions.length === 0 && <p className="text-xs text-gray-500">Loading versions...</p>}
+                    {versions.map(version => (
+                      <div key={version.version} className="flex items-center justify-between">
+                        <div>
+                          <span className="font-medium text-gray-900">v{version.version}</span>
+                          <span className="text-xs text-gray-500"> · {version.updatedAt?.toLocaleDateString()}</span>
+                          {version.changeNote && <p className="text-xs text-gray-600">{version.changeNote}</p>}
+                        </div>
+                        <button
+                          onClick={() => onSelect(version)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {isSelected && selectedPersona?.version === version.version ? 'Selected' : 'Replay this version'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* The counselor's previous attempts at the selected persona */}
+      {selectedPersona && comparison && comparison.attempts.length > 0 && (
+        <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h5 className="font-medium text-gray-900 mb-1">Your attempts with {selectedPersona.profile.name}</h5>
+          <p className="text-xs text-gray-600 mb-3">
+            {comparison.attempts.length} completed session{comparison.attempts.length === 1 ? '' : 's'}
+            {comparison.bestOverallScore !== undefined && ` · best overall ${comparison.bestOverallScore.toFixed(1)}/10`}
+            {comparison.overallScoreChange !== undefined && ` · ${signed(comparison.overallScoreChange)} since your first scored attempt`}
+          </p>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Version</th>
+                <th className="py-2 pr-4 font-medium">Messages</th>
+                <th className="py-2 pr-4 font-medium">Overall</th>
+                <th className="py-2 pr-4 font-medium">Cultural</th>
+                <th className="py-2 pr-4 font-medium">Empathy</th>
+                <th className="py-2 font-medium">Progress</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.attempts.map(attempt => (
+                <tr key={attempt.sessionId} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">{attempt.sessionStarted.toLocaleDateString()}</td>
+                  <td className="py-2 pr-4 text-gray-900">v{attempt.personaVersion}</td>
+                  <td className="py-2 pr-4 text-gray-900">{attempt.messageCount}</td>
+                  {attempt.analysisResults ? (
+                    <>
+                      <td className="py-2 pr-4 text-gray-900">{attempt.analysisResults.overallScore.toFixed(1)}</td>
+                      <td className="py-2 pr-4 text-gray-900">{attempt.analysisResults.culturalCompetencyScore.toFixed(1)}</td>
+                      <td className="py-2 pr-4 text-gray-900">{attempt.analysisResults.empathyScore.toFixed(1)}</td>
+                      <td className="py-2 text-gray-900">{attempt.analysisResults.therapeuticProgressScore.toFixed(1)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="py-2 text-gray-500">Not analyzed (too short)</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {new Set(comparison.attempts.map(attempt => attempt.personaVersion)).size > 1 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Attempts span more than one version of this persona; compare like versions for identical cases.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+// Simulated patient's trust, distress, disclosure depth and engagement over a training session
+import React from 'react';
+import { EmotionalStatePoint, PatientEmotionalState } from '../../types/SimulatedPatient';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 20;
+
+const SERIES: Array<{ key: keyof PatientEmotionalState; label: string; color: string }> = [
+  { key: 'trust', label: 'Trust', color: '#2563eb' },
+  { key: 'distress', label: 'Distress', color: '#dc2626' },
+  { key: 'disclosureDepth', label: 'Disclosure', color: '#9333ea' },
+  { key: 'engagement', label: 'Engagement', color: '#16a34a' }
+];
+
+interface PatientStateChartProps {
+  trajectory: EmotionalStatePoint[];
+}
+
+export const PatientStateChart: React.FC<PatientStateChartProps> = ({ trajectory }) => {
+  if (trajectory.length === 0) return null;
+
+  const current = trajectory[trajectory.length - 1];
+  const xFor = (index: number) =>
+    CHART_PADDING + (index / Math.max(1, trajectory.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const yFor = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - (value / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-2 text-xs">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center space-x-1 text-gray-700">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: series.color }} />
+            <span>{series.label} {current.state[series.key]}</span>
+          </span>
+        ))}
+      </div>
+      {trajectory.length < 2 ? (
+        <p className="text-xs text-gray-500">The chart starts after your first message.</p>
+      ) : (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+          {[0, 50, 100].map(value => (
+            <g key={value}>
+              <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={yFor(value)} y2={yFor(value)} stroke="#e5e7eb" strokeDasharray="4 4" />
+              <text x={0} y={yFor(value) + 4} fontSize="10" fill="#9ca3af">{value}</text>
+            </g>
+          ))}
+          {SERIES.map(series => (
+            <path
+              key={series.key}
+              d={trajectory.map((point, index) => `${index === 0 ? 'M' : 'L'}${xFor(index).toFixed(1)},${yFor(point.state[series.key]).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke={series.color}
+              strokeWidth={2}
+            />
+          ))}
+          {trajectory.map((point, index) => point.assessment && (
+            <circle key={point.messageNumber} cx={xFor(index)} cy={yFor(point.state.trust)} r={3} fill="#2563eb">
+              <title>{`Message ${point.messageNumber}: empathy ${point.assessment.empathy}, validation ${point.assessment.validation}, cultural attunement ${point.assessment.culturalAttunement}${
+                point.assessment.triggeredTopics.length > 0 ? ` · touched on: ${point.assessment.triggeredTopics.join(', ')}` : ''
+              }`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
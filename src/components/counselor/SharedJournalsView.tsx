@@ -0,0 +1,339 @@
+// Journal entries students shared with counselors, with private and student-visible notes
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Eye, Lock, Tag, X, RefreshCw } from 'lucide-react';
+import { JournalService } from '../../services/journalService';
+import { JournalNoteService } from '../../services/journalNoteService';
+import { JournalCounselorNote, JournalEntry, MOOD_EMOJIS } from '../../types';
+import CounselorNoteList from '../journal/CounselorNoteList';
+
+// Offered while writing a note; counselors can add their own tags too
+const SUGGESTED_TAGS = ['follow-up', 'progress', 'coping', 'academic', 'family', 'sleep', 'risk', 'strengths'];
+
+interface SharedJournalsViewProps {
+  counselorId: string;
+  counselorName: string;
+}
+
+const SharedJournalsView: React.FC<SharedJournalsViewProps> = ({ counselorId, counselorName }) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [notes, setNotes] = useState<JournalCounselorNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [noteTags, setNoteTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [noteVisible, setNoteVisible] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSharedJournals();
+  }, []);
+
+  const loadSharedJournals = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const sharedEntries = await JournalService.getSharedEntries();
+      const entryNotes = await JournalNoteService.getNotesForEntries(sharedEntries.map(entry => entry.id));
+      setEntries(sharedEntries);
+      setNotes(entryNotes);
+    } catch (error) {
+      console.error('Failed to load shared journals:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load shared journals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetComposer = () => {
+    setNoteText('');
+    setNoteTags([]);
+    setTagInput('');
+    setNoteVisible(false);
+  };
+
+  const openEntry = (entryId: string) => {
+    setExpandedEntryId(expandedEntryId === entryId ? null : entryId);
+    resetComposer();
+  };
+
+  const toggleFilterTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const addNoteTags = (value: string) => {
+    const tags = JournalNoteService.normalizeTags([...noteTags, ...value.split(',')]);
+    setNoteTags(tags);
+    setTagInput('');
+  };
+
+  const handleAddNote = async (entryId: string) => {
+    if (!noteText.trim()) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const tags = tagInput.trim()
+        ? JournalNoteService.normalizeTags([...noteTags, ...tagInput.split(',')])
+        : noteTags;
+      const noteId = await JournalNoteService.addNote(
+        entryId,
+        { id: counselorId, name: counselorName },
+        { note: noteText, isVisible: noteVisible, tags }
+      );
+      const entry = entries.find(e => e.id === entryId);
+
+      setNotes(prev => [...prev, {
+        id: noteId,
+        entryId,
+        studentId: entry?.studentId || '',
+        counselorId,
+        counselorName,
+        note: noteText.trim(),
+        isVisible: noteVisible,
+        tags,
+        readByStudent: !noteVisible,
+        timestamp: new Date()
+      }]);
+      resetComposer();
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleVisibility = async (note: JournalCounselorNote) => {
+    const isVisible = !note.isVisible;
+    if (isVisible && !confirm('Share this note with the student? They will be notified.')) return;
+
+    try {
+      await JournalNoteService.updateNote(note.id, counselorId, { isVisible });
+      setNotes(prev => prev.map(n => n.id === note.id
+        ? { ...n, isVisible, readByStudent: isVisible ? false : n.readByStudent, updatedAt: new Date() }
+        : n
+      ));
+    } catch (error) {
+      console.error('Failed to update note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update note');
+    }
+  };
+
+  const handleDeleteNote = async (note: JournalCounselorNote) => {
+    if (!confirm('Delete this note?')) return;
+
+    try {
+      await JournalNoteService.deleteNote(note.id, counselorId);
+      setNotes(prev => prev.filter(n => n.id !== note.id));
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete note');
+    }
+  };
+
+  const notesByEntry = JournalNoteService.groupByEntry(notes);
+  const availableTags = JournalNoteService.collectTags(notes);
+  const visibleEntries = JournalNoteService.filterEntriesByTags(entries, notes, selectedTags);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center space-x-2">
+            <BookOpen size={20} />
+            <span>Shared Journals</span>
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Entries students chose to share. Private notes are only seen by counselors.
+          </p>
+        </div>
+        <button
+          onClick={loadSharedJournals}
+          className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+        >
+          <RefreshCw size={14} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Tag filter */}
+      {availableTags.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+          <Tag size={14} className="text-gray-500" />
+          {availableTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleFilterTag(tag)}
+              className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                selectedTags.includes(tag)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => setSelectedTags([])}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              Clear filter
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-200">
+        {visibleEntries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <BookOpen className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p>{selectedTags.length > 0 ? 'No entries have notes with these tags.' : 'No journal entries have been shared yet.'}</p>
+          </div>
+        ) : (
+          visibleEntries.map(entry => {
+            const entryNotes = notesByEntry[entry.id] || [];
+            const isExpanded = expandedEntryId === entry.id;
+
+            return (
+              <div key={entry.id} className="p-6">
+                <button onClick={() => openEntry(entry.id)} className="w-full text-left">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xl">{MOOD_EMOJIS[entry.mood]}</span>
+                      <span className="font-medium text-gray-900">{entry.title || 'Untitled entry'}</span>
+                      <span className="text-xs text-gray-500">{entry.timestamp.toLocaleDateString()}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-xs text-gray-600">
+                      <span>{entry.anonymousSharing ? 'Anonymous student' : `Student ${entry.studentId.slice(0, 6)}`}</span>
+                      {entryNotes.length > 0 && (
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
+                          {entryNotes.length} note{entryNotes.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <p className={`mt-2 text-sm text-gray-700 ${isExpanded ? 'whitespace-pre-wrap' : 'line-clamp-2'}`}>
+                    {entry.content}
+                  </p>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-4 space-y-4">
+                    {entry.emotionTags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {entry.emotionTags.map(emotion => (
+                          <span key={emotion} className="px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full">
+                            {emotion}
+                          </span>
+                        ))}
+                        <span className="px-2 py-1 text-xs text-gray-600">Intensity {entry.intensityLevel}/10</span>
+                      </div>
+                    )}
+
+                    <CounselorNoteList
+                      notes={entryNotes}
+                      currentCounselorId={counselorId}
+                      onToggleVisibility={handleToggleVisibility}
+                      onDelete={handleDeleteNote}
+                      selectedTags={selectedTags}
+                      onTagClick={toggleFilterTag}
+                    />
+
+                    {/* Note composer */}
+                    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+                      <textarea
+                        value={noteText}
+                        onChange={(e) => setNoteText(e.target.value)}
+                        placeholder="Add a note about this entry..."
+                        className="w-full p-3 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black text-sm"
+                        rows={3}
+                        maxLength={2000}
+                      />
+
+                      <div>
+                        <div className="flex flex-wrap items-center gap-1 mb-2">
+                          {noteTags.map(tag => (
+                            <span key={tag} className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
+                              <span>#{tag}</span>
+                              <button onClick={() => setNoteTags(noteTags.filter(t => t !== tag))}>
+                                <X size={10} />
+                              </button>
+                            </span>
+                          ))}
+                          <input
+                            type="text"
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                              if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) {
+                                e.preventDefault();
+                                addNoteTags(tagInput);
+                              }
+                            }}
+                            placeholder="Add tags"
+                            className="flex-1 min-w-[8rem] px-2 py-1 text-xs border border-gray-300 rounded text-black"
+                          />
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {SUGGESTED_TAGS.filter(tag => !noteTags.includes(tag)).map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => addNoteTags(tag)}
+                              className="px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200"
+                            >
+                              +{tag}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={noteVisible}
+                            onChange={(e) => setNoteVisible(e.target.checked)}
+                            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                          />
+                          {noteVisible ? <Eye size={14} /> : <Lock size={14} />}
+                          <span>{noteVisible ? 'Visible to student (they will be notified)' : 'Private to counselors'}</span>
+                        </label>
+                        <button
+                          onClick={() => handleAddNote(entry.id)}
+                          disabled={!noteText.trim() || isSaving}
+                          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isSaving ? 'Saving...' : 'Add Note'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedJournalsView;
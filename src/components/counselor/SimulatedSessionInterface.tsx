@@ -10,6 +10,7 @@ import {
   Info,
   MessageCircle,
   BarChart3,
+  Activity,
   X,
   Volume2,
   Languages
@@ -19,16 +20,22 @@ import {
   SimulationSession, 
   SimulationMessage, 
   PatientGenerationOptions,
+  PatientPersona,
+  EmotionalStatePoint,
   Gender,
   MentalHealthConcern
 } from '../../types/SimulatedPatient';
 import { PatientSimulationService } from '../../services/patientSimulationService';
+import { PatientPersonaService } from '../../services/patientPersonaService';
+import { PatientStateService } from '../../services/patientStateService';
 import { SessionEndDetectionService } from '../../services/sessionEndDetectionService';
 import { ConversationAnalysisService } from '../../services/conversationAnalysisService';
 import { TrainingSessionService } from '../../services/trainingSessionService';
 import { useAuth } from '../../contexts/AuthContext';
 import { ConversationFeedback } from '../../types/Feedback';
 import { CulturalBackground } from '../../types/User';
+import { PatientPersonaLibrary } from './PatientPersonaLibrary';
+import { PatientStateChart } from './PatientStateChart';
 
 interface CBTSimulatorContext {
   suggestedConcern: string;
@@ -53,6 +60,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
   const [currentSession, setCurrentSession] = useState<SimulationSession | null>(null);
   const [currentPatient, setCurrentPatient] = useState<SimulatedPatient | null>(null);
   const [messages, setMessages] = useState<SimulationMessage[]>([]);
+  const [emotionalTrajectory, setEmotionalTrajectory] = useState<EmotionalStatePoint[]>([]);
   const [sessionActive, setSessionActive] = useState(false);
   
   // UI state
@@ -61,6 +69,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
   const [sessionEndDetected, setSessionEndDetected] = useState(false);
   const [sessionEndConfidence, setSessionEndConfidence] = useState<'high' | 'medium' | 'low' | null>(null);
   const [showPatientInfo, setShowPatientInfo] = useState(false);
+  const [showPatientState, setShowPatientState] = useState(false);
   const [showSessionOptions, setShowSessionOptions] = useState(false);
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
   const [sessionDuration, setSessionDuration] = useState(0);
@@ -73,6 +82,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
   const [generationOptions, setGenerationOptions] = useState<PatientGenerationOptions>({});
   const [showPatientSelection, setShowPatientSelection] = useState(true);
   const [selectedOptions, setSelectedOptions] = useState<PatientGenerationOptions>({});
+  const [selectedPersona, setSelectedPersona] = useState<PatientPersona | null>(null);
   
   // Audio state for text-to-speech
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
@@ -134,8 +144,10 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
   // Start new training session with selected patient characteristics
   const startNewSession = async () => {
     try {
-      // Use selected options to generate patient
-      const patient = PatientSimulationService.generateRandomPatient(selectedOptions);
+      // Replay the selected library persona, or generate a patient from the selected options
+      const patient = selectedPersona
+        ? PatientPersonaService.toPatient(selectedPersona)
+        : PatientSimulationService.generateRandomPatient(selectedOptions);
       const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       
       const session: SimulationSession = {
@@ -144,22 +156,27 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
         simulatedPatient: patient,
         sessionStarted: new Date(),
         messages: [],
-        sessionOutcome: 'ongoing'
+        sessionOutcome: 'ongoing',
+        ...(selectedPersona && { personaId: selectedPersona.id, personaVersion: selectedPersona.version })
       };
 
+      const initialState = PatientStateService.initialState(patient);
+
       // Generate opening patient message
       const openingMessage: SimulationMessage = {
         id: `msg_${Date.now()}`,
         sessionId,
-        content: generateOpeningMessage(patient),
+        content: selectedPersona?.openingMessage || generateOpeningMessage(patient),
         senderType: 'patient',
         timestamp: new Date(),
-        messageNumber: 1
+        messageNumber: 1,
+        emotionalTone: PatientStateService.describeTone(initialState)
       };
 
       setCurrentSession(session);
       setCurrentPatient(patient);
       setMessages([openingMessage]);
+      setEmotionalTrajectory([{ messageNumber: 0, state: initialState }]);
       setSessionActive(true);
       setSessionStartTime(new Date());
       setSessionEndDetected(false);
@@ -183,6 +200,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
     setCurrentSession(null);
     setCurrentPatient(null);
     setMessages([]);
+    setEmotionalTrajectory([]);
   };
 
   // Send counselor message
@@ -232,23 +250,44 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
         ? `The counselor is practicing CBT skills. Objective: ${cbtContext.objective}. Respond in a way that gives the counselor opportunities to practice these CBT techniques.`
         : undefined;
 
-      const patientResponse = await PatientSimulationService.generatePatientResponse(
+      const currentState = emotionalTrajectory.length > 0
+        ? emotionalTrajectory[emotionalTrajectory.length - 1].state
+        : PatientStateService.initialState(currentPatient);
+
+      const patientTurn = await PatientSimulationService.generatePatientResponse(
         currentPatient,
         updatedMessages,
         counselorInput,
+        currentState,
         cbtContextString
       );
 
       const patientMessage: SimulationMessage = {
         id: `msg_${Date.now()}`,
         sessionId: currentSession.id,
-        content: patientResponse,
+        content: patientTurn.content,
         senderType: 'patient',
         timestamp: new Date(),
-        messageNumber: updatedMessages.length + 1
+        messageNumber: updatedMessages.length + 1,
+        ...(patientTurn.emotionalTone && { emotionalTone: patientTurn.emotionalTone }),
+        ...(patientTurn.culturalReferences && { culturalReferences: patientTurn.culturalReferences })
       };
 
-      setMessages(prev => [...prev, patientMessage]);
+      // The assessment describes the counselor's message; the state only moves when it was assessed
+      const { assessment } = patientTurn;
+      setMessages(prev => [
+        ...prev.map(msg => msg.id === messageId && assessment
+          ? { ...msg, emotionalTone: assessment.tone, culturalReferences: assessment.culturalReferences }
+          : msg),
+        patientMessage
+      ]);
+      if (assessment) {
+        setEmotionalTrajectory(prev => [...prev, {
+          messageNumber: counselorMessage.messageNumber,
+          state: patientTurn.state,
+          assessment
+        }]);
+      }
     } catch (error) {
       console.error('Failed to generate patient response:', error);
     } finally {
@@ -282,7 +321,8 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
         sessionEnded: new Date(),
         messages,
         sessionOutcome: 'completed',
-        sessionDuration: sessionSummary.duration
+        sessionDuration: sessionSummary.duration,
+        emotionalTrajectory
       };
 
       // Save session to Firestore
@@ -312,6 +352,12 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
 
           // Save analysis to Firestore
           // await TrainingSessionService.saveTrainingAnalysis(savedSessionId, conversationAnalysis);
+
+          // Keep the summary scores on the session so attempts at the same persona can be compared
+          completedSession.analysisResults = TrainingSessionService.toSessionAnalysisResults(conversationAnalysis);
+          await TrainingSessionService.updateTrainingSession(savedSessionId, {
+            analysisResults: completedSession.analysisResults
+          }).catch(error => console.error('Failed to save session scores:', error));
           
           setAnalysisResults({
             ...conversationAnalysis,
@@ -349,6 +395,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
     setCurrentSession(null);
     setCurrentPatient(null);
     setMessages([]);
+    setEmotionalTrajectory([]);
     setSessionActive(false);
     setSessionStartTime(null);
     setSessionDuration(0);
@@ -554,6 +601,16 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
               <Info className="w-4 h-4" />
             </button>
           )}
+
+          {emotionalTrajectory.length > 0 && (
+            <button
+              onClick={() => setShowPatientState(!showPatientState)}
+              className="p-2 text-gray-500 hover:text-gray-700 transition-colors"
+              title="Patient Emotional State"
+            >
+              <Activity className="w-4 h-4" />
+            </button>
+          )}
           
           <button
             onClick={() => setShowSessionOptions(!showSessionOptions)}
@@ -614,6 +671,18 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
         </div>
       )}
 
+      {/* Patient Emotional State Panel */}
+      {showPatientState && emotionalTrajectory.length > 0 && (
+        <div className="p-4 bg-gray-50 border-b border-gray-200">
+          <h3 className="font-medium text-gray-900 mb-2">
+            Patient State <span className="text-sm font-normal text-gray-600">
+              · {PatientStateService.describeTone(emotionalTrajectory[emotionalTrajectory.length - 1].state)}
+            </span>
+          </h3>
+          <PatientStateChart trajectory={emotionalTrajectory} />
+        </div>
+      )}
+
       {/* Session End Detection Alert */}
       {sessionEndDetected && (
         <div className={`p-3 border-b ${
@@ -671,168 +740,186 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
               </p>
             </div>
 
-            {/* Cultural Background Selection */}
+            {/* Saved personas */}
             <div className="mb-8">
-              <h4 className="text-lg font-semibold text-gray-900 mb-4">Cultural Background</h4>
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {[
-                  { value: 'african-american', label: 'African American' },
-                  { value: 'african', label: 'African (International)' },
-                  { value: 'asian-american', label: 'Asian American' },
-                  { value: 'east-asian', label: 'East Asian' },
-                  { value: 'south-asian', label: 'South Asian' },
-                  { value: 'latino-hispanic', label: 'Latino/Hispanic' },
-                  { value: 'white-american', label: 'White American' },
-                  { value: 'middle-eastern', label: 'Middle Eastern' },
-                  { value: 'native-american', label: 'Native American' },
-                  { value: 'multiracial', label: 'Multiracial' },
-                  { value: 'other', label: 'Other' },
-                  { value: 'random', label: '🎲 Random' }
-                ].map((option) => (
-                  <button
-                    key={option.value}
-                    onClick={() => setSelectedOptions(prev => ({ 
-                      ...prev, 
-                      culturalBackground: option.value === 'random' ? undefined : option.value as CulturalBackground
-                    }))}
-                    className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
-                      selectedOptions.culturalBackground === option.value || 
-                      (option.value === 'random' && !selectedOptions.culturalBackground)
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
-              </div>
+              <PatientPersonaLibrary selectedPersona={selectedPersona} onSelect={setSelectedPersona} />
             </div>
 
-            {/* Gender Selection */}
-            <div className="mb-8">
-              <h4 className="text-lg font-semibold text-gray-900 mb-4">Gender</h4>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                {[
-                  { value: 'female', label: 'Female' },
-                  { value: 'male', label: 'Male' },
-                  { value: 'non-binary', label: 'Non-binary' },
-                  { value: 'random', label: '🎲 Random' }
-                ].map((option) => (
-                  <button
-                    key={option.value}
-                    onClick={() => setSelectedOptions(prev => ({ 
-                      ...prev, 
-                      gender: option.value === 'random' ? undefined : option.value as Gender
-                    }))}
-                    className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
-                      selectedOptions.gender === option.value || 
-                      (option.value === 'random' && !selectedOptions.gender)
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
+            {!selectedPersona && (
+              <>
+              {/* Cultural Background Selection */}
+              <div className="mb-8">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Cultural Background</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {[
+                    { value: 'african-american', label: 'African American' },
+                    { value: 'african', label: 'African (International)' },
+                    { value: 'asian-american', label: 'Asian American' },
+                    { value: 'east-asian', label: 'East Asian' },
+                    { value: 'south-asian', label: 'South Asian' },
+                    { value: 'latino-hispanic', label: 'Latino/Hispanic' },
+                    { value: 'white-american', label: 'White American' },
+                    { value: 'middle-eastern', label: 'Middle Eastern' },
+                    { value: 'native-american', label: 'Native American' },
+                    { value: 'multiracial', label: 'Multiracial' },
+                    { value: 'other', label: 'Other' },
+                    { value: 'random', label: '🎲 Random' }
+                  ].map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSelectedOptions(prev => ({ 
+                        ...prev, 
+                        culturalBackground: option.value === 'random' ? undefined : option.value as CulturalBackground
+                      }))}
+                      className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
+                        selectedOptions.culturalBackground === option.value || 
+                        (option.value === 'random' && !selectedOptions.culturalBackground)
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
 
-            {/* Mental Health Concern Selection */}
-            <div className="mb-8">
-              <h4 className="text-lg font-semibold text-gray-900 mb-4">Mental Health Concern</h4>
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {[
-                  { value: 'anxiety', label: 'Anxiety' },
-                  { value: 'depression', label: 'Depression' },
-                  { value: 'family-conflict', label: 'Family Conflict' },
-                  { value: 'academic-stress', label: 'Academic Stress' },
-                  { value: 'identity-issues', label: 'Identity Issues' },
-                  { value: 'relationship-issues', label: 'Relationship Issues' },
-                  { value: 'cultural-adjustment', label: 'Cultural Adjustment' },
-                  { value: 'perfectionism', label: 'Perfectionism' },
-                  { value: 'random', label: '🎲 Random' }
-                ].map((option) => (
-                  <button
-                    key={option.value}
-                    onClick={() => setSelectedOptions(prev => ({ 
-                      ...prev, 
-                      concern: option.value === 'random' ? undefined : option.value as MentalHealthConcern
-                    }))}
-                    className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
-                      selectedOptions.concern === option.value || 
-                      (option.value === 'random' && !selectedOptions.concern)
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
+              {/* Gender Selection */}
+              <div className="mb-8">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Gender</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {[
+                    { value: 'female', label: 'Female' },
+                    { value: 'male', label: 'Male' },
+                    { value: 'non-binary', label: 'Non-binary' },
+                    { value: 'random', label: '🎲 Random' }
+                  ].map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSelectedOptions(prev => ({ 
+                        ...prev, 
+                        gender: option.value === 'random' ? undefined : option.value as Gender
+                      }))}
+                      className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
+                        selectedOptions.gender === option.value || 
+                        (option.value === 'random' && !selectedOptions.gender)
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
 
-            {/* Age Range Selection */}
-            <div className="mb-8">
-              <h4 className="text-lg font-semibold text-gray-900 mb-4">Age Range</h4>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                {[
-                  { value: [18, 20], label: '18-20 years' },
-                  { value: [21, 23], label: '21-23 years' },
-                  { value: [24, 26], label: '24-26 years' },
-                  { value: 'random', label: '🎲 Random (18-26)' }
-                ].map((option) => (
-                  <button
-                    key={option.label}
-                    onClick={() => setSelectedOptions(prev => ({ 
-                      ...prev, 
-                      ageRange: option.value === 'random' ? undefined : option.value as string
-                    }))}
-                    className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
-                      JSON.stringify(selectedOptions.ageRange) === JSON.stringify(option.value) || 
-                      (option.value === 'random' && !selectedOptions.ageRange)
-                        ? 'border-blue-500 bg-blue-50 text-blue-700'
-                        : 'border-gray-200 hover:border-gray-300 text-gray-700'
-                    }`}
-                  >
-                    {option.label}
-                  </button>
-                ))}
+              {/* Mental Health Concern Selection */}
+              <div className="mb-8">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Mental Health Concern</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {[
+                    { value: 'anxiety', label: 'Anxiety' },
+                    { value: 'depression', label: 'Depression' },
+                    { value: 'family-conflict', label: 'Family Conflict' },
+                    { value: 'academic-stress', label: 'Academic Stress' },
+                    { value: 'identity-issues', label: 'Identity Issues' },
+                    { value: 'relationship-issues', label: 'Relationship Issues' },
+                    { value: 'cultural-adjustment', label: 'Cultural Adjustment' },
+                    { value: 'perfectionism', label: 'Perfectionism' },
+                    { value: 'random', label: '🎲 Random' }
+                  ].map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSelectedOptions(prev => ({ 
+                        ...prev, 
+                        concern: option.value === 'random' ? undefined : option.value as MentalHealthConcern
+                      }))}
+                      className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
+                        selectedOptions.concern === option.value || 
+                        (option.value === 'random' && !selectedOptions.concern)
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
+
+              {/* Age Range Selection */}
+              <div className="mb-8">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Age Range</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {[
+                    { value: [18, 20], label: '18-20 years' },
+                    { value: [21, 23], label: '21-23 years' },
+                    { value: [24, 26], label: '24-26 years' },
+                    { value: 'random', label: '🎲 Random (18-26)' }
+                  ].map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => setSelectedOptions(prev => ({ 
+                        ...prev, 
+                        ageRange: option.value === 'random' ? undefined : option.value as string
+                      }))}
+                      className={`p-3 border-2 rounded-lg text-sm font-medium transition-all ${
+                        JSON.stringify(selectedOptions.ageRange) === JSON.stringify(option.value) || 
+                        (option.value === 'random' && !selectedOptions.ageRange)
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              </>
+            )}
 
             {/* Selection Summary */}
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
               <h4 className="font-medium text-gray-900 mb-2">Selected Patient Profile:</h4>
-              <div className="text-sm text-gray-600 space-y-1">
-                <p>
-                  <strong>Cultural Background:</strong> {
-                    selectedOptions.culturalBackground 
-                      ? selectedOptions.culturalBackground.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Random'
-                  }
-                </p>
-                <p>
-                  <strong>Gender:</strong> {
-                    selectedOptions.gender 
-                      ? selectedOptions.gender.charAt(0).toUpperCase() + selectedOptions.gender.slice(1)
-                      : 'Random'
-                  }
-                </p>
-                <p>
-                  <strong>Concern:</strong> {
-                    selectedOptions.concern 
-                      ? selectedOptions.concern.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())
-                      : 'Random'
-                  }
-                </p>
-                <p>
-                  <strong>Age:</strong> {
-                    selectedOptions.ageRange 
-                      ? `${selectedOptions.ageRange[0]}-${selectedOptions.ageRange[1]} years`
-                      : 'Random (18-26 years)'
-                  }
-                </p>
-              </div>
+              {selectedPersona ? (
+                <div className="text-sm text-gray-600 space-y-1">
+                  <p>
+                    <strong>Persona:</strong> {selectedPersona.profile.name}, {selectedPersona.profile.age} (v{selectedPersona.version})
+                  </p>
+                  <p><strong>Background:</strong> {selectedPersona.profile.backstory}</p>
+                </div>
+              ) : (
+                <div className="text-sm text-gray-600 space-y-1">
+                  <p>
+                    <strong>Cultural Background:</strong> {
+                      selectedOptions.culturalBackground 
+                        ? selectedOptions.culturalBackground.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())
+                        : 'Random'
+                    }
+                  </p>
+                  <p>
+                    <strong>Gender:</strong> {
+                      selectedOptions.gender 
+                        ? selectedOptions.gender.charAt(0).toUpperCase() + selectedOptions.gender.slice(1)
+                        : 'Random'
+                    }
+                  </p>
+                  <p>
+                    <strong>Concern:</strong> {
+                      selectedOptions.concern 
+                        ? selectedOptions.concern.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())
+                        : 'Random'
+                    }
+                  </p>
+                  <p>
+                    <strong>Age:</strong> {
+                      selectedOptions.ageRange 
+                        ? `${selectedOptions.ageRange[0]}-${selectedOptions.ageRange[1]} years`
+                        : 'Random (18-26 years)'
+                    }
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Start Session Button */}
@@ -841,7 +928,7 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
                 onClick={startNewSession}
                 className="px-8 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors text-lg"
               >
-                Start Training Session with This Patient
+                {selectedPersona ? `Start Training Session with ${selectedPersona.profile.name}` : 'Start Training Session with This Patient'}
               </button>
             </div>
           </div>
@@ -887,6 +974,8 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
                         }`}
                       >
                         {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {message.emotionalTone && ` · ${message.emotionalTone}`}
+                        {message.culturalReferences && message.culturalReferences.length > 0 && ` · ${message.culturalReferences.join(', ')}`}
                       </div>
                     </div>
 
@@ -1130,6 +1219,16 @@ export const SimulatedSessionInterface: React.FC<SimulatedSessionInterfaceProps>
                 </div>
               )}
 
+              {/* Patient Emotional Trajectory */}
+              {emotionalTrajectory.length > 1 && (
+                <div className="mb-6">
+                  <h3 className="text-xl font-semibold text-gray-900 mb-4">How {currentPatient?.name} Responded Over the Session</h3>
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <PatientStateChart trajectory={emotionalTrajectory} />
+                  </div>
+                </div>
+              )}
+
               {/* Patient Context Reminder */}
               {currentPatient && (
                 <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
@@ -15,7 +15,8 @@ import {
   Award,
   BookOpen,
   Globe,
-  ArrowRight
+  ArrowRight,
+  CornerUpLeft
 } from 'lucide-react';
 import { ConversationFeedback } from '../../types/Feedback';
 
@@ -341,6 +342,48 @@ const ConversationFeedbackCard: React.FC<ConversationFeedbackCardProps> = ({
           </div>
         )}
 
+        {/* Reply Threads */}
+        {feedback.replyAnalysis && feedback.replyAnalysis.assessments.length > 0 && (
+          <div>
+            <SectionHeader
+              icon={<CornerUpLeft className="h-5 w-5 text-teal-600" />}
+              title="Reply Threads"
+              count={feedback.replyAnalysis.assessments.length}
+              sectionKey="replies"
+              color="bg-teal-50 border-teal-200"
+            />
+            {expandedSections.has('replies') && (
+              <div className="mt-4 space-y-3">
+                {feedback.replyAnalysis.assessments.map((assessment, index) => (
+                  <div
+                    key={index}
+                    className={`p-4 rounded-lg border-l-4 ${
+                      assessment.addressedTarget ? 'bg-green-50 border-green-400' : 'bg-orange-50 border-orange-400'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2 mb-2">
+                      <span className="text-sm font-semibold text-gray-800">
+                        Message #{assessment.replyMessageNumber} → Message #{assessment.targetMessageNumber}
+                      </span>
+                      {assessment.addressedTarget ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4 text-orange-600" />
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700">{assessment.note}</p>
+                  </div>
+                ))}
+                {feedback.replyAnalysis.studentTurnsWithoutReplies.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Student messages without a direct reply: {feedback.replyAnalysis.studentTurnsWithoutReplies.map(n => `#${n}`).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Conversation Metadata */}
         <div className="pt-4 border-t border-gray-200">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
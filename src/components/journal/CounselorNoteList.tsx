@@ -0,0 +1,110 @@
+// Counselor notes on a journal entry; students only ever receive visible notes
+import React from 'react';
+import { Eye, EyeOff, Lock, MessageSquare, Trash2 } from 'lucide-react';
+import { JournalCounselorNote } from '../../types';
+
+interface CounselorNoteListProps {
+  notes: JournalCounselorNote[];
+  currentCounselorId?: string; // Authors can change visibility and delete their notes
+  onToggleVisibility?: (note: JournalCounselorNote) => void;
+  onDelete?: (note: JournalCounselorNote) => void;
+  selectedTags?: string[];
+  onTagClick?: (tag: string) => void;
+}
+
+const CounselorNoteList: React.FC<CounselorNoteListProps> = ({
+  notes,
+  currentCounselorId,
+  onToggleVisibility,
+  onDelete,
+  selectedTags = [],
+  onTagClick
+}) => {
+  if (notes.length === 0) {
+    return <p className="text-xs text-gray-500">No notes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {notes.map(note => {
+        const isAuthor = currentCounselorId !== undefined && note.counselorId === currentCounselorId;
+
+        return (
+          <div
+            key={note.id}
+            className={`p-3 rounded-lg border ${
+              note.isVisible ? 'bg-teal-50 border-teal-200' : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <div className="flex items-start justify-between mb-1">
+              <div className="flex items-center space-x-2 text-xs text-gray-600">
+                <MessageSquare size={12} />
+                <span className="font-medium text-gray-900">{note.counselorName}</span>
+                <span>{note.timestamp.toLocaleDateString()}</span>
+                {note.updatedAt && <span className="italic">(edited)</span>}
+                {currentCounselorId !== undefined && (
+                  note.isVisible ? (
+                    <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-teal-100 text-teal-800 rounded-full">
+                      <Eye size={10} />
+                      <span>Visible to student</span>
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full">
+                      <Lock size={10} />
+                      <span>Private</span>
+                    </span>
+                  )
+                )}
+              </div>
+              {isAuthor && (
+                <div className="flex items-center space-x-2">
+                  {onToggleVisibility && (
+                    <button
+                      onClick={() => onToggleVisibility(note)}
+                      className="text-gray-400 hover:text-teal-600"
+                      title={note.isVisible ? 'Make private' : 'Share with student'}
+                    >
+                      {note.isVisible ? <EyeOff size={14} /> : <Eye size={14} />}
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      onClick={() => onDelete(note)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete note"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{note.note}</p>
+
+            {note.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {note.tags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => onTagClick?.(tag)}
+                    disabled={!onTagClick}
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      selectedTags.includes(tag)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-200'
+                    } ${onTagClick ? 'hover:border-blue-300' : 'cursor-default'}`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CounselorNoteList;
@@ -0,0 +1,171 @@
+// Lets a student choose journal entries (and how much of them) to share with a counselor
+import React, { useState, useEffect } from 'react';
+import { Lock, Search } from 'lucide-react';
+import { JournalService } from '../../services/journalService';
+import { JournalEntry, MOOD_EMOJIS } from '../../types/Journal';
+import { JournalContextOptions } from '../../types';
+
+interface JournalContextPickerProps {
+  studentId: string;
+  selectedEntryIds: string[];
+  onSelectedEntryIdsChange: (entryIds: string[]) => void;
+  options: JournalContextOptions;
+  onOptionsChange: (options: JournalContextOptions) => void;
+  maxEntries?: number;
+}
+
+const RECENT_ENTRY_LIMIT = 20;
+
+const JournalContextPicker: React.FC<JournalContextPickerProps> = ({
+  studentId,
+  selectedEntryIds,
+  onSelectedEntryIdsChange,
+  options,
+  onOptionsChange,
+  maxEntries = 5
+}) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasEntries, setHasEntries] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [hasEncryptedEntries, setHasEncryptedEntries] = useState(false);
+
+  // Most recent entries, or the best matches while searching (served from the local search index).
+  // Encrypted entries are left out: counselors can't hold the student's key, so they are never shared
+  useEffect(() => {
+    let cancelled = false;
+
+    JournalService.searchEntries(
+      studentId,
+      { includePrivate: true, sortBy: searchTerm.trim() ? 'relevance' : 'date', sortOrder: 'desc', searchTerm },
+      { page: 1, pageSize: RECENT_ENTRY_LIMIT }
+    )
+      .then(results => {
+        if (cancelled) return;
+        const shareable = results.entries.filter(entry => !entry.isEncrypted);
+        setEntries(shareable);
+        setHasEncryptedEntries(shareable.length < results.entries.length);
+        if (!searchTerm.trim()) setHasEntries(shareable.length > 0);
+      })
+      .catch(error => console.error('Failed to load journal entries:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId, searchTerm]);
+
+  const toggleEntry = (entryId: string) => {
+    if (selectedEntryIds.includes(entryId)) {
+      onSelectedEntryIdsChange(selectedEntryIds.filter(id => id !== entryId));
+    } else if (selectedEntryIds.length < maxEntries) {
+      onSelectedEntryIdsChange([...selectedEntryIds, entryId]);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Loading your journal...</p>;
+  }
+
+  if (!hasEntries && !searchTerm.trim()) {
+    return (
+      <p className="text-xs text-gray-500">
+        {hasEncryptedEntries
+          ? 'Encrypted journal entries can\'t be shared with counselors, and you have no other entries yet.'
+          : 'You don\'t have any journal entries yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search size={14} className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search your journal..."
+          className="w-full pl-7 pr-2 py-1 border border-gray-300 rounded text-sm text-black"
+        />
+      </div>
+      <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {entries.length === 0 && (
+          <p className="p-2 text-xs text-gray-500">No entries match your search.</p>
+        )}
+        {entries.map(entry => (
+          <label key={entry.id} className="flex items-start space-x-2 p-2 hover:bg-gray-50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedEntryIds.includes(entry.id)}
+              onChange={() => toggleEntry(entry.id)}
+              disabled={!selectedEntryIds.includes(entry.id) && selectedEntryIds.length >= maxEntries}
+              className="mt-1 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            <span className="min-w-0 text-sm">
+              <span className="flex items-center space-x-1 text-gray-900">
+                <span>{MOOD_EMOJIS[entry.mood]}</span>
+                <span className="truncate font-medium">{entry.title || 'Untitled entry'}</span>
+                {entry.isPrivate && <Lock size={12} className="text-gray-400 flex-shrink-0" />}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {entry.timestamp.toLocaleDateString()} · {entry.emotionTags.join(', ') || 'No emotions tagged'}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {selectedEntryIds.length}/{maxEntries} selected. Counselors see a copy made now, not later edits.
+        {hasEncryptedEntries && ' Encrypted entries are not listed because counselors cannot read them.'}
+      </p>
+
+      {/* Redaction options */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-700">Share text:</span>
+          <select
+            value={options.contentLevel}
+            onChange={(e) => onOptionsChange({ ...options, contentLevel: e.target.value as JournalContextOptions['contentLevel'] })}
+            className="p-1 border border-gray-300 rounded text-black text-sm"
+          >
+            <option value="none">Mood and emotions only</option>
+            <option value="snippet">Short excerpt</option>
+            <option value="full">Full entry</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={options.includeTitle}
+            onChange={(e) => onOptionsChange({ ...options, includeTitle: e.target.checked })}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          <span className="text-gray-700">Include titles</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={options.includeTrigger}
+            onChange={(e) => onOptionsChange({ ...options, includeTrigger: e.target.checked })}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          <span className="text-gray-700">Include what triggered the entry</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={options.redactContactDetails}
+            onChange={(e) => onOptionsChange({ ...options, redactContactDetails: e.target.checked })}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          <span className="text-gray-700">Hide emails, phone numbers and links</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default JournalContextPicker;
@@ -0,0 +1,148 @@
+// Passphrase form for journal encryption: sets the passphrase up the first time, unlocks the journal afterwards,
+// or changes the passphrase of an unlocked journal
+import React, { useEffect, useState } from 'react';
+import { KeyRound, AlertTriangle, X } from 'lucide-react';
+import { JournalEncryptionService, MIN_JOURNAL_PASSPHRASE_LENGTH } from '../../services/journalEncryptionService';
+
+interface JournalEncryptionPromptProps {
+  studentId: string;
+  onUnlocked: () => void;
+  onCancel?: () => void;
+  message?: string; // Why the journal needs unlocking right now
+  changePassphrase?: boolean; // Ask for the current and a new passphrase instead
+}
+
+const JournalEncryptionPrompt: React.FC<JournalEncryptionPromptProps> = ({
+  studentId,
+  onUnlocked,
+  onCancel,
+  message,
+  changePassphrase = false
+}) => {
+  const [mode, setMode] = useState<'loading' | 'setup' | 'unlock' | 'change'>(changePassphrase ? 'change' : 'loading');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!JournalEncryptionService.isSupported()) {
+      setError('Your browser does not support journal encryption.');
+      return;
+    }
+    if (changePassphrase) return;
+    JournalEncryptionService.isEnabled(studentId)
+      .then(enabled => setMode(enabled ? 'unlock' : 'setup'))
+      .catch(loadError => {
+        console.error('Failed to check journal encryption:', loadError);
+        setError('Could not check your encryption settings. Please try again.');
+      });
+  }, [studentId, changePassphrase]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((mode === 'setup' || mode === 'change') && passphrase !== confirmation) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      if (mode === 'setup') {
+        await JournalEncryptionService.setup(studentId, passphrase);
+      } else if (mode === 'change') {
+        await JournalEncryptionService.changePassphrase(studentId, currentPassphrase, passphrase);
+      } else {
+        await JournalEncryptionService.unlock(studentId, passphrase);
+      }
+      setCurrentPassphrase('');
+      setPassphrase('');
+      setConfirmation('');
+      onUnlocked();
+    } catch (submitError: unknown) {
+      setError(submitError instanceof Error ? submitError.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg space-y-3">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2 font-medium text-indigo-900">
+          <KeyRound className="h-5 w-5" />
+          <span>
+            {mode === 'setup' ? 'Set up journal encryption' : mode === 'change' ? 'Change your journal passphrase' : 'Unlock your encrypted journal'}
+          </span>
+        </div>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-indigo-400 hover:text-indigo-700">
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-indigo-900">{message}</p>}
+
+      {(mode === 'setup' || mode === 'change') && (
+        <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            Encrypted entries can only be read with this passphrase. Nobody else - not counselors, not administrators -
+            can read them or reset it for you, so if you forget it those entries are lost.
+          </span>
+        </div>
+      )}
+
+      {mode !== 'loading' && (
+        <>
+          {mode === 'change' && (
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder="Current passphrase"
+              autoComplete="current-password"
+              disabled={isWorking}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-black"
+            />
+          )}
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={mode === 'unlock' ? 'Passphrase' : `Choose a ${mode === 'change' ? 'new ' : ''}passphrase (${MIN_JOURNAL_PASSPHRASE_LENGTH}+ characters)`}
+            autoComplete={mode === 'unlock' ? 'current-password' : 'new-password'}
+            disabled={isWorking}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-black"
+          />
+          {(mode === 'setup' || mode === 'change') && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repeat passphrase"
+              autoComplete="new-password"
+              disabled={isWorking}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-black"
+            />
+          )}
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isWorking || mode === 'loading' || !passphrase || (mode === 'change' && !currentPassphrase)}
+        className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isWorking ? 'Working...' : mode === 'setup' ? 'Turn on encryption' : mode === 'change' ? 'Change passphrase' : 'Unlock'}
+      </button>
+    </form>
+  );
+};
+
+export default JournalEncryptionPrompt;
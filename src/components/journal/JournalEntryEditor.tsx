@@ -8,14 +8,30 @@ import {
   FileText, 
   Calendar,
   Clock,
-  AlertCircle
+  AlertCircle,
+  Sparkles,
+  Lightbulb,
+  Tag,
+  KeyRound,
+  History
 } from 'lucide-react';
+import { JournalPromptService } from '../../services/journalPromptService';
+import { JournalSearchService } from '../../services/journalSearchService';
+import { JournalEncryptionService } from '../../services/journalEncryptionService';
+import { JournalSyncService } from '../../services/journalSyncService';
+import { JOURNAL_PROMPT_CATEGORY_LABELS } from '../../config/journalPrompts';
 import { 
   JournalDraft, 
+  JournalAnalysis,
+  JournalPrompt,
+  EncryptedJournalPayload,
+  MoodAnalytics,
   MoodLevel, 
   EmotionCategory 
 } from '../../types/Journal';
 import MoodTracker from './MoodTracker';
+import JournalInsights from './JournalInsights';
+import JournalEncryptionPrompt from './JournalEncryptionPrompt';
 
 interface JournalEntryEditorProps {
   initialDraft?: JournalDraft;
@@ -23,14 +39,30 @@ interface JournalEntryEditorProps {
   onCancel: () => void;
   isLoading?: boolean;
   mode?: 'create' | 'edit';
+  analysis?: JournalAnalysis; // Latest AI analysis of the entry being edited
+  prompts?: JournalPrompt[]; // Suggested prompts offered when starting a new entry
+  moodAnalytics?: MoodAnalytics; // Recent mood patterns shown in the mood tracker
+  studentId?: string; // Needed to encrypt entries and decrypt encryptedPayload
+  encryptedPayload?: EncryptedJournalPayload; // Ciphertext of the entry being edited, when it is still locked
+  onUnlocked?: () => void; // Called after the student unlocks their journal from the editor
+  autosaveKey?: string; // Where unsaved changes are autosaved on this device (entry id, or "new")
 }
 
+const AUTOSAVE_DELAY_MS = 1500;
+
 const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
   initialDraft,
   onSave,
   onCancel,
   isLoading = false,
-  mode = 'create'
+  mode = 'create',
+  analysis,
+  prompts = [],
+  moodAnalytics,
+  studentId,
+  encryptedPayload,
+  onUnlocked,
+  autosaveKey
 }) => {
   const [draft, setDraft] = useState<JournalDraft>(
     initialDraft || {
@@ -40,14 +72,25 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
       emotionTags: [],
       intensityLevel: 5,
       trigger: '',
-      isPrivate: true
+      tags: [],
+      isPrivate: true,
+      aiAnalysisEnabled: false,
+      // Students who have unlocked encryption keep new entries encrypted by default
+      encrypt: Boolean(studentId && JournalEncryptionService.isUnlocked(studentId))
     }
   );
+  const [tagInput, setTagInput] = useState('');
+  // What unsaved changes are measured against; replaced once an encrypted entry is decrypted
+  const [baselineDraft, setBaselineDraft] = useState<JournalDraft | undefined>(initialDraft);
+  const [isLocked, setIsLocked] = useState(Boolean(encryptedPayload));
+  const [showEncryptionPrompt, setShowEncryptionPrompt] = useState(false);
+  const [restorableDraft, setRestorableDraft] = useState<{ draft: Partial<JournalDraft>; savedAt: Date } | null>(null);
 
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [wordCount, setWordCount] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const selectedPrompt = draft.promptId ? JournalPromptService.getPrompt(draft.promptId) : undefined;
 
   // Calculate word count
   useEffect(() => {
@@ -57,27 +100,104 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
 
   // Track unsaved changes
   useEffect(() => {
-    if (initialDraft) {
-      const hasChanges = JSON.stringify(draft) !== JSON.stringify(initialDraft);
+    if (baselineDraft) {
+      const hasChanges = JSON.stringify(draft) !== JSON.stringify(baselineDraft);
       setHasUnsavedChanges(hasChanges);
     } else {
       setHasUnsavedChanges(draft.content.trim().length > 0 || draft.title?.trim().length > 0);
     }
-  }, [draft, initialDraft]);
+  }, [draft, baselineDraft]);
 
   const updateDraft = useCallback((updates: Partial<JournalDraft>) => {
     setDraft(prev => ({ ...prev, ...updates }));
   }, []);
 
+  // Offer a draft autosaved before the page was closed or the browser went offline
+  useEffect(() => {
+    if (!studentId || !autosaveKey || isLocked) return;
+    JournalSyncService.loadAutosave(studentId, autosaveKey)
+      .then(saved => saved && setRestorableDraft(saved))
+      .catch(error => console.error('Failed to load autosaved journal draft:', error));
+  }, [studentId, autosaveKey, isLocked]);
+
+  // Autosave unsaved changes once typing pauses (not while an older draft is still on offer)
+  useEffect(() => {
+    if (!studentId || !autosaveKey || isLocked || restorableDraft || !hasUnsavedChanges) return;
+    const timer = setTimeout(() => {
+      JournalSyncService.autosaveDraft(studentId, autosaveKey, draft)
+        .catch(error => console.error('Failed to autosave journal draft:', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, hasUnsavedChanges, studentId, autosaveKey, isLocked, restorableDraft]);
+
+  const clearAutosave = () => {
+    if (studentId && autosaveKey) JournalSyncService.clearAutosave(studentId, autosaveKey);
+  };
+
+  // Encrypted entries are decrypted here, once the student's key is unlocked
+  const decryptDraft = useCallback(async () => {
+    if (!encryptedPayload || !studentId) return;
+
+    try {
+      const fields = await JournalEncryptionService.decryptFields(studentId, encryptedPayload);
+      const decrypted: JournalDraft = { ...draft, ...fields, tags: fields.tags || [], encrypt: true };
+      setDraft(decrypted);
+      setBaselineDraft(decrypted);
+      setIsLocked(false);
+    } catch (error) {
+      console.error('Failed to decrypt journal entry:', error);
+      alert('This entry could not be decrypted.');
+    }
+  }, [encryptedPayload, studentId, draft]);
+
+  useEffect(() => {
+    if (isLocked && studentId && JournalEncryptionService.isUnlocked(studentId)) {
+      decryptDraft();
+    }
+  }, [isLocked, studentId, decryptDraft]);
+
+  const handleUnlocked = () => {
+    setShowEncryptionPrompt(false);
+    onUnlocked?.();
+    if (isLocked) {
+      decryptDraft();
+    } else {
+      updateDraft({ encrypt: true });
+    }
+  };
+
+  const handleEncryptToggle = (encrypt: boolean) => {
+    if (encrypt && studentId && !JournalEncryptionService.isUnlocked(studentId)) {
+      setShowEncryptionPrompt(true);
+      return;
+    }
+    updateDraft({ encrypt });
+  };
+
+  const addTags = (value: string) => {
+    updateDraft({ tags: JournalSearchService.normalizeTags([...(draft.tags || []), ...value.split(',')]) });
+    setTagInput('');
+  };
+
   const handleSave = async () => {
     if (!draft.content.trim()) {
       alert('Please write something in your journal entry before saving.');
       return;
     }
+    // The key may have been locked since encryption was turned on
+    if (draft.encrypt && draft.isPrivate && studentId && !JournalEncryptionService.isUnlocked(studentId)) {
+      setShowAdvanced(true);
+      setShowEncryptionPrompt(true);
+      return;
+    }
 
     try {
       setIsSaving(true);
-      await onSave(draft);
+      // Tags still being typed are saved too
+      await onSave(tagInput.trim()
+        ? { ...draft, tags: JournalSearchService.normalizeTags([...(draft.tags || []), ...tagInput.split(',')]) }
+        : draft);
+      clearAutosave();
     } catch (error) {
       console.error('Failed to save journal entry:', error);
       alert('Failed to save journal entry. Please try again.');
@@ -89,6 +209,7 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
   const handleCancel = () => {
     if (hasUnsavedChanges) {
       if (window.confirm('You have unsaved changes. Are you sure you want to cancel?')) {
+        clearAutosave();
         onCancel();
       }
     } else {
@@ -98,6 +219,26 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
 
   const estimatedReadTime = Math.max(1, Math.ceil(wordCount / 200));
 
+  if (isLocked && studentId) {
+    return (
+      <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <JournalEncryptionPrompt
+          studentId={studentId}
+          onUnlocked={handleUnlocked}
+          message="This entry is encrypted. Enter your passphrase to edit it."
+        />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800"
+        >
+          <X className="h-4 w-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-lg overflow-hidden">
       {/* Header */}
@@ -119,6 +260,38 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
       </div>
 
       <div className="p-6 space-y-6">
+        {/* Autosaved draft */}
+        {restorableDraft && (
+          <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+            <span className="flex items-center space-x-2">
+              <History className="h-4 w-4" />
+              <span>You have an unsaved draft from {restorableDraft.savedAt.toLocaleString()}.</span>
+            </span>
+            <span className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => {
+                  updateDraft(restorableDraft.draft);
+                  setRestorableDraft(null);
+                }}
+                className="font-medium hover:underline"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  clearAutosave();
+                  setRestorableDraft(null);
+                }}
+                className="text-blue-700 hover:underline"
+              >
+                Discard
+              </button>
+            </span>
+          </div>
+        )}
+
         {/* Title Input */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -134,6 +307,45 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
           />
         </div>
 
+        {/* Tags */}
+        <div>
+          <label className="flex items-center space-x-1 text-sm font-medium text-gray-700 mb-2">
+            <Tag className="h-4 w-4" />
+            <span>Tags (optional)</span>
+          </label>
+          <div className="flex flex-wrap items-center gap-2 p-2 border border-gray-300 rounded-lg">
+            {(draft.tags || []).map(tag => (
+              <span key={tag} className="inline-flex items-center space-x-1 px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded-full">
+                <span>#{tag}</span>
+                {!isLoading && (
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ tags: (draft.tags || []).filter(t => t !== tag) })}
+                    className="text-blue-400 hover:text-blue-700"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) {
+                  e.preventDefault();
+                  addTags(tagInput);
+                }
+              }}
+              onBlur={() => tagInput.trim() && addTags(tagInput)}
+              placeholder={(draft.tags || []).length === 0 ? 'e.g. exams, family, sleep' : 'Add a tag'}
+              disabled={isLoading}
+              className="flex-1 min-w-[8rem] p-1 text-sm focus:outline-none text-black disabled:bg-gray-50"
+            />
+          </div>
+        </div>
+
         {/* Mood Tracker */}
         <div className="bg-gray-50 p-4 rounded-lg">
           <MoodTracker
@@ -144,11 +356,57 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
             onEmotionsChange={(emotions) => updateDraft({ emotionTags: emotions })}
             onIntensityChange={(intensity) => updateDraft({ intensityLevel: intensity })}
             disabled={isLoading}
+            analytics={moodAnalytics}
           />
         </div>
 
+        {/* Prompt suggestions */}
+        {mode === 'create' && !selectedPrompt && prompts.length > 0 && (
+          <div>
+            <div className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+              <Lightbulb className="h-4 w-4 text-amber-500" />
+              <span>Need a starting point?</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {prompts.map(prompt => (
+                <button
+                  key={prompt.id}
+                  type="button"
+                  onClick={() => updateDraft({ promptId: prompt.id })}
+                  disabled={isLoading}
+                  className="p-3 text-left border border-gray-200 rounded-lg hover:border-amber-300 hover:bg-amber-50 disabled:opacity-50"
+                >
+                  <span className="block text-xs font-medium text-amber-700 mb-1">
+                    {JOURNAL_PROMPT_CATEGORY_LABELS[prompt.category]}
+                  </span>
+                  <span className="block text-sm text-gray-800">{prompt.text}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Main Content */}
         <div>
+          {selectedPrompt && (
+            <div className="flex items-start justify-between p-3 mb-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-start space-x-2 text-sm text-amber-900">
+                <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{selectedPrompt.text}</span>
+              </div>
+              {mode === 'create' && (
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ promptId: undefined })}
+                  disabled={isLoading}
+                  className="ml-3 text-amber-700 hover:text-amber-900"
+                  title="Write without a prompt"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          )}
           <label className="block text-sm font-medium text-gray-700 mb-2">
             What&apos;s on your mind?
           </label>
@@ -226,7 +484,7 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
                 </div>
                 <button
                   type="button"
-                  onClick={() => updateDraft({ isPrivate: !draft.isPrivate })}
+                  onClick={() => updateDraft({ isPrivate: !draft.isPrivate, ...(draft.isPrivate && { encrypt: false }) })}
                   disabled={isLoading}
                   className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 ${
                     draft.isPrivate ? 'bg-red-500' : 'bg-green-500'
@@ -239,11 +497,71 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
                   />
                 </button>
               </div>
+
+              {/* End-to-end encryption - only for private entries */}
+              {studentId && JournalEncryptionService.isSupported() && (
+                <label className={`flex items-start space-x-3 p-3 border border-gray-200 rounded-lg ${draft.isPrivate ? 'cursor-pointer' : 'opacity-60'}`}>
+                  <input
+                    type="checkbox"
+                    checked={draft.isPrivate && Boolean(draft.encrypt)}
+                    onChange={(e) => handleEncryptToggle(e.target.checked)}
+                    disabled={isLoading || !draft.isPrivate}
+                    className="mt-1 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <div>
+                    <div className="flex items-center space-x-1 font-medium text-gray-900">
+                      <KeyRound className="h-4 w-4 text-indigo-500" />
+                      <span>Encrypt with my passphrase</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {draft.isPrivate
+                        ? 'The title, text, trigger and tags are encrypted on this device. Nobody else, including administrators, can read them.'
+                        : 'Only private entries can be encrypted.'
+                      }
+                    </div>
+                  </div>
+                </label>
+              )}
+              {showEncryptionPrompt && studentId && (
+                <JournalEncryptionPrompt
+                  studentId={studentId}
+                  onUnlocked={handleUnlocked}
+                  onCancel={() => setShowEncryptionPrompt(false)}
+                />
+              )}
+
+              {/* AI analysis consent - private entries are never analyzed */}
+              <label className={`flex items-start space-x-3 p-3 border border-gray-200 rounded-lg ${draft.isPrivate ? 'opacity-60' : 'cursor-pointer'}`}>
+                <input
+                  type="checkbox"
+                  checked={!draft.isPrivate && Boolean(draft.aiAnalysisEnabled)}
+                  onChange={(e) => updateDraft({ aiAnalysisEnabled: e.target.checked })}
+                  disabled={isLoading || draft.isPrivate}
+                  className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <div>
+                  <div className="flex items-center space-x-1 font-medium text-gray-900">
+                    <Sparkles className="h-4 w-4 text-indigo-500" />
+                    <span>AI insights</span>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {draft.isPrivate
+                      ? 'Private entries are never analyzed. Make this entry shareable to turn on insights.'
+                      : 'Get themes, strengths and resource suggestions for this entry. If you share it and it shows signs of risk, your counselor is alerted.'
+                    }
+                  </div>
+                </div>
+              </label>
             </div>
           </div>
         )}
 
-        {/* Action Buttons */}
+        {/* Latest AI insights for this entry */}
+        {mode === 'edit' && analysis && !draft.isPrivate && draft.aiAnalysisEnabled && (
+          <JournalInsights analysis={analysis} />
+        )}
+
+                {/* Action Buttons */}
         <div className="flex items-center justify-between pt-6 border-t border-gray-200">
           <button
             type="button"
@@ -258,8 +576,8 @@ const JournalEntryEditor: React.FC<JournalEntryEditorProps> = ({
           <div className="flex items-center space-x-3">
             {draft.isPrivate ? (
               <div className="flex items-center text-sm text-gray-500">
-                <Lock className="h-4 w-4 mr-1" />
-                <span>Private</span>
+                {draft.encrypt ? <KeyRound className="h-4 w-4 mr-1" /> : <Lock className="h-4 w-4 mr-1" />}
+                <span>{draft.encrypt ? 'Private · Encrypted' : 'Private'}</span>
               </div>
             ) : (
               <div className="flex items-center text-sm text-green-600">
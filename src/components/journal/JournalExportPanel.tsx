@@ -0,0 +1,305 @@
+// Export the journal (all entries or a filtered set) and import entries from a JSON export
+import React, { useMemo, useState } from 'react';
+import { Download, Upload, X, FileText, FileJson, Printer, AlertTriangle, CheckCircle } from 'lucide-react';
+import { JournalExportService } from '../../services/journalExportService';
+import { JournalSearchService } from '../../services/journalSearchService';
+import {
+  JournalEntry,
+  JournalExportFormat,
+  JournalFilter,
+  JournalImportPreview,
+  MoodLevel,
+  MOOD_EMOJIS,
+  MOOD_VALUES
+} from '../../types/Journal';
+
+interface JournalExportPanelProps {
+  studentId: string;
+  entries: JournalEntry[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: JournalExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'Readable text file for notes apps', icon: FileText },
+  { value: 'json', label: 'JSON', description: 'Full data, can be imported into another account', icon: FileJson },
+  { value: 'pdf', label: 'PDF', description: 'Printable report with mood charts', icon: Printer }
+];
+
+const JournalExportPanel: React.FC<JournalExportPanelProps> = ({ studentId, entries, onImported, onClose }) => {
+  const [format, setFormat] = useState<JournalExportFormat>('markdown');
+  const [scope, setScope] = useState<'all' | 'filtered'>('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [moods, setMoods] = useState<MoodLevel[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [includePrivate, setIncludePrivate] = useState(true);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const [importPreview, setImportPreview] = useState<JournalImportPreview | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const availableTags = useMemo(() => JournalSearchService.getTags(JournalSearchService.buildIndex(entries)), [entries]);
+
+  const filter = useMemo<JournalFilter>(() => ({
+    ...(startDate && { startDate: new Date(`${startDate}T00:00:00`) }),
+    ...(endDate && { endDate: new Date(`${endDate}T23:59:59`) }),
+    ...(moods.length > 0 && { moods }),
+    ...(tags.length > 0 && { tags }),
+    ...(searchTerm.trim() && { searchTerm }),
+    includePrivate,
+    sortBy: 'date',
+    sortOrder: 'asc'
+  }), [startDate, endDate, moods, tags, searchTerm, includePrivate]);
+
+  const matchingCount = useMemo(() => scope === 'all'
+    ? entries.length
+    : JournalSearchService.query(JournalSearchService.buildIndex(entries), filter).length,
+  [scope, entries, filter]);
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const handleExport = () => {
+    try {
+      setExportError(null);
+      const result = JournalExportService.exportEntries(entries, format, scope === 'filtered' ? filter : undefined);
+      setExportMessage(
+        `Exported ${result.exported} ${result.exported === 1 ? 'entry' : 'entries'}.` +
+        (result.skippedEncrypted > 0 ? ` ${result.skippedEncrypted} locked encrypted ${result.skippedEncrypted === 1 ? 'entry was' : 'entries were'} left out.` : '')
+      );
+    } catch (error: unknown) {
+      setExportMessage(null);
+      setExportError(error instanceof Error ? error.message : 'Export failed. Please try again.');
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportMessage(null);
+    setImportError(null);
+    try {
+      setImportPreview(JournalExportService.parseImport(await file.text()));
+    } catch (error: unknown) {
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importPreview) return;
+
+    try {
+      setIsImporting(true);
+      setImportError(null);
+      const result = await JournalExportService.importEntries(studentId, importPreview);
+      setImportMessage(
+        `Imported ${result.imported} ${result.imported === 1 ? 'entry' : 'entries'}.` +
+        (result.failed > 0 ? ` ${result.failed} could not be saved.` : '')
+      );
+      setImportPreview(null);
+      onImported();
+    } catch (error: unknown) {
+      setImportError(error instanceof Error ? error.message : 'Import failed. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Export &amp; Import</h2>
+        <button onClick={onClose} className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800">
+          <X className="h-4 w-4" />
+          <span>Close</span>
+        </button>
+      </div>
+
+      {/* Export */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200 space-y-5">
+        <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+          <Download className="h-5 w-5 text-blue-600" />
+          <span>Export your journal</span>
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFormat(option.value)}
+              className={`p-3 text-left border rounded-lg ${
+                format === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+              }`}
+            >
+              <span className="flex items-center space-x-2 font-medium text-gray-900">
+                <option.icon className="h-4 w-4" />
+                <span>{option.label}</span>
+              </span>
+              <span className="block text-xs text-gray-600 mt-1">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-6 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+            <span>All entries</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={scope === 'filtered'} onChange={() => setScope('filtered')} />
+            <span>Only some entries</span>
+          </label>
+        </div>
+
+        {scope === 'filtered' && (
+          <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                From
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg text-black" />
+              </label>
+              <label className="text-sm text-gray-700">
+                To
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg text-black" />
+              </label>
+              <label className="text-sm text-gray-700">
+                Containing
+                <input type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="Words or phrases"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg text-black" />
+              </label>
+            </div>
+
+            <div>
+              <div className="text-sm text-gray-700 mb-2">Moods</div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(MOOD_VALUES) as MoodLevel[]).map(mood => (
+                  <button
+                    key={mood}
+                    type="button"
+                    onClick={() => setMoods(toggle(moods, mood))}
+                    className={`px-3 py-1 text-sm rounded-full border capitalize ${
+                      moods.includes(mood) ? 'bg-blue-100 border-blue-400 text-blue-800' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    {MOOD_EMOJIS[mood]} {mood.replace('-', ' ')}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {availableTags.length > 0 && (
+              <div>
+                <div className="text-sm text-gray-700 mb-2">Tags (entries must have all selected)</div>
+                <div className="flex flex-wrap gap-2">
+                  {availableTags.map(tag => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => setTags(toggle(tags, tag))}
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        tags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={includePrivate} onChange={(e) => setIncludePrivate(e.target.checked)} />
+              <span>Include private entries</span>
+            </label>
+          </div>
+        )}
+
+        <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>Exported files are not encrypted, even for encrypted entries. Keep them somewhere safe.</span>
+        </div>
+
+        {exportMessage && <p className="text-sm text-green-700">{exportMessage}</p>}
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={matchingCount === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export {matchingCount} {matchingCount === 1 ? 'entry' : 'entries'}</span>
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200 space-y-4">
+        <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+          <Upload className="h-5 w-5 text-purple-600" />
+          <span>Import entries</span>
+        </h3>
+        <p className="text-sm text-gray-600">
+          Choose a JSON export from this app, for example from another account. Entries keep their original dates.
+        </p>
+
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelected}
+          disabled={isImporting}
+          className="block text-sm text-gray-700"
+        />
+
+        {importPreview && (
+          <div className="p-4 bg-gray-50 rounded-lg space-y-3 text-sm">
+            <p className="text-gray-800">
+              {importPreview.entries.length} {importPreview.entries.length === 1 ? 'entry is' : 'entries are'} ready to import.
+            </p>
+            {importPreview.issues.length > 0 && (
+              <div className="text-red-700">
+                <p>{importPreview.issues.length} {importPreview.issues.length === 1 ? 'entry' : 'entries'} will be skipped:</p>
+                <ul className="list-disc ml-5 mt-1 space-y-1">
+                  {importPreview.issues.slice(0, 5).map(issue => (
+                    <li key={issue.index}>Entry {issue.index + 1}: {issue.errors.join('; ')}</li>
+                  ))}
+                  {importPreview.issues.length > 5 && <li>and {importPreview.issues.length - 5} more</li>}
+                </ul>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || importPreview.entries.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload className="h-4 w-4" />
+              <span>{isImporting ? 'Importing...' : `Import ${importPreview.entries.length} entries`}</span>
+            </button>
+          </div>
+        )}
+
+        {importMessage && (
+          <p className="flex items-center space-x-1 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            <span>{importMessage}</span>
+          </p>
+        )}
+        {importError && <p className="text-sm text-red-600">{importError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default JournalExportPanel;
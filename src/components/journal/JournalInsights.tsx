@@ -0,0 +1,73 @@
+// AI insights for a journal entry the student opted in to analysis
+import React from 'react';
+import { Sparkles, Heart, BookOpen, AlertTriangle } from 'lucide-react';
+import { JournalAnalysisService } from '../../services/journalAnalysisService';
+import { JournalAnalysis } from '../../types/Journal';
+
+interface JournalInsightsProps {
+  analysis: JournalAnalysis;
+}
+
+const JournalInsights: React.FC<JournalInsightsProps> = ({ analysis }) => {
+  const hasRisk = JournalAnalysisService.hasRisk(analysis);
+
+  return (
+    <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center space-x-2 font-medium text-indigo-900">
+          <Sparkles className="h-4 w-4" />
+          <span>AI Insights</span>
+        </h4>
+        <span className="text-sm text-indigo-800">
+          Overall tone: {JournalAnalysisService.describeSentiment(analysis.sentimentScore)}
+        </span>
+      </div>
+
+      {analysis.emotionalThemes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {analysis.emotionalThemes.map(theme => (
+            <span key={theme} className="px-2 py-1 text-xs bg-white text-indigo-800 border border-indigo-200 rounded-full">
+              {theme}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {analysis.positiveIndicators.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-1 text-sm font-medium text-gray-900 mb-1">
+            <Heart className="h-4 w-4 text-green-600" />
+            <span>Strengths in this entry</span>
+          </div>
+          <ul className="text-sm text-gray-700 space-y-1 ml-5 list-disc">
+            {analysis.positiveIndicators.map(indicator => <li key={indicator}>{indicator}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {analysis.suggestedResources.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-1 text-sm font-medium text-gray-900 mb-1">
+            <BookOpen className="h-4 w-4 text-blue-600" />
+            <span>Resources that might help</span>
+          </div>
+          <ul className="text-sm text-gray-700 space-y-1 ml-5 list-disc">
+            {analysis.suggestedResources.map(resource => <li key={resource}>{resource}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {hasRisk && (
+        <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            This entry mentions things that can be hard to carry alone. A counselor is here if you&apos;d like to talk -
+            you can start a conversation at any time.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JournalInsights;
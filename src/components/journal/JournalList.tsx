@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   Calendar, 
   List, 
@@ -10,8 +10,19 @@ import {
   Eye,
   ChevronLeft,
   ChevronRight,
-  Plus
+  Plus,
+  Sparkles,
+  AlertTriangle,
+  MessageSquare,
+  Tag,
+  Link2,
+  KeyRound,
+  CloudOff,
+  X
 } from 'lucide-react';
+import { JournalAnalysisService } from '../../services/journalAnalysisService';
+import { JournalSearchService, DEFAULT_JOURNAL_PAGE_SIZE } from '../../services/journalSearchService';
+import { JournalEncryptionService } from '../../services/journalEncryptionService';
 import { 
   JournalEntry, 
   JournalFilter, 
@@ -28,6 +39,9 @@ interface JournalListProps {
   onEntryShare: (entry: JournalEntry) => void;
   onCreateNew: () => void;
   isLoading?: boolean;
+  unreadNoteCounts?: Record<string, number>; // Unread counselor notes per entry id
+  onLinkEntries?: (entryId: string, relatedEntryId: string) => void;
+  onUnlinkEntries?: (entryId: string, relatedEntryId: string) => void;
 }
 
 type ViewMode = 'list' | 'calendar';
@@ -38,7 +52,10 @@ const JournalList: React.FC<JournalListProps> = ({
   onEntryEdit,
   onEntryShare,
   onCreateNew,
-  isLoading = false
+  isLoading = false,
+  unreadNoteCounts = {},
+  onLinkEntries,
+  onUnlinkEntries
 }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [searchTerm, setSearchTerm] = useState('');
@@ -50,57 +67,41 @@ const JournalList: React.FC<JournalListProps> = ({
     sortOrder: 'desc'
   });
 
-  // Filter and search entries
-  const filteredEntries = useMemo(() => {
-    let filtered = [...entries];
-
-    // Apply search
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(entry => 
-        entry.title?.toLowerCase().includes(term) ||
-        entry.content.toLowerCase().includes(term) ||
-        entry.emotionTags.some(emotion => emotion.toLowerCase().includes(term))
-      );
-    }
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+  const [linkingEntryId, setLinkingEntryId] = useState<string | null>(null);
 
-    // Apply filters
-    if (filters.startDate) {
-      filtered = filtered.filter(entry => entry.timestamp >= filters.startDate!);
-    }
-    if (filters.endDate) {
-      filtered = filtered.filter(entry => entry.timestamp <= filters.endDate!);
-    }
-    if (filters.moods && filters.moods.length > 0) {
-      filtered = filtered.filter(entry => filters.moods!.includes(entry.mood));
-    }
-    if (filters.emotions && filters.emotions.length > 0) {
-      filtered = filtered.filter(entry => 
-        entry.emotionTags.some(emotion => filters.emotions!.includes(emotion))
-      );
-    }
-    if (!filters.includePrivate) {
-      filtered = filtered.filter(entry => !entry.isPrivate);
-    }
+  // Local search index, rebuilt whenever the entries change
+  const searchIndex = useMemo(() => JournalSearchService.buildIndex(entries), [entries]);
+  const availableTags = useMemo(() => JournalSearchService.getTags(searchIndex), [searchIndex]);
 
-    // Sort entries
-    filtered.sort((a, b) => {
-      const aValue = filters.sortBy === 'date' ? a.timestamp.getTime() :
-                     filters.sortBy === 'mood' ? a.mood :
-                     a.title || '';
-      const bValue = filters.sortBy === 'date' ? b.timestamp.getTime() :
-                     filters.sortBy === 'mood' ? b.mood :
-                     b.title || '';
-
-      if (filters.sortOrder === 'asc') {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      }
-    });
+  // Search and filter entries; searches rank by relevance unless another order was chosen
+  const activeFilter = useMemo<JournalFilter>(() => ({
+    ...filters,
+    searchTerm,
+    tags: selectedTags,
+    sortBy: searchTerm.trim() && filters.sortBy === 'date' ? 'relevance' : filters.sortBy
+  }), [filters, searchTerm, selectedTags]);
+
+  const filteredEntries = useMemo(
+    () => JournalSearchService.query(searchIndex, activeFilter),
+    [searchIndex, activeFilter]
+  );
 
-    return filtered;
-  }, [entries, searchTerm, filters]);
+  const resultPage = useMemo(
+    () => JournalSearchService.search(searchIndex, activeFilter, { page, pageSize: DEFAULT_JOURNAL_PAGE_SIZE }),
+    [searchIndex, activeFilter, page]
+  );
+  const pageCount = Math.max(1, Math.ceil(resultPage.total / DEFAULT_JOURNAL_PAGE_SIZE));
+
+  // Back to the first page whenever the results change shape
+  useEffect(() => {
+    setPage(1);
+  }, [activeFilter, entries]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
 
   // Group entries by date for calendar view
   const entriesByDate = useMemo(() => {
@@ -135,6 +136,36 @@ const JournalList: React.FC<JournalListProps> = ({
     return content.substr(0, maxLength) + '...';
   };
 
+  // Chips for entries linked through followUpEntries
+  const renderLinkedEntries = (entry: JournalEntry) => {
+    const linked = (entry.followUpEntries || [])
+      .map(id => searchIndex.entries.get(id))
+      .filter((related): related is JournalEntry => Boolean(related));
+    if (linked.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-3 text-xs">
+        <Link2 className="h-3 w-3 text-purple-500" />
+        {linked.map(related => (
+          <span key={related.id} className="inline-flex items-center space-x-1 px-2 py-0.5 bg-purple-50 text-purple-800 rounded-full">
+            <button onClick={() => onEntrySelect(related)} className="hover:underline">
+              {MOOD_EMOJIS[related.mood]} {related.title || formatDate(related.timestamp)}
+            </button>
+            {onUnlinkEntries && (
+              <button
+                onClick={() => onUnlinkEntries(entry.id, related.id)}
+                className="text-purple-400 hover:text-purple-700"
+                title="Remove link"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
   // Calendar helper functions
   const getDaysInMonth = (date: Date) => {
     return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
@@ -237,7 +268,7 @@ const JournalList: React.FC<JournalListProps> = ({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <input
             type="text"
-            placeholder="Search entries..."
+            placeholder="Search titles, entries, triggers and tags..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
@@ -284,10 +315,10 @@ const JournalList: React.FC<JournalListProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-2">Sort by</label>
               <select
                 value={filters.sortBy}
-                onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as 'date' | 'mood' | 'title' }))}
+                onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as JournalFilter['sortBy'] }))}
                 className="w-full p-2 border border-gray-300 rounded-lg"
               >
-                <option value="date">Date</option>
+                <option value="date">Date (relevance when searching)</option>
                 <option value="mood">Mood</option>
                 <option value="title">Title</option>
               </select>
@@ -315,6 +346,49 @@ const JournalList: React.FC<JournalListProps> = ({
               </label>
             </div>
           </div>
+          {availableTags.length > 0 && (
+            <div>
+              <label className="flex items-center space-x-1 text-sm font-medium text-gray-700 mb-2">
+                <Tag className="h-4 w-4" />
+                <span>Tags</span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {availableTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-2 py-1 text-xs rounded-full ${
+                      selectedTags.includes(tag)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    #{tag} ({searchIndex.tagCounts[tag]})
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Active tag filters */}
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">Tagged:</span>
+          {selectedTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className="inline-flex items-center space-x-1 px-2 py-1 text-xs bg-blue-600 text-white rounded-full"
+            >
+              <span>#{tag}</span>
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+          <button onClick={() => setSelectedTags([])} className="text-xs text-gray-500 underline">
+            Clear
+          </button>
         </div>
       )}
 
@@ -326,7 +400,7 @@ const JournalList: React.FC<JournalListProps> = ({
               <div className="text-gray-400 text-6xl mb-4">📝</div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No journal entries found</h3>
               <p className="text-gray-600 mb-4">
-                {searchTerm ? 'Try adjusting your search or filters' : 'Start writing your first journal entry'}
+                {searchTerm || selectedTags.length > 0 ? 'Try adjusting your search or filters' : 'Start writing your first journal entry'}
               </p>
               <button
                 onClick={onCreateNew}
@@ -336,7 +410,7 @@ const JournalList: React.FC<JournalListProps> = ({
               </button>
             </div>
           ) : (
-            filteredEntries.map(entry => (
+            resultPage.entries.map(entry => (
               <div
                 key={entry.id}
                 className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow"
@@ -347,7 +421,7 @@ const JournalList: React.FC<JournalListProps> = ({
                       <span className="text-2xl">{MOOD_EMOJIS[entry.mood]}</span>
                       <div>
                         <h3 className="font-medium text-gray-900">
-                          {entry.title || 'Untitled Entry'}
+                          {entry.title || (JournalEncryptionService.isLocked(entry) ? 'Encrypted Entry' : 'Untitled Entry')}
                         </h3>
                         <div className="flex items-center space-x-4 text-sm text-gray-500">
                           <span>{formatDate(entry.timestamp)} at {formatTime(entry.timestamp)}</span>
@@ -374,10 +448,70 @@ const JournalList: React.FC<JournalListProps> = ({
                         )}
                       </div>
                     )}
-                    <p className="text-gray-700">{truncateContent(entry.content)}</p>
+                    {JournalEncryptionService.isLocked(entry) ? (
+                      <p className="text-sm italic text-gray-500">Unlock your journal to read this entry.</p>
+                    ) : (
+                      <p className="text-gray-700">
+                        {searchTerm.trim()
+                          ? JournalSearchService.getSnippet(entry.content, searchTerm)
+                          : truncateContent(entry.content)}
+                      </p>
+                    )}
+                    {entry.tags && entry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-3">
+                        {entry.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => toggleTag(tag)}
+                            className={`px-2 py-0.5 text-xs rounded-full ${
+                              selectedTags.includes(tag)
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                            }`}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {renderLinkedEntries(entry)}
+                    {unreadNoteCounts[entry.id] > 0 && (
+                      <button
+                        onClick={() => onEntrySelect(entry)}
+                        className="flex items-center space-x-1 mt-3 px-2 py-1 text-xs bg-teal-50 text-teal-800 rounded hover:bg-teal-100"
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                        <span>
+                          {unreadNoteCounts[entry.id]} new counselor note{unreadNoteCounts[entry.id] === 1 ? '' : 's'}
+                        </span>
+                      </button>
+                    )}
+                    {entry.aiAnalysis && !entry.isPrivate && (
+                      <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                        <span className="flex items-center space-x-1 px-2 py-1 bg-indigo-50 text-indigo-800 rounded">
+                          <Sparkles className="h-3 w-3" />
+                          <span>{JournalAnalysisService.describeSentiment(entry.aiAnalysis.sentimentScore)} tone</span>
+                        </span>
+                        {entry.aiAnalysis.emotionalThemes.slice(0, 2).map(theme => (
+                          <span key={theme} className="px-2 py-1 bg-gray-100 text-gray-700 rounded">{theme}</span>
+                        ))}
+                        {JournalAnalysisService.hasRisk(entry.aiAnalysis) && (
+                          <span className="flex items-center space-x-1 px-2 py-1 bg-amber-50 text-amber-800 rounded">
+                            <AlertTriangle className="h-3 w-3" />
+                            <span>Support suggested</span>
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2 ml-4">
                     {entry.isPrivate && <Lock className="h-4 w-4 text-red-500" />}
+                    {entry.isEncrypted && <KeyRound className="h-4 w-4 text-indigo-500" />}
+                    {entry.pendingSync && (
+                      <span title="Saved on this device, waiting to sync">
+                        <CloudOff className="h-4 w-4 text-gray-400" />
+                      </span>
+                    )}
                     {entry.sharedWithCounselors && <Share2 className="h-4 w-4 text-green-500" />}
                   </div>
                 </div>
@@ -400,6 +534,15 @@ const JournalList: React.FC<JournalListProps> = ({
                       <Edit3 className="h-4 w-4" />
                       <span>Edit</span>
                     </button>
+                    {onLinkEntries && entries.length > 1 && (
+                      <button
+                        onClick={() => setLinkingEntryId(linkingEntryId === entry.id ? null : entry.id)}
+                        className="flex items-center space-x-1 px-3 py-1 text-purple-600 hover:bg-purple-50 rounded"
+                      >
+                        <Link2 className="h-4 w-4" />
+                        <span>Link</span>
+                      </button>
+                    )}
                     {!entry.sharedWithCounselors && (
                       <button
                         onClick={() => onEntryShare(entry)}
@@ -411,9 +554,64 @@ const JournalList: React.FC<JournalListProps> = ({
                     )}
                   </div>
                 </div>
+                {linkingEntryId === entry.id && onLinkEntries && (
+                  <div className="mt-3 flex items-center space-x-2">
+                    <select
+                      defaultValue=""
+                      onChange={(e) => {
+                        if (!e.target.value) return;
+                        onLinkEntries(entry.id, e.target.value);
+                        setLinkingEntryId(null);
+                      }}
+                      className="flex-1 p-2 text-sm border border-gray-300 rounded-lg text-black"
+                    >
+                      <option value="">Link a related entry...</option>
+                      {entries
+                        .filter(other => other.id !== entry.id && !(entry.followUpEntries || []).includes(other.id))
+                        .map(other => (
+                          <option key={other.id} value={other.id}>
+                            {formatDate(other.timestamp)} - {other.title || 'Untitled Entry'}
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={() => setLinkingEntryId(null)}
+                      className="p-2 text-gray-400 hover:text-gray-600"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
               </div>
             ))
           )}
+
+          {/* Pagination */}
+          {resultPage.total > DEFAULT_JOURNAL_PAGE_SIZE && (
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-gray-600">
+                Showing {(resultPage.page - 1) * resultPage.pageSize + 1}-
+                {(resultPage.page - 1) * resultPage.pageSize + resultPage.entries.length} of {resultPage.total}
+              </span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <span className="text-sm text-gray-700">Page {resultPage.page} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!resultPage.hasMore}
+                  className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       ) : (
         <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
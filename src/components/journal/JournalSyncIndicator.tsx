@@ -0,0 +1,104 @@
+// Sync state of the journal outbox, changes that gave up syncing, and offline edits that lost to newer
+// versions from another device
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { JournalSyncStatus } from '../../types';
+
+interface JournalSyncIndicatorProps {
+  status: JournalSyncStatus;
+  onRetry: () => void;
+  onRetryChange: (operationId: string) => void;
+  onDiscardChange: (operationId: string) => void;
+  onKeepLocal: (conflictId: string) => void;
+  onDiscardConflict: (conflictId: string) => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const JournalSyncIndicator: React.FC<JournalSyncIndicatorProps> = ({
+  status,
+  onRetry,
+  onRetryChange,
+  onDiscardChange,
+  onKeepLocal,
+  onDiscardConflict
+}) => {
+  const { state, pendingCount, failedChanges, conflicts } = status;
+
+  const badge = {
+    synced: { icon: CheckCircle, label: 'All changes saved', className: 'text-green-700 bg-green-50 border-green-200' },
+    pending: { icon: Cloud, label: `${plural(pendingCount, 'change')} waiting to sync`, className: 'text-blue-700 bg-blue-50 border-blue-200' },
+    syncing: { icon: RefreshCw, label: 'Syncing...', className: 'text-blue-700 bg-blue-50 border-blue-200' },
+    offline: {
+      icon: CloudOff,
+      label: pendingCount > 0 ? `Offline · ${plural(pendingCount, 'change')} saved on this device` : 'Offline · new entries are saved on this device',
+      className: 'text-gray-700 bg-gray-100 border-gray-300'
+    },
+    error: { icon: AlertTriangle, label: `${plural(pendingCount, 'change')} could not sync`, className: 'text-orange-700 bg-orange-50 border-orange-200' },
+    failed: { icon: AlertTriangle, label: `${plural(failedChanges.length, 'change')} failed to sync`, className: 'text-red-700 bg-red-50 border-red-200' }
+  }[state];
+  const Icon = badge.icon;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center justify-end space-x-2">
+        <span
+          className={`flex items-center space-x-1 px-3 py-1 text-xs font-medium border rounded-full ${badge.className}`}
+          title={status.lastError || (status.lastSyncedAt ? `Last synced ${status.lastSyncedAt.toLocaleTimeString()}` : undefined)}
+        >
+          <Icon className={`h-3.5 w-3.5 ${state === 'syncing' ? 'animate-spin' : ''}`} />
+          <span>{badge.label}</span>
+        </span>
+        {(state === 'error' || state === 'pending') && (
+          <button onClick={onRetry} className="text-xs text-blue-600 hover:text-blue-800">
+            Sync now
+          </button>
+        )}
+      </div>
+
+      {failedChanges.map(change => (
+        <div key={change.id} className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-900">
+          <span className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {change.type === 'create' ? 'An entry you wrote' : 'An edit you made'} on {new Date(change.queuedAt).toLocaleString()} could not be saved
+              after {plural(change.attempts, 'attempt')}{change.lastError ? `: ${change.lastError}` : '.'}
+            </span>
+          </span>
+          <span className="flex items-center space-x-3 ml-4 flex-shrink-0">
+            <button onClick={() => onRetryChange(change.id)} className="font-medium hover:underline">
+              Try again
+            </button>
+            <button onClick={() => onDiscardChange(change.id)} className="text-red-700 hover:underline">
+              Discard
+            </button>
+          </span>
+        </div>
+      ))}
+
+      {conflicts.map(conflict => (
+        <div key={conflict.id} className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          <span className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {conflict.reason === 'deleted-on-server'
+                ? 'An entry you edited offline was deleted on another device.'
+                : 'An entry you edited offline was changed more recently on another device, so that version was kept.'}
+              {' '}Your offline edit is from {new Date(conflict.localModifiedAt).toLocaleString()}.
+            </span>
+          </span>
+          <span className="flex items-center space-x-3 ml-4 flex-shrink-0">
+            <button onClick={() => onKeepLocal(conflict.id)} className="font-medium hover:underline">
+              {conflict.reason === 'deleted-on-server' ? 'Save as new entry' : 'Use my version'}
+            </button>
+            <button onClick={() => onDiscardConflict(conflict.id)} className="text-amber-700 hover:underline">
+              Discard
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default JournalSyncIndicator;
@@ -1,28 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   BookOpen, 
   TrendingUp, 
   Calendar,
   Share2,
   Eye,
-  X
+  X,
+  MessageSquare,
+  Link2,
+  KeyRound,
+  Lock,
+  Download
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { JournalService } from '../../services/journalService';
+import { JournalPromptService } from '../../services/journalPromptService';
+import { JournalNoteService } from '../../services/journalNoteService';
+import { MoodAnalyticsService } from '../../services/moodAnalyticsService';
+import { JournalEncryptionService } from '../../services/journalEncryptionService';
+import { JournalSyncService } from '../../services/journalSyncService';
 import { 
   JournalEntry, 
   JournalDraft, 
   JournalStats, 
   MoodTrend,
+  JournalCounselorNote,
+  JournalSyncStatus,
   MOOD_EMOJIS,
   MOOD_COLORS 
 } from '../../types/Journal';
 import JournalEntryEditor from './JournalEntryEditor';
 import JournalList from './JournalList';
+import JournalInsights from './JournalInsights';
+import CounselorNoteList from './CounselorNoteList';
+import MoodAnalyticsPanel from './MoodAnalyticsPanel';
+import WeeklyReflectionCard from './WeeklyReflectionCard';
+import JournalEncryptionPrompt from './JournalEncryptionPrompt';
+import JournalExportPanel from './JournalExportPanel';
+import JournalSyncIndicator from './JournalSyncIndicator';
 
-type ViewState = 'list' | 'editor' | 'view' | 'stats';
+type ViewState = 'list' | 'editor' | 'view' | 'stats' | 'transfer';
 
-const JournalingInterface: React.FC = () => {
+interface JournalingInterfaceProps {
+  onUnreadCountChange?: () => void; // Called when counselor notes are marked as read
+}
+
+const JournalingInterface: React.FC<JournalingInterfaceProps> = ({ onUnreadCountChange }) => {
   const { user } = useAuth();
   const [viewState, setViewState] = useState<ViewState>('list');
   const [entries, setEntries] = useState<JournalEntry[]>([]);
@@ -31,11 +54,51 @@ const JournalingInterface: React.FC = () => {
   const [moodTrends, setMoodTrends] = useState<MoodTrend[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [counselorNotes, setCounselorNotes] = useState<JournalCounselorNote[]>([]);
+  const [encryptionUnlocked, setEncryptionUnlocked] = useState(false);
+  const [showUnlockPrompt, setShowUnlockPrompt] = useState(false);
+  const [showPassphraseChange, setShowPassphraseChange] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<JournalSyncStatus | null>(null);
+
+  // Prompts picked from recent moods, emotions, streak and cultural background
+  const suggestedPrompts = useMemo(() => JournalPromptService.selectPrompts({
+    culturalBackground: user?.studentProfile?.culturalBackground,
+    moodTrends,
+    stats,
+    recentPromptIds: entries
+      .slice(0, 10)
+      .map(entry => entry.promptId)
+      .filter((promptId): promptId is string => Boolean(promptId))
+  }), [user?.studentProfile?.culturalBackground, moodTrends, stats, entries]);
+
+  const hasQueuedChanges = Boolean(syncStatus && (syncStatus.pendingCount > 0 || syncStatus.failedChanges.length > 0));
+
+  // Mood analytics and the weekly reflection are computed from the loaded entries
+  const moodAnalytics = useMemo(() => MoodAnalyticsService.analyze(entries, { days: 30 }), [entries]);
+  const weeklyReflection = useMemo(() => MoodAnalyticsService.buildWeeklyReflection(entries), [entries]);
+  const lockedEntryCount = useMemo(() => entries.filter(entry => JournalEncryptionService.isLocked(entry)).length, [entries]);
 
   useEffect(() => {
-    if (user?.uid) {
-      loadJournalData();
-    }
+    if (!user?.uid) return;
+    const studentId = user.uid;
+    setEncryptionUnlocked(JournalEncryptionService.isUnlocked(studentId));
+    loadJournalData();
+
+    // The offline outbox syncs while the journal is open; entries reload once queued changes are written
+    let previousPendingCount = JournalSyncService.getStatus(studentId).pendingCount;
+    const unsubscribe = JournalSyncService.subscribe(studentId, status => {
+      setSyncStatus(status);
+      if (status.state !== 'syncing' && status.pendingCount < previousPendingCount) {
+        loadJournalData();
+      }
+      previousPendingCount = status.pendingCount;
+    });
+    const stop = JournalSyncService.start(studentId);
+
+    return () => {
+      stop();
+      unsubscribe();
+    };
   }, [user]);
 
   const loadJournalData = async () => {
@@ -43,8 +106,12 @@ const JournalingInterface: React.FC = () => {
 
     try {
       setIsLoading(true);
+      // Offline changes are shown over the loaded entries; encrypted entries are decrypted on this device
+      // when the journal is unlocked
+      const studentId = user.uid;
       const [journalEntries, journalStats, trends] = await Promise.all([
-        JournalService.getEntries(user.uid),
+        JournalService.getEntries(studentId)
+          .then(loaded => JournalEncryptionService.decryptEntries(JournalSyncService.applyPending(studentId, loaded))),
         JournalService.getJournalStats(user.uid),
         JournalService.getMoodTrends(user.uid, 30)
       ]);
@@ -52,6 +119,11 @@ const JournalingInterface: React.FC = () => {
       setEntries(journalEntries);
       setStats(journalStats);
       setMoodTrends(trends);
+
+      // Notes are optional for the journal itself, so a failure here doesn't block it
+      JournalNoteService.getVisibleNotes(user.uid)
+        .then(setCounselorNotes)
+        .catch(error => console.error('Failed to load counselor notes:', error));
     } catch (error) {
       console.error('Failed to load journal data:', error);
     } finally {
@@ -72,8 +144,8 @@ const JournalingInterface: React.FC = () => {
     try {
       setIsSaving(true);
       console.log('Calling JournalService.createEntry...');
-      const entryId = await JournalService.createEntry(user.uid, draft);
-      console.log('Journal entry created with ID:', entryId);
+      const { entryId, queued } = await JournalSyncService.createEntry(user.uid, draft);
+      console.log('Journal entry created with ID:', entryId, queued ? '(queued until online)' : '');
       
       console.log('Refreshing journal data...');
       await loadJournalData(); // Refresh data
@@ -89,11 +161,11 @@ const JournalingInterface: React.FC = () => {
   };
 
   const handleUpdateEntry = async (draft: JournalDraft) => {
-    if (!selectedEntry) return;
+    if (!selectedEntry || !user?.uid) return;
 
     try {
       setIsSaving(true);
-      await JournalService.updateEntry(selectedEntry.id, draft);
+      await JournalSyncService.updateEntry(user.uid, selectedEntry, draft);
       await loadJournalData(); // Refresh data
       setViewState('list');
       setSelectedEntry(null);
@@ -106,6 +178,17 @@ const JournalingInterface: React.FC = () => {
   };
 
   const handleShareEntry = async (entry: JournalEntry) => {
+    if (!JournalSyncService.isOnline() || JournalSyncService.isLocalId(entry.id)) {
+      alert('Sharing needs an internet connection. Entries written offline can be shared once they have synced.');
+      return;
+    }
+
+    // Counselors can't read encrypted text, so encrypted entries aren't shared
+    if (entry.isEncrypted && !entry.sharedWithCounselors) {
+      alert('Counselors cannot read encrypted entries. To share this entry, edit it and turn off encryption first.');
+      return;
+    }
+
     try {
       await JournalService.shareWithCounselors(entry.id, !entry.sharedWithCounselors);
       await loadJournalData(); // Refresh data
@@ -114,11 +197,88 @@ const JournalingInterface: React.FC = () => {
     }
   };
 
+  const handleUnlocked = async () => {
+    setEncryptionUnlocked(true);
+    setShowUnlockPrompt(false);
+    if (selectedEntry) {
+      setSelectedEntry(await JournalEncryptionService.decryptEntry(selectedEntry));
+    }
+    await loadJournalData();
+  };
+
+  const handlePassphraseChanged = () => {
+    setShowPassphraseChange(false);
+    alert('Your journal passphrase has been changed.');
+  };
+
+  // Locking forgets the key and reloads so no decrypted text stays on screen
+  const handleLock = async () => {
+    if (!user?.uid) return;
+    JournalEncryptionService.lock(user.uid);
+    setEncryptionUnlocked(false);
+    setSelectedEntry(null);
+    setViewState('list');
+    await loadJournalData();
+  };
+
+  const renderUnlockPrompt = () => user?.uid && (
+    <div className="mb-6">
+      <JournalEncryptionPrompt
+        studentId={user.uid}
+        onUnlocked={handleUnlocked}
+        onCancel={() => setShowUnlockPrompt(false)}
+      />
+    </div>
+  );
+
+  const handleLinkEntries = async (entryId: string, relatedEntryId: string) => {
+    try {
+      await JournalService.linkEntries(entryId, relatedEntryId);
+      await loadJournalData();
+    } catch (error) {
+      console.error('Failed to link entries:', error);
+    }
+  };
+
+  const handleUnlinkEntries = async (entryId: string, relatedEntryId: string) => {
+    try {
+      await JournalService.unlinkEntries(entryId, relatedEntryId);
+      await loadJournalData();
+    } catch (error) {
+      console.error('Failed to unlink entries:', error);
+    }
+  };
+
   const handleEntrySelect = (entry: JournalEntry) => {
     setSelectedEntry(entry);
     setViewState('view');
+
+    // Opening the entry reads its new counselor notes
+    const unreadNoteIds = counselorNotes
+      .filter(note => note.entryId === entry.id && !note.readByStudent)
+      .map(note => note.id);
+    if (unreadNoteIds.length > 0) {
+      JournalNoteService.markNotesAsRead(unreadNoteIds)
+        .then(() => {
+          setCounselorNotes(prev => prev.map(note =>
+            unreadNoteIds.includes(note.id) ? { ...note, readByStudent: true } : note
+          ));
+          onUnreadCountChange?.();
+        })
+        .catch(error => console.error('Failed to mark counselor notes as read:', error));
+    }
   };
 
+  const unreadNoteCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    counselorNotes
+      .filter(note => !note.readByStudent)
+      .forEach(note => {
+        counts[note.entryId] = (counts[note.entryId] || 0) + 1;
+      });
+    return counts;
+  }, [counselorNotes]);
+
   const handleEntryEdit = (entry: JournalEntry) => {
     setSelectedEntry(entry);
     setViewState('editor');
@@ -198,6 +358,12 @@ const JournalingInterface: React.FC = () => {
         </div>
       )}
 
+      {/* Weekly reflection */}
+      <WeeklyReflectionCard reflection={weeklyReflection} />
+
+      {/* Mood analytics */}
+      <MoodAnalyticsPanel analytics={moodAnalytics} />
+
       {/* Mood Trends Chart */}
       <div className="bg-white p-6 rounded-lg border border-gray-200">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Mood Trends (Last 30 Days)</h3>
@@ -251,6 +417,9 @@ const JournalingInterface: React.FC = () => {
 
   const renderEntryView = () => {
     if (!selectedEntry) return null;
+    const selectedEntryNotes = counselorNotes.filter(note => note.entryId === selectedEntry.id);
+    const relatedEntries = entries.filter(entry => (selectedEntry.followUpEntries || []).includes(entry.id));
+
 
     return (
       <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-lg overflow-hidden">
@@ -260,7 +429,7 @@ const JournalingInterface: React.FC = () => {
             <div className="flex items-center space-x-3">
               <Eye className="h-6 w-6 text-white" />
               <h2 className="text-xl font-semibold text-white">
-                {selectedEntry.title || 'Journal Entry'}
+                {selectedEntry.title || (JournalEncryptionService.isLocked(selectedEntry) ? 'Encrypted Entry' : 'Journal Entry')}
               </h2>
             </div>
             <button
@@ -303,6 +472,12 @@ const JournalingInterface: React.FC = () => {
                   Private
                 </span>
               )}
+              {selectedEntry.isEncrypted && (
+                <span className="flex items-center text-sm text-indigo-600">
+                  <KeyRound className="h-4 w-4 mr-1" />
+                  Encrypted
+                </span>
+              )}
               {selectedEntry.sharedWithCounselors && (
                 <span className="flex items-center text-sm text-green-600">
                   <Share2 className="h-4 w-4 mr-1" />
@@ -330,6 +505,15 @@ const JournalingInterface: React.FC = () => {
             </div>
           )}
 
+          {/* Tags */}
+          {selectedEntry.tags && selectedEntry.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {selectedEntry.tags.map(tag => (
+                <span key={tag} className="px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded-full">#{tag}</span>
+              ))}
+            </div>
+          )}
+
           {/* Trigger */}
           {selectedEntry.trigger && (
             <div>
@@ -341,11 +525,62 @@ const JournalingInterface: React.FC = () => {
           {/* Content */}
           <div>
             <h4 className="font-medium text-gray-900 mb-2">Entry</h4>
-            <div className="prose max-w-none">
-              <p className="text-gray-700 whitespace-pre-wrap">{selectedEntry.content}</p>
-            </div>
+            {JournalEncryptionService.isLocked(selectedEntry) ? (
+              showUnlockPrompt ? renderUnlockPrompt() : (
+                <div className="flex items-center justify-between p-4 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-900">
+                  <span className="flex items-center space-x-2">
+                    <Lock className="h-4 w-4" />
+                    <span>This entry is encrypted.</span>
+                  </span>
+                  <button onClick={() => setShowUnlockPrompt(true)} className="font-medium hover:underline">
+                    Unlock to read
+                  </button>
+                </div>
+              )
+            ) : (
+              <div className="prose max-w-none">
+                <p className="text-gray-700 whitespace-pre-wrap">{selectedEntry.content}</p>
+              </div>
+            )}
           </div>
 
+          {/* AI insights */}
+          {selectedEntry.aiAnalysis && !selectedEntry.isPrivate && (
+            <JournalInsights analysis={selectedEntry.aiAnalysis} />
+          )}
+
+          {/* Related entries */}
+          {relatedEntries.length > 0 && (
+            <div>
+              <h4 className="flex items-center space-x-2 font-medium text-gray-900 mb-2">
+                <Link2 className="h-4 w-4" />
+                <span>Related entries</span>
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {relatedEntries.map(related => (
+                  <button
+                    key={related.id}
+                    onClick={() => handleEntrySelect(related)}
+                    className="px-3 py-1 text-sm bg-purple-50 text-purple-800 rounded-full hover:bg-purple-100"
+                  >
+                    {MOOD_EMOJIS[related.mood]} {related.title || formatDate(related.timestamp)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Notes counselors chose to share with the student */}
+          {selectedEntryNotes.length > 0 && (
+            <div>
+              <h4 className="flex items-center space-x-2 font-medium text-gray-900 mb-2">
+                <MessageSquare className="h-4 w-4" />
+                <span>Notes from your counselor</span>
+              </h4>
+              <CounselorNoteList notes={selectedEntryNotes} />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex items-center justify-between pt-6 border-t border-gray-200">
             <button
@@ -389,6 +624,22 @@ const JournalingInterface: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto">
+        {syncStatus && (
+          <JournalSyncIndicator
+            status={syncStatus}
+            onRetry={() => JournalSyncService.sync(user.uid).catch(console.error)}
+            onRetryChange={(operationId) => JournalSyncService.retryFailedChange(user.uid, operationId).then(loadJournalData).catch(console.error)}
+            onDiscardChange={(operationId) => {
+              if (window.confirm('Discard this change? It has not been saved anywhere else.')) {
+                JournalSyncService.discardFailedChange(user.uid, operationId);
+                loadJournalData();
+              }
+            }}
+            onKeepLocal={(conflictId) => JournalSyncService.keepLocalVersion(user.uid, conflictId).then(loadJournalData).catch(console.error)}
+            onDiscardConflict={(conflictId) => JournalSyncService.discardConflict(user.uid, conflictId)}
+          />
+        )}
+
         {viewState === 'list' && (
           <>
             {/* Quick Stats Bar */}
@@ -409,17 +660,73 @@ const JournalingInterface: React.FC = () => {
                       <div className="text-sm text-gray-600">Avg Mood</div>
                     </div>
                   </div>
-                  <button
-                    onClick={() => setViewState('stats')}
-                    className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                  >
-                    <TrendingUp className="h-4 w-4" />
-                    <span>View Stats</span>
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setViewState('transfer')}
+                      className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Export / Import</span>
+                    </button>
+                    <button
+                      onClick={() => setViewState('stats')}
+                      className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      <TrendingUp className="h-4 w-4" />
+                      <span>View Stats</span>
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
 
+            {/* Encryption status */}
+            {showUnlockPrompt ? renderUnlockPrompt() : lockedEntryCount > 0 ? (
+              <div className="mb-6 flex items-center justify-between p-4 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-900">
+                <span className="flex items-center space-x-2">
+                  <Lock className="h-4 w-4" />
+                  <span>
+                    {lockedEntryCount} encrypted {lockedEntryCount === 1 ? 'entry is' : 'entries are'} locked.
+                    Their text is hidden from search and insights until you unlock your journal.
+                  </span>
+                </span>
+                <button onClick={() => setShowUnlockPrompt(true)} className="ml-4 font-medium hover:underline">
+                  Unlock
+                </button>
+              </div>
+            ) : showPassphraseChange && user?.uid ? (
+              <div className="mb-6">
+                <JournalEncryptionPrompt
+                  studentId={user.uid}
+                  changePassphrase
+                  onUnlocked={handlePassphraseChanged}
+                  onCancel={() => setShowPassphraseChange(false)}
+                />
+              </div>
+            ) : encryptionUnlocked && (
+              <div className="mb-6 flex items-center justify-end space-x-4">
+                {/* Queued offline changes are sealed with the current key, so they have to sync first */}
+                <button
+                  onClick={() => setShowPassphraseChange(true)}
+                  disabled={hasQueuedChanges}
+                  title={hasQueuedChanges ? 'Sync or discard your offline changes before changing your passphrase' : undefined}
+                  className="text-sm text-indigo-700 hover:text-indigo-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Change passphrase
+                </button>
+                <button onClick={handleLock} className="flex items-center space-x-1 text-sm text-indigo-700 hover:text-indigo-900">
+                  <KeyRound className="h-4 w-4" />
+                  <span>Journal unlocked · Lock now</span>
+                </button>
+              </div>
+            )}
+
+            {entries.length > 0 && (
+              <div className="mb-6">
+                <WeeklyReflectionCard reflection={weeklyReflection} />
+              </div>
+            )}
+
             <JournalList
               entries={entries}
               onEntrySelect={handleEntrySelect}
@@ -427,6 +734,9 @@ const JournalingInterface: React.FC = () => {
               onEntryShare={handleShareEntry}
               onCreateNew={() => setViewState('editor')}
               isLoading={isLoading}
+              unreadNoteCounts={unreadNoteCounts}
+              onLinkEntries={handleLinkEntries}
+              onUnlinkEntries={handleUnlinkEntries}
             />
           </>
         )}
@@ -440,7 +750,11 @@ const JournalingInterface: React.FC = () => {
               emotionTags: selectedEntry.emotionTags,
               intensityLevel: selectedEntry.intensityLevel,
               trigger: selectedEntry.trigger,
-              isPrivate: selectedEntry.isPrivate
+              tags: selectedEntry.tags || [],
+              isPrivate: selectedEntry.isPrivate,
+              aiAnalysisEnabled: selectedEntry.aiAnalysisEnabled ?? false,
+              encrypt: Boolean(selectedEntry.isEncrypted),
+              ...(selectedEntry.promptId && { promptId: selectedEntry.promptId })
             } : undefined}
             onSave={selectedEntry ? handleUpdateEntry : handleCreateEntry}
             onCancel={() => {
@@ -449,12 +763,31 @@ const JournalingInterface: React.FC = () => {
             }}
             isLoading={isSaving}
             mode={selectedEntry ? 'edit' : 'create'}
+            analysis={selectedEntry?.aiAnalysis}
+            prompts={suggestedPrompts}
+            moodAnalytics={moodAnalytics}
+            studentId={user.uid}
+            autosaveKey={selectedEntry ? selectedEntry.id : 'new'}
+            encryptedPayload={selectedEntry && JournalEncryptionService.isLocked(selectedEntry) ? selectedEntry.encryptedPayload : undefined}
+            onUnlocked={() => {
+              setEncryptionUnlocked(true);
+              loadJournalData();
+            }}
           />
         )}
 
         {viewState === 'view' && renderEntryView()}
 
         {viewState === 'stats' && renderStats()}
+
+        {viewState === 'transfer' && (
+          <JournalExportPanel
+            studentId={user.uid}
+            entries={entries}
+            onImported={loadJournalData}
+            onClose={() => setViewState('list')}
+          />
+        )}
       </div>
     </div>
   );
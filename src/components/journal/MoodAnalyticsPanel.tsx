@@ -0,0 +1,211 @@
+// Mood patterns over the last 30 days: rolling average, volatility, weekly and daily rhythms,
+// emotions that show up together and how triggers relate to mood
+import React from 'react';
+import { Activity, TrendingUp, TrendingDown, Minus, Lightbulb, Clock, Calendar, Link2, Zap } from 'lucide-react';
+import { MoodAnalytics, MoodPatternBucket } from '../../types';
+
+interface MoodAnalyticsPanelProps {
+  analytics: MoodAnalytics;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 20;
+
+const VOLATILITY_LABELS = {
+  stable: { label: 'Steady', className: 'text-green-700 bg-green-50' },
+  moderate: { label: 'Some ups and downs', className: 'text-yellow-700 bg-yellow-50' },
+  high: { label: 'Lots of ups and downs', className: 'text-orange-700 bg-orange-50' }
+};
+
+// Mood values run from 1 to 9; bars and points are scaled to that range
+const toPercent = (moodValue: number) => Math.max(0, Math.min(100, ((moodValue - 1) / 8) * 100));
+
+const moodBarColor = (moodValue: number) => {
+  if (moodValue <= 3) return '#f97316';
+  if (moodValue < 6) return '#eab308';
+  return '#22c55e';
+};
+
+const PatternBars = <K extends string | number>({ buckets }: { buckets: MoodPatternBucket<K>[] }) => (
+  <div className="space-y-2">
+    {buckets.map(bucket => (
+      <div key={bucket.key} className="flex items-center space-x-3 text-sm">
+        <span className="w-24 text-gray-600">{bucket.label}</span>
+        <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+          {bucket.averageMood !== null && (
+            <div
+              className="h-full rounded-full"
+              style={{ width: `${toPercent(bucket.averageMood)}%`, backgroundColor: moodBarColor(bucket.averageMood) }}
+            />
+          )}
+        </div>
+        <span className="w-20 text-right text-xs text-gray-500">
+          {bucket.averageMood !== null ? `${bucket.averageMood}/10 · ${bucket.entryCount}` : 'No entries'}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+const MoodAnalyticsPanel: React.FC<MoodAnalyticsPanelProps> = ({ analytics }) => {
+  if (analytics.entryCount === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg border border-gray-200 text-center text-gray-600">
+        <Activity className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+        <p>Write a few entries to start seeing your mood patterns.</p>
+      </div>
+    );
+  }
+
+  // Rolling average line; days before the first entry have no value and are skipped
+  const points = analytics.rollingAverages
+    .map((point, index) => point.rollingAverage === null ? null : {
+      x: CHART_PADDING + (index / Math.max(1, analytics.rollingAverages.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2),
+      y: CHART_HEIGHT - CHART_PADDING - (toPercent(point.rollingAverage) / 100) * (CHART_HEIGHT - CHART_PADDING * 2),
+      point
+    })
+    .filter((point): point is NonNullable<typeof point> => point !== null);
+  const linePath = points.map((p, index) => `${index === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+  const DirectionIcon = analytics.direction === 'improving' ? TrendingUp
+    : analytics.direction === 'declining' ? TrendingDown
+    : Minus;
+  const volatility = VOLATILITY_LABELS[analytics.volatilityLevel];
+
+  return (
+    <div className="space-y-6">
+      {/* Insights */}
+      {analytics.insights.length > 0 && (
+        <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-lg border border-blue-100">
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-3">
+            <Lightbulb className="h-5 w-5 text-amber-500" />
+            <span>What your entries show</span>
+          </h3>
+          <ul className="space-y-2 text-sm text-gray-700 list-disc ml-5">
+            {analytics.insights.map(insight => <li key={insight}>{insight}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* Rolling average */}
+      <div className="bg-white p-6 rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {analytics.rollingWindowDays}-Day Average Mood
+          </h3>
+          <div className="flex items-center space-x-3 text-sm">
+            <span className="flex items-center space-x-1 text-gray-700 capitalize">
+              <DirectionIcon className="h-4 w-4" />
+              <span>{analytics.direction}</span>
+            </span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${volatility.className}`}>
+              {volatility.label}
+            </span>
+          </div>
+        </div>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+          {[1, 5, 9].map(value => {
+            const y = CHART_HEIGHT - CHART_PADDING - (toPercent(value) / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+            return (
+              <g key={value}>
+                <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y} y2={y} stroke="#e5e7eb" strokeDasharray="4 4" />
+                <text x={2} y={y + 4} fontSize="10" fill="#9ca3af">{value}</text>
+              </g>
+            );
+          })}
+          {points.length > 1 && <path d={linePath} fill="none" stroke="#6366f1" strokeWidth={2.5} />}
+          {points
+            .filter(p => p.point.moodValue !== null)
+            .map(p => (
+              <circle key={p.point.date.toISOString()} cx={p.x} cy={p.y} r={3} fill="#6366f1">
+                <title>{`${p.point.date.toDateString()}: ${p.point.rollingAverage}/10 average`}</title>
+              </circle>
+            ))}
+        </svg>
+        <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+          <span>{analytics.periodStart.toLocaleDateString()}</span>
+          <span>
+            Average {analytics.averageMood}/10 over {analytics.entryCount} {analytics.entryCount === 1 ? 'entry' : 'entries'}
+            {' · '}variability {analytics.volatility}
+          </span>
+          <span>{analytics.periodEnd.toLocaleDateString()}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Day of week */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+            <Calendar className="h-5 w-5 text-blue-600" />
+            <span>By Day of Week</span>
+          </h3>
+          <PatternBars buckets={analytics.dayOfWeek} />
+        </div>
+
+        {/* Time of day */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+            <Clock className="h-5 w-5 text-purple-600" />
+            <span>By Time of Day</span>
+          </h3>
+          <PatternBars buckets={analytics.timeOfDay} />
+        </div>
+
+        {/* Emotion co-occurrence */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+            <Link2 className="h-5 w-5 text-teal-600" />
+            <span>Emotions That Show Up Together</span>
+          </h3>
+          {analytics.emotionCoOccurrence.length === 0 ? (
+            <p className="text-sm text-gray-500">Tag more than one emotion on your entries to see which ones travel together.</p>
+          ) : (
+            <div className="space-y-2">
+              {analytics.emotionCoOccurrence.map(pair => (
+                <div key={pair.emotions.join('|')} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs capitalize">{pair.emotions[0]}</span>
+                    <span className="text-gray-400">+</span>
+                    <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs capitalize">{pair.emotions[1]}</span>
+                  </div>
+                  <span className="text-xs text-gray-500">{pair.count} entries · mood {pair.averageMood}/10</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Triggers */}
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+            <Zap className="h-5 w-5 text-amber-500" />
+            <span>What Prompted Your Entries</span>
+          </h3>
+          {analytics.triggerCorrelations.length === 0 ? (
+            <p className="text-sm text-gray-500">Fill in &quot;what prompted this entry&quot; to see how different parts of life affect your mood.</p>
+          ) : (
+            <div className="space-y-2">
+              {analytics.triggerCorrelations.map(correlation => (
+                <div key={correlation.theme} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">{correlation.label}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-xs text-gray-500">{correlation.entryCount} entries</span>
+                    <span className={`w-14 text-right text-xs font-medium ${
+                      correlation.moodDifference < 0 ? 'text-orange-600' : correlation.moodDifference > 0 ? 'text-green-600' : 'text-gray-500'
+                    }`}>
+                      {correlation.moodDifference > 0 ? '+' : ''}{correlation.moodDifference}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500 pt-2">Difference from your average mood for the period.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoodAnalyticsPanel;
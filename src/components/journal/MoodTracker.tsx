@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { 
   MoodLevel, 
   EmotionCategory, 
+  MoodAnalytics,
   MOOD_VALUES, 
   MOOD_COLORS, 
   MOOD_EMOJIS 
@@ -15,6 +17,7 @@ interface MoodTrackerProps {
   onEmotionsChange: (emotions: EmotionCategory[]) => void;
   onIntensityChange: (intensity: number) => void;
   disabled?: boolean;
+  analytics?: MoodAnalytics; // Recent patterns shown next to the mood summary
 }
 
 const EMOTION_OPTIONS: { category: EmotionCategory; label: string; color: string }[] = [
@@ -45,7 +48,8 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({
   onMoodChange,
   onEmotionsChange,
   onIntensityChange,
-  disabled = false
+  disabled = false,
+  analytics
 }) => {
   const [showEmotions, setShowEmotions] = useState(selectedEmotions.length > 0);
 
@@ -67,6 +71,24 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({
 
   const moodEntries = Object.entries(MOOD_VALUES) as [MoodLevel, number][];
 
+  // Recent patterns from the student's analytics
+  const latestAverage = analytics?.rollingAverages
+    .map(point => point.rollingAverage)
+    .filter((value): value is number => value !== null)
+    .pop();
+  const today = analytics?.dayOfWeek[new Date().getDay()];
+  const companionEmotions = analytics
+    ? Array.from(new Set(
+        analytics.emotionCoOccurrence
+          .filter(pair => pair.emotions.some(emotion => selectedEmotions.includes(emotion)))
+          .flatMap(pair => pair.emotions)
+          .filter(emotion => !selectedEmotions.includes(emotion))
+      )).slice(0, 3)
+    : [];
+  const DirectionIcon = analytics?.direction === 'improving' ? TrendingUp
+    : analytics?.direction === 'declining' ? TrendingDown
+    : Minus;
+
   return (
     <div className="space-y-6">
       {/* Mood Selection */}
@@ -224,6 +246,26 @@ const MoodTracker: React.FC<MoodTrackerProps> = ({
             </div>
           </div>
         </div>
+
+        {analytics && analytics.entryCount > 0 && (
+          <div className="mt-3 pt-3 border-t border-blue-100 space-y-1 text-xs text-gray-600">
+            {latestAverage !== undefined && (
+              <div className="flex items-center space-x-1">
+                <DirectionIcon className="h-3 w-3" />
+                <span>
+                  Your {analytics.rollingWindowDays}-day average is {latestAverage}/10
+                  {analytics.direction !== 'steady' && ` and ${analytics.direction}`}
+                </span>
+              </div>
+            )}
+            {today && today.averageMood !== null && today.entryCount >= 2 && (
+              <div>{today.label}s usually average {today.averageMood}/10 for you</div>
+            )}
+            {companionEmotions.length > 0 && (
+              <div>Often felt alongside what you selected: {companionEmotions.join(', ')}</div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
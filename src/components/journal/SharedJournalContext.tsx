@@ -0,0 +1,64 @@
+// Journal entry snapshots a student shared with a support request or conversation
+import React from 'react';
+import { BookOpen, X } from 'lucide-react';
+import { JournalContext } from '../../types';
+import { MOOD_EMOJIS, MoodLevel } from '../../types/Journal';
+
+interface SharedJournalContextProps {
+  contexts: JournalContext[];
+  onRevoke?: (entryId: string) => void; // Shown to the student who shared the entries
+  revokingEntryId?: string | null;
+}
+
+const SharedJournalContext: React.FC<SharedJournalContextProps> = ({ contexts, onRevoke, revokingEntryId }) => {
+  if (contexts.length === 0) {
+    return <p className="text-xs text-gray-500">No journal entries are shared.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {contexts.map(context => (
+        <div key={context.entryId} className="p-3 bg-white border border-amber-200 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div className="flex items-center space-x-2 text-sm">
+              <span>{MOOD_EMOJIS[context.mood as MoodLevel] || <BookOpen size={14} />}</span>
+              <span className="font-medium text-gray-900">{context.title || 'Journal entry'}</span>
+              <span className="text-xs text-gray-500">{context.date.toLocaleDateString()}</span>
+            </div>
+            {onRevoke && (
+              <button
+                onClick={() => onRevoke(context.entryId)}
+                disabled={revokingEntryId === context.entryId}
+                className="inline-flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                title="Stop sharing this entry"
+              >
+                <X size={12} />
+                <span>{revokingEntryId === context.entryId ? 'Removing...' : 'Stop sharing'}</span>
+              </button>
+            )}
+          </div>
+
+          <div className="mt-1 flex flex-wrap gap-1">
+            {context.emotionTags.map(emotion => (
+              <span key={emotion} className="px-2 py-0.5 text-xs bg-amber-50 text-amber-800 rounded-full">{emotion}</span>
+            ))}
+            {context.intensityLevel !== undefined && (
+              <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">Intensity {context.intensityLevel}/10</span>
+            )}
+          </div>
+
+          {context.trigger && (
+            <p className="mt-1 text-xs text-gray-600"><span className="font-medium">Trigger:</span> {context.trigger}</p>
+          )}
+          {context.relevantSnippet ? (
+            <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{context.relevantSnippet}</p>
+          ) : (
+            <p className="mt-2 text-xs italic text-gray-500">Entry text not shared</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SharedJournalContext;
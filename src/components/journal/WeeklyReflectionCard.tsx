@@ -0,0 +1,37 @@
+// Generated summary of the student's past seven days of journaling
+import React from 'react';
+import { CalendarCheck, Heart } from 'lucide-react';
+import { WeeklyReflection } from '../../types';
+
+interface WeeklyReflectionCardProps {
+  reflection: WeeklyReflection;
+}
+
+const WeeklyReflectionCard: React.FC<WeeklyReflectionCardProps> = ({ reflection }) => (
+  <div className="bg-white p-6 rounded-lg border border-gray-200">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+        <CalendarCheck className="h-5 w-5 text-teal-600" />
+        <span>Your Week in Reflection</span>
+      </h3>
+      <span className="text-xs text-gray-500">
+        {reflection.weekStart.toLocaleDateString()} - {reflection.weekEnd.toLocaleDateString()}
+      </span>
+    </div>
+
+    <p className="text-gray-700">{reflection.summary}</p>
+
+    {reflection.highlights.length > 0 && (
+      <ul className="mt-3 space-y-1 text-sm text-gray-700 list-disc ml-5">
+        {reflection.highlights.map(highlight => <li key={highlight}>{highlight}</li>)}
+      </ul>
+    )}
+
+    <div className="flex items-start space-x-2 mt-4 p-3 bg-teal-50 border border-teal-100 rounded text-sm text-teal-900">
+      <Heart className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <span>{reflection.suggestion}</span>
+    </div>
+  </div>
+);
+
+export default WeeklyReflectionCard;
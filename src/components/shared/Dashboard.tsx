@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { CulturalBackgroundModal } from './CulturalBackgroundModal';
 import { CulturalBackground } from '../../types';
+import { PresenceService } from '../../services/presenceService';
 
 // Dashboard components
 const StudentDashboard = React.lazy(() => import('../student/StudentDashboard'));
@@ -27,6 +28,12 @@ export const Dashboard: React.FC = () => {
     setIsInitializing(false);
   }, [user, isStudent]);
 
+  // Publish online presence for students and counselors while the dashboard is open
+  useEffect(() => {
+    if (!user?.uid || (user.userType !== 'student' && user.userType !== 'counselor')) return;
+    return PresenceService.connect({ uid: user.uid, userType: user.userType });
+  }, [user?.uid, user?.userType]);
+
   const handleCulturalBackgroundComplete = (background: CulturalBackground) => {
     setShowCulturalModal(false);
     // The modal handles updating the user profile
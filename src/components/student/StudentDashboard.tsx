@@ -1,9 +1,10 @@
 // Student dashboard with quick access to features
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { MessageCircle, BookOpen, Brain, Settings, LogOut, Sparkles, Menu, X, Lock, Globe, Users, Mail, Clock, User } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { MessageService } from '../../services/messageService';
 import { ConversationService } from '../../services/conversationService';
+import { JournalNoteService } from '../../services/journalNoteService';
 import { Message, Response } from '../../types/Message';
 
 // Placeholder components - we'll build these
@@ -234,22 +235,9 @@ const StudentDashboard: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const [chatUnreadCount, setChatUnreadCount] = useState(0);
+  const [journalNoteCount, setJournalNoteCount] = useState(0);
 
-  // Load unread responses count
-  useEffect(() => {
-    if (user?.uid) {
-      loadUnreadCount();
-      loadChatUnreadCount();
-      // Set up interval to check for new responses every 30 seconds
-      const interval = setInterval(() => {
-        loadUnreadCount();
-        loadChatUnreadCount();
-      }, 30000);
-      return () => clearInterval(interval);
-    }
-  }, [user?.uid]);
-
-  const loadUnreadCount = async () => {
+  const loadUnreadCount = useCallback(async () => {
     if (!user?.uid) return;
     
     try {
@@ -258,9 +246,9 @@ const StudentDashboard: React.FC = () => {
     } catch (error) {
       console.error('Failed to load unread count:', error);
     }
-  };
+  }, [user?.uid]);
 
-  const loadChatUnreadCount = async () => {
+  const loadChatUnreadCount = useCallback(async () => {
     if (!user?.uid) return;
     
     try {
@@ -269,7 +257,35 @@ const StudentDashboard: React.FC = () => {
     } catch (error) {
       console.error('Failed to load chat unread count:', error);
     }
-  };
+  }, [user?.uid]);
+
+  // Counselor notes shared on journal entries that the student hasn't opened yet
+  const loadJournalNoteCount = useCallback(async () => {
+    if (!user?.uid) return;
+    
+    try {
+      const unreadNoteCount = await JournalNoteService.getUnreadNoteCount(user.uid);
+      setJournalNoteCount(unreadNoteCount);
+    } catch (error) {
+      console.error('Failed to load journal note count:', error);
+    }
+  }, [user?.uid]);
+
+  // Load unread responses count
+  useEffect(() => {
+    if (user?.uid) {
+      loadUnreadCount();
+      loadChatUnreadCount();
+      loadJournalNoteCount();
+      // Set up interval to check for new responses every 30 seconds
+      const interval = setInterval(() => {
+        loadUnreadCount();
+        loadChatUnreadCount();
+        loadJournalNoteCount();
+      }, 30000);
+      return () => clearInterval(interval);
+    }
+  }, [user?.uid, loadUnreadCount, loadChatUnreadCount, loadJournalNoteCount]);
 
   // Safety check - don't render if no user
   if (!user) {
@@ -305,7 +321,8 @@ const StudentDashboard: React.FC = () => {
       id: 'journal' as StudentView,
       label: 'Personal Journal',
       icon: <BookOpen size={20} />,
-      description: 'Private mood tracking and reflection'
+      description: 'Private mood tracking and reflection',
+      badge: journalNoteCount > 0 ? journalNoteCount : undefined
     },
     {
       id: 'mindfulness' as StudentView,
@@ -521,7 +538,7 @@ const StudentDashboard: React.FC = () => {
           <React.Suspense fallback={<div className="flex items-center justify-center py-20">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
           </div>}>
-            <JournalingInterface />
+            <JournalingInterface onUnreadCountChange={loadJournalNoteCount} />
           </React.Suspense>
         );
       case 'mindfulness':
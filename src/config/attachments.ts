@@ -0,0 +1,20 @@
+// Message attachment limits (storage.rules enforces the same size and type limits)
+
+// Uploaded files larger than this are rejected
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+// Accepted upload types and the attachment type each one becomes
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, 'image' | 'document'> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'document'
+};
+
+// Longest edge of generated image thumbnails, in pixels
+export const THUMBNAIL_MAX_DIMENSION = 320;
+
+export const ATTACHMENT_STORAGE_ROOT = 'conversation_attachments';
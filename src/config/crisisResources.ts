@@ -0,0 +1,44 @@
+// Crisis resources shown to students when crisis detection escalates a message
+import { CrisisResource, Language } from '../types';
+
+export const CRISIS_RESOURCES: Record<Language, CrisisResource[]> = {
+  en: [
+    {
+      name: '988 Suicide & Crisis Lifeline',
+      contact: 'Call or text 988',
+      description: 'Free, confidential support 24/7 in the US'
+    },
+    {
+      name: 'Crisis Text Line',
+      contact: 'Text HOME to 741741',
+      description: 'Text with a trained crisis counselor 24/7'
+    },
+    {
+      name: 'Emergency Services',
+      contact: 'Call 911',
+      description: 'If you are in immediate danger'
+    }
+  ],
+  es: [
+    {
+      name: '988 Línea de Prevención del Suicidio y Crisis',
+      contact: 'Llama al 988 y marca la opción 2',
+      description: 'Apoyo gratuito y confidencial en español, las 24 horas'
+    },
+    {
+      name: 'Crisis Text Line en español',
+      contact: 'Envía AYUDA al 741741',
+      description: 'Habla por mensaje de texto con un consejero capacitado'
+    },
+    {
+      name: 'Servicios de Emergencia',
+      contact: 'Llama al 911',
+      description: 'Si estás en peligro inmediato'
+    }
+  ]
+};
+
+export const CRISIS_RESOURCES_HEADING: Record<Language, string> = {
+  en: "You don't have to go through this alone. Please reach out to someone right now:",
+  es: 'No tienes que pasar por esto solo/a. Por favor, comunícate con alguien ahora mismo:'
+};
@@ -2,9 +2,30 @@
 // This file centralizes all environment variable access
 
 export const ENV = {
-  // OpenAI Configuration
-  OPENAI_API_KEY: process.env.NEXT_PUBLIC_OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
+  // OpenAI Configuration (server-only - never exposed with a NEXT_PUBLIC_ prefix)
+  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+
+  // LLM provider selection (openai | local | mock) - see config/llm.ts for per-feature settings
+  // Server-only: all AI calls run in API routes
+  LLM: {
+    PROVIDER: process.env.LLM_PROVIDER,
+    LOCAL_BASE_URL: process.env.LLM_LOCAL_BASE_URL,
+    LOCAL_API_KEY: process.env.LLM_LOCAL_API_KEY,
+    LOCAL_MODEL: process.env.LLM_LOCAL_MODEL,
+    FEATURE_OVERRIDES: process.env.LLM_FEATURE_OVERRIDES
+  },
+
+  // Scheduled jobs (server-only) - see config/jobs.ts for schedules
+  JOBS: {
+    CRON_SECRET: process.env.CRON_SECRET, // Bearer token the cron caller must send to /api/jobs/run
+    SERVICE_EMAIL: process.env.JOBS_SERVICE_EMAIL, // Account with the admin and service claims the server signs in as
+    SERVICE_PASSWORD: process.env.JOBS_SERVICE_PASSWORD,
+    LOCAL_SCHEDULER: process.env.JOBS_LOCAL_SCHEDULER // 'true' runs jobs in-process when no external cron is set up
+  },
   
+  // How long senders can edit or delete their conversation messages, in minutes - see config/messages.ts
+  MESSAGE_EDIT_WINDOW_MINUTES: process.env.NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES,
+
   // Firebase Configuration (supports both VITE_ and NEXT_PUBLIC_ prefixes)
   FIREBASE_CONFIG: {
     apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || process.env.VITE_FIREBASE_API_KEY,
@@ -23,9 +44,12 @@ export const ENV = {
 
 // Validation to ensure required environment variables are present
 const validateEnv = () => {
-  if (!ENV.OPENAI_API_KEY) {
+  // The OpenAI key is server-only and only needed when the OpenAI provider is in use
+  const isServer = typeof window === 'undefined';
+  const usesOpenAI = !ENV.LLM.PROVIDER || ENV.LLM.PROVIDER === 'openai';
+  if (isServer && usesOpenAI && !ENV.OPENAI_API_KEY) {
     console.error('ERROR: Missing OpenAI API key');
-    console.error('INFO: Add NEXT_PUBLIC_OPENAI_API_KEY to your .env.local file');
+    console.error('INFO: Add OPENAI_API_KEY to your .env.local file, or set LLM_PROVIDER=mock to run offline');
     throw new Error('OpenAI API key is required');
   }
 
@@ -0,0 +1,26 @@
+// Scheduled job configuration
+import { JobName } from '../types/Jobs';
+
+// How often each job runs, in minutes
+export const JOB_INTERVALS: Record<JobName, number> = {
+  'release-expired-claims': 5,
+  'close-stale-conversations': 60,
+  'recompute-counselor-stats': 360,
+  'run-deferred-analyses': 10,
+  'delete-deleted-entry-notes': 60
+};
+
+// The local scheduler checks for due jobs this often
+export const LOCAL_SCHEDULER_TICK_MS = 60 * 1000;
+
+// A run still marked as in progress after this long is assumed to have crashed
+export const JOB_LOCK_TIMEOUT_MINUTES = 15;
+
+// Active conversations with no messages for this long are closed
+export const STALE_CONVERSATION_DAYS = 14;
+
+// Deferred analyses are given up on after this many attempts
+export const MAX_DEFERRED_ANALYSIS_ATTEMPTS = 3;
+
+// Upper bound on documents handled per run so a single run stays short
+export const JOB_BATCH_LIMIT = 100;
@@ -0,0 +1,207 @@
+// Curated journal prompt catalog
+// General prompts are offered to everyone; culturally adapted prompts only to the backgrounds listed.
+// Prompt ids are stored on entries and usage records, so never reuse or renumber an id.
+import { JournalPrompt, JournalPromptCategory } from '../types';
+
+export const JOURNAL_PROMPT_CATEGORY_LABELS: Record<JournalPromptCategory, string> = {
+  reflection: 'Reflection',
+  gratitude: 'Gratitude',
+  goals: 'Goals',
+  challenges: 'Challenges',
+  growth: 'Growth'
+};
+
+export const JOURNAL_PROMPTS: JournalPrompt[] = [
+  // Reflection
+  {
+    id: 'reflection-01',
+    text: 'What took up most of your energy today, and how do you feel about where it went?',
+    category: 'reflection'
+  },
+  {
+    id: 'reflection-02',
+    text: 'Describe a moment from this week you keep coming back to. What does it tell you about what matters to you?',
+    category: 'reflection',
+    targetMoods: ['neutral', 'good']
+  },
+  {
+    id: 'reflection-03',
+    text: 'If your feelings today had a weather forecast, what would it be? What might change it?',
+    category: 'reflection',
+    targetMoods: ['very-low', 'low', 'neutral'],
+    targetEmotions: ['confused', 'overwhelmed']
+  },
+  {
+    id: 'reflection-04',
+    text: 'Write about something you did today only for yourself - or something you wish you had made time for.',
+    category: 'reflection',
+    targetEmotions: ['stressed', 'overwhelmed']
+  },
+
+  // Gratitude
+  {
+    id: 'gratitude-01',
+    text: 'Name three small things that went right today, even if the day was hard.',
+    category: 'gratitude',
+    targetMoods: ['very-low', 'low', 'neutral']
+  },
+  {
+    id: 'gratitude-02',
+    text: 'Who made your life a little easier recently? What would you want them to know?',
+    category: 'gratitude',
+    targetEmotions: ['grateful', 'lonely']
+  },
+  {
+    id: 'gratitude-03',
+    text: 'What is something about yourself you are thankful for this week?',
+    category: 'gratitude',
+    targetMoods: ['good', 'very-good'],
+    targetEmotions: ['proud', 'content']
+  },
+
+  // Goals
+  {
+    id: 'goals-01',
+    text: 'What is one small, doable step you could take tomorrow toward something you care about?',
+    category: 'goals',
+    targetEmotions: ['hopeful', 'overwhelmed']
+  },
+  {
+    id: 'goals-02',
+    text: 'Picture the end of this semester going well. What does it look like, and what helped you get there?',
+    category: 'goals',
+    targetMoods: ['good', 'very-good'],
+    targetEmotions: ['excited', 'hopeful']
+  },
+  {
+    id: 'goals-03',
+    text: 'Which of your current goals feels like yours, and which feels like someone else\'s expectation?',
+    category: 'goals',
+    targetEmotions: ['frustrated', 'stressed']
+  },
+
+  // Challenges
+  {
+    id: 'challenges-01',
+    text: 'What is weighing on you right now? Write it down without judging it, then note one thing that is within your control.',
+    category: 'challenges',
+    targetMoods: ['very-low', 'low'],
+    targetEmotions: ['anxious', 'overwhelmed', 'stressed']
+  },
+  {
+    id: 'challenges-02',
+    text: 'Think of a recent frustration. What need of yours was not being met in that moment?',
+    category: 'challenges',
+    targetEmotions: ['angry', 'frustrated']
+  },
+  {
+    id: 'challenges-03',
+    text: 'When you feel alone with something, who or what has helped before - even a little?',
+    category: 'challenges',
+    targetMoods: ['very-low', 'low'],
+    targetEmotions: ['lonely', 'sad']
+  },
+  {
+    id: 'challenges-04',
+    text: 'What would you say to a close friend going through exactly what you are going through?',
+    category: 'challenges',
+    targetMoods: ['very-low', 'low'],
+    targetEmotions: ['sad', 'anxious']
+  },
+
+  // Growth
+  {
+    id: 'growth-01',
+    text: 'Look back at an entry from a few weeks ago. What has changed since then, and what have you learned?',
+    category: 'growth',
+    targetMoods: ['neutral', 'good', 'very-good']
+  },
+  {
+    id: 'growth-02',
+    text: 'What is something you handled better this month than you would have a year ago?',
+    category: 'growth',
+    targetEmotions: ['proud', 'hopeful']
+  },
+  {
+    id: 'growth-03',
+    text: 'Which habit or routine has been helping you lately? How could you protect it?',
+    category: 'growth',
+    targetMoods: ['good', 'very-good'],
+    targetEmotions: ['calm', 'content']
+  },
+
+  // Culturally adapted
+  {
+    id: 'cultural-family-01',
+    text: 'How do your family\'s hopes for you fit with your own hopes right now? Where do they meet, and where do they pull apart?',
+    category: 'reflection',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['east-asian', 'south-asian', 'asian-american', 'latino-hispanic', 'middle-eastern', 'african'],
+    targetEmotions: ['stressed', 'frustrated', 'confused']
+  },
+  {
+    id: 'cultural-family-02',
+    text: 'Write about someone in your family or community who taught you how to get through hard times. What would they tell you today?',
+    category: 'challenges',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['latino-hispanic', 'african-american', 'african', 'native-american', 'middle-eastern'],
+    targetMoods: ['very-low', 'low', 'neutral']
+  },
+  {
+    id: 'cultural-bicultural-01',
+    text: 'Moving between your home culture and campus culture can take energy. When did you switch between them this week, and how did it feel?',
+    category: 'reflection',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['asian-american', 'latino-hispanic', 'multiracial', 'middle-eastern', 'african', 'south-asian', 'east-asian']
+  },
+  {
+    id: 'cultural-firstgen-01',
+    text: 'You may be carrying more than coursework - for yourself and for others. What are you carrying this week, and what could you set down?',
+    category: 'challenges',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['latino-hispanic', 'african-american', 'native-american', 'south-asian', 'east-asian'],
+    targetEmotions: ['overwhelmed', 'stressed']
+  },
+  {
+    id: 'cultural-belonging-01',
+    text: 'Where on campus, or with whom, do you feel most like yourself? What makes that space feel that way?',
+    category: 'growth',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['african-american', 'native-american', 'multiracial', 'middle-eastern', 'african'],
+    targetEmotions: ['lonely', 'content']
+  },
+  {
+    id: 'cultural-community-01',
+    text: 'What tradition, food, music or ritual from home grounds you? When did you last make space for it?',
+    category: 'gratitude',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['latino-hispanic', 'south-asian', 'east-asian', 'african', 'middle-eastern', 'native-american', 'african-american'],
+    targetEmotions: ['lonely', 'calm', 'grateful']
+  },
+  {
+    id: 'cultural-strength-01',
+    text: 'What strengths come from your identity and the people you come from? How have they shown up for you lately?',
+    category: 'growth',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['african-american', 'native-american', 'latino-hispanic', 'multiracial', 'asian-american'],
+    targetMoods: ['neutral', 'good', 'very-good'],
+    targetEmotions: ['proud', 'hopeful']
+  },
+  {
+    id: 'cultural-harmony-01',
+    text: 'Is there something you have kept to yourself to avoid conflict or worry for others? Write it here, just for you.',
+    category: 'challenges',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['east-asian', 'asian-american', 'south-asian'],
+    targetMoods: ['very-low', 'low', 'neutral'],
+    targetEmotions: ['anxious', 'sad', 'lonely']
+  },
+  {
+    id: 'cultural-goals-01',
+    text: 'Which of your goals would make you proud, and which would make your family proud? Is there a goal that does both?',
+    category: 'goals',
+    culturallyAdapted: true,
+    culturalBackgrounds: ['south-asian', 'east-asian', 'asian-american', 'latino-hispanic', 'african', 'middle-eastern'],
+    targetEmotions: ['hopeful', 'stressed']
+  }
+];
@@ -0,0 +1,82 @@
+// LLM feature configuration
+// Maps every AI feature to a provider and model so features can be switched independently.
+// Overrides come from LLM_FEATURE_OVERRIDES as JSON, e.g.
+//   {"chat": {"provider": "local", "model": "llama3.1"}, "speech": {"provider": "mock"}}
+
+import { ENV } from './env';
+import { LLMFeature, LLMFeatureConfig, LLMProviderName } from '../types/LLM';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'local', 'mock'];
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+export const MOCK_MODEL = 'mock';
+
+// Times invalid structured output is sent back to the model to be corrected before the call fails
+export const MAX_SCHEMA_REPAIR_ATTEMPTS = 2;
+
+// OpenAI models and sampling settings each feature was tuned with
+const FEATURE_DEFAULTS: Record<LLMFeature, Omit<LLMFeatureConfig, 'provider'>> = {
+  'chat': { model: 'gpt-4o', temperature: 0.7, maxTokens: 150 },
+  'translation': { model: 'gpt-4o', temperature: 0.3, maxTokens: 500 },
+  'speech': { model: 'tts-1' }, // tts-1 for lower cost, tts-1-hd for higher quality
+  'cbt-feedback': { model: 'gpt-4o', temperature: 0.3, maxTokens: 1500 },
+  'conversation-outcome': { model: 'gpt-4o', temperature: 0.3, maxTokens: 4000 },
+  'conversation-analysis': { model: 'gpt-4', temperature: 0.2, maxTokens: 3000 },
+  'response-analysis': { model: 'gpt-4', temperature: 0.3, maxTokens: 2000 },
+  'response-feedback': { model: 'gpt-4-turbo', temperature: 0.3, maxTokens: 500 },
+  'patient-simulation': { model: 'gpt-4', temperature: 0.8, maxTokens: 200 },
+  'patient-turn-assessment': { model: 'gpt-4o', temperature: 0.2, maxTokens: 300 },
+  'conversation-title': { model: 'gpt-3.5-turbo', temperature: 0.5, maxTokens: 20 },
+  'crisis-detection': { model: 'gpt-4o', temperature: 0.1, maxTokens: 200 },
+  'journal-analysis': { model: 'gpt-4o', temperature: 0.2, maxTokens: 600 }
+};
+
+const isProviderName = (value: unknown): value is LLMProviderName =>
+  typeof value === 'string' && PROVIDER_NAMES.includes(value as LLMProviderName);
+
+let parsedOverrides: Partial<Record<LLMFeature, Partial<LLMFeatureConfig>>> | null = null;
+
+const getFeatureOverrides = (): Partial<Record<LLMFeature, Partial<LLMFeatureConfig>>> => {
+  if (parsedOverrides) return parsedOverrides;
+
+  parsedOverrides = {};
+  if (ENV.LLM.FEATURE_OVERRIDES) {
+    try {
+      parsedOverrides = JSON.parse(ENV.LLM.FEATURE_OVERRIDES);
+    } catch (error) {
+      console.warn('Invalid LLM feature overrides, ignoring:', error);
+    }
+  }
+  return parsedOverrides!;
+};
+
+// Default provider used by every feature without an override
+export const getDefaultLLMProvider = (): LLMProviderName => {
+  if (!ENV.LLM.PROVIDER) return 'openai';
+  if (isProviderName(ENV.LLM.PROVIDER)) return ENV.LLM.PROVIDER;
+
+  console.warn(`Unknown LLM provider "${ENV.LLM.PROVIDER}", falling back to openai`);
+  return 'openai';
+};
+
+// Resolve the provider, model and sampling settings for a feature
+export const getLLMFeatureConfig = (feature: LLMFeature): LLMFeatureConfig => {
+  const defaults = FEATURE_DEFAULTS[feature];
+  const override = getFeatureOverrides()[feature] || {};
+  const provider = isProviderName(override.provider) ? override.provider : getDefaultLLMProvider();
+
+  // OpenAI model names mean nothing to a local server or the mock
+  const providerModel = provider === 'local'
+    ? ENV.LLM.LOCAL_MODEL || DEFAULT_LOCAL_MODEL
+    : provider === 'mock'
+    ? MOCK_MODEL
+    : defaults.model;
+
+  return {
+    ...defaults,
+    ...override,
+    provider,
+    model: override.model || providerModel
+  };
+};
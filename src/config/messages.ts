@@ -0,0 +1,10 @@
+// Conversation message editing configuration
+import { ENV } from './env';
+
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+// Senders can edit or delete a message for this long after sending it.
+// Stored on each message as editableUntil, so changing it only affects new messages.
+export const MESSAGE_EDIT_WINDOW_MINUTES = Number(ENV.MESSAGE_EDIT_WINDOW_MINUTES) > 0
+  ? Number(ENV.MESSAGE_EDIT_WINDOW_MINUTES)
+  : DEFAULT_EDIT_WINDOW_MINUTES;
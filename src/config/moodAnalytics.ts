@@ -0,0 +1,61 @@
+// Trigger themes for mood analytics
+// A trigger matches a theme when it contains one of the theme's keywords (whole words, case-insensitive).
+import { TimeOfDay } from '../types';
+
+export interface TriggerTheme {
+  id: string;
+  label: string;
+  keywords: string[];
+}
+
+export const TRIGGER_THEMES: TriggerTheme[] = [
+  {
+    id: 'academics',
+    label: 'Classes & exams',
+    keywords: ['exam', 'exams', 'test', 'midterm', 'final', 'finals', 'class', 'classes', 'homework', 'assignment', 'essay', 'grade', 'grades', 'study', 'studying', 'professor', 'lecture', 'deadline', 'thesis']
+  },
+  {
+    id: 'family',
+    label: 'Family',
+    keywords: ['family', 'mom', 'mother', 'dad', 'father', 'parent', 'parents', 'sister', 'brother', 'sibling', 'grandma', 'grandmother', 'grandpa', 'home']
+  },
+  {
+    id: 'friends',
+    label: 'Friends & social life',
+    keywords: ['friend', 'friends', 'roommate', 'roommates', 'party', 'club', 'team', 'social', 'hangout']
+  },
+  {
+    id: 'relationships',
+    label: 'Relationships',
+    keywords: ['boyfriend', 'girlfriend', 'partner', 'date', 'dating', 'breakup', 'relationship', 'crush']
+  },
+  {
+    id: 'work-money',
+    label: 'Work & money',
+    keywords: ['job', 'work', 'shift', 'boss', 'money', 'rent', 'bills', 'loan', 'loans', 'tuition', 'internship']
+  },
+  {
+    id: 'health',
+    label: 'Sleep & health',
+    keywords: ['sleep', 'tired', 'insomnia', 'sick', 'ill', 'health', 'doctor', 'pain', 'exercise', 'gym', 'eating']
+  },
+  {
+    id: 'belonging',
+    label: 'Belonging & identity',
+    keywords: ['culture', 'cultural', 'identity', 'homesick', 'lonely', 'alone', 'belong', 'discrimination', 'racism', 'language']
+  },
+  {
+    id: 'future',
+    label: 'Future & career',
+    keywords: ['future', 'career', 'graduation', 'graduate', 'applications', 'interview', 'major']
+  }
+];
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night'
+};
+
+export const DAY_OF_WEEK_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User as FirebaseUser } from 'firebase/auth';
 import { AuthService } from '../services/authService';
+import { clearOfflineCache } from '../services/firebase';
 import { User, UserType, UserProfile, LoadingState } from '../types';
 
 interface AuthContextType {
@@ -152,8 +153,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
 
       await AuthService.signOut();
-      
-      // The auth state listener will handle clearing the user state
+
+      // Nothing read while signed in stays cached on this device; the reload starts signed out
+      await clearOfflineCache().catch(cacheError => console.error('Failed to clear the offline cache:', cacheError));
+      window.location.reload();
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Sign out failed';
       setError(errorMessage);
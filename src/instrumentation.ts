@@ -0,0 +1,14 @@
+// Next.js server startup hook: starts the in-process job scheduler when no external cron is configured
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { ENV } = await import('./config/env');
+  if (ENV.JOBS.LOCAL_SCHEDULER !== 'true') {
+    return;
+  }
+
+  const { JobRunnerService } = await import('./services/jobRunnerService');
+  JobRunnerService.startLocalScheduler();
+}
@@ -75,6 +75,7 @@ export interface AdminExportData {
     totalConversations: number;
     totalMessages: number;
     totalJournalEntries: number;
+    encryptedJournalEntriesSkipped: number;
     totalFeedback: number;
     anonymizationApplied: boolean;
   };
@@ -250,7 +251,7 @@ export class AdminExportService {
       if (filters.minMessages) {
         const conversationsWithMessages = await Promise.all(
           conversations.map(async (conv) => {
-            const messages = await ConversationService.getConversationMessages(conv.id);
+            const messages = ConversationService.getEffectiveMessages(await ConversationService.getConversationMessages(conv.id));
             return { conversation: conv, messageCount: messages.length };
           })
         );
@@ -292,6 +293,7 @@ export class AdminExportService {
           totalConversations: conversations.length,
           totalMessages: 0,
           totalJournalEntries: journalEntries.length,
+          encryptedJournalEntriesSkipped: journalEntries.filter(entry => entry.isEncrypted).length,
           totalFeedback: feedback.length,
           anonymizationApplied: true
         },
@@ -304,7 +306,7 @@ export class AdminExportService {
       // Process each conversation
       for (const conversation of conversations) {
         try {
-          const messages = await ConversationService.getConversationMessages(conversation.id);
+          const messages = ConversationService.getEffectiveMessages(await ConversationService.getConversationMessages(conversation.id));
           
           // Calculate conversation statistics
           const studentMessages = messages.filter(m => m.senderType === 'student').length;
@@ -353,6 +355,9 @@ export class AdminExportService {
       // Process journal entries if included
       if (filters.includeJournalData) {
         for (const entry of journalEntries) {
+          // End-to-end encrypted entries can only be read with the student's passphrase
+          if (entry.isEncrypted) continue;
+
           try {
             const moodValues = { 'very-low': 1, 'low': 3, 'neutral': 5, 'good': 7, 'very-good': 9 };
             
@@ -499,7 +504,7 @@ export class AdminExportService {
 
       for (const conversation of conversations) {
         try {
-          const messages = await ConversationService.getConversationMessages(conversation.id);
+          const messages = ConversationService.getEffectiveMessages(await ConversationService.getConversationMessages(conversation.id));
           
           for (let i = 0; i < messages.length; i++) {
             const message = messages[i];
@@ -549,7 +554,7 @@ export class AdminExportService {
       if (filters.includeJournalData) {
         const moodValues = { 'very-low': 1, 'low': 3, 'neutral': 5, 'good': 7, 'very-good': 9 };
         
-        journalEntries.forEach((entry, index) => {
+        journalEntries.filter(entry => !entry.isEncrypted).forEach((entry, index) => {
           try {
             const row = [
               'journal', // data_type
@@ -653,6 +658,7 @@ export class AdminExportService {
         `# Exported by: admin_${adminId.slice(-6)}`,
         `# Total conversations: ${conversations.length}`,
         `# Total journal entries: ${journalEntries.length}`,
+        `# Encrypted journal entries skipped: ${journalEntries.filter(entry => entry.isEncrypted).length}`,
         `# Total feedback entries: ${feedback.length}`,
         `# Total training rows: ${trainingRows.length - 1}`,
         `# Filters applied: ${JSON.stringify(filters)}`,
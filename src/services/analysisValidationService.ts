@@ -0,0 +1,76 @@
+// Record of AI analyses whose output failed schema validation
+// The analysis routes no longer substitute neutral fallback scores; they report the failure, and the
+// caller stores it here so prompt problems show up for admins instead of as plausible-looking scores.
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  Firestore
+} from 'firebase/firestore';
+import { getAuth } from 'firebase/auth';
+import { db } from './firebase';
+import { ApiError } from './apiClient';
+import { LLMSchemaValidationError } from './llm/baseProvider';
+import { AnalysisValidationFailure, ValidationFailureDetails } from '../types';
+
+const VALIDATION_FAILURES_COLLECTION = 'analysis_validation_failures';
+
+export class AnalysisValidationService {
+  // Validation details carried by an error from an analysis route or a direct model call, if any
+  static getFailureDetails(error: unknown): ValidationFailureDetails | null {
+    if (error instanceof LLMSchemaValidationError) return error.details;
+    if (error instanceof ApiError && error.data.validationFailure) {
+      return error.data.validationFailure as ValidationFailureDetails;
+    }
+    return null;
+  }
+
+  // Store the failure behind an error, if it was a validation failure. Never throws, so the
+  // original error still reaches the caller
+  static async recordIfValidationFailure(error: unknown, targetId?: string, database: Firestore = db): Promise<void> {
+    const details = this.getFailureDetails(error);
+    if (details) await this.recordFailure(details, targetId, database);
+  }
+
+  // Recorded as the user signed in to the Firestore instance's app
+  static async recordFailure(details: ValidationFailureDetails, targetId?: string, database: Firestore = db): Promise<void> {
+    const currentUser = getAuth(database.app).currentUser;
+    if (!currentUser) {
+      console.warn('Analysis validation failure not recorded (not signed in):', details);
+      return;
+    }
+
+    try {
+      const failureData: Omit<AnalysisValidationFailure, 'id'> = {
+        ...details,
+        ...(targetId && { targetId }),
+        recordedBy: currentUser.uid,
+        createdAt: new Date()
+      };
+      await addDoc(collection(database, VALIDATION_FAILURES_COLLECTION), failureData);
+    } catch (error: unknown) {
+      console.error('Failed to record analysis validation failure:', error);
+    }
+  }
+
+  static async getRecentFailures(maxItems = 50): Promise<AnalysisValidationFailure[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, VALIDATION_FAILURES_COLLECTION),
+        orderBy('createdAt', 'desc'),
+        limit(maxItems)
+      ));
+      return snapshot.docs.map(failureDoc => ({
+        id: failureDoc.id,
+        ...failureDoc.data(),
+        createdAt: failureDoc.data().createdAt?.toDate()
+      } as AnalysisValidationFailure));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load validation failures: ' + errorMessage);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// Client helper for calling authenticated API routes
+import { auth } from './firebase';
+
+// Non-2xx response from an API route; keeps the response body for routes that report structured details
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly data: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ApiClient {
+  // Attach the signed-in user's Firebase ID token so routes can verify the caller
+  static async getAuthHeaders(): Promise<Record<string, string>> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('You must be signed in to use this feature');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${idToken}`
+    };
+  }
+
+  static async post<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: await this.getAuthHeaders(),
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ApiError(`API error (${path}): ${response.status} ${errorData.error || response.statusText}`, response.status, errorData);
+    }
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || `Request to ${path} failed`);
+    }
+
+    return data as T;
+  }
+}
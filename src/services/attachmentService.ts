@@ -0,0 +1,204 @@
+// Message attachments: validated uploads to Firebase Storage, image thumbnails and resource links
+import {
+  ref,
+  uploadBytes,
+  getDownloadURL,
+  deleteObject
+} from 'firebase/storage';
+import { storage } from './firebase';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  ATTACHMENT_STORAGE_ROOT,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  THUMBNAIL_MAX_DIMENSION
+} from '../config/attachments';
+import { AttachmentExportMetadata, MessageAttachment } from '../types';
+
+// Leading bytes of each accepted type, so a renamed executable can't pass as an image or PDF
+const FILE_SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/png': bytes => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte),
+  'image/gif': bytes => String.fromCharCode(...bytes.slice(0, 4)) === 'GIF8',
+  'image/webp': bytes => String.fromCharCode(...bytes.slice(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP',
+  'application/pdf': bytes => String.fromCharCode(...bytes.slice(0, 5)) === '%PDF-'
+};
+
+export class AttachmentService {
+  // Download URLs by storage reference, so re-rendered messages don't refetch them
+  private static downloadUrls = new Map<string, string>();
+
+  // Check size, declared type and file signature; throws with a message suitable for the user
+  static async validateFile(file: File): Promise<void> {
+    if (file.size === 0) {
+      throw new Error(`${file.name} is empty`);
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      throw new Error(`${file.name} is larger than ${this.formatSize(MAX_ATTACHMENT_SIZE_BYTES)}`);
+    }
+
+    if (!ALLOWED_ATTACHMENT_TYPES[file.type]) {
+      throw new Error(`${file.name} is not a supported file type (images and PDFs only)`);
+    }
+
+    const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+    if (!FILE_SIGNATURES[file.type](header)) {
+      throw new Error(`${file.name} does not look like a valid ${file.type} file`);
+    }
+  }
+
+  static validateCount(count: number): void {
+    if (count > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+  }
+
+  // Upload a file for a conversation; storage rules only accept uploads from its participants
+  static async uploadFile(conversationId: string, uploaderId: string, file: File): Promise<MessageAttachment> {
+    await this.validateFile(file);
+
+    try {
+      const id = `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const basePath = `${ATTACHMENT_STORAGE_ROOT}/${conversationId}/${id}`;
+      const customMetadata = { uploadedBy: uploaderId, conversationId };
+      const type = ALLOWED_ATTACHMENT_TYPES[file.type];
+
+      const fileRef = ref(storage, `${basePath}/${this.sanitizeFileName(file.name)}`);
+      await uploadBytes(fileRef, file, { contentType: file.type, customMetadata });
+
+      let thumbnailUrl: string | undefined;
+      if (type === 'image') {
+        // A missing thumbnail only affects the preview, so the upload still succeeds
+        try {
+          const thumbnail = await this.generateThumbnail(file);
+          const thumbnailRef = ref(storage, `${basePath}/thumbnail.jpg`);
+          await uploadBytes(thumbnailRef, thumbnail, { contentType: 'image/jpeg', customMetadata });
+          thumbnailUrl = thumbnailRef.toString();
+        } catch (error) {
+          console.warn('Failed to generate thumbnail:', error);
+        }
+      }
+
+      return {
+        id,
+        type,
+        url: fileRef.toString(),
+        name: file.name,
+        size: file.size,
+        mimeType: file.type,
+        uploadedBy: uploaderId,
+        ...(thumbnailUrl && { thumbnailUrl })
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to upload attachment: ' + errorMessage);
+    }
+  }
+
+  // Attach a web link or a support resource (only http and https addresses are accepted)
+  static createLinkAttachment(
+    url: string,
+    options: { name?: string; description?: string; type?: 'link' | 'resource' } = {}
+  ): MessageAttachment {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw new Error('Please enter a valid web address');
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error('Only http and https links can be attached');
+    }
+
+    return {
+      id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: options.type || 'link',
+      url: parsed.toString(),
+      name: options.name?.trim() || parsed.hostname,
+      ...(options.description && { description: options.description })
+    };
+  }
+
+  // Resolve an attachment (or its thumbnail) to a URL the browser can load.
+  // Stored files go through getDownloadURL so storage rules are checked for the current user.
+  static async resolveUrl(attachment: MessageAttachment, thumbnail: boolean = false): Promise<string> {
+    const url = thumbnail && attachment.thumbnailUrl ? attachment.thumbnailUrl : attachment.url;
+    if (!this.isStoredFile(url)) return url;
+
+    const cached = this.downloadUrls.get(url);
+    if (cached) return cached;
+
+    try {
+      const downloadUrl = await getDownloadURL(ref(storage, url));
+      this.downloadUrls.set(url, downloadUrl);
+      return downloadUrl;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load attachment: ' + errorMessage);
+    }
+  }
+
+  // Remove uploaded files, e.g. when the message they were meant for fails to send
+  static async deleteUploadedFiles(attachments: MessageAttachment[]): Promise<void> {
+    const urls = attachments
+      .flatMap(attachment => [attachment.url, attachment.thumbnailUrl])
+      .filter((url): url is string => typeof url === 'string' && this.isStoredFile(url));
+
+    await Promise.all(urls.map(url =>
+      deleteObject(ref(storage, url)).catch(error => console.warn('Failed to delete attachment:', error))
+    ));
+  }
+
+  static toExportMetadata(attachment: MessageAttachment): AttachmentExportMetadata {
+    return {
+      id: attachment.id,
+      type: attachment.type,
+      name: attachment.name,
+      ...(attachment.size !== undefined && { size: attachment.size }),
+      ...(attachment.mimeType && { mimeType: attachment.mimeType }),
+      ...(!this.isStoredFile(attachment.url) && { url: attachment.url }),
+      hasThumbnail: Boolean(attachment.thumbnailUrl)
+    };
+  }
+
+  static isStoredFile(url: string): boolean {
+    return url.startsWith('gs://');
+  }
+
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Downscale an image to a JPEG preview in the browser
+  private static async generateThumbnail(file: File): Promise<Blob> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed')),
+        'image/jpeg',
+        0.8
+      );
+    });
+  }
+
+  // Keep storage paths predictable: letters, digits, dots, dashes and underscores only
+  private static sanitizeFileName(name: string): string {
+    const cleaned = name.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/_+/g, '_');
+    return cleaned.slice(-100) || 'file';
+  }
+}
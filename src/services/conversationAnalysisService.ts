@@ -1,80 +1,236 @@
-import OpenAI from 'openai';
-import { ENV } from '../config/env';
+import { collection, addDoc, Firestore } from 'firebase/firestore';
+import { ApiClient } from './apiClient';
 import { 
   ConversationAnalysisContext, 
   ConversationFeedback, 
-  CULTURAL_BACKGROUNDS_INFO 
+  CULTURAL_BACKGROUNDS_INFO,
+  ReplyAnalysis
 } from '../types/Feedback';
 import { CulturalBackground } from '../types/User';
+import { Conversation, ConversationMessage } from '../types/Message';
+import { LLMMessage } from '../types/LLM';
+import { AnalysisRubric } from '../types/Rubric';
+import { RubricService } from './rubricService';
+import { AnalysisValidationService } from './analysisValidationService';
+import { ConversationService } from './conversationService';
+import { ConversationFeedbackOutput } from './llm/analysisSchemas';
 
 export class ConversationAnalysisService {
-  private static openai = new OpenAI({
-    apiKey: ENV.OPENAI_API_KEY,
-    dangerouslyAllowBrowser: true // Note: In production, move this to backend
-  });
-
-  // Main conversation analysis function
+  // Main conversation analysis function (the model runs server-side in /api/analyze-response)
   static async analyzeFullConversation(context: ConversationAnalysisContext): Promise<Omit<ConversationFeedback, 'id' | 'analyzedAt'>> {
     try {
       console.log('Starting full conversation analysis for conversation:', context.conversationId);
-      
-      const prompt = this.buildConversationAnalysisPrompt(context);
-      console.log('Conversation analysis prompt built for cultural background:', context.culturalBackground);
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: this.getConversationAnalysisSystemPrompt()
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.2, // Lower temperature for more consistent analysis
-        max_tokens: 3000   // More tokens for comprehensive analysis
-      });
 
-      const analysisResult = response.choices[0]?.message?.content;
-      if (!analysisResult) {
-        throw new Error('No analysis result received from OpenAI');
-      }
+      const data = await ApiClient.post<{ analysis: Omit<ConversationFeedback, 'id' | 'analyzedAt'> }>(
+        '/api/analyze-response',
+        { kind: 'conversation', context }
+      );
 
-      console.log('Raw conversation analysis result:', analysisResult);
-      const parsedResult = this.parseConversationAnalysisResult(analysisResult, context);
-      
       console.log('Conversation analysis completed successfully');
-      return {
-        conversationId: context.conversationId,
-        counselorId: context.counselorId,
-        studentId: context.studentId,
-        overallPerformance: parsedResult.overallPerformance,
-        conversationAnalysis: parsedResult.conversationAnalysis,
-        suggestions: parsedResult.suggestions,
-        analysisContext: context,
-        aiModel: 'gpt-4',
-        analysisVersion: '2.0',
-        reviewedByCounselor: false,
-        flaggedForReview: this.shouldFlagConversationForReview(parsedResult.overallPerformance),
-        trainingDataQuality: this.assessConversationTrainingDataQuality(parsedResult.overallPerformance, context)
-      };
-    } catch (error: Error | unknown) {
+      return { ...data.analysis, analysisContext: context };
+    } catch (error: unknown) {
+      console.error('Failed to analyze conversation:', error);
+      await AnalysisValidationService.recordIfValidationFailure(error, context.conversationId);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Conversation analysis failed: ' + errorMessage);
+    }
+  }
+
+  // Analyse a stored conversation. The server loads its messages, including reply links, and
+  // stores the result in conversation_feedback, so the transcript and scores can't be supplied by the client.
+  static async analyzeConversation(conversationId: string): Promise<ConversationFeedback> {
+    try {
+      const data = await ApiClient.post<{ analysis: ConversationFeedback }>(
+        '/api/analyze-response',
+        { kind: 'conversation', conversationId }
+      );
+
+      return { ...data.analysis, analyzedAt: new Date(data.analysis.analyzedAt) };
+    } catch (error: unknown) {
       console.error('Failed to analyze conversation:', error);
-      throw new Error('Conversation analysis failed: ' + error.message);
+      await AnalysisValidationService.recordIfValidationFailure(error, conversationId);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Conversation analysis failed: ' + errorMessage);
     }
   }
 
+  // Written by /api/analyze-response with the service account; clients cannot create feedback records
+  static async saveConversationFeedback(
+    analysis: Omit<ConversationFeedback, 'id' | 'analyzedAt'>,
+    database: Firestore
+  ): Promise<ConversationFeedback> {
+    const feedback = { ...analysis, analyzedAt: new Date() };
+    const docRef = await addDoc(collection(database, 'conversation_feedback'), feedback);
+    return { id: docRef.id, ...feedback };
+  }
+
+  // Analysis context for a stored conversation: the effective messages with their IDs, timestamps
+  // and reply links, and a summary taken from the conversation record
+  static buildStoredConversationContext(
+    conversation: Conversation,
+    messages: ConversationMessage[],
+    counselorId: string
+  ): ConversationAnalysisContext {
+    const effectiveMessages = ConversationService.getEffectiveMessages(messages);
+    const started = effectiveMessages[0]?.timestamp || conversation.createdAt;
+    const lastActivity = effectiveMessages[effectiveMessages.length - 1]?.timestamp || conversation.lastMessageAt;
+
+    return {
+      conversationId: conversation.id,
+      studentId: conversation.studentId,
+      counselorId,
+      culturalBackground: conversation.culturalContext,
+      messages: this.buildContextMessages(effectiveMessages),
+      conversationSummary: {
+        totalMessages: effectiveMessages.length,
+        studentMessages: effectiveMessages.filter(m => m.senderType === 'student').length,
+        counselorMessages: effectiveMessages.filter(m => m.senderType === 'counselor').length,
+        aiMessages: effectiveMessages.filter(m => m.senderType === 'ai').length,
+        conversationStarted: started,
+        ...(conversation.status !== 'active' && { conversationEnded: lastActivity }),
+        conversationDuration: this.formatDuration(lastActivity.getTime() - started.getTime()),
+        mainTopics: conversation.tags || [],
+        emotionalProgression: [],
+        urgencyLevel: conversation.crisisRiskLevel
+          ? 'crisis'
+          : conversation.priority === 'urgent' ? 'high' : conversation.priority,
+        conversationOutcome: conversation.crisisRiskLevel
+          ? 'escalated'
+          : conversation.status === 'active' ? 'ongoing' : conversation.closedReason === 'inactive' ? 'abandoned' : 'resolved'
+      }
+    };
+  }
+
+  // Build the messages sent to the model for a full conversation analysis
+  static buildConversationAnalysisMessages(
+    context: ConversationAnalysisContext,
+    rubric: AnalysisRubric = RubricService.getRubric('conversation-analysis')
+  ): LLMMessage[] {
+    const prompt = this.buildConversationAnalysisPrompt(context, rubric);
+    console.log('Conversation analysis prompt built for cultural background:', context.culturalBackground);
+
+    return [
+      {
+        role: 'system',
+        content: rubric.systemPrompt
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+  }
+
+  // Turn validated model output into a conversation feedback record
+  static buildConversationAnalysisResult(
+    output: ConversationFeedbackOutput,
+    aiModel: string,
+    context: ConversationAnalysisContext,
+    rubric: AnalysisRubric = RubricService.getRubric('conversation-analysis')
+  ): Omit<ConversationFeedback, 'id' | 'analyzedAt'> {
+    const overallPerformance = Object.fromEntries(
+      Object.entries(output.overallPerformance).map(([key, score]) => [key, Math.round(score * 10) / 10])
+    ) as ConversationFeedback['overallPerformance'];
+    const replyThreads = this.getReplyThreads(context.messages);
+
+    return {
+      conversationId: context.conversationId,
+      counselorId: context.counselorId,
+      studentId: context.studentId,
+      overallPerformance,
+      conversationAnalysis: output.conversationAnalysis,
+      suggestions: output.suggestions,
+      ...(replyThreads.links.length > 0 && {
+        replyAnalysis: { ...replyThreads, assessments: output.replyAssessments || [] }
+      }),
+      analysisContext: context,
+      aiModel,
+      analysisVersion: rubric.version,
+      reviewedByCounselor: false,
+      flaggedForReview: this.shouldFlagConversationForReview(overallPerformance),
+      trainingDataQuality: this.assessConversationTrainingDataQuality(overallPerformance, context)
+    };
+  }
+
+  // Number messages for analysis, turning replyTo message IDs into message numbers
+  static buildContextMessages(
+    messages: Array<{ id?: string; content: string; senderType: 'student' | 'counselor' | 'ai'; timestamp?: Date; replyTo?: string }>
+  ): ConversationAnalysisContext['messages'] {
+    const messageNumbers = new Map<string, number>();
+    messages.forEach((msg, index) => {
+      if (msg.id) messageNumbers.set(msg.id, index + 1);
+    });
+
+    return messages.map((msg, index) => {
+      const replyToMessageNumber = msg.replyTo ? messageNumbers.get(msg.replyTo) : undefined;
+      return {
+        id: msg.id || `msg_${index + 1}`,
+        content: msg.content,
+        senderType: msg.senderType,
+        timestamp: msg.timestamp || new Date(Date.now() - (messages.length - index) * 60 * 60 * 1000), // Simulate timestamps
+        messageNumber: index + 1,
+        // Replies to messages outside the analyzed range (e.g. deleted) are dropped
+        ...(replyToMessageNumber !== undefined && replyToMessageNumber < index + 1 && { replyToMessageNumber })
+      };
+    });
+  }
+
+  // Reply links in a numbered conversation, and the student turns no counselor reply points to
+  static getReplyThreads(messages: ConversationAnalysisContext['messages']): Omit<ReplyAnalysis, 'assessments'> {
+    const byNumber = new Map(messages.map(msg => [msg.messageNumber, msg]));
+
+    const links = messages
+      .filter(msg => msg.replyToMessageNumber !== undefined && byNumber.has(msg.replyToMessageNumber))
+      .map(msg => {
+        const target = byNumber.get(msg.replyToMessageNumber!)!;
+        return {
+          replyMessageNumber: msg.messageNumber,
+          replySenderType: msg.senderType,
+          targetMessageNumber: target.messageNumber,
+          targetSenderType: target.senderType,
+          skippedStudentTurns: messages
+            .filter(other => other.senderType === 'student'
+              && other.messageNumber > target.messageNumber
+              && other.messageNumber < msg.messageNumber)
+            .map(other => other.messageNumber)
+        };
+      });
+
+    const repliedTo = new Set(
+      links.filter(link => link.replySenderType === 'counselor').map(link => link.targetMessageNumber)
+    );
+
+    return {
+      links,
+      studentTurnsWithoutReplies: messages
+        .filter(msg => msg.senderType === 'student' && !repliedTo.has(msg.messageNumber))
+        .map(msg => msg.messageNumber)
+    };
+  }
+
   // Build the conversation analysis prompt
-  private static buildConversationAnalysisPrompt(context: ConversationAnalysisContext): string {
+  private static buildConversationAnalysisPrompt(context: ConversationAnalysisContext, rubric: AnalysisRubric): string {
     const culturalInfo = CULTURAL_BACKGROUNDS_INFO[context.culturalBackground];
     
     // Format conversation messages for analysis
     const conversationText = context.messages.map((msg, index) => 
-      `Message ${index + 1} (${msg.senderType.toUpperCase()}): ${msg.content}`
+      `Message ${index + 1} (${msg.senderType.toUpperCase()}${msg.replyToMessageNumber ? `, replying to Message ${msg.replyToMessageNumber}` : ''}): ${msg.content}`
     ).join('\n\n');
 
+    const replyThreads = this.getReplyThreads(context.messages);
+    const counselorReplies = replyThreads.links.filter(link => link.replySenderType === 'counselor');
+    const replySection = counselorReplies.length > 0 ? `
+REPLY THREADS:
+The counselor explicitly replied to specific earlier messages:
+${counselorReplies.map(link =>
+  `- Message ${link.replyMessageNumber} replies to Message ${link.targetMessageNumber} (${link.targetSenderType})` +
+  (link.skippedStudentTurns.length > 0 ? `, passing over student Message(s) ${link.skippedStudentTurns.join(', ')}` : '')
+).join('\n')}
+Student messages with no explicit counselor reply: ${replyThreads.studentTurnsWithoutReplies.join(', ') || 'none'}
+
+For each counselor reply above, judge whether it actually addressed the student turn it quotes, and whether a more pressing student turn was left unanswered. Report this in "replyAssessments".
+` : '';
+
     return `
 COMPREHENSIVE CONVERSATION ANALYSIS REQUEST
 
@@ -105,15 +261,11 @@ ${context.studentProfile ? `
 
 COMPLETE CONVERSATION THREAD:
 ${conversationText}
-
+${replySection}
 ANALYSIS INSTRUCTIONS:
 Please provide a comprehensive analysis of the counselor's performance throughout this ENTIRE conversation. Focus on:
 
-1. CONVERSATION FLOW (1-10): How well did the counselor guide the conversation? Was there natural progression?
-2. CULTURAL SENSITIVITY (1-10): Consistent cultural awareness and respect throughout the conversation?
-3. THERAPEUTIC PROGRESS (1-10): Did the student make progress? Was the conversation helpful?
-4. PROFESSIONAL BOUNDARIES (1-10): Were appropriate therapeutic boundaries maintained?
-5. EMPATHY (1-10): Consistent empathetic responses throughout the conversation?
+${rubric.dimensions.map((dimension, index) => `${index + 1}. ${dimension.label.toUpperCase()} (1-10): ${dimension.definition}`).join('\n')}
 
 DETAILED ANALYSIS AREAS:
 - STRENGTHS: What did the counselor do exceptionally well throughout the conversation?
@@ -132,141 +284,6 @@ Provide specific, actionable feedback that recognizes good work AND provides cle
     `.trim();
   }
 
-  // System prompt for conversation analysis
-  private static getConversationAnalysisSystemPrompt(): string {
-    return `
-You are an expert cultural competency supervisor and therapeutic conversation analyst. Your role is to analyze COMPLETE conversations between counselors and students from diverse cultural backgrounds, providing comprehensive, balanced feedback.
-
-ANALYSIS REQUIREMENTS:
-1. Analyze the ENTIRE conversation flow, not individual messages
-2. Provide balanced feedback - acknowledge strengths AND areas for improvement
-3. Be specific about which parts of the conversation worked well and which didn't
-4. Consider cultural context throughout the entire interaction
-5. Assess therapeutic progression and student benefit
-6. Reference specific message numbers when giving examples
-
-SCORING GUIDELINES (1-10 scale):
-- 9-10: Exceptional - Demonstrates outstanding cultural competency and therapeutic skill throughout
-- 7-8: Good - Shows solid understanding with minor areas for improvement
-- 5-6: Needs Improvement - Adequate but missing key cultural or therapeutic elements
-- 3-4: Poor - Significant cultural missteps or therapeutic concerns
-- 1-2: Very Poor - Potentially harmful or highly inappropriate
-
-FEEDBACK STYLE:
-- Be constructive but honest
-- Point out specific excellent moments and explain why they worked
-- Identify specific problematic moments and suggest better approaches
-- Provide cultural context for your suggestions
-- Focus on patterns across the conversation, not isolated incidents
-
-OUTPUT FORMAT:
-Respond with a JSON object containing:
-{
-  "overallPerformance": {
-    "conversationFlow": number,
-    "culturalSensitivity": number,
-    "therapeuticProgress": number,
-    "professionalBoundaries": number,
-    "empathy": number,
-    "overallScore": number
-  },
-  "conversationAnalysis": {
-    "strengths": ["specific strengths with message references"],
-    "weaknesses": ["specific areas needing improvement"],
-    "culturalMisses": ["missed cultural opportunities"],
-    "goodCulturalMoments": ["excellent cultural awareness moments"],
-    "conversationPacing": "too-fast|appropriate|too-slow",
-    "questioningTechnique": ["analysis of questioning approach"],
-    "responseTiming": "analysis of response patterns and timing"
-  },
-  "suggestions": {
-    "conversationFlow": ["how to improve conversation guidance"],
-    "culturalCompetency": ["cultural sensitivity improvements"],
-    "therapeuticTechnique": ["better therapeutic approaches"],
-    "specificMoments": [
-      {
-        "messageNumber": number,
-        "issue": "what went wrong",
-        "betterApproach": "suggested improvement"
-      }
-    ],
-    "positiveReinforcement": [
-      {
-        "messageNumber": number,
-        "whatWentWell": "what was excellent",
-        "whyItWorked": "why it was effective"
-      }
-    ]
-  }
-}
-
-Be thorough, fair, and focused on helping counselors improve their cultural competency and therapeutic effectiveness through detailed conversation analysis.
-    `.trim();
-  }
-
-  // Parse the conversation analysis result
-  private static parseConversationAnalysisResult(result: string, context: ConversationAnalysisContext): {
-    overallPerformance: ConversationFeedback['overallPerformance'];
-    conversationAnalysis: ConversationFeedback['conversationAnalysis'];
-    suggestions: ConversationFeedback['suggestions'];
-  } {
-    try {
-      // Extract JSON from the response
-      const jsonMatch = result.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in conversation analysis result');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate and structure the response
-      const overallPerformance = {
-        conversationFlow: this.validateScore(parsed.overallPerformance?.conversationFlow),
-        culturalSensitivity: this.validateScore(parsed.overallPerformance?.culturalSensitivity),
-        therapeuticProgress: this.validateScore(parsed.overallPerformance?.therapeuticProgress),
-        professionalBoundaries: this.validateScore(parsed.overallPerformance?.professionalBoundaries),
-        empathy: this.validateScore(parsed.overallPerformance?.empathy),
-        overallScore: this.validateScore(parsed.overallPerformance?.overallScore)
-      };
-
-      const conversationAnalysis = {
-        strengths: Array.isArray(parsed.conversationAnalysis?.strengths) ? parsed.conversationAnalysis.strengths : [],
-        weaknesses: Array.isArray(parsed.conversationAnalysis?.weaknesses) ? parsed.conversationAnalysis.weaknesses : [],
-        culturalMisses: Array.isArray(parsed.conversationAnalysis?.culturalMisses) ? parsed.conversationAnalysis.culturalMisses : [],
-        goodCulturalMoments: Array.isArray(parsed.conversationAnalysis?.goodCulturalMoments) ? parsed.conversationAnalysis.goodCulturalMoments : [],
-        conversationPacing: parsed.conversationAnalysis?.conversationPacing || 'appropriate',
-        questioningTechnique: Array.isArray(parsed.conversationAnalysis?.questioningTechnique) ? parsed.conversationAnalysis.questioningTechnique : [],
-        responseTiming: parsed.conversationAnalysis?.responseTiming || 'No analysis available'
-      };
-
-      const suggestions = {
-        conversationFlow: Array.isArray(parsed.suggestions?.conversationFlow) ? parsed.suggestions.conversationFlow : [],
-        culturalCompetency: Array.isArray(parsed.suggestions?.culturalCompetency) ? parsed.suggestions.culturalCompetency : [],
-        therapeuticTechnique: Array.isArray(parsed.suggestions?.therapeuticTechnique) ? parsed.suggestions.therapeuticTechnique : [],
-        specificMoments: Array.isArray(parsed.suggestions?.specificMoments) ? parsed.suggestions.specificMoments : [],
-        positiveReinforcement: Array.isArray(parsed.suggestions?.positiveReinforcement) ? parsed.suggestions.positiveReinforcement : []
-      };
-
-      return { overallPerformance, conversationAnalysis, suggestions };
-    } catch (error) {
-      console.error('Failed to parse conversation analysis result:', error);
-      console.error('Raw result:', result);
-      
-      // Return fallback analysis
-      return this.getFallbackConversationAnalysis(context);
-    }
-  }
-
-  // Validate individual scores
-  private static validateScore(score: unknown): number {
-    const num = parseFloat(score);
-    if (isNaN(num) || num < 1 || num > 10) {
-      console.warn('Invalid score detected, using fallback:', score);
-      return 5; // Neutral fallback score
-    }
-    return Math.round(num * 10) / 10; // Round to 1 decimal place
-  }
-
   // Determine if conversation should be flagged for human review
   private static shouldFlagConversationForReview(performance: ConversationFeedback['overallPerformance']): boolean {
     const criticalScores = [performance.culturalSensitivity, performance.empathy, performance.professionalBoundaries];
@@ -290,60 +307,36 @@ Be thorough, fair, and focused on helping counselors improve their cultural comp
     }
   }
 
-  // Fallback analysis when parsing fails
-  private static getFallbackConversationAnalysis(context: ConversationAnalysisContext): {
-    overallPerformance: ConversationFeedback['overallPerformance'];
-    conversationAnalysis: ConversationFeedback['conversationAnalysis'];
-    suggestions: ConversationFeedback['suggestions'];
-  } {
-    return {
-      overallPerformance: {
-        conversationFlow: 5.0,
-        culturalSensitivity: 5.0,
-        therapeuticProgress: 5.0,
-        professionalBoundaries: 7.0,
-        empathy: 5.0,
-        overallScore: 5.4
-      },
-      conversationAnalysis: {
-        strengths: ['Conversation analysis parsing failed - manual review needed'],
-        weaknesses: ['Unable to perform detailed analysis'],
-        culturalMisses: ['Analysis unavailable due to parsing error'],
-        goodCulturalMoments: ['Analysis unavailable'],
-        conversationPacing: 'appropriate',
-        questioningTechnique: ['Analysis failed - manual review recommended'],
-        responseTiming: 'Analysis parsing failed - manual review needed'
-      },
-      suggestions: {
-        conversationFlow: ['AI analysis failed - consult supervisor'],
-        culturalCompetency: [`Consider specific factors for ${context.culturalBackground} background`],
-        therapeuticTechnique: ['Consult therapeutic guidelines'],
-        specificMoments: [],
-        positiveReinforcement: []
-      }
-    };
+  // e.g. "2 days, 3 hours" or "45 minutes"
+  private static formatDuration(milliseconds: number): string {
+    const totalMinutes = Math.max(0, Math.round(milliseconds / 60000));
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    const parts = [
+      days > 0 && `${days} day${days === 1 ? '' : 's'}`,
+      hours > 0 && `${hours} hour${hours === 1 ? '' : 's'}`,
+      days === 0 && (minutes > 0 || hours === 0) && `${minutes} minute${minutes === 1 ? '' : 's'}`
+    ].filter(Boolean);
+    return parts.join(', ');
   }
 
-  // Quick test analysis for development
+  // Quick test analysis for development (sample or simulated data without message IDs or reply links;
+  // real conversations go through analyzeConversation)
   static async quickConversationAnalysis(
     conversationId: string,
     counselorId: string,
     studentId: string,
     culturalBackground: CulturalBackground,
-    messages: Array<{ content: string; senderType: 'student' | 'counselor' | 'ai' }>
+    messages: Array<{ id?: string; content: string; senderType: 'student' | 'counselor' | 'ai'; timestamp?: Date; replyTo?: string }>
   ): Promise<Omit<ConversationFeedback, 'id' | 'analyzedAt'>> {
     const context: ConversationAnalysisContext = {
       conversationId,
       studentId,
       counselorId,
       culturalBackground,
-      messages: messages.map((msg, index) => ({
-        id: `msg_${index + 1}`,
-        content: msg.content,
-        senderType: msg.senderType,
-        timestamp: new Date(Date.now() - (messages.length - index) * 60 * 60 * 1000), // Simulate timestamps
-        messageNumber: index + 1
-      })),
+      messages: this.buildContextMessages(messages),
       conversationSummary: {
         totalMessages: messages.length,
         studentMessages: messages.filter(m => m.senderType === 'student').length,
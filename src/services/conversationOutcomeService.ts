@@ -2,6 +2,8 @@
 import { db } from './firebase';
 import { collection, addDoc, query, where, getDocs, orderBy, Timestamp } from 'firebase/firestore';
 import { Conversation, ConversationMessage } from '../types';
+import { ConversationService } from './conversationService';
+import { AnalysisValidationService } from './analysisValidationService';
 
 export interface StudentSentimentProgression {
   timepoint: number; // Position in conversation (0-100%)
@@ -21,6 +23,7 @@ export interface ConversationOutcome {
   counselorId: string;
   studentId: string;
   analyzedAt: Date;
+  analysisVersion?: string; // conversation-outcome rubric version; absent on outcomes from before rubrics were versioned
   
   // Overall metrics
   overallEffectiveness: number; // 1-10
@@ -89,6 +92,7 @@ export class ConversationOutcomeService {
       
       // Run comprehensive analysis
       const analysis = await this.runComprehensiveAnalysis(
+        conversation.id,
         conversationText,
         studentCulturalBackground
       );
@@ -115,17 +119,25 @@ export class ConversationOutcomeService {
   
   // Format conversation for AI analysis
   private static formatConversationForAnalysis(messages: ConversationMessage[]): string {
-    return messages.map((msg, index) => {
+    // Latest version of each message; deleted messages are not analyzed
+    const effectiveMessages = ConversationService.getEffectiveMessages(messages);
+    const messagesById = new Map(effectiveMessages.map(msg => [msg.id, msg]));
+
+    return effectiveMessages.map((msg, index) => {
       const timestamp = new Date(msg.timestamp).toLocaleTimeString();
       const speaker = msg.senderId === 'system' ? 'System' : 
                     msg.senderType === 'student' ? 'Student' : 'Counselor';
+      // Explicit replies show which earlier turn they answer
+      const quoted = msg.replyTo ? messagesById.get(msg.replyTo) : undefined;
+      const replyNote = quoted ? ` (replying to: "${ConversationService.getQuoteSnippet(quoted.content, 80)}")` : '';
       
-      return `[${timestamp}] ${speaker}: ${msg.content}`;
+      return `[${timestamp}] ${speaker}${replyNote}: ${msg.content}`;
     }).join('\n\n');
   }
   
   // Main AI analysis function using API route
   private static async runComprehensiveAnalysis(
+    conversationId: string,
     conversationText: string,
     culturalBackground?: string
   ): Promise<Omit<ConversationOutcome, 'conversationId' | 'counselorId' | 'studentId' | 'analyzedAt'>> {
@@ -144,6 +156,9 @@ export class ConversationOutcomeService {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.validationFailure) {
+          await AnalysisValidationService.recordFailure(errorData.validationFailure, conversationId);
+        }
         throw new Error(errorData.error || 'Failed to analyze conversation');
       }
 
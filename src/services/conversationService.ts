@@ -15,19 +15,38 @@ import {
   serverTimestamp,
   Timestamp,
   writeBatch,
-  arrayUnion
+  arrayUnion,
+  DocumentData,
+  Firestore
 } from 'firebase/firestore';
 import { db } from './firebase';
 import {
   Conversation,
   ConversationMessage,
+  ConversationMessageRevision,
   ConversationParticipant,
+  CrisisAssessment,
+  CrisisEscalationAction,
   CulturalBackground,
+  JournalContextOptions,
+  MessageAttachment,
   MessagePriority,
+  MessageRevisionAction,
   Language,
+  QueueStats,
+  NextBestPick,
+  RankedQueueItem,
   User
 } from '../types';
 import { OpenAIService } from './openaiService';
+import { CrisisDetectionService } from './crisisDetectionService';
+import { QueueRoutingService } from './queueRoutingService';
+import { PresenceService } from './presenceService';
+import { AttachmentService } from './attachmentService';
+import { JournalContextService } from './journalContextService';
+import { MESSAGE_EDIT_WINDOW_MINUTES } from '../config/messages';
+
+const MESSAGE_EDITS_COLLECTION = 'conversation_message_edits';
 
 export class ConversationService {
   // Create a new conversation
@@ -37,9 +56,15 @@ export class ConversationService {
     title: string,
     culturalContext: CulturalBackground,
     isAnonymous: boolean = false,
-    priority: MessagePriority = 'medium'
+    priority: MessagePriority = 'medium',
+    journalContext?: { entryIds: string[]; options?: JournalContextOptions }
   ): Promise<string> {
     try {
+      const studentLanguage = await this.getStudentLanguage(studentId);
+      const journalSnapshots = journalContext?.entryIds.length
+        ? await JournalContextService.buildSnapshots(studentId, journalContext.entryIds, journalContext.options)
+        : [];
+
       const conversationData: Omit<Conversation, 'id'> = {
         studentId,
         type,
@@ -52,7 +77,9 @@ export class ConversationService {
         messageCount: 0,
         isAnonymous,
         priority,
-        tags: []
+        tags: [],
+        studentLanguage,
+        ...(journalSnapshots.length > 0 && JournalContextService.toSharedFields(journalSnapshots))
       };
 
       const docRef = await addDoc(collection(db, 'conversations'), conversationData);
@@ -81,10 +108,30 @@ export class ConversationService {
     senderId: string,
     senderType: 'student' | 'counselor',
     content: string,
-    replyTo?: string
+    replyTo?: string,
+    options: { generateAIResponse?: boolean; attachments?: MessageAttachment[] } = {}
   ): Promise<string> {
     try {
       console.log('Sending message:', { conversationId, senderId, senderType, content });
+
+      const attachments = options.attachments || [];
+      AttachmentService.validateCount(attachments.length);
+      if (!content.trim() && attachments.length === 0) {
+        throw new Error('Message is empty');
+      }
+
+      // Replies must point at a live message in the same conversation
+      if (replyTo) {
+        const original = await this.getMessage(replyTo);
+        if (original.conversationId !== conversationId || original.deletedAt) {
+          throw new Error('The message you are replying to is no longer available');
+        }
+      }
+
+      // Screen student messages for crisis indicators before they are stored
+      const crisisAssessment = senderType === 'student'
+        ? await CrisisDetectionService.assessMessage(content)
+        : null;
       
       const batch = writeBatch(db);
 
@@ -96,7 +143,10 @@ export class ConversationService {
         content,
         timestamp: new Date(),
         readBy: [senderId], // Sender has read their own message
-        ...(replyTo && { replyTo })
+        editableUntil: new Date(Date.now() + MESSAGE_EDIT_WINDOW_MINUTES * 60000),
+        ...(replyTo && { replyTo }),
+        ...(attachments.length > 0 && { attachments }),
+        ...(crisisAssessment?.shouldEscalate && { crisisRiskLevel: crisisAssessment.riskLevel })
       };
 
       const messageRef = doc(collection(db, 'conversation_messages'));
@@ -104,34 +154,30 @@ export class ConversationService {
 
       // Update conversation metadata
       const conversationRef = doc(db, 'conversations', conversationId);
+      const detectedTags = senderType === 'student' ? QueueRoutingService.detectTags(content) : [];
       batch.update(conversationRef, {
         lastMessageAt: new Date(),
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        // Topic tags feed counselor queue routing
+        ...(detectedTags.length > 0 && { tags: arrayUnion(...detectedTags) })
         // Note: messageCount will be calculated dynamically when needed
       });
 
+      if (crisisAssessment?.shouldEscalate) {
+        await this.addCrisisEscalation(batch, conversationId, messageRef.id, crisisAssessment);
+      }
+
       await batch.commit();
       console.log('Message sent successfully with ID:', messageRef.id);
 
       // If this is a student message in an AI conversation, generate AI response
-      if (senderType === 'student') {
+      // (streaming callers opt out and call streamAIResponse themselves; attachment-only messages get no reply)
+      if (senderType === 'student' && options.generateAIResponse !== false && content.trim()) {
         const conversation = await this.getConversation(conversationId);
         console.log('Conversation details:', conversation);
         if (conversation && conversation.type === 'ai') {
           console.log('Generating AI response...');
-
-          // Fetch student's language preference
-          let preferredLanguage: Language | undefined = 'en'; // Default to English
-          try {
-            const studentDoc = await getDoc(doc(db, 'users', conversation.studentId));
-            if (studentDoc.exists()) {
-              const studentData = studentDoc.data() as User;
-              preferredLanguage = studentData.studentProfile?.preferredLanguage || 'en';
-            }
-          } catch (error) {
-            console.warn('Could not fetch student language preference, defaulting to English:', error);
-          }
-
+          const preferredLanguage = await this.getStudentLanguage(conversation.studentId);
           await this.generateAIResponse(conversationId, content, conversation.culturalContext, preferredLanguage);
         }
       }
@@ -144,10 +190,205 @@ export class ConversationService {
     }
   }
 
+  // Escalate a conversation after a crisis assessment: urgent priority, pinned in the
+  // counselor queue and an audit record in crisis_events (written in the caller's batch)
+  private static async addCrisisEscalation(
+    batch: ReturnType<typeof writeBatch>,
+    conversationId: string,
+    messageId: string,
+    assessment: CrisisAssessment
+  ): Promise<void> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation) return;
+
+    const language = await this.getStudentLanguage(conversation.studentId);
+    const actions: CrisisEscalationAction[] = ['priority-urgent', 'pinned-to-queue'];
+    if (conversation.type === 'ai') {
+      actions.push('resources-injected');
+    }
+
+    batch.update(doc(db, 'conversations', conversationId), {
+      ...CrisisDetectionService.buildConversationEscalation(assessment, conversation)
+    });
+
+    batch.set(doc(collection(db, 'crisis_events')), CrisisDetectionService.buildCrisisEvent({
+      assessment,
+      studentId: conversation.studentId,
+      source: 'conversation',
+      messageId,
+      conversationId,
+      actions,
+      culturalContext: conversation.culturalContext,
+      language
+    }));
+
+    console.warn('Crisis escalation for conversation', conversationId, assessment.riskLevel);
+  }
+
+  // Whether a user may still edit or delete a message (their own, not deleted, inside the edit window)
+  static canModifyMessage(message: ConversationMessage, userId: string, now: Date = new Date()): boolean {
+    return message.senderId === userId
+      && message.senderType !== 'ai'
+      && !message.deletedAt
+      && Boolean(message.editableUntil)
+      && now.getTime() < message.editableUntil!.getTime();
+  }
+
+  // Messages that analysis and exports treat as the conversation: the latest version of each
+  // message, with soft-deleted messages left out. Originals stay in the edit history.
+  static getEffectiveMessages(messages: ConversationMessage[]): ConversationMessage[] {
+    return messages.filter(message => !message.deletedAt);
+  }
+
+  // Edit a message within the edit window, recording the previous version in conversation_message_edits
+  static async editMessage(messageId: string, editorId: string, newContent: string, reason?: string): Promise<void> {
+    try {
+      const message = await this.getMessage(messageId);
+      const content = newContent.trim();
+
+      if (!this.canModifyMessage(message, editorId)) {
+        throw new Error('This message can no longer be edited');
+      }
+      if (!content && !message.attachments?.length) {
+        throw new Error('Message is empty');
+      }
+      if (content === message.content) return;
+
+      // Edited student messages are screened again so an edit can't slip past crisis detection
+      const crisisAssessment = message.senderType === 'student'
+        ? await CrisisDetectionService.assessMessage(content)
+        : null;
+
+      const editedAt = new Date();
+      const batch = writeBatch(db);
+
+      batch.update(doc(db, 'conversation_messages', messageId), {
+        content,
+        editedAt,
+        editCount: (message.editCount || 0) + 1,
+        ...(crisisAssessment?.shouldEscalate && { crisisRiskLevel: crisisAssessment.riskLevel })
+      });
+
+      batch.set(doc(collection(db, MESSAGE_EDITS_COLLECTION)), this.buildRevision(message, editorId, 'edit', {
+        editedContent: content,
+        editedAt,
+        reason
+      }));
+
+      if (crisisAssessment?.shouldEscalate) {
+        await this.addCrisisEscalation(batch, message.conversationId, messageId, crisisAssessment);
+      }
+
+      await batch.commit();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to edit message: ' + errorMessage);
+    }
+  }
+
+  // Soft-delete a message within the edit window: content and attachments are cleared from the
+  // message, and the original is kept in the edit history for counselors and admins
+  static async deleteMessage(messageId: string, editorId: string, reason?: string): Promise<void> {
+    try {
+      const message = await this.getMessage(messageId);
+
+      if (!this.canModifyMessage(message, editorId)) {
+        throw new Error('This message can no longer be deleted');
+      }
+
+      const deletedAt = new Date();
+      const batch = writeBatch(db);
+
+      batch.update(doc(db, 'conversation_messages', messageId), {
+        content: '',
+        attachments: [],
+        deletedAt,
+        deletedBy: editorId
+      });
+
+      batch.set(doc(collection(db, MESSAGE_EDITS_COLLECTION)), this.buildRevision(message, editorId, 'delete', {
+        editedContent: '',
+        editedAt: deletedAt,
+        reason
+      }));
+
+      await batch.commit();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to delete message: ' + errorMessage);
+    }
+  }
+
+  // Edit history for a conversation, oldest first (Firestore rules limit this to counselors and admins)
+  static async getConversationEditHistory(conversationId: string): Promise<ConversationMessageRevision[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, MESSAGE_EDITS_COLLECTION),
+        where('conversationId', '==', conversationId)
+      ));
+
+      return snapshot.docs
+        .map(revisionDoc => ({
+          id: revisionDoc.id,
+          ...revisionDoc.data(),
+          editedAt: revisionDoc.data().editedAt?.toDate()
+        } as ConversationMessageRevision))
+        .sort((a, b) => a.editedAt.getTime() - b.editedAt.getTime());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to fetch edit history: ' + errorMessage);
+    }
+  }
+
+  // Short single-line excerpt of a message for reply quotes
+  static getQuoteSnippet(content: string, maxLength: number = 120): string {
+    const singleLine = content.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? singleLine.slice(0, maxLength - 1) + '…' : singleLine;
+  }
+
+  static async getMessage(messageId: string, database: Firestore = db): Promise<ConversationMessage> {
+    const messageDoc = await getDoc(doc(database, 'conversation_messages', messageId));
+    if (!messageDoc.exists()) {
+      throw new Error('Message not found');
+    }
+    return this.toConversationMessage(messageDoc.id, messageDoc.data());
+  }
+
+  private static buildRevision(
+    message: ConversationMessage,
+    editorId: string,
+    action: MessageRevisionAction,
+    edit: Pick<ConversationMessageRevision, 'editedContent' | 'editedAt' | 'reason'>
+  ): Omit<ConversationMessageRevision, 'id'> {
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      action,
+      editedBy: editorId,
+      editedByType: message.senderType as ConversationMessageRevision['editedByType'],
+      originalContent: message.content,
+      editedContent: edit.editedContent,
+      editedAt: edit.editedAt,
+      ...(edit.reason && { reason: edit.reason }),
+      ...(action === 'delete' && message.attachments?.length && { originalAttachments: message.attachments })
+    };
+  }
+
+  private static toConversationMessage(id: string, data: DocumentData): ConversationMessage {
+    return {
+      id,
+      ...data,
+      timestamp: data.timestamp?.toDate(),
+      editedAt: data.editedAt?.toDate(),
+      editableUntil: data.editableUntil?.toDate(),
+      deletedAt: data.deletedAt?.toDate()
+    } as ConversationMessage;
+  }
+
   // Get conversation details
-  static async getConversation(conversationId: string): Promise<Conversation | null> {
+  static async getConversation(conversationId: string, database: Firestore = db): Promise<Conversation | null> {
     try {
-      const conversationDoc = await getDoc(doc(db, 'conversations', conversationId));
+      const conversationDoc = await getDoc(doc(database, 'conversations', conversationId));
       
       if (!conversationDoc.exists()) {
         return null;
@@ -158,7 +399,8 @@ export class ConversationService {
         ...conversationDoc.data(),
         createdAt: conversationDoc.data().createdAt?.toDate(),
         updatedAt: conversationDoc.data().updatedAt?.toDate(),
-        lastMessageAt: conversationDoc.data().lastMessageAt?.toDate()
+        lastMessageAt: conversationDoc.data().lastMessageAt?.toDate(),
+        pinnedAt: conversationDoc.data().pinnedAt?.toDate()
       } as Conversation;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -167,7 +409,7 @@ export class ConversationService {
   }
 
   // Get messages in a conversation
-  static async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+  static async getConversationMessages(conversationId: string, database: Firestore = db): Promise<ConversationMessage[]> {
     try {
       if (!conversationId) {
         console.error('getConversationMessages called with undefined conversationId');
@@ -175,16 +417,12 @@ export class ConversationService {
       }
 
       const q = query(
-        collection(db, 'conversation_messages'),
+        collection(database, 'conversation_messages'),
         where('conversationId', '==', conversationId)
       );
 
       const snapshot = await getDocs(q);
-      const messages = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        timestamp: doc.data().timestamp?.toDate()
-      } as ConversationMessage));
+      const messages = snapshot.docs.map(doc => this.toConversationMessage(doc.id, doc.data()));
 
       // Sort by timestamp
       return messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -220,7 +458,7 @@ export class ConversationService {
     }
   }
 
-  // Get conversations available for counselors to claim
+  // Get conversations available for counselors to claim (crisis-pinned conversations first)
   static async getAvailableConversations(): Promise<Conversation[]> {
     try {
       // Get all human conversations that are active
@@ -230,23 +468,96 @@ export class ConversationService {
         where('status', '==', 'active')
       );
 
-      const snapshot = await getDocs(q);
-      const allConversations = snapshot.docs.map(doc => ({
+      // AI conversations only reach the queue when crisis detection escalated them
+      const escalatedQuery = query(
+        collection(db, 'conversations'),
+        where('type', '==', 'ai'),
+        where('status', '==', 'active'),
+        where('priority', '==', 'urgent')
+      );
+
+      const [snapshot, escalatedSnapshot] = await Promise.all([getDocs(q), getDocs(escalatedQuery)]);
+      const allConversations = [...snapshot.docs, ...escalatedSnapshot.docs].map(doc => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate(),
         updatedAt: doc.data().updatedAt?.toDate(),
-        lastMessageAt: doc.data().lastMessageAt?.toDate()
+        lastMessageAt: doc.data().lastMessageAt?.toDate(),
+        pinnedAt: doc.data().pinnedAt?.toDate()
       } as Conversation));
 
       // Filter out conversations that already have a counselor assigned
-      return allConversations.filter(conv => !conv.counselorId);
+      return CrisisDetectionService.sortPinnedFirst(
+        allConversations.filter(conv => !conv.counselorId && (conv.type === 'human' || conv.pinnedAt))
+      );
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       throw new Error('Failed to get available conversations: ' + errorMessage);
     }
   }
 
+  // Get available conversations ranked for a counselor (priority, wait, specialization, language, load)
+  static async getRankedConversations(counselorId: string): Promise<RankedQueueItem<Conversation>[]> {
+    try {
+      const [conversations, context] = await Promise.all([
+        this.getAvailableConversations(),
+        QueueRoutingService.getRoutingContext(counselorId)
+      ]);
+
+      return QueueRoutingService.rankItems(conversations, QueueRoutingService.fromConversation, context);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to rank conversations: ' + errorMessage);
+    }
+  }
+
+  // Get the single best conversation for a counselor to take next (with the reason when nothing suitable)
+  static async getNextBestConversation(counselorId: string): Promise<NextBestPick<Conversation>> {
+    try {
+      const [conversations, context] = await Promise.all([
+        this.getAvailableConversations(),
+        QueueRoutingService.getRoutingContext(counselorId)
+      ]);
+
+      const ranked = QueueRoutingService.rankItems(conversations, QueueRoutingService.fromConversation, context);
+      return QueueRoutingService.pickNextBest(ranked, context, QueueRoutingService.fromConversation);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to get next conversation: ' + errorMessage);
+    }
+  }
+
+  // Queue-wide stats for the counselor dashboard
+  static async getQueueStats(): Promise<QueueStats> {
+    try {
+      const [available, claimedSnapshot, counselorsOnline] = await Promise.all([
+        this.getAvailableConversations(),
+        getDocs(query(
+          collection(db, 'conversations'),
+          where('type', '==', 'human'),
+          where('status', '==', 'active')
+        )),
+        PresenceService.getOnlineCounselorCount()
+      ]);
+
+      const now = Date.now();
+      const waitMinutes = available.map(conv => (now - conv.createdAt.getTime()) / 60000);
+
+      return {
+        totalPending: available.length,
+        totalClaimed: claimedSnapshot.docs.filter(doc => doc.data().counselorId).length,
+        averageWaitTime: waitMinutes.length > 0
+          ? Math.round(waitMinutes.reduce((sum, minutes) => sum + minutes, 0) / waitMinutes.length)
+          : 0,
+        oldestPendingAge: waitMinutes.length > 0 ? Math.round(Math.max(...waitMinutes)) : 0,
+        counselorsOnline
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to get queue stats: ' + errorMessage);
+    }
+  }
+
   // Get counselor's active conversations (conversations they've claimed)
   static async getCounselorConversations(counselorId: string): Promise<Conversation[]> {
     try {
@@ -315,10 +626,11 @@ export class ConversationService {
     try {
       const batch = writeBatch(db);
 
-      // Update conversation
+      // Update conversation (an escalated AI conversation is handed over to the counselor)
       const conversationRef = doc(db, 'conversations', conversationId);
       batch.update(conversationRef, {
         counselorId,
+        type: 'human',
         updatedAt: new Date()
       });
 
@@ -394,11 +706,7 @@ export class ConversationService {
     );
 
     return onSnapshot(q, (snapshot) => {
-      const messages = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        timestamp: doc.data().timestamp?.toDate()
-      } as ConversationMessage));
+      const messages = snapshot.docs.map(doc => this.toConversationMessage(doc.id, doc.data()));
 
       // Sort by timestamp
       const sortedMessages = messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -406,6 +714,93 @@ export class ConversationService {
     });
   }
 
+  // Fetch student's language preference
+  static async getStudentLanguage(studentId: string): Promise<Language> {
+    try {
+      const studentDoc = await getDoc(doc(db, 'users', studentId));
+      if (studentDoc.exists()) {
+        const studentData = studentDoc.data() as User;
+        return studentData.studentProfile?.preferredLanguage || 'en';
+      }
+    } catch (error) {
+      console.warn('Could not fetch student language preference, defaulting to English:', error);
+    }
+    return 'en'; // Default to English
+  }
+
+  // Get conversation history for AI context, and whether the reply must carry crisis resources
+  private static async getAIConversationHistory(conversationId: string): Promise<{
+    history: Array<{ role: 'user' | 'assistant'; content: string }>;
+    crisisEscalated: boolean;
+  }> {
+    const messages = this.getEffectiveMessages(await this.getConversationMessages(conversationId));
+    const messagesById = new Map(messages.map(msg => [msg.id, msg]));
+    return {
+      history: messages.map(msg => {
+        const quoted = msg.replyTo ? messagesById.get(msg.replyTo) : undefined;
+        return {
+          role: msg.senderType === 'student' ? 'user' : 'assistant',
+          // The model can't open attachments, so it only sees their names; quoted replies are inlined
+          content: [
+            quoted ? `[Replying to: "${this.getQuoteSnippet(quoted.content)}"]` : '',
+            msg.content,
+            ...(msg.attachments || []).map(attachment => `[Attached ${attachment.type}: ${attachment.name}]`)
+          ].filter(Boolean).join('\n')
+        };
+      }),
+      crisisEscalated: CrisisDetectionService.isLatestStudentMessageEscalated(messages)
+    };
+  }
+
+  // Stream an AI reply token by token, persisting the final message once complete
+  static async streamAIResponse(
+    conversationId: string,
+    userMessage: string,
+    handlers: { onToken: (contentSoFar: string) => void; signal?: AbortSignal }
+  ): Promise<void> {
+    const conversation = await this.getConversation(conversationId);
+    if (!conversation || conversation.type !== 'ai') return;
+
+    const preferredLanguage = await this.getStudentLanguage(conversation.studentId);
+    const { history, crisisEscalated } = await this.getAIConversationHistory(conversationId);
+    const finalizeContent = (content: string) => crisisEscalated
+      ? CrisisDetectionService.appendCrisisResources(content, preferredLanguage)
+      : content;
+    let partialContent = '';
+
+    try {
+      const aiResponse = await OpenAIService.streamCulturalResponse(
+        userMessage,
+        conversation.culturalContext,
+        history,
+        preferredLanguage,
+        {
+          onToken: (delta) => {
+            partialContent += delta;
+            handlers.onToken(partialContent);
+          },
+          signal: handlers.signal
+        }
+      );
+
+      const content = finalizeContent(aiResponse.content);
+      handlers.onToken(content);
+      await this.sendAIMessage(conversationId, content, aiResponse);
+    } catch (error) {
+      if (handlers.signal?.aborted) {
+        // Student stopped the reply - keep what they already saw (crisis resources are always kept)
+        if (partialContent.trim() || crisisEscalated) {
+          await this.sendAIMessage(conversationId, finalizeContent(OpenAIService.cleanAIResponse(partialContent)), undefined, true);
+        }
+        return;
+      }
+
+      // Stream failed mid-way: retry once without streaming, which falls back to an apology message
+      console.error('Streaming AI response failed, retrying without streaming:', error);
+      await this.generateAIResponse(conversationId, userMessage, conversation.culturalContext, preferredLanguage);
+    }
+  }
+
   // Generate AI response in conversation
   private static async generateAIResponse(
     conversationId: string,
@@ -413,29 +808,30 @@ export class ConversationService {
     culturalContext: CulturalBackground,
     preferredLanguage?: 'en' | 'es'
   ): Promise<void> {
+    let crisisEscalated = false;
+    const finalizeContent = (content: string) => crisisEscalated
+      ? CrisisDetectionService.appendCrisisResources(content, preferredLanguage)
+      : content;
+
     try {
-      // Get conversation history for context
-      const messages = await this.getConversationMessages(conversationId);
-      const conversationHistory = messages.map(msg => ({
-        role: msg.senderType === 'student' ? 'user' : 'assistant',
-        content: msg.content
-      }));
+      const conversationHistory = await this.getAIConversationHistory(conversationId);
+      crisisEscalated = conversationHistory.crisisEscalated;
 
       const aiResponse = await OpenAIService.generateCulturalResponse(
         userMessage,
         culturalContext,
-        conversationHistory,
+        conversationHistory.history,
         preferredLanguage
       );
 
       // Send AI response
-      await this.sendAIMessage(conversationId, aiResponse.content, aiResponse);
+      await this.sendAIMessage(conversationId, finalizeContent(aiResponse.content), aiResponse);
     } catch (error) {
       console.error('Failed to generate AI response:', error);
       // Send fallback message
       await this.sendAIMessage(
         conversationId,
-        "I'm sorry, I'm having trouble processing your message right now. Please try again in a moment."
+        finalizeContent("I'm sorry, I'm having trouble processing your message right now. Please try again in a moment.")
       );
     }
   }
@@ -444,7 +840,8 @@ export class ConversationService {
   private static async sendAIMessage(
     conversationId: string,
     content: string,
-    aiMetadata?: { model?: string; usage?: { prompt_tokens?: number; completion_tokens?: number } }
+    aiMetadata?: { model?: string; usage?: { prompt_tokens?: number; completion_tokens?: number } },
+    isPartial: boolean = false
   ): Promise<void> {
     const messageData: Omit<ConversationMessage, 'id'> = {
       conversationId,
@@ -455,7 +852,8 @@ export class ConversationService {
       readBy: [], // AI messages start unread
       ...(aiMetadata?.model && { aiModel: aiMetadata.model }),
       ...(aiMetadata?.usage?.prompt_tokens && { promptTokens: aiMetadata.usage.prompt_tokens }),
-      ...(aiMetadata?.usage?.completion_tokens && { completionTokens: aiMetadata.usage.completion_tokens })
+      ...(aiMetadata?.usage?.completion_tokens && { completionTokens: aiMetadata.usage.completion_tokens }),
+      ...(isPartial && { isPartial })
     };
 
     await addDoc(collection(db, 'conversation_messages'), messageData);
@@ -520,6 +918,39 @@ export class ConversationService {
     }
   }
 
+  // Close active conversations with no messages since the cutoff (run by the close-stale-conversations job)
+  // Returns the number of conversations closed
+  static async closeStaleConversations(inactiveDays: number, maxConversations: number = 500, database: Firestore = db): Promise<number> {
+    try {
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - inactiveDays);
+
+      const q = query(
+        collection(database, 'conversations'),
+        where('status', '==', 'active'),
+        where('lastMessageAt', '<=', cutoff),
+        limit(maxConversations)
+      );
+
+      const snapshot = await getDocs(q);
+      const batch = writeBatch(database);
+
+      snapshot.docs.forEach(conversationDoc => {
+        batch.update(conversationDoc.ref, {
+          status: 'closed',
+          closedReason: 'inactive',
+          updatedAt: new Date()
+        });
+      });
+
+      await batch.commit();
+      return snapshot.docs.length;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to close stale conversations: ' + errorMessage);
+    }
+  }
+
   // Mark conversation as completed by counselor
   static async markConversationComplete(conversationId: string, counselorId: string): Promise<void> {
     try {
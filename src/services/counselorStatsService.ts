@@ -0,0 +1,125 @@
+// Recomputes the aggregate stats stored on counselor profiles
+import {
+  collection,
+  doc,
+  documentId,
+  getDocs,
+  query,
+  where,
+  limit,
+  updateDoc,
+  Firestore
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { CounselorProfile, Response } from '../types';
+
+// Firestore 'in' queries accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+export class CounselorStatsService {
+  // Recompute stats for one counselor from their responses, conversation messages and training sessions
+  static async recomputeCounselorStats(counselorId: string, database: Firestore = db): Promise<CounselorProfile['stats']> {
+    try {
+      const [responsesSnapshot, conversationMessagesSnapshot, trainingSnapshot] = await Promise.all([
+        getDocs(query(
+          collection(database, 'responses'),
+          where('responderId', '==', counselorId),
+          where('responderType', '==', 'human')
+        )),
+        getDocs(query(
+          collection(database, 'conversation_messages'),
+          where('senderId', '==', counselorId)
+        )),
+        getDocs(query(
+          collection(database, 'trainingSessions'),
+          where('counselorId', '==', counselorId)
+        ))
+      ]);
+
+      const responses = responsesSnapshot.docs.map(responseDoc => ({
+        id: responseDoc.id,
+        ...responseDoc.data(),
+        timestamp: responseDoc.data().timestamp?.toDate()
+      } as Response));
+
+      // Response time = time from the student's request to the counselor's reply
+      const requestTimes = await this.getRequestTimes(responses.map(response => response.messageId), database);
+      const responseTimes: number[] = [];
+      for (const response of responses) {
+        const requestedAt = requestTimes.get(response.messageId);
+        if (requestedAt && response.timestamp) {
+          responseTimes.push((response.timestamp.getTime() - requestedAt.getTime()) / 60000);
+        }
+      }
+
+      const ratings = responses
+        .map(response => response.feedback?.overallRating)
+        .filter((rating): rating is number => typeof rating === 'number');
+
+      const stats: CounselorProfile['stats'] = {
+        totalResponses: responses.length + conversationMessagesSnapshot.size,
+        averageResponseTime: this.average(responseTimes),
+        averageRating: this.average(ratings),
+        completedFeedbackSessions: trainingSnapshot.docs.filter(sessionDoc => sessionDoc.data().sessionEnded).length
+      };
+
+      await updateDoc(doc(database, 'users', counselorId), {
+        'counselorProfile.stats': stats
+      });
+
+      return stats;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to recompute counselor stats: ' + errorMessage);
+    }
+  }
+
+  // Recompute stats for every counselor; failures are collected so one bad record doesn't stop the rest
+  static async recomputeAllCounselorStats(maxCounselors: number, database: Firestore = db): Promise<{ updated: number; errors: string[] }> {
+    const snapshot = await getDocs(query(
+      collection(database, 'users'),
+      where('userType', '==', 'counselor'),
+      limit(maxCounselors)
+    ));
+
+    let updated = 0;
+    const errors: string[] = [];
+
+    for (const counselorDoc of snapshot.docs) {
+      try {
+        await this.recomputeCounselorStats(counselorDoc.id, database);
+        updated++;
+      } catch (error: unknown) {
+        errors.push(`${counselorDoc.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return { updated, errors };
+  }
+
+  // Request timestamps of the support requests behind a set of responses, read in batches
+  private static async getRequestTimes(messageIds: string[], database: Firestore): Promise<Map<string, Date>> {
+    const uniqueIds = [...new Set(messageIds.filter(Boolean))];
+    const chunks: string[][] = [];
+    for (let i = 0; i < uniqueIds.length; i += IN_QUERY_LIMIT) {
+      chunks.push(uniqueIds.slice(i, i + IN_QUERY_LIMIT));
+    }
+
+    const snapshots = await Promise.all(chunks.map(chunk =>
+      getDocs(query(collection(database, 'messages'), where(documentId(), 'in', chunk)))
+    ));
+
+    const requestTimes = new Map<string, Date>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(messageDoc => {
+      const requestedAt = messageDoc.data().timestamp?.toDate();
+      if (requestedAt) requestTimes.set(messageDoc.id, requestedAt);
+    }));
+    return requestTimes;
+  }
+
+  // Mean rounded to one decimal place; 0 when there is no data
+  private static average(values: number[]): number {
+    if (values.length === 0) return 0;
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  }
+}
@@ -0,0 +1,210 @@
+// Multi-stage crisis detection: local keyword screen, LLM risk classifier, escalation helpers
+import {
+  Conversation,
+  CrisisAssessment,
+  CrisisClassification,
+  CrisisEscalationAction,
+  CrisisEvent,
+  CrisisIndicatorCategory,
+  CrisisResource,
+  CrisisRiskLevel,
+  CrisisScreenResult,
+  CulturalBackground,
+  Language
+} from '../types';
+import { CRISIS_RESOURCES, CRISIS_RESOURCES_HEADING } from '../config/crisisResources';
+import { OpenAIService } from './openaiService';
+
+const RISK_ORDER: CrisisRiskLevel[] = ['none', 'low', 'moderate', 'high', 'imminent'];
+
+// Levels at which a message is escalated to counselors
+const ESCALATION_THRESHOLD: CrisisRiskLevel = 'high';
+
+// English and Spanish indicators, recorded for the audit trail and used as a floor when the classifier is down
+// Spanish patterns use letter-aware boundaries with the u flag: \b treats accented letters such as
+// "í" or "ñ" as non-word characters. Unaccented spellings are accepted as students often type them.
+const SCREEN_PATTERNS: Record<CrisisIndicatorCategory, RegExp[]> = {
+  'suicidal-ideation': [
+    /\b(kill|killing|end|ending)\s+(myself|my\s+life|it\s+all)\b/i,
+    /\bsuicid(e|al)\b/i,
+    /\b(want|wanna|wish)\s+(to\s+)?(die|be\s+dead|disappear\s+forever)\b/i,
+    /\bbetter\s+off\s+(dead|without\s+me)\b/i,
+    /\bno\s+reason\s+to\s+(live|keep\s+going)\b/i,
+    /\b(don'?t|do\s+not)\s+want\s+to\s+(live|be\s+alive|wake\s+up)\b/i,
+    /(?<!\p{L})(suicidarme|quitarme\s+la\s+vida|matarme)(?!\p{L})/iu,
+    /(?<!\p{L})quiero\s+morir(me)?(?!\p{L})/iu,
+    /(?<!\p{L})no\s+quiero\s+(vivir|seguir\s+viviendo)(?!\p{L})/iu
+  ],
+  'self-harm': [
+    /\b(cut|cutting|hurt|hurting|harm|harming)\s+myself\b/i,
+    /\bself[-\s]?harm\b/i,
+    /\boverdos(e|ing)\b/i,
+    /(?<!\p{L})(cortarme|hacerme\s+da[ñn]o|lastimarme)(?!\p{L})/iu
+  ],
+  'harm-to-others': [
+    /\b(kill|hurt|shoot|stab)\s+(him|her|them|someone|somebody|people|everyone)\b/i,
+    /(?<!\p{L})(matarlo|matarla|lastimar\s+a\s+alguien)(?!\p{L})/iu
+  ],
+  'hopelessness': [
+    /\bhopeless\b/i,
+    /\b(no|any)\s+point\s+(in\s+)?(living|anything|trying)\b/i,
+    /\b(i'?m|i\s+am)\s+a\s+burden\b/i,
+    /\bcan'?t\s+(go\s+on|take\s+(it|this)\s+anymore)\b/i,
+    /(?<!\p{L})sin\s+esperanza(?!\p{L})/iu,
+    /(?<!\p{L})ya\s+no\s+(puedo\s+m[aá]s|aguanto)(?!\p{L})/iu
+  ],
+  'abuse': [
+    /\b(he|she|they)\s+(hits?|beats?|hurts?)\s+me\b/i,
+    /\b(abused|abusing|assaulted|raped)\b/i,
+    /\bnot\s+safe\s+at\s+home\b/i,
+    /(?<!\p{L})(me\s+pega|me\s+golpea|abus[oó]\s+de\s+m[ií])(?!\p{L})/iu
+  ]
+};
+
+// Level assumed when the classifier is unavailable, by the most serious category the screen matched
+const FALLBACK_LEVELS: Record<CrisisIndicatorCategory, CrisisRiskLevel> = {
+  'suicidal-ideation': 'high',
+  'self-harm': 'high',
+  'harm-to-others': 'high',
+  'abuse': 'high',
+  'hopelessness': 'moderate'
+};
+
+export class CrisisDetectionService {
+  // Stage 1: fast local screen - no network call
+  static screenMessage(content: string): CrisisScreenResult {
+    const categories: CrisisIndicatorCategory[] = [];
+    const matchedIndicators: string[] = [];
+
+    (Object.keys(SCREEN_PATTERNS) as CrisisIndicatorCategory[]).forEach(category => {
+      SCREEN_PATTERNS[category].forEach(pattern => {
+        const match = content.match(pattern);
+        if (match) {
+          if (!categories.includes(category)) categories.push(category);
+          matchedIndicators.push(match[0]);
+        }
+      });
+    });
+
+    return {
+      flagged: categories.length > 0,
+      categories,
+      matchedIndicators
+    };
+  }
+
+  // Run all detection stages. Every message with text is classified - the keyword screen only
+  // supplies indicators for the audit record and a floor when the classifier is unavailable.
+  static async assessMessage(content: string): Promise<CrisisAssessment> {
+    const screen = this.screenMessage(content);
+
+    if (!content.trim()) {
+      return this.buildAssessment(screen, { riskLevel: 'none', rationale: 'Message has no text to assess' }, 'screen');
+    }
+
+    try {
+      // Stage 2: LLM risk classifier
+      const classification = await OpenAIService.classifyCrisisRisk(content);
+      return this.buildAssessment(screen, classification, 'llm');
+    } catch (error) {
+      console.error('Crisis classifier failed, using screen result:', error);
+      const riskLevel = screen.categories
+        .map(category => FALLBACK_LEVELS[category])
+        .reduce((highest, level) => this.compareRisk(level, highest) > 0 ? level : highest, 'none' as CrisisRiskLevel);
+
+      return this.buildAssessment(screen, {
+        riskLevel,
+        rationale: screen.flagged
+          ? `Classifier unavailable; keyword screen matched: ${screen.categories.join(', ')}`
+          : 'Classifier unavailable; no crisis indicators matched'
+      }, 'fallback');
+    }
+  }
+
+  // Positive when a is more severe than b
+  static compareRisk(a: CrisisRiskLevel, b: CrisisRiskLevel): number {
+    return RISK_ORDER.indexOf(a) - RISK_ORDER.indexOf(b);
+  }
+
+  static getCrisisResources(language: Language = 'en'): CrisisResource[] {
+    return CRISIS_RESOURCES[language] || CRISIS_RESOURCES.en;
+  }
+
+  // Stage 3 (student-facing): append localized crisis resources to an AI reply
+  static appendCrisisResources(content: string, language: Language = 'en'): string {
+    const resources = this.getCrisisResources(language)
+      .map(resource => `• ${resource.name}: ${resource.contact} (${resource.description})`)
+      .join('\n');
+
+    return `${content.trim()}\n\n${CRISIS_RESOURCES_HEADING[language] || CRISIS_RESOURCES_HEADING.en}\n${resources}`;
+  }
+
+  // Stage 3 (audit): build the crisis_events record for an escalation
+  static buildCrisisEvent(params: {
+    assessment: CrisisAssessment;
+    studentId: string;
+    source: CrisisEvent['source'];
+    messageId: string;
+    conversationId?: string;
+    actions: CrisisEscalationAction[];
+    culturalContext: CulturalBackground;
+    language: Language;
+  }): Omit<CrisisEvent, 'id'> {
+    const { assessment } = params;
+
+    return {
+      studentId: params.studentId,
+      source: params.source,
+      ...(params.conversationId && { conversationId: params.conversationId }),
+      messageId: params.messageId,
+      riskLevel: assessment.riskLevel,
+      rationale: assessment.rationale,
+      classifiedBy: assessment.classifiedBy,
+      categories: assessment.screen.categories,
+      matchedIndicators: assessment.screen.matchedIndicators,
+      actions: params.actions,
+      culturalContext: params.culturalContext,
+      language: params.language,
+      createdAt: new Date()
+    };
+  }
+
+  // Pinned (escalated) items first, earliest pin on top; everything else keeps its order
+  static sortPinnedFirst<T extends { pinnedAt?: Date }>(items: T[]): T[] {
+    const pinned = items
+      .filter(item => item.pinnedAt)
+      .sort((a, b) => a.pinnedAt!.getTime() - b.pinnedAt!.getTime());
+    return [...pinned, ...items.filter(item => !item.pinnedAt)];
+  }
+
+  // True when the latest student message in a conversation was escalated
+  static isLatestStudentMessageEscalated(messages: Array<{ senderType: string; crisisRiskLevel?: CrisisRiskLevel }>): boolean {
+    const latestStudentMessage = [...messages].reverse().find(message => message.senderType === 'student');
+    return Boolean(latestStudentMessage?.crisisRiskLevel);
+  }
+
+  // Conversation fields written when a conversation is escalated
+  static buildConversationEscalation(assessment: CrisisAssessment, conversation: Conversation | null): Partial<Conversation> {
+    return {
+      priority: 'urgent',
+      crisisRiskLevel: conversation?.crisisRiskLevel && this.compareRisk(conversation.crisisRiskLevel, assessment.riskLevel) > 0
+        ? conversation.crisisRiskLevel
+        : assessment.riskLevel,
+      pinnedAt: conversation?.pinnedAt || new Date()
+    };
+  }
+
+  private static buildAssessment(
+    screen: CrisisScreenResult,
+    classification: CrisisClassification,
+    classifiedBy: CrisisAssessment['classifiedBy']
+  ): CrisisAssessment {
+    return {
+      ...classification,
+      screen,
+      classifiedBy,
+      shouldEscalate: this.compareRisk(classification.riskLevel, ESCALATION_THRESHOLD) >= 0,
+      assessedAt: new Date()
+    };
+  }
+}
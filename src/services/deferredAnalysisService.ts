@@ -0,0 +1,128 @@
+// Queue of AI analyses that could not run inline; drained by the scheduled job runner
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  increment,
+  Firestore
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { DeferredAnalysis, DeferredAnalysisType, RerunnableRubricKind } from '../types';
+
+const DEFERRED_ANALYSES_COLLECTION = 'deferred_analyses';
+
+export class DeferredAnalysisService {
+  // Queue an analysis for the next job run
+  static async enqueue(type: DeferredAnalysisType, targetId: string, lastError?: string): Promise<string> {
+    try {
+      const analysisData: Omit<DeferredAnalysis, 'id'> = {
+        type,
+        targetId,
+        requestedBy: this.requireRequester(),
+        status: 'pending',
+        attempts: 0,
+        ...(lastError && { lastError }),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const docRef = await addDoc(collection(db, DEFERRED_ANALYSES_COLLECTION), analysisData);
+      return docRef.id;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to queue deferred analysis: ' + errorMessage);
+    }
+  }
+
+  // Queue a stored analysis to be scored again under another rubric version
+  static async enqueueRerun(kind: RerunnableRubricKind, rubricVersion: string, sourceId: string): Promise<string> {
+    try {
+      const analysisData: Omit<DeferredAnalysis, 'id'> = {
+        type: 'rubric-rerun',
+        targetId: sourceId,
+        requestedBy: this.requireRequester(),
+        rubricKind: kind,
+        rubricVersion,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      const docRef = await addDoc(collection(db, DEFERRED_ANALYSES_COLLECTION), analysisData);
+      return docRef.id;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to queue rubric re-run: ' + errorMessage);
+    }
+  }
+
+  // Re-runs still waiting for the job runner
+  static async getPendingReruns(kind: RerunnableRubricKind, rubricVersion: string): Promise<DeferredAnalysis[]> {
+    try {
+      const q = query(
+        collection(db, DEFERRED_ANALYSES_COLLECTION),
+        where('rubricKind', '==', kind),
+        where('rubricVersion', '==', rubricVersion),
+        where('status', '==', 'pending')
+      );
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DeferredAnalysis));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to fetch pending re-runs: ' + errorMessage);
+    }
+  }
+
+  static async getPending(maxItems: number, database: Firestore = db): Promise<DeferredAnalysis[]> {
+    try {
+      const q = query(
+        collection(database, DEFERRED_ANALYSES_COLLECTION),
+        where('status', '==', 'pending'),
+        limit(maxItems)
+      );
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate(),
+        updatedAt: doc.data().updatedAt?.toDate()
+      } as DeferredAnalysis));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to fetch deferred analyses: ' + errorMessage);
+    }
+  }
+
+  static async markCompleted(analysisId: string, database: Firestore = db): Promise<void> {
+    await updateDoc(doc(database, DEFERRED_ANALYSES_COLLECTION, analysisId), {
+      status: 'completed',
+      attempts: increment(1),
+      updatedAt: new Date()
+    });
+  }
+
+  // Record a failed attempt; gives up once the attempt limit is reached
+  static async markAttemptFailed(analysis: DeferredAnalysis, errorMessage: string, maxAttempts: number, database: Firestore = db): Promise<void> {
+    await updateDoc(doc(database, DEFERRED_ANALYSES_COLLECTION, analysis.id), {
+      status: analysis.attempts + 1 >= maxAttempts ? 'failed' : 'pending',
+      attempts: increment(1),
+      lastError: errorMessage,
+      updatedAt: new Date()
+    });
+  }
+
+  // Firestore rules only accept queued analyses from the signed-in requester
+  private static requireRequester(): string {
+    const currentUser = auth.currentUser;
+    if (!currentUser) throw new Error('Sign in to queue analyses');
+    return currentUser.uid;
+  }
+}
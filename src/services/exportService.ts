@@ -1,10 +1,18 @@
 // Service for exporting conversation data
 import { ConversationService } from './conversationService';
-import { Conversation, ConversationMessage } from '../types';
+import { AttachmentService } from './attachmentService';
+import { AttachmentExportMetadata, Conversation, ConversationMessage, ConversationMessageRevision } from '../types';
+
+// Exported messages carry attachment metadata rather than storage locations.
+// Content is the latest version; earlier versions and deleted content are in editHistory.
+export type ExportedMessage = Omit<ConversationMessage, 'attachments'> & {
+  attachments?: AttachmentExportMetadata[];
+  editHistory?: Array<Pick<ConversationMessageRevision, 'action' | 'originalContent' | 'editedContent' | 'editedAt' | 'reason'>>;
+};
 
 export interface ExportData {
   conversation: Conversation;
-  messages: ConversationMessage[];
+  messages: ExportedMessage[];
   exportedAt: Date;
   exportedBy: string;
 }
@@ -28,6 +36,8 @@ export class ExportService {
         throw new Error('Unauthorized: You can only export your own conversations');
       }
 
+      const editHistory = await ConversationService.getConversationEditHistory(conversationId);
+
       const exportData: ExportData = {
         conversation: {
           ...conversation,
@@ -41,7 +51,9 @@ export class ExportService {
             ? (conversation.isAnonymous ? 'anonymous_student' : `student_${msg.senderId.slice(-6)}`)
             : msg.senderType === 'counselor' 
               ? `counselor_${msg.senderId.slice(-6)}`
-              : 'ai'
+              : 'ai',
+          attachments: msg.attachments?.map(attachment => AttachmentService.toExportMetadata(attachment)),
+          editHistory: this.getMessageEditHistory(editHistory, msg.id)
         })),
         exportedAt: new Date(),
         exportedBy: `counselor_${counselorId.slice(-6)}`
@@ -92,7 +104,10 @@ export class ExportService {
         'Sender ID',
         'Message Content',
         'Character Count',
-        'Word Count'
+        'Word Count',
+        'Attachments',
+        'Status',
+        'Reply To'
       ];
 
       const csvRows = [
@@ -108,7 +123,10 @@ export class ExportService {
               : 'ai',
           `"${msg.content.replace(/"/g, '""')}"`, // Escape quotes in CSV
           msg.content.length.toString(),
-          msg.content.split(/\s+/).length.toString()
+          msg.content.split(/\s+/).length.toString(),
+          `"${this.describeAttachments(msg).replace(/"/g, '""')}"`,
+          msg.deletedAt ? 'deleted' : msg.editedAt ? 'edited' : 'original',
+          msg.replyTo || ''
         ].join(','))
       ];
 
@@ -123,6 +141,7 @@ export class ExportService {
         `# Status: ${conversation.status}`,
         `# Created: ${conversation.createdAt.toISOString()}`,
         `# Total Messages: ${messages.length}`,
+        `# Total Attachments: ${messages.reduce((sum, m) => sum + (m.attachments?.length || 0), 0)}`,
         `# Exported: ${new Date().toISOString()}`,
         `# Exported By: counselor_${counselorId.slice(-6)}`,
         ``,
@@ -170,6 +189,8 @@ export class ExportService {
             continue;
           }
 
+          const editHistory = await ConversationService.getConversationEditHistory(conversationId);
+
           exportData.conversations.push({
             conversation: {
               ...conversation,
@@ -181,7 +202,9 @@ export class ExportService {
                 ? (conversation.isAnonymous ? 'anonymous_student' : `student_${msg.senderId.slice(-6)}`)
                 : msg.senderType === 'counselor' 
                   ? `counselor_${msg.senderId.slice(-6)}`
-                  : 'ai'
+                  : 'ai',
+              attachments: msg.attachments?.map(attachment => AttachmentService.toExportMetadata(attachment)),
+              editHistory: this.getMessageEditHistory(editHistory, msg.id)
             })),
             exportedAt: new Date(),
             exportedBy: `counselor_${counselorId.slice(-6)}`
@@ -214,6 +237,34 @@ export class ExportService {
     }
   }
 
+  // Edit history entries for one message, or undefined when it was never changed
+  private static getMessageEditHistory(
+    revisions: ConversationMessageRevision[],
+    messageId: string
+  ): ExportedMessage['editHistory'] {
+    const messageRevisions = revisions.filter(revision => revision.messageId === messageId);
+    if (messageRevisions.length === 0) return undefined;
+
+    return messageRevisions.map(revision => ({
+      action: revision.action,
+      originalContent: revision.originalContent,
+      editedContent: revision.editedContent,
+      editedAt: revision.editedAt,
+      ...(revision.reason && { reason: revision.reason })
+    }));
+  }
+
+  // Attachment summary for CSV cells, e.g. "scan.pdf (document, 1.2 MB); https://example.org (link)"
+  private static describeAttachments(message: ConversationMessage): string {
+    return (message.attachments || []).map(attachment => {
+      const metadata = AttachmentService.toExportMetadata(attachment);
+      const details = [metadata.type, metadata.size !== undefined ? AttachmentService.formatSize(metadata.size) : null]
+        .filter(Boolean)
+        .join(', ');
+      return `${metadata.url || metadata.name} (${details})`;
+    }).join('; ');
+  }
+
   // Helper function to format date for filenames
   private static formatDate(date: Date): string {
     return date.toISOString().split('T')[0].replace(/-/g, '');
@@ -231,7 +282,7 @@ export class ExportService {
   }> {
     try {
       const conversation = await ConversationService.getConversation(conversationId);
-      const messages = await ConversationService.getConversationMessages(conversationId);
+      const messages = ConversationService.getEffectiveMessages(await ConversationService.getConversationMessages(conversationId));
       
       if (!conversation) {
         throw new Error('Conversation not found');
@@ -1,31 +1,64 @@
-// Counselor feedback service with AI analysis
-import { ResponseFeedback, Response, ConversationMessage } from '../types';
-import { ENV } from '../config/env';
+// Counselor feedback service with AI analysis.
+// Each analyzed response is stored as an AIFeedback document in ai_feedback, written by /api/analyze-response
+// with the service account; the counselor's self-assessment is saved on the same document so it can be
+// compared with the AI scores over time.
+import {
+  collection,
+  addDoc,
+  doc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  DocumentData,
+  Firestore
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { AIAnalysisService } from './aiAnalysisService';
+import { ResponseFeedback, CulturalBackground } from '../types';
+import {
+  AIFeedback,
+  CounselorFeedbackAnalytics,
+  CounselorSelfAssessment,
+  FeedbackScores,
+  FeedbackTimeframe,
+  SelfAssessmentArea,
+  SelfAssessmentComparison,
+  SELF_ASSESSMENT_SCORE_KEYS
+} from '../types/Feedback';
+
+const FEEDBACK_COLLECTION = 'ai_feedback';
+
+const TIMEFRAME_DAYS: Record<FeedbackTimeframe, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+// Change in a score (or calibration gap) that counts as a real trend rather than noise
+const TREND_THRESHOLD = 0.3;
+const CALIBRATION_THRESHOLD = 0.5;
+
+const SCORE_LABELS: Record<SelfAssessmentArea, string> = {
+  empathy: 'empathy and listening',
+  culturalSensitivity: 'cultural sensitivity',
+  questioning: 'questioning',
+  goalOrientation: 'goal orientation',
+  professionalism: 'professionalism'
+};
 
 export interface FeedbackAnalysisRequest {
-  responseContent: string;
-  studentMessage: string;
-  conversationHistory?: ConversationMessage[];
+  messageId: string;               // Counselor message being analyzed; its text and context are loaded on the server
   counselorId: string;
-  culturalContext: string;
 }
 
 export interface CounselorFeedbackSubmission {
   responseId: string;
   selfRating: number; // 1-10
   selfReflection: string;
-  areas: {
-    empathy: number;
-    culturalSensitivity: number;
-    questioning: number;
-    goalOrientation: number;
-    professionalism: number;
-  };
+  areas: Record<SelfAssessmentArea, number>;
   improvementGoals: string[];
   timeSpent: number; // minutes
 }
 
 export interface AIFeedbackAnalysis {
+  feedbackId: string;              // Stored AIFeedback document
   empathyScore: number;
   culturalSensitivityScore: number;
   questioningScore: number;
@@ -36,245 +69,322 @@ export interface AIFeedbackAnalysis {
   improvementSuggestions: string[];
   strengths: string[];
   culturalConsiderations: string[];
+  selfAssessment?: CounselorSelfAssessment; // Set when the counselor already rated this response
 }
 
 export class FeedbackService {
-  
+
   /**
-   * Generate AI-powered feedback analysis for a counselor response
+   * Analyze a counselor response and store the result, reusing the stored
+   * analysis when this response was already analyzed for the counselor
    */
   static async generateAIFeedback(request: FeedbackAnalysisRequest): Promise<AIFeedbackAnalysis> {
     try {
-      console.log('Generating AI feedback for response:', request.responseContent.substring(0, 100));
-      
-      // Mock AI analysis for development (replace with actual OpenAI call in production)
-      const mockAnalysis = await this.mockAIAnalysis(request);
-      
-      return mockAnalysis;
-    } catch (error) {
+      const existing = await this.findAIFeedback(request.messageId, request.counselorId);
+      if (existing) return this.toAnalysis(existing);
+
+      return this.toAnalysis(await AIAnalysisService.analyzeStoredResponse(request.messageId));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('Failed to generate AI feedback:', error);
-      throw error;
+      throw new Error('Failed to generate AI feedback: ' + errorMessage);
     }
   }
 
+  // The stored analysis of a response, if it was already analyzed for this counselor
+  static async findAIFeedback(messageId: string, counselorId: string, database: Firestore = db): Promise<AIFeedback | null> {
+    const snapshot = await getDocs(query(
+      collection(database, FEEDBACK_COLLECTION),
+      where('messageId', '==', messageId),
+      where('counselorId', '==', counselorId)
+    ));
+    return snapshot.empty ? null : this.fromDoc(snapshot.docs[0].id, snapshot.docs[0].data());
+  }
+
+  // Written by /api/analyze-response with the service account; clients cannot create feedback records
+  static async saveAIFeedback(analysis: Omit<AIFeedback, 'id' | 'analyzedAt'>, database: Firestore): Promise<AIFeedback> {
+    const feedback = { ...analysis, analyzedAt: new Date() };
+    const docRef = await addDoc(collection(database, FEEDBACK_COLLECTION), feedback);
+    return { id: docRef.id, ...feedback };
+  }
+
   /**
-   * Submit counselor self-feedback and get combined analysis
+   * Save the counselor's self-assessment next to the AI analysis of the same response
    */
   static async submitCounselorFeedback(
     submission: CounselorFeedbackSubmission,
     aiAnalysis: AIFeedbackAnalysis
   ): Promise<ResponseFeedback> {
+    const ratings = [submission.selfRating, ...Object.values(submission.areas)];
+    if (ratings.some(rating => !Number.isFinite(rating) || rating < 1 || rating > 10)) {
+      throw new Error('Self-ratings must be between 1 and 10');
+    }
+
     try {
-      const feedback: ResponseFeedback = {
+      const selfAssessment: CounselorSelfAssessment = {
+        selfRating: submission.selfRating,
+        selfReflection: submission.selfReflection.trim(),
+        areas: submission.areas,
+        improvementGoals: submission.improvementGoals,
+        timeSpent: submission.timeSpent,
+        submittedAt: new Date()
+      };
+
+      await updateDoc(doc(db, FEEDBACK_COLLECTION, aiAnalysis.feedbackId), {
+        selfAssessment,
+        reviewedByCounselor: true
+      });
+
+      return {
         // AI scores
         empathyScore: aiAnalysis.empathyScore,
         culturalSensitivityScore: aiAnalysis.culturalSensitivityScore,
         questioningScore: aiAnalysis.questioningScore,
         goalOrientationScore: aiAnalysis.goalOrientationScore,
         professionalismScore: aiAnalysis.professionalismScore,
-        
+
         // Overall assessment
         overallRating: aiAnalysis.overallRating,
         aiAnalysis: aiAnalysis.aiAnalysis,
         improvementSuggestions: aiAnalysis.improvementSuggestions,
-        
+
         // Counselor self-assessment
-        selfRating: submission.selfRating,
-        selfReflection: submission.selfReflection,
-        
+        selfRating: selfAssessment.selfRating,
+        selfReflection: selfAssessment.selfReflection,
+
         // Metadata
-        analyzedAt: new Date(),
+        analyzedAt: selfAssessment.submittedAt,
         feedbackVersion: '1.0'
       };
-
-      console.log('Feedback generated:', feedback);
-      
-      return feedback;
-    } catch (error) {
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('Failed to submit counselor feedback:', error);
-      throw error;
+      throw new Error('Failed to submit counselor feedback: ' + errorMessage);
     }
   }
 
   /**
-   * Get counselor analytics and improvement insights
+   * Get counselor analytics from stored feedback, compared with the preceding period of the same length
    */
-  static async getCounselorAnalytics(counselorId: string, timeframe: '7d' | '30d' | '90d' = '30d') {
+  static async getCounselorAnalytics(
+    counselorId: string,
+    timeframe: FeedbackTimeframe = '30d'
+  ): Promise<CounselorFeedbackAnalytics> {
     try {
-      const mockAnalytics = {
-        averageScores: {
-          empathy: 7.8,
-          culturalSensitivity: 8.2,
-          questioning: 7.5,
-          goalOrientation: 8.0,
-          professionalism: 8.5
-        },
-        overallRating: 8.0,
-        totalResponses: 45,
-        improvementTrends: {
-          empathy: +0.3,
-          culturalSensitivity: +0.1,
-          questioning: +0.5,
-          goalOrientation: +0.2,
-          professionalism: 0
-        },
-        commonStrengths: [
-          'Excellent active listening skills',
-          'Strong cultural awareness',
-          'Professional tone and demeanor'
-        ],
-        improvementAreas: [
-          'Could ask more open-ended questions',
-          'Consider more goal-oriented approaches'
-        ],
-        responseCount: 45,
-        averageResponseTime: 28, // minutes
-        studentSatisfaction: 8.7
-      };
+      const periodMs = TIMEFRAME_DAYS[timeframe] * 24 * 60 * 60 * 1000;
+      const periodStart = Date.now() - periodMs;
+      const previousStart = periodStart - periodMs;
+
+      // Filter by date client-side to avoid a composite index
+      const snapshot = await getDocs(query(collection(db, FEEDBACK_COLLECTION), where('counselorId', '==', counselorId)));
+      const feedback = snapshot.docs
+        .map(feedbackDoc => this.fromDoc(feedbackDoc.id, feedbackDoc.data()))
+        .filter(f => f.analyzedAt && f.analyzedAt.getTime() >= previousStart)
+        .sort((a, b) => a.analyzedAt.getTime() - b.analyzedAt.getTime());
+
+      const current = feedback.filter(f => f.analyzedAt.getTime() >= periodStart);
+      const previous = feedback.filter(f => f.analyzedAt.getTime() < periodStart);
+
+      const averageScores = this.averageScores(current);
+      const previousOverall = this.average(previous.map(f => f.scores.overall));
 
-      return mockAnalytics;
-    } catch (error) {
+      return {
+        counselorId,
+        timeframe,
+        totalResponses: current.length,
+        previousPeriodResponses: previous.length,
+        averageScores,
+        scoreChange: previous.length > 0 && current.length > 0 ? this.round(averageScores.overall - previousOverall) : 0,
+        flaggedResponses: current.filter(f => f.flaggedForReview).length,
+        previousPeriodFlagged: previous.filter(f => f.flaggedForReview).length,
+        ...this.averageTimeSpent(current, 'averageTimeSpent'),
+        ...this.averageTimeSpent(previous, 'previousAverageTimeSpent'),
+        dailyScores: this.dailyScores(current),
+        culturalCompetency: this.culturalCompetency(current, previous),
+        commonStrengths: this.mostFrequent(current.flatMap(f => f.suggestions?.strengths || [])),
+        improvementAreas: this.mostFrequent(current.flatMap(f => f.suggestions?.improvements || [])),
+        selfAssessment: this.compareSelfAssessments(current)
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('Failed to get counselor analytics:', error);
-      throw error;
+      throw new Error('Failed to get counselor analytics: ' + errorMessage);
     }
   }
 
   /**
-   * Mock AI analysis for development (replace with OpenAI API call)
+   * Compare self-ratings with the AI scores of the same responses (oldest first)
    */
-  private static async mockAIAnalysis(request: FeedbackAnalysisRequest): Promise<AIFeedbackAnalysis> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // Generate realistic mock scores based on content analysis
-    const responseLength = request.responseContent.length;
-    const hasQuestions = request.responseContent.includes('?');
-    const hasValidation = /feel|understand|hear|difficult|challenging/i.test(request.responseContent);
-    const hasCulturalAwareness = /culture|background|family|community/i.test(request.responseContent);
-
-    const baseScore = 6.5;
-    const empathyBonus = hasValidation ? 1.5 : 0;
-    const questioningBonus = hasQuestions ? 1.2 : 0;
-    const culturalBonus = hasCulturalAwareness ? 1.0 : 0;
-    const lengthBonus = responseLength > 100 && responseLength < 500 ? 0.8 : 0;
+  static compareSelfAssessments(feedback: AIFeedback[]): SelfAssessmentComparison {
+    const assessed = feedback
+      .filter(f => f.selfAssessment)
+      .sort((a, b) => a.analyzedAt.getTime() - b.analyzedAt.getTime());
+
+    const gap = (f: AIFeedback) => f.selfAssessment!.selfRating - f.scores.overall;
+    const areaGap = (area: SelfAssessmentArea) => this.round(this.average(
+      assessed.map(f => f.selfAssessment!.areas[area] - f.scores[SELF_ASSESSMENT_SCORE_KEYS[area]])
+    ));
+
+    // Compare how far off the earlier and later self-ratings were
+    let calibrationTrend: SelfAssessmentComparison['calibrationTrend'] = 'stable';
+    if (assessed.length >= 4) {
+      const middle = Math.floor(assessed.length / 2);
+      const earlierGap = this.average(assessed.slice(0, middle).map(f => Math.abs(gap(f))));
+      const laterGap = this.average(assessed.slice(middle).map(f => Math.abs(gap(f))));
+      if (laterGap < earlierGap - CALIBRATION_THRESHOLD) calibrationTrend = 'converging';
+      else if (laterGap > earlierGap + CALIBRATION_THRESHOLD) calibrationTrend = 'diverging';
+    }
 
     return {
-      empathyScore: Math.min(10, Math.round((baseScore + empathyBonus + Math.random() * 0.5) * 10) / 10),
-      culturalSensitivityScore: Math.min(10, Math.round((baseScore + culturalBonus + Math.random() * 0.5) * 10) / 10),
-      questioningScore: Math.min(10, Math.round((baseScore + questioningBonus + Math.random() * 0.5) * 10) / 10),
-      goalOrientationScore: Math.min(10, Math.round((baseScore + lengthBonus + Math.random() * 0.5) * 10) / 10),
-      professionalismScore: Math.min(10, Math.round((baseScore + 1.2 + Math.random() * 0.3) * 10) / 10),
-      overallRating: Math.min(10, Math.round((baseScore + (empathyBonus + questioningBonus + culturalBonus + lengthBonus) / 4) * 10) / 10),
-      
-      aiAnalysis: this.generateMockAnalysis(request, hasValidation, hasQuestions, hasCulturalAwareness),
-      improvementSuggestions: this.generateImprovementSuggestions(hasValidation, hasQuestions, hasCulturalAwareness),
-      strengths: this.generateStrengths(hasValidation, hasQuestions, hasCulturalAwareness),
-      culturalConsiderations: this.generateCulturalConsiderations(request.culturalContext)
+      assessedResponses: assessed.length,
+      averageGap: {
+        empathy: areaGap('empathy'),
+        culturalSensitivity: areaGap('culturalSensitivity'),
+        questioning: areaGap('questioning'),
+        goalOrientation: areaGap('goalOrientation'),
+        professionalism: areaGap('professionalism'),
+        overall: this.round(this.average(assessed.map(gap)))
+      },
+      meanAbsoluteGap: this.round(this.average(assessed.map(f => Math.abs(gap(f))))),
+      calibrationTrend,
+      history: assessed.map(f => ({
+        feedbackId: f.id,
+        date: f.analyzedAt,
+        selfRating: f.selfAssessment!.selfRating,
+        aiOverall: f.scores.overall
+      }))
     };
   }
 
-  private static generateMockAnalysis(
-    request: FeedbackAnalysisRequest, 
-    hasValidation: boolean, 
-    hasQuestions: boolean, 
-    hasCulturalAwareness: boolean
-  ): string {
-    let analysis = "Your response demonstrates ";
-    
-    if (hasValidation) {
-      analysis += "strong empathetic listening skills and emotional validation. ";
-    }
-    
-    if (hasQuestions) {
-      analysis += "Good use of open-ended questions to encourage reflection. ";
-    } else {
-      analysis += "Consider incorporating more questions to promote deeper self-exploration. ";
-    }
-    
-    if (hasCulturalAwareness) {
-      analysis += "Excellent cultural sensitivity and awareness of the student's background. ";
-    }
-    
-    analysis += "The response maintains appropriate professional boundaries while being warm and supportive.";
-    
-    return analysis;
+  private static fromDoc(id: string, data: DocumentData): AIFeedback {
+    return {
+      id,
+      ...data,
+      analyzedAt: data.analyzedAt?.toDate(),
+      ...(data.selfAssessment && {
+        selfAssessment: { ...data.selfAssessment, submittedAt: data.selfAssessment.submittedAt?.toDate() }
+      })
+    } as AIFeedback;
   }
 
-  private static generateImprovementSuggestions(
-    hasValidation: boolean, 
-    hasQuestions: boolean, 
-    hasCulturalAwareness: boolean
-  ): string[] {
-    const suggestions = [];
-    
-    if (!hasValidation) {
-      suggestions.push("Incorporate more validation of the student's emotions and experiences");
-    }
-    
-    if (!hasQuestions) {
-      suggestions.push("Use more open-ended questions to encourage deeper reflection");
-    }
-    
-    if (!hasCulturalAwareness) {
-      suggestions.push("Consider the student's cultural background in your response");
-    }
-    
-    suggestions.push("Consider summarizing key points to ensure understanding");
-    suggestions.push("Explore specific actionable steps the student could take");
-    
-    return suggestions.slice(0, 3);
+  private static toAnalysis(feedback: AIFeedback): AIFeedbackAnalysis {
+    return {
+      feedbackId: feedback.id,
+      empathyScore: feedback.scores.empathy,
+      culturalSensitivityScore: feedback.scores.culturalSensitivity,
+      questioningScore: feedback.scores.questionQuality,
+      goalOrientationScore: feedback.scores.actionability,
+      professionalismScore: feedback.scores.professionalism,
+      overallRating: feedback.scores.overall,
+      aiAnalysis: this.summarize(feedback),
+      improvementSuggestions: feedback.suggestions.improvements,
+      strengths: feedback.suggestions.strengths,
+      culturalConsiderations: [...feedback.suggestions.culturalTips, ...feedback.culturalAnalysis.culturalMisses],
+      ...(feedback.selfAssessment && { selfAssessment: feedback.selfAssessment })
+    };
   }
 
-  private static generateStrengths(
-    hasValidation: boolean, 
-    hasQuestions: boolean, 
-    hasCulturalAwareness: boolean
-  ): string[] {
-    const strengths = [];
-    
-    if (hasValidation) {
-      strengths.push("Excellent emotional validation and empathetic listening");
-    }
-    
-    if (hasQuestions) {
-      strengths.push("Effective use of questioning techniques");
-    }
-    
-    if (hasCulturalAwareness) {
-      strengths.push("Strong cultural sensitivity and awareness");
+  // Short overview of the strongest and weakest rated areas
+  private static summarize(feedback: AIFeedback): string {
+    const ranked = (Object.keys(SCORE_LABELS) as SelfAssessmentArea[])
+      .map(area => ({ area, score: feedback.scores[SELF_ASSESSMENT_SCORE_KEYS[area]] }))
+      .sort((a, b) => b.score - a.score);
+    const strongest = ranked[0];
+    const weakest = ranked[ranked.length - 1];
+
+    let summary = `Your strongest area in this response is ${SCORE_LABELS[strongest.area]} (${strongest.score}/10)`;
+    summary += strongest.score === weakest.score
+      ? '.'
+      : `, and ${SCORE_LABELS[weakest.area]} (${weakest.score}/10) has the most room to grow.`;
+
+    const culturalStrength = feedback.culturalAnalysis.strengths[0];
+    if (culturalStrength) {
+      summary += ` Cultural strength: ${culturalStrength}`;
     }
-    
-    strengths.push("Professional and supportive communication style");
-    strengths.push("Clear and thoughtful expression");
-    
-    return strengths.slice(0, 3);
+
+    return summary;
   }
 
-  private static generateCulturalConsiderations(culturalContext: string): string[] {
-    const considerations = [];
-    
-    switch (culturalContext) {
-      case 'african-american':
-        considerations.push("Consider historical context and systemic factors");
-        considerations.push("Acknowledge strength of community and family ties");
-        break;
-      case 'latino-hispanic':
-        considerations.push("Family (familia) plays a central role in decision-making");
-        considerations.push("Consider religious/spiritual beliefs in coping strategies");
-        break;
-      case 'asian-american':
-        considerations.push("Academic/family expectations may be significant stressors");
-        considerations.push("Face-saving and family honor may influence sharing");
-        break;
-      case 'middle-eastern':
-        considerations.push("Religious practices may be important coping mechanisms");
-        considerations.push("Family and community support systems are highly valued");
-        break;
-      default:
-        considerations.push("Consider the student's unique cultural background");
-        considerations.push("Ask about cultural resources and support systems");
-    }
-    
-    return considerations;
+  private static averageScores(feedback: AIFeedback[]): FeedbackScores {
+    const averageOf = (key: keyof FeedbackScores) => this.round(this.average(feedback.map(f => f.scores[key])));
+
+    return {
+      culturalSensitivity: averageOf('culturalSensitivity'),
+      culturalAwareness: averageOf('culturalAwareness'),
+      empathy: averageOf('empathy'),
+      professionalism: averageOf('professionalism'),
+      actionability: averageOf('actionability'),
+      questionQuality: averageOf('questionQuality'),
+      languageAppropriate: averageOf('languageAppropriate'),
+      responseLength: averageOf('responseLength'),
+      overall: averageOf('overall')
+    };
+  }
+
+  private static averageTimeSpent<K extends 'averageTimeSpent' | 'previousAverageTimeSpent'>(
+    feedback: AIFeedback[],
+    key: K
+  ): Partial<Record<K, number>> {
+    const times = feedback.flatMap(f => f.selfAssessment ? [f.selfAssessment.timeSpent] : []);
+    return times.length > 0 ? { [key]: Math.round(this.average(times)) } as Record<K, number> : {};
   }
-}
\ No newline at end of file
+
+  private static dailyScores(feedback: AIFeedback[]): CounselorFeedbackAnalytics['dailyScores'] {
+    const byDay = new Map<string, number[]>();
+    feedback.forEach(f => {
+      const day = f.analyzedAt.toISOString().split('T')[0];
+      byDay.set(day, [...(byDay.get(day) || []), f.scores.overall]);
+    });
+
+    return Array.from(byDay.entries()).map(([date, scores]) => ({
+      date,
+      score: this.round(this.average(scores)),
+      responses: scores.length
+    }));
+  }
+
+  private static culturalCompetency(
+    current: AIFeedback[],
+    previous: AIFeedback[]
+  ): CounselorFeedbackAnalytics['culturalCompetency'] {
+    const overallFor = (feedback: AIFeedback[], background: CulturalBackground) =>
+      feedback.filter(f => f.responseContext?.culturalBackground === background).map(f => f.scores.overall);
+
+    const result: CounselorFeedbackAnalytics['culturalCompetency'] = {};
+    new Set(current.flatMap(f => f.responseContext?.culturalBackground ? [f.responseContext.culturalBackground] : [])).forEach(background => {
+      const scores = overallFor(current, background);
+      const previousScores = overallFor(previous, background);
+      const change = previousScores.length > 0 ? this.average(scores) - this.average(previousScores) : 0;
+
+      result[background] = {
+        score: this.round(this.average(scores)),
+        responses: scores.length,
+        trend: change > TREND_THRESHOLD ? 'up' : change < -TREND_THRESHOLD ? 'down' : 'stable'
+      };
+    });
+
+    return result;
+  }
+
+  // Most common items, most recent first among equals
+  private static mostFrequent(items: string[], max = 5): string[] {
+    const counts = new Map<string, number>();
+    [...items].reverse().forEach(item => {
+      const key = item.trim();
+      if (key) counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, max)
+      .map(([item]) => item);
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
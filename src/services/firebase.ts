@@ -1,7 +1,18 @@
 // Firebase initialization and configuration
 import { initializeApp } from 'firebase/app';
 import { getAuth, connectAuthEmulator } from 'firebase/auth';
-import { getFirestore, connectFirestoreEmulator, enableNetwork, disableNetwork } from 'firebase/firestore';
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  connectFirestoreEmulator,
+  enableNetwork,
+  disableNetwork,
+  terminate,
+  clearIndexedDbPersistence,
+  Firestore
+} from 'firebase/firestore';
 import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import { ENV } from '../config/env';
 
@@ -10,7 +21,7 @@ const app = initializeApp(ENV.FIREBASE_CONFIG);
 
 // Initialize Firebase services
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+export const db = createFirestore();
 export const storage = getStorage(app);
 
 // Development emulators (if running locally)
@@ -25,6 +36,34 @@ if (process.env.NODE_ENV === 'development' && process.env.VITE_USE_FIREBASE_EMUL
   }
 }
 
+// In the browser, reads are served from a persistent IndexedDB cache when offline (shared across tabs);
+// the server has no IndexedDB and uses the default memory cache.
+// Privacy trade-off: Firestore can't limit the persistent cache to some collections, so every document
+// a signed-in user reads - their journal, messages and notes, and for counselors their students' records -
+// is stored in this browser until it is evicted. Encrypted journal entries are cached as ciphertext.
+// The cache is what lets the journal load offline; signing out clears it (see clearOfflineCache).
+function createFirestore(): Firestore {
+  if (typeof window === 'undefined') return getFirestore(app);
+
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+    });
+  } catch (error) {
+    // Already initialized (e.g. after a hot reload)
+    console.warn('Using existing Firestore instance:', error);
+    return getFirestore(app);
+  }
+}
+
+// Removes the persistent cache from this device. Firestore can't be used on this page afterwards, so
+// callers reload once it settles; clearing fails while the app is still open in another tab.
+export async function clearOfflineCache(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  await terminate(db);
+  await clearIndexedDbPersistence(db);
+}
+
 // Network state management for offline support
 export const enableFirebaseNetwork = () => enableNetwork(db);
 export const disableFirebaseNetwork = () => disableNetwork(db);
@@ -0,0 +1,400 @@
+// Scheduled job runner for claim expiry and housekeeping (server-only)
+// Triggered by an external cron calling /api/jobs/run, or by the in-process local scheduler
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  Firestore,
+  DocumentData
+} from 'firebase/firestore';
+import { getServiceDb } from './serviceFirebase';
+import {
+  JOB_BATCH_LIMIT,
+  JOB_INTERVALS,
+  JOB_LOCK_TIMEOUT_MINUTES,
+  LOCAL_SCHEDULER_TICK_MS,
+  MAX_DEFERRED_ANALYSIS_ATTEMPTS,
+  STALE_CONVERSATION_DAYS
+} from '../config/jobs';
+import {
+  DeferredAnalysis,
+  JobDefinition,
+  JobName,
+  JobResult,
+  JobRun,
+  JobRunStatus,
+  JobState,
+  JobTrigger,
+  JournalAnalysis,
+  JournalEntry,
+  LLMMessage,
+  Message,
+  Response
+} from '../types';
+import { MessageService } from './messageService';
+import { ConversationService } from './conversationService';
+import { CounselorStatsService } from './counselorStatsService';
+import { DeferredAnalysisService } from './deferredAnalysisService';
+import { JournalAnalysisService } from './journalAnalysisService';
+import { JournalNoteService } from './journalNoteService';
+import { LLMService } from './llmService';
+import { OpenAIService } from './openaiService';
+import { AIAnalysisService } from './aiAnalysisService';
+import { ConversationAnalysisService } from './conversationAnalysisService';
+import { RubricService } from './rubricService';
+import { RubricRerunService, RERUN_SOURCE_COLLECTIONS } from './rubricRerunService';
+import { AnalysisValidationService } from './analysisValidationService';
+import { aiFeedbackSchema, conversationFeedbackSchema } from './llm/analysisSchemas';
+import { Schema } from './llm/schema';
+import { AIFeedback, ConversationFeedback } from '../types/Feedback';
+
+const JOB_RUNS_COLLECTION = 'job_runs';
+const JOB_STATE_COLLECTION = 'job_state';
+
+export class JobRunnerService {
+  private static localTimer: ReturnType<typeof setInterval> | null = null;
+  private static localTickInProgress = false;
+
+  private static readonly JOBS: Record<JobName, JobDefinition> = {
+    'release-expired-claims': {
+      name: 'release-expired-claims',
+      description: 'Return claimed support requests past their response deadline to the queue',
+      intervalMinutes: JOB_INTERVALS['release-expired-claims'],
+      run: async database => ({
+        processed: await MessageService.releaseExpiredClaims(JOB_BATCH_LIMIT, database),
+        failed: 0
+      })
+    },
+    'close-stale-conversations': {
+      name: 'close-stale-conversations',
+      description: `Close active conversations with no messages for ${STALE_CONVERSATION_DAYS} days`,
+      intervalMinutes: JOB_INTERVALS['close-stale-conversations'],
+      run: async database => ({
+        processed: await ConversationService.closeStaleConversations(STALE_CONVERSATION_DAYS, JOB_BATCH_LIMIT, database),
+        failed: 0
+      })
+    },
+    'recompute-counselor-stats': {
+      name: 'recompute-counselor-stats',
+      description: 'Recompute response counts, response times and ratings on counselor profiles',
+      intervalMinutes: JOB_INTERVALS['recompute-counselor-stats'],
+      run: async database => {
+        const { updated, errors } = await CounselorStatsService.recomputeAllCounselorStats(JOB_BATCH_LIMIT, database);
+        return { processed: updated, failed: errors.length, ...(errors.length > 0 && { errors }) };
+      }
+    },
+    'run-deferred-analyses': {
+      name: 'run-deferred-analyses',
+      description: 'Run AI analyses that failed or were deferred when first requested',
+      intervalMinutes: JOB_INTERVALS['run-deferred-analyses'],
+      run: database => JobRunnerService.runDeferredAnalyses(database)
+    },
+    'delete-deleted-entry-notes': {
+      name: 'delete-deleted-entry-notes',
+      description: "Delete counselors' private notes on journal entries students have deleted",
+      intervalMinutes: JOB_INTERVALS['delete-deleted-entry-notes'],
+      run: async database => ({
+        processed: await JournalNoteService.deleteNotesForDeletedEntries(JOB_BATCH_LIMIT, database),
+        failed: 0
+      })
+    }
+  };
+
+  static getJobs(): JobDefinition[] {
+    return Object.values(this.JOBS);
+  }
+
+  static isJobName(value: unknown): value is JobName {
+    return typeof value === 'string' && value in this.JOBS;
+  }
+
+  // Run a single job, recording the run in job_runs and job_state. Manual runs skip the schedule
+  // check but still refuse to start while another run holds the job's lock.
+  static async runJob(name: JobName, trigger: JobTrigger): Promise<JobRun> {
+    const database = await getServiceDb();
+
+    const acquired = await this.acquireLock(database, name, new Date(), false);
+    if (!acquired) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    return this.executeJob(database, name, trigger);
+  }
+
+  // Run every job whose interval has elapsed; jobs run one after another to keep load predictable
+  static async runDueJobs(trigger: JobTrigger): Promise<JobRun[]> {
+    const database = await getServiceDb();
+    const runs: JobRun[] = [];
+
+    for (const job of this.getJobs()) {
+      const acquired = await this.acquireLock(database, job.name, new Date(), true);
+      if (!acquired) continue;
+
+      runs.push(await this.executeJob(database, job.name, trigger));
+    }
+
+    return runs;
+  }
+
+  // Recent runs, newest first
+  static async getRunHistory(name?: JobName, maxRuns: number = 50): Promise<JobRun[]> {
+    try {
+      const database = await getServiceDb();
+      const q = name
+        ? query(collection(database, JOB_RUNS_COLLECTION), where('job', '==', name), orderBy('startedAt', 'desc'), limit(maxRuns))
+        : query(collection(database, JOB_RUNS_COLLECTION), orderBy('startedAt', 'desc'), limit(maxRuns));
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(runDoc => ({
+        id: runDoc.id,
+        ...runDoc.data(),
+        startedAt: runDoc.data().startedAt?.toDate(),
+        finishedAt: runDoc.data().finishedAt?.toDate()
+      } as JobRun));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to fetch job run history: ' + errorMessage);
+    }
+  }
+
+  // Local fallback: check for due jobs on a timer inside the Next.js server process
+  static startLocalScheduler(): void {
+    if (this.localTimer) return;
+
+    console.log('INFO: Starting local job scheduler');
+    const tick = async () => {
+      // Skip the tick if the previous one is still running
+      if (this.localTickInProgress) return;
+
+      this.localTickInProgress = true;
+      try {
+        await this.runDueJobs('local');
+      } catch (error) {
+        console.error('Local job scheduler tick failed:', error);
+      } finally {
+        this.localTickInProgress = false;
+      }
+    };
+
+    this.localTimer = setInterval(tick, LOCAL_SCHEDULER_TICK_MS);
+    tick();
+  }
+
+  static stopLocalScheduler(): void {
+    if (this.localTimer) {
+      clearInterval(this.localTimer);
+      this.localTimer = null;
+    }
+  }
+
+  // Mark the job as running in a transaction, so overlapping cron calls can't both start it.
+  // Returns false when another run holds the lock or, if requireDue is set, the job isn't due yet.
+  private static async acquireLock(database: Firestore, name: JobName, now: Date, requireDue: boolean): Promise<boolean> {
+    const stateRef = doc(database, JOB_STATE_COLLECTION, name);
+
+    return runTransaction(database, async transaction => {
+      const stateDoc = await transaction.get(stateRef);
+      const state = this.toJobState(name, stateDoc.exists() ? stateDoc.data() : undefined);
+
+      if (state.runningSince) {
+        const runningMinutes = (now.getTime() - state.runningSince.getTime()) / 60000;
+        if (runningMinutes < JOB_LOCK_TIMEOUT_MINUTES) return false;
+        console.warn(`Job ${name} has been marked running for ${Math.round(runningMinutes)} minutes, assuming it crashed`);
+      }
+
+      if (requireDue) {
+        const dueAt = state.lastRunAt ? state.lastRunAt.getTime() + this.JOBS[name].intervalMinutes * 60000 : 0;
+        if (dueAt > now.getTime()) return false;
+      }
+
+      transaction.set(stateRef, { job: name, runningSince: now }, { merge: true });
+      return true;
+    });
+  }
+
+  // Run a job whose lock the caller holds, then record the run and release the lock
+  private static async executeJob(database: Firestore, name: JobName, trigger: JobTrigger): Promise<JobRun> {
+    const job = this.JOBS[name];
+    const startedAt = new Date();
+    let status: JobRunStatus = 'success';
+    let result: JobResult | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      result = await job.run(database);
+      if (result.failed > 0) {
+        status = result.processed > 0 ? 'partial' : 'failed';
+      }
+    } catch (error: unknown) {
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`Job ${name} failed:`, error);
+    }
+
+    const finishedAt = new Date();
+    const run: Omit<JobRun, 'id'> = {
+      job: name,
+      trigger,
+      status,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...(result && { result }),
+      ...(errorMessage && { error: errorMessage })
+    };
+
+    const runRef = await addDoc(collection(database, JOB_RUNS_COLLECTION), run);
+
+    const previousState = await this.getJobState(database, name);
+    await this.updateJobState(database, name, {
+      lastRunAt: finishedAt,
+      lastStatus: status,
+      runningSince: null,
+      consecutiveFailures: status === 'failed' ? previousState.consecutiveFailures + 1 : 0
+    });
+
+    console.log(`Job ${name} finished with status ${status} in ${run.durationMs}ms`, result || errorMessage);
+    return { id: runRef.id, ...run };
+  }
+
+  private static async getJobState(database: Firestore, name: JobName): Promise<JobState> {
+    const stateDoc = await getDoc(doc(database, JOB_STATE_COLLECTION, name));
+    return this.toJobState(name, stateDoc.exists() ? stateDoc.data() : undefined);
+  }
+
+  private static toJobState(name: JobName, data?: DocumentData): JobState {
+    if (!data) {
+      return { job: name, consecutiveFailures: 0 };
+    }
+
+    return {
+      job: name,
+      lastRunAt: data.lastRunAt?.toDate(),
+      lastStatus: data.lastStatus,
+      runningSince: data.runningSince?.toDate() || null,
+      consecutiveFailures: data.consecutiveFailures || 0
+    };
+  }
+
+  private static async updateJobState(database: Firestore, name: JobName, updates: Partial<JobState>): Promise<void> {
+    await setDoc(doc(database, JOB_STATE_COLLECTION, name), { job: name, ...updates }, { merge: true });
+  }
+
+  // Drain the deferred analysis queue
+  private static async runDeferredAnalyses(database: Firestore): Promise<JobResult> {
+    const pending = await DeferredAnalysisService.getPending(JOB_BATCH_LIMIT, database);
+    let processed = 0;
+    const errors: string[] = [];
+
+    for (const analysis of pending) {
+      try {
+        await this.runDeferredAnalysis(database, analysis);
+        await DeferredAnalysisService.markCompleted(analysis.id, database);
+        processed++;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        errors.push(`${analysis.type} ${analysis.targetId}: ${errorMessage}`);
+        await DeferredAnalysisService.markAttemptFailed(analysis, errorMessage, MAX_DEFERRED_ANALYSIS_ATTEMPTS, database);
+      }
+    }
+
+    return { processed, failed: errors.length, ...(errors.length > 0 && { errors }) };
+  }
+
+  // Runs server-side, so the model is called directly rather than through the API routes.
+  // The service account can write anywhere, so each target is checked against who queued it.
+  private static async runDeferredAnalysis(database: Firestore, analysis: DeferredAnalysis): Promise<void> {
+    if (!analysis.requestedBy) throw new Error('Queued analysis has no requester');
+
+    switch (analysis.type) {
+      case 'response-feedback': {
+        const responseDoc = await getDoc(doc(database, 'responses', analysis.targetId));
+        if (!responseDoc.exists()) throw new Error('Response not found');
+        const response = responseDoc.data() as Response;
+        if (response.responderId !== analysis.requestedBy) throw new Error('Requester does not own this response');
+
+        const messageDoc = await getDoc(doc(database, 'messages', response.messageId));
+        if (!messageDoc.exists()) throw new Error('Original message not found');
+        const message = messageDoc.data() as Message;
+
+        const completion = await LLMService.complete(
+          'response-feedback',
+          OpenAIService.buildResponseFeedbackMessages(message.content, response.content, message.culturalContext)
+        );
+
+        await updateDoc(doc(database, 'responses', analysis.targetId), {
+          feedback: OpenAIService.parseResponseFeedback(completion.content)
+        });
+        return;
+      }
+      case 'journal-analysis': {
+        const entryDoc = await getDoc(doc(database, 'journal_entries', analysis.targetId));
+        if (!entryDoc.exists()) throw new Error('Journal entry not found');
+        const entry = { id: entryDoc.id, ...entryDoc.data() } as JournalEntry;
+        if (entry.studentId !== analysis.requestedBy) throw new Error('Requester does not own this journal entry');
+
+        // The student may have made the entry private or withdrawn consent since it was queued
+        if (!JournalAnalysisService.canAnalyze(entry)) return;
+
+        const completion = await LLMService.completeJSON<Partial<JournalAnalysis>>(
+          'journal-analysis',
+          JournalAnalysisService.buildAnalysisMessages(JournalAnalysisService.toAnalysisInput(entry))
+        );
+
+        const result = JournalAnalysisService.parseAnalysis(completion.data);
+        if (!result) throw new Error('Invalid journal analysis response');
+
+        await JournalAnalysisService.applyAnalysis(entry, { ...result, analyzedAt: new Date() }, database);
+        return;
+      }
+      case 'rubric-rerun': {
+        if (!analysis.rubricKind || !analysis.rubricVersion) throw new Error('Re-run has no rubric version');
+        const requesterDoc = await getDoc(doc(database, 'users', analysis.requestedBy));
+        if (requesterDoc.data()?.userType !== 'admin') throw new Error('Re-runs can only be queued by admins');
+        const kind = analysis.rubricKind;
+        const rubric = RubricService.getRubric(kind, analysis.rubricVersion);
+
+        const sourceDoc = await getDoc(doc(database, RERUN_SOURCE_COLLECTIONS[kind], analysis.targetId));
+        if (!sourceDoc.exists()) throw new Error('Analysis to re-run not found');
+        const source = sourceDoc.data() as AIFeedback | ConversationFeedback;
+
+        let messages: LLMMessage[];
+        if (kind === 'response-analysis') {
+          messages = AIAnalysisService.buildAnalysisMessages((source as AIFeedback).responseContext, rubric);
+        } else {
+          const context = (source as ConversationFeedback).analysisContext;
+          if (!context) throw new Error('Conversation analysis has no stored conversation');
+          messages = ConversationAnalysisService.buildConversationAnalysisMessages(context, rubric);
+        }
+
+        const outputSchema: Schema<unknown> = kind === 'response-analysis' ? aiFeedbackSchema : conversationFeedbackSchema;
+        const completion = await LLMService.completeValidated(kind, messages, outputSchema).catch(async (error: unknown) => {
+          await AnalysisValidationService.recordIfValidationFailure(error, analysis.targetId, database);
+          throw error;
+        });
+        const sourceRubric = RubricService.findRubric(kind, source.analysisVersion) || rubric;
+
+        await RubricRerunService.saveRerun({
+          kind,
+          sourceId: analysis.targetId,
+          sourceVersion: source.analysisVersion,
+          rubricVersion: rubric.version,
+          aiModel: completion.model,
+          scores: RubricService.extractRerunScores(kind, rubric, completion.data),
+          sourceScores: RubricService.resultScores(kind, sourceRubric, source),
+          analyzedAt: new Date()
+        }, database);
+        return;
+      }
+    }
+  }
+}
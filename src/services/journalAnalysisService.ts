@@ -0,0 +1,346 @@
+// Opt-in AI analysis of journal entries.
+// Only non-private entries the student opted in are sent to the model (through /api/analyze-journal).
+// When an analysed entry is shared with counselors and shows risk factors, the student's open
+// conversations are raised in the counselor queue and flagged with a journal risk alert (or, without
+// an open conversation, the alert is queued as a support request).
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  writeBatch,
+  deleteField,
+  Firestore
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { ApiClient } from './apiClient';
+import { CrisisDetectionService } from './crisisDetectionService';
+import { DeferredAnalysisService } from './deferredAnalysisService';
+import { JournalPromptService } from './journalPromptService';
+import {
+  Conversation,
+  CrisisAssessment,
+  CrisisRiskLevel,
+  JournalAnalysis,
+  JournalAnalysisInput,
+  JournalEntry,
+  JournalRiskAlert,
+  LLMMessage,
+  Message,
+  MessagePriority,
+  User
+} from '../types';
+
+const RISK_LEVELS: CrisisRiskLevel[] = ['none', 'low', 'moderate', 'high', 'imminent'];
+const PRIORITY_ORDER: MessagePriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Minimum conversation priority for each journal risk level
+const RISK_PRIORITY: Record<CrisisRiskLevel, MessagePriority | null> = {
+  'none': null,
+  'low': 'medium',
+  'moderate': 'high',
+  'high': 'urgent',
+  'imminent': 'urgent'
+};
+
+const MAX_LIST_ITEMS = 5;
+
+export class JournalAnalysisService {
+  // Consent: private entries are never analysed, shareable ones only when the student opted in
+  static canAnalyze(entry: Pick<JournalEntry, 'isPrivate' | 'aiAnalysisEnabled' | 'isEncrypted'>): boolean {
+    return !entry.isPrivate && !entry.isEncrypted && entry.aiAnalysisEnabled === true;
+  }
+
+  static hasRisk(analysis?: JournalAnalysis): boolean {
+    return Boolean(analysis?.riskFactors && analysis.riskFactors.length > 0);
+  }
+
+  // Risk factors without an explicit level still count as low risk
+  static getRiskLevel(analysis: JournalAnalysis): CrisisRiskLevel {
+    if (analysis.riskLevel && analysis.riskLevel !== 'none') return analysis.riskLevel;
+    return this.hasRisk(analysis) ? 'low' : 'none';
+  }
+
+  // Analyse an entry and store the result; failures are queued for the job runner
+  static async analyzeEntry(entryId: string): Promise<JournalAnalysis | null> {
+    const entry = await this.getEntry(entryId);
+    if (!entry || !this.canAnalyze(entry)) return null;
+
+    try {
+      const data = await ApiClient.post<{ analysis: Omit<JournalAnalysis, 'analyzedAt'> }>('/api/analyze-journal', {
+        entry: this.toAnalysisInput(entry)
+      });
+
+      const analysis: JournalAnalysis = { ...data.analysis, analyzedAt: new Date() };
+      await this.applyAnalysis(entry, analysis);
+      return analysis;
+    } catch (error) {
+      console.error('Failed to analyze journal entry, deferring to job runner:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      await DeferredAnalysisService.enqueue('journal-analysis', entryId, errorMessage);
+      return null;
+    }
+  }
+
+  // Store an analysis on its entry and escalate when the entry is shared and shows risk
+  static async applyAnalysis(entry: JournalEntry, analysis: JournalAnalysis, database: Firestore = db): Promise<void> {
+    await updateDoc(doc(database, 'journal_entries', entry.id), { aiAnalysis: analysis });
+
+    if (entry.promptId) {
+      JournalPromptService.recordSentiment(entry.id, entry.studentId, analysis.sentimentScore, database).catch(console.error);
+    }
+
+    if (entry.sharedWithCounselors && this.hasRisk(analysis)) {
+      await this.escalateSharedRisk(entry, analysis, database);
+    }
+  }
+
+  // Remove a stored analysis (the entry became private or the student withdrew consent)
+  static async clearAnalysis(entryId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'journal_entries', entryId), { aiAnalysis: deleteField() });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to clear journal analysis: ' + errorMessage);
+    }
+  }
+
+  // Raise the priority of the student's open conversations and alert their counselors; without an open
+  // conversation the alert is queued as a support request for any counselor to claim.
+  // High and imminent risk is escalated like a crisis message (urgent, pinned, crisis_events record).
+  // Each rise in risk is escalated once - re-saving or re-analysing an entry at the same level doesn't repeat it.
+  // Returns the number of conversations alerted or requests queued.
+  static async escalateSharedRisk(entry: JournalEntry, analysis: JournalAnalysis, database: Firestore = db): Promise<number> {
+    try {
+      const riskLevel = this.getRiskLevel(analysis);
+      const minimumPriority = RISK_PRIORITY[riskLevel];
+      if (!minimumPriority) return 0;
+      if (entry.escalatedRiskLevel && CrisisDetectionService.compareRisk(riskLevel, entry.escalatedRiskLevel) <= 0) return 0;
+
+      const snapshot = await getDocs(query(
+        collection(database, 'conversations'),
+        where('studentId', '==', entry.studentId),
+        where('status', '==', 'active')
+      ));
+
+      const alert: JournalRiskAlert = {
+        entryId: entry.id,
+        riskLevel,
+        riskFactors: analysis.riskFactors || [],
+        raisedAt: new Date()
+      };
+      const isCrisis = CrisisDetectionService.compareRisk(riskLevel, 'high') >= 0;
+      const assessment: CrisisAssessment = {
+        riskLevel,
+        rationale: `Journal analysis risk factors: ${alert.riskFactors.join('; ')}`,
+        screen: { flagged: false, categories: [], matchedIndicators: [] },
+        classifiedBy: 'llm',
+        shouldEscalate: isCrisis,
+        assessedAt: new Date()
+      };
+      const batch = writeBatch(database);
+
+      snapshot.docs.forEach(conversationDoc => {
+        const conversation = {
+          id: conversationDoc.id,
+          ...conversationDoc.data(),
+          pinnedAt: conversationDoc.data().pinnedAt?.toDate()
+        } as Conversation;
+
+        batch.update(conversationDoc.ref, {
+          journalRiskAlert: alert,
+          priority: this.raisePriority(conversation.priority, minimumPriority),
+          ...(isCrisis && {
+            pinnedAt: conversation.pinnedAt || new Date(),
+            crisisRiskLevel: conversation.crisisRiskLevel && CrisisDetectionService.compareRisk(conversation.crisisRiskLevel, riskLevel) > 0
+              ? conversation.crisisRiskLevel
+              : riskLevel
+          }),
+          updatedAt: new Date()
+        });
+
+        if (isCrisis) {
+          batch.set(doc(collection(database, 'crisis_events')), CrisisDetectionService.buildCrisisEvent({
+            assessment,
+            studentId: entry.studentId,
+            source: 'journal-entry',
+            messageId: entry.id,
+            conversationId: conversation.id,
+            actions: ['priority-urgent', 'pinned-to-queue'],
+            culturalContext: conversation.culturalContext,
+            language: conversation.studentLanguage || 'en'
+          }));
+        }
+      });
+
+      if (snapshot.empty) {
+        await this.queueRiskAlert(batch, database, entry, alert, minimumPriority, isCrisis ? assessment : null);
+      }
+
+      batch.update(doc(database, 'journal_entries', entry.id), { escalatedRiskLevel: riskLevel });
+      await batch.commit();
+      console.warn('Journal risk escalation for student', entry.studentId, riskLevel);
+      return Math.max(1, snapshot.size);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to escalate journal risk: ' + errorMessage);
+    }
+  }
+
+  // Counselor acknowledges the alert on a conversation (priority changes are kept)
+  static async acknowledgeRiskAlert(conversationId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        journalRiskAlert: deleteField(),
+        updatedAt: new Date()
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to acknowledge journal alert: ' + errorMessage);
+    }
+  }
+
+  static toAnalysisInput(entry: JournalAnalysisInput): JournalAnalysisInput {
+    return {
+      content: entry.content,
+      mood: entry.mood,
+      emotionTags: entry.emotionTags || [],
+      intensityLevel: entry.intensityLevel,
+      ...(entry.title && { title: entry.title }),
+      ...(entry.trigger && { trigger: entry.trigger })
+    };
+  }
+
+  // Build the messages sent to the model for journal analysis
+  static buildAnalysisMessages(entry: JournalAnalysisInput): LLMMessage[] {
+    const analysisPrompt = `
+        Analyze this journal entry written by a university student.
+
+        Title: ${entry.title || 'Untitled'}
+        Self-reported mood: ${entry.mood} (intensity ${entry.intensityLevel}/10)
+        Emotions tagged: ${entry.emotionTags.join(', ') || 'none'}
+        What prompted it: ${entry.trigger || 'not given'}
+
+        Entry:
+        """${entry.content}"""
+
+        Respond with JSON only, in this exact format:
+        {
+          "sentimentScore": <number from -1 (very negative) to 1 (very positive)>,
+          "emotionalThemes": ["<short theme>", ...],
+          "suggestedResources": ["<campus or self-help resource that fits the entry>", ...],
+          "riskFactors": ["<concerning sign stated or strongly implied in the entry>", ...],
+          "riskLevel": "none" | "low" | "moderate" | "high" | "imminent",
+          "positiveIndicators": ["<strength, coping strategy or protective factor>", ...]
+        }
+
+        Use at most ${MAX_LIST_ITEMS} items per list. Only list risk factors that the entry supports - ordinary
+        stress is not a risk factor. Use "high" or "imminent" only for suicidal or self-harm ideation, danger to
+        others or abuse. Write themes and resources in a warm, non-clinical tone; the student will read them.
+      `;
+
+    return [
+      { role: 'system', content: 'You are a supportive, culturally aware mental health assistant reviewing student journal entries. Be careful and never minimize risk.' },
+      { role: 'user', content: analysisPrompt }
+    ];
+  }
+
+  // Normalize a model response; returns null when the required sentiment score is missing
+  static parseAnalysis(data: Partial<JournalAnalysis>): Omit<JournalAnalysis, 'analyzedAt'> | null {
+    if (typeof data.sentimentScore !== 'number' || Number.isNaN(data.sentimentScore)) return null;
+
+    const toList = (value: unknown): string[] => Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).slice(0, MAX_LIST_ITEMS)
+      : [];
+
+    const riskFactors = toList(data.riskFactors);
+    const riskLevel = data.riskLevel && RISK_LEVELS.includes(data.riskLevel)
+      ? data.riskLevel
+      : riskFactors.length > 0 ? 'low' : 'none';
+
+    return {
+      sentimentScore: Math.max(-1, Math.min(1, data.sentimentScore)),
+      emotionalThemes: toList(data.emotionalThemes),
+      suggestedResources: toList(data.suggestedResources),
+      riskFactors,
+      riskLevel,
+      positiveIndicators: toList(data.positiveIndicators)
+    };
+  }
+
+  static describeSentiment(score: number): string {
+    if (score <= -0.5) return 'Heavy';
+    if (score < -0.1) return 'Low';
+    if (score <= 0.1) return 'Mixed';
+    if (score < 0.5) return 'Positive';
+    return 'Very positive';
+  }
+
+  // Support request carrying a journal risk alert, for a student with no open conversation (written in the caller's batch)
+  private static async queueRiskAlert(
+    batch: ReturnType<typeof writeBatch>,
+    database: Firestore,
+    entry: JournalEntry,
+    alert: JournalRiskAlert,
+    priority: MessagePriority,
+    crisisAssessment: CrisisAssessment | null
+  ): Promise<void> {
+    const userDoc = await getDoc(doc(database, 'users', entry.studentId));
+    const studentProfile = userDoc.exists() ? (userDoc.data() as User).studentProfile : undefined;
+    const culturalContext = studentProfile?.culturalBackground || 'prefer-not-to-say';
+    const language = studentProfile?.preferredLanguage || 'en';
+
+    const requestRef = doc(collection(database, 'messages'));
+    const request: Omit<Message, 'id'> = {
+      studentId: entry.studentId,
+      content: `A journal entry shared with counselors was flagged with ${alert.riskLevel} risk: ${alert.riskFactors.join('; ')}. ` +
+        'The student has no open conversation.',
+      messageType: 'journal-entry',
+      responseType: 'human',
+      status: 'pending',
+      priority,
+      culturalContext,
+      timestamp: new Date(),
+      updatedAt: new Date(),
+      tags: [],
+      isAnonymous: false,
+      studentLanguage: language,
+      journalRiskAlert: alert,
+      ...(crisisAssessment && { crisisRiskLevel: crisisAssessment.riskLevel, pinnedAt: new Date() }),
+      responses: [],
+      responseCount: 0
+    };
+    batch.set(requestRef, request);
+
+    if (crisisAssessment) {
+      batch.set(doc(collection(database, 'crisis_events')), CrisisDetectionService.buildCrisisEvent({
+        assessment: crisisAssessment,
+        studentId: entry.studentId,
+        source: 'journal-entry',
+        messageId: entry.id,
+        actions: ['priority-urgent', 'pinned-to-queue'],
+        culturalContext,
+        language
+      }));
+    }
+  }
+
+  private static raisePriority(current: MessagePriority, minimum: MessagePriority): MessagePriority {
+    return PRIORITY_ORDER.indexOf(current) >= PRIORITY_ORDER.indexOf(minimum) ? current : minimum;
+  }
+
+  private static async getEntry(entryId: string): Promise<JournalEntry | null> {
+    const entryDoc = await getDoc(doc(db, 'journal_entries', entryId));
+    if (!entryDoc.exists()) return null;
+
+    return {
+      id: entryDoc.id,
+      ...entryDoc.data(),
+      timestamp: entryDoc.data().timestamp?.toDate(),
+      lastModified: entryDoc.data().lastModified?.toDate()
+    } as JournalEntry;
+  }
+}
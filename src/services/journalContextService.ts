@@ -0,0 +1,181 @@
+// Journal context attached to support requests and conversations.
+// Selected entries are snapshotted (with the student's redaction choices) onto the request or
+// conversation, so counselors never read the live entry; unsharing removes the snapshots again.
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { JournalContext, JournalContextOptions } from '../types';
+import { JournalEntry } from '../types/Journal';
+
+const MAX_SHARED_ENTRIES = 5;
+const SNIPPET_LENGTH = 280;
+
+export const DEFAULT_JOURNAL_CONTEXT_OPTIONS: JournalContextOptions = {
+  contentLevel: 'snippet',
+  includeTitle: true,
+  includeTrigger: false,
+  redactContactDetails: true
+};
+
+// Contact details masked when redaction is on
+const CONTACT_PATTERNS: Array<[RegExp, string]> = [
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[email]'],
+  [/\bhttps?:\/\/\S+|\bwww\.\S+/gi, '[link]'],
+  [/(?:\+?\d[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g, '[phone]'],
+  [/(^|\s)@\w{2,}/g, '$1[handle]']
+];
+
+type JournalContextTarget = 'messages' | 'conversations';
+
+export class JournalContextService {
+  // Snapshot the student's selected entries; entries that no longer exist are skipped
+  static async buildSnapshots(
+    studentId: string,
+    entryIds: string[],
+    options: JournalContextOptions = DEFAULT_JOURNAL_CONTEXT_OPTIONS
+  ): Promise<JournalContext[]> {
+    const uniqueIds = Array.from(new Set(entryIds));
+    if (uniqueIds.length > MAX_SHARED_ENTRIES) {
+      throw new Error(`You can share up to ${MAX_SHARED_ENTRIES} journal entries`);
+    }
+
+    const sharedAt = new Date();
+    const snapshots: JournalContext[] = [];
+
+    for (const entryId of uniqueIds) {
+      const entryDoc = await getDoc(doc(db, 'journal_entries', entryId));
+      if (!entryDoc.exists()) continue;
+
+      const entry = {
+        id: entryDoc.id,
+        ...entryDoc.data(),
+        timestamp: entryDoc.data().timestamp?.toDate()
+      } as JournalEntry;
+
+      if (entry.studentId !== studentId) {
+        throw new Error('Only your own journal entries can be shared');
+      }
+
+      // A decrypted snapshot would outlive the student's control of the key, so encrypted entries
+      // are never shared (as with JournalService.shareWithCounselors)
+      if (entry.isEncrypted) {
+        throw new Error('Encrypted journal entries cannot be shared with counselors');
+      }
+
+      snapshots.push(this.buildSnapshot(entry, options, sharedAt));
+    }
+
+    return snapshots;
+  }
+
+  static buildSnapshot(entry: JournalEntry, options: JournalContextOptions, sharedAt: Date = new Date()): JournalContext {
+    const clean = (text: string) => options.redactContactDetails ? this.redactContactDetails(text) : text;
+    const snippet = options.contentLevel === 'full'
+      ? entry.content
+      : options.contentLevel === 'snippet'
+        ? this.truncate(entry.content, SNIPPET_LENGTH)
+        : '';
+
+    // Firestore rejects undefined values, so optional fields are only added when present
+    return {
+      entryId: entry.id,
+      date: entry.timestamp,
+      mood: entry.mood,
+      emotionTags: entry.emotionTags || [],
+      intensityLevel: entry.intensityLevel,
+      contentLevel: options.contentLevel,
+      sharedAt,
+      ...(snippet && { relevantSnippet: clean(snippet) }),
+      ...(options.includeTitle && entry.title && { title: clean(entry.title) }),
+      ...(options.includeTrigger && entry.trigger && { trigger: clean(entry.trigger) })
+    };
+  }
+
+  static redactContactDetails(text: string): string {
+    return CONTACT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  }
+
+  // Fields to merge into a new support request or conversation document
+  static toSharedFields(snapshots: JournalContext[]): { sharedJournalContext: JournalContext[]; sharedJournalEntryIds: string[] } {
+    return {
+      sharedJournalContext: snapshots,
+      sharedJournalEntryIds: snapshots.map(snapshot => snapshot.entryId)
+    };
+  }
+
+  // Stop sharing one entry with a single request or conversation
+  static async revokeFromTarget(target: JournalContextTarget, targetId: string, entryId: string): Promise<void> {
+    try {
+      const targetRef = doc(db, target, targetId);
+      const targetDoc = await getDoc(targetRef);
+      if (!targetDoc.exists()) return;
+
+      await updateDoc(targetRef, this.withoutEntry(targetDoc.data(), entryId));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to stop sharing journal entry: ' + errorMessage);
+    }
+  }
+
+  // Stop sharing an entry everywhere it was attached (called when the student unshares or deletes it)
+  static async revokeEntry(studentId: string, entryId: string): Promise<number> {
+    try {
+      let revoked = 0;
+
+      for (const target of ['messages', 'conversations'] as JournalContextTarget[]) {
+        const snapshot = await getDocs(query(
+          collection(db, target),
+          where('studentId', '==', studentId),
+          where('sharedJournalEntryIds', 'array-contains', entryId)
+        ));
+
+        for (const targetDoc of snapshot.docs) {
+          await updateDoc(targetDoc.ref, this.withoutEntry(targetDoc.data(), entryId));
+          revoked++;
+        }
+      }
+
+      return revoked;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to revoke journal sharing: ' + errorMessage);
+    }
+  }
+
+  // Snapshots read back from Firestore carry Timestamps inside the array
+  static normalize(contexts?: JournalContext[]): JournalContext[] {
+    return (contexts || []).map(context => ({
+      ...context,
+      date: this.toDate(context.date),
+      sharedAt: this.toDate(context.sharedAt)
+    }));
+  }
+
+  private static withoutEntry(data: DocumentData, entryId: string): DocumentData {
+    return {
+      sharedJournalContext: ((data.sharedJournalContext || []) as JournalContext[]).filter(context => context.entryId !== entryId),
+      sharedJournalEntryIds: ((data.sharedJournalEntryIds || []) as string[]).filter(id => id !== entryId),
+      updatedAt: new Date()
+    };
+  }
+
+  private static toDate(value: Date | { toDate: () => Date } | undefined): Date {
+    if (!value) return new Date(0);
+    return value instanceof Date ? value : value.toDate();
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut) + '…';
+  }
+}
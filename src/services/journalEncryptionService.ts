@@ -0,0 +1,239 @@
+// Opt-in end-to-end encryption for private journal entries.
+// A key is derived in the browser from the student's passphrase (PBKDF2-SHA256) and used with AES-GCM;
+// only the salt and a verifier are stored, and the key is held in memory until the journal is locked.
+import { collection, doc, getDoc, getDocs, query, setDoc, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import { JournalSearchService } from './journalSearchService';
+import {
+  EncryptedJournalPayload,
+  JournalEncryptedFields,
+  JournalEncryptionKeyRecord,
+  JournalEntry
+} from '../types';
+
+const KEYS_COLLECTION = 'journal_encryption_keys';
+const ENTRIES_COLLECTION = 'journal_entries';
+const MAX_BATCH_WRITES = 500;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'journal-passphrase-check';
+
+export const MIN_JOURNAL_PASSPHRASE_LENGTH = 10;
+
+// Derived keys for this session only; they are non-extractable and never persisted
+const sessionKeys = new Map<string, CryptoKey>();
+
+export class JournalEncryptionService {
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && Boolean(window.crypto?.subtle);
+  }
+
+  static async getKeyRecord(studentId: string): Promise<JournalEncryptionKeyRecord | null> {
+    const snapshot = await getDoc(doc(db, KEYS_COLLECTION, studentId));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data();
+    return { ...data, createdAt: data.createdAt?.toDate(), updatedAt: data.updatedAt?.toDate() } as JournalEncryptionKeyRecord;
+  }
+
+  static async isEnabled(studentId: string): Promise<boolean> {
+    return (await this.getKeyRecord(studentId)) !== null;
+  }
+
+  static isUnlocked(studentId: string): boolean {
+    return sessionKeys.has(studentId);
+  }
+
+  // First-time setup; there is no recovery, so entries encrypted under a forgotten passphrase are lost
+  static async setup(studentId: string, passphrase: string): Promise<void> {
+    try {
+      if (passphrase.length < MIN_JOURNAL_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_JOURNAL_PASSPHRASE_LENGTH} characters`);
+      }
+      if (await this.getKeyRecord(studentId)) {
+        throw new Error('Journal encryption is already set up');
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+      const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+      await setDoc(doc(db, KEYS_COLLECTION, studentId), {
+        studentId,
+        salt: this.toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await this.encryptText(key, VERIFIER_TEXT),
+        createdAt: Timestamp.now()
+      });
+      sessionKeys.set(studentId, key);
+    } catch (error: unknown) {
+      console.error('Failed to set up journal encryption:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to set up journal encryption: ' + errorMessage);
+    }
+  }
+
+  static async unlock(studentId: string, passphrase: string): Promise<void> {
+    try {
+      const record = await this.getKeyRecord(studentId);
+      if (!record) throw new Error('Journal encryption is not set up');
+
+      sessionKeys.set(studentId, await this.verifyPassphrase(record, passphrase));
+      JournalSearchService.invalidate(studentId);
+    } catch (error: unknown) {
+      console.error('Failed to unlock journal:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to unlock journal: ' + errorMessage);
+    }
+  }
+
+  // Re-encrypts every encrypted entry under a key from the new passphrase. The entries and the key record
+  // are written in one batch, so no entry is ever left under a key the record no longer describes.
+  static async changePassphrase(studentId: string, currentPassphrase: string, newPassphrase: string): Promise<void> {
+    try {
+      if (newPassphrase.length < MIN_JOURNAL_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_JOURNAL_PASSPHRASE_LENGTH} characters`);
+      }
+      const record = await this.getKeyRecord(studentId);
+      if (!record) throw new Error('Journal encryption is not set up');
+
+      const currentKey = await this.verifyPassphrase(record, currentPassphrase);
+      const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+      const newKey = await this.deriveKey(newPassphrase, salt, PBKDF2_ITERATIONS);
+
+      const snapshot = await getDocs(query(
+        collection(db, ENTRIES_COLLECTION),
+        where('studentId', '==', studentId),
+        where('isEncrypted', '==', true)
+      ));
+      if (snapshot.size + 1 > MAX_BATCH_WRITES) {
+        throw new Error(`Too many encrypted entries to re-encrypt at once (${snapshot.size})`);
+      }
+
+      const batch = writeBatch(db);
+      for (const entryDoc of snapshot.docs) {
+        const payload = entryDoc.data().encryptedPayload as EncryptedJournalPayload | undefined;
+        if (!payload) continue;
+        const text = await this.decryptText(currentKey, payload);
+        // lastModified is left alone: the text hasn't changed, and sync conflict checks compare it
+        batch.update(entryDoc.ref, { encryptedPayload: await this.encryptText(newKey, text) });
+      }
+      batch.update(doc(db, KEYS_COLLECTION, studentId), {
+        salt: this.toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await this.encryptText(newKey, VERIFIER_TEXT),
+        updatedAt: Timestamp.now()
+      });
+      await batch.commit();
+
+      sessionKeys.set(studentId, newKey);
+      JournalSearchService.invalidate(studentId);
+    } catch (error: unknown) {
+      console.error('Failed to change journal passphrase:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to change journal passphrase: ' + errorMessage);
+    }
+  }
+
+  // Forget the session key (and any index built from decrypted text)
+  static lock(studentId: string): void {
+    sessionKeys.delete(studentId);
+    JournalSearchService.invalidate(studentId);
+  }
+
+  static async encryptFields(studentId: string, fields: JournalEncryptedFields): Promise<EncryptedJournalPayload> {
+    return this.encryptText(this.requireKey(studentId), JSON.stringify(fields));
+  }
+
+  static async decryptFields(studentId: string, payload: EncryptedJournalPayload): Promise<JournalEncryptedFields> {
+    return JSON.parse(await this.decryptText(this.requireKey(studentId), payload)) as JournalEncryptedFields;
+  }
+
+  // Whether the entry's private fields are still ciphertext
+  static isLocked(entry: Pick<JournalEntry, 'isEncrypted' | 'encryptedPayload'>): boolean {
+    return Boolean(entry.isEncrypted && entry.encryptedPayload);
+  }
+
+  // In-memory decrypted copy; entries that aren't encrypted, or whose key isn't unlocked, come back unchanged
+  static async decryptEntry(entry: JournalEntry): Promise<JournalEntry> {
+    if (!this.isLocked(entry) || !this.isUnlocked(entry.studentId)) return entry;
+
+    const fields = await this.decryptFields(entry.studentId, entry.encryptedPayload as EncryptedJournalPayload);
+    const decrypted: JournalEntry = { ...entry, ...fields };
+    delete decrypted.encryptedPayload;
+    return decrypted;
+  }
+
+  // Entries that fail to decrypt stay locked rather than failing the whole list
+  static async decryptEntries(entries: JournalEntry[]): Promise<JournalEntry[]> {
+    return Promise.all(entries.map(entry =>
+      this.decryptEntry(entry).catch(error => {
+        console.error(`Failed to decrypt journal entry ${entry.id}:`, error);
+        return entry;
+      })
+    ));
+  }
+
+  private static requireKey(studentId: string): CryptoKey {
+    const key = sessionKeys.get(studentId);
+    if (!key) throw new Error('Unlock your journal to read or write encrypted entries');
+    return key;
+  }
+
+  private static async verifyPassphrase(record: JournalEncryptionKeyRecord, passphrase: string): Promise<CryptoKey> {
+    const key = await this.deriveKey(passphrase, this.fromBase64(record.salt), record.iterations);
+    // AES-GCM rejects a wrong key, so a failed verifier decryption means a wrong passphrase
+    const check = await this.decryptText(key, record.verifier).catch(() => null);
+    if (check !== VERIFIER_TEXT) throw new Error('Incorrect passphrase');
+    return key;
+  }
+
+  private static async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private static async encryptText(key: CryptoKey, text: string): Promise<EncryptedJournalPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return {
+      algorithm: 'AES-GCM',
+      iv: this.toBase64(iv),
+      ciphertext: this.toBase64(new Uint8Array(ciphertext))
+    };
+  }
+
+  private static async decryptText(key: CryptoKey, payload: EncryptedJournalPayload): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(payload.iv) },
+      key,
+      this.fromBase64(payload.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  }
+}
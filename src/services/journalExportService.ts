@@ -0,0 +1,385 @@
+// Student-facing journal export (Markdown, JSON and a printable PDF report) and JSON import.
+// Exports work on the entries already loaded (decrypted where the journal is unlocked); the JSON format
+// is the import format, so a journal can be moved between accounts.
+import { JournalService } from './journalService';
+import { JournalSearchService } from './journalSearchService';
+import { JournalEncryptionService } from './journalEncryptionService';
+import { JournalPromptService } from './journalPromptService';
+import {
+  EMOTION_CATEGORIES,
+  EmotionCategory,
+  JournalDraft,
+  JournalEntry,
+  JournalExportFile,
+  JournalExportFormat,
+  JournalExportResult,
+  JournalFilter,
+  JournalImportPreview,
+  JournalImportResult,
+  MoodLevel,
+  MOOD_COLORS,
+  MOOD_EMOJIS,
+  MOOD_VALUES
+} from '../types';
+
+const MAX_IMPORT_ENTRIES = 500;
+const MAX_CONTENT_LENGTH = 50000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_TRIGGER_LENGTH = 500;
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 24;
+
+const MOOD_LEVELS = Object.keys(MOOD_VALUES) as MoodLevel[];
+
+export class JournalExportService {
+  // Export all entries, or those matching the filter; locked encrypted entries can't be exported
+  static exportEntries(
+    entries: JournalEntry[],
+    format: JournalExportFormat,
+    filter?: JournalFilter
+  ): JournalExportResult {
+    const selected = filter
+      ? JournalSearchService.query(JournalSearchService.buildIndex(entries), filter)
+      : [...entries].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const readable = selected.filter(entry => !JournalEncryptionService.isLocked(entry));
+    const skippedEncrypted = selected.length - readable.length;
+
+    if (readable.length === 0) {
+      throw new Error(skippedEncrypted > 0
+        ? 'Unlock your journal to export encrypted entries'
+        : 'No journal entries match this export');
+    }
+
+    // Reports read oldest to newest
+    const chronological = [...readable].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const fileDate = this.formatDate(new Date());
+
+    if (format === 'json') {
+      this.download(JSON.stringify(this.toExportFile(chronological), null, 2), `journal_${fileDate}.json`, 'application/json');
+    } else if (format === 'markdown') {
+      this.download(this.toMarkdown(chronological), `journal_${fileDate}.md`, 'text/markdown');
+    } else {
+      this.openPrintableReport(chronological);
+    }
+
+    return { exported: readable.length, skippedEncrypted };
+  }
+
+  static toExportFile(entries: JournalEntry[]): JournalExportFile {
+    return {
+      format: 'journal-export',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries: entries.map(entry => ({
+        content: entry.content,
+        ...(entry.title && { title: entry.title }),
+        mood: entry.mood,
+        emotionTags: entry.emotionTags,
+        intensityLevel: entry.intensityLevel,
+        ...(entry.trigger && { trigger: entry.trigger }),
+        ...(entry.tags && entry.tags.length > 0 && { tags: entry.tags }),
+        isPrivate: entry.isPrivate,
+        ...(entry.aiAnalysisEnabled !== undefined && { aiAnalysisEnabled: entry.aiAnalysisEnabled }),
+        ...(entry.promptId && { promptId: entry.promptId }),
+        ...(entry.isEncrypted && { encrypt: true }),
+        writtenAt: entry.timestamp.toISOString()
+      }))
+    };
+  }
+
+  static toMarkdown(entries: JournalEntry[]): string {
+    const lines = [
+      '# My Journal',
+      '',
+      `Exported ${new Date().toLocaleDateString()} · ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`,
+      ''
+    ];
+
+    entries.forEach(entry => {
+      lines.push('---', '', `## ${entry.title || 'Untitled Entry'}`, '');
+      lines.push(`*${entry.timestamp.toLocaleString()} · ${MOOD_EMOJIS[entry.mood]} ${this.moodLabel(entry.mood)} · intensity ${entry.intensityLevel}/10*`, '');
+      if (entry.emotionTags.length > 0) lines.push(`**Emotions:** ${entry.emotionTags.join(', ')}`, '');
+      if (entry.tags && entry.tags.length > 0) lines.push(`**Tags:** ${entry.tags.map(tag => `#${tag}`).join(' ')}`, '');
+      if (entry.trigger) lines.push(`**What prompted this entry:** ${entry.trigger}`, '');
+      if (entry.promptId) {
+        const prompt = JournalPromptService.getPrompt(entry.promptId);
+        if (prompt) lines.push(`> ${prompt.text}`, '');
+      }
+      lines.push(entry.content, '');
+    });
+
+    return lines.join('\n');
+  }
+
+  // Parse and validate a JSON export; invalid entries are reported and left out
+  static parseImport(text: string): JournalImportPreview {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const rawEntries = Array.isArray(data) ? data : this.isRecord(data) ? data.entries : undefined;
+    if (!Array.isArray(rawEntries)) {
+      throw new Error('The file does not contain journal entries');
+    }
+    if (rawEntries.length > MAX_IMPORT_ENTRIES) {
+      throw new Error(`A single import can contain up to ${MAX_IMPORT_ENTRIES} entries`);
+    }
+
+    const preview: JournalImportPreview = { entries: [], issues: [] };
+    rawEntries.forEach((raw, index) => {
+      const errors: string[] = [];
+      const draft = this.validateDraft(raw, errors);
+      const writtenAt = this.isRecord(raw) ? this.validateDate(raw.writtenAt, errors) : undefined;
+
+      if (draft && errors.length === 0) {
+        preview.entries.push({ draft, ...(writtenAt && { writtenAt }) });
+      } else {
+        preview.issues.push({ index, errors });
+      }
+    });
+
+    return preview;
+  }
+
+  // Save validated entries in batches, without analysis or prompt tracking;
+  // encrypted entries need the journal unlocked so they stay encrypted
+  static async importEntries(studentId: string, preview: JournalImportPreview): Promise<JournalImportResult> {
+    if (preview.entries.some(({ draft }) => draft.encrypt) && !JournalEncryptionService.isUnlocked(studentId)) {
+      throw new Error('Unlock your journal (or set up encryption) before importing encrypted entries');
+    }
+
+    return JournalService.importEntries(studentId, preview.entries);
+  }
+
+  // Checks a raw object against JournalDraft, collecting every problem found
+  static validateDraft(raw: unknown, errors: string[]): JournalDraft | null {
+    if (!this.isRecord(raw)) {
+      errors.push('Entry is not an object');
+      return null;
+    }
+
+    if (typeof raw.content !== 'string' || !raw.content.trim()) {
+      errors.push('content must be non-empty text');
+    } else if (raw.content.length > MAX_CONTENT_LENGTH) {
+      errors.push(`content is longer than ${MAX_CONTENT_LENGTH} characters`);
+    }
+    if (!MOOD_LEVELS.includes(raw.mood as MoodLevel)) {
+      errors.push(`mood must be one of ${MOOD_LEVELS.join(', ')}`);
+    }
+    if (!Array.isArray(raw.emotionTags) ||
+      !raw.emotionTags.every(emotion => EMOTION_CATEGORIES.includes(emotion as EmotionCategory))) {
+      errors.push('emotionTags must be a list of known emotions');
+    }
+    if (typeof raw.intensityLevel !== 'number' || !Number.isInteger(raw.intensityLevel) ||
+      raw.intensityLevel < 1 || raw.intensityLevel > 10) {
+      errors.push('intensityLevel must be a whole number from 1 to 10');
+    }
+    if (typeof raw.isPrivate !== 'boolean') {
+      errors.push('isPrivate must be true or false');
+    }
+    this.checkOptionalText(raw.title, 'title', MAX_TITLE_LENGTH, errors);
+    this.checkOptionalText(raw.trigger, 'trigger', MAX_TRIGGER_LENGTH, errors);
+    if (raw.tags !== undefined && (!Array.isArray(raw.tags) || !raw.tags.every(tag => typeof tag === 'string'))) {
+      errors.push('tags must be a list of text');
+    }
+    if (raw.aiAnalysisEnabled !== undefined && typeof raw.aiAnalysisEnabled !== 'boolean') {
+      errors.push('aiAnalysisEnabled must be true or false');
+    }
+    if (raw.encrypt !== undefined && typeof raw.encrypt !== 'boolean') {
+      errors.push('encrypt must be true or false');
+    }
+    if (raw.promptId !== undefined && typeof raw.promptId !== 'string') {
+      errors.push('promptId must be text');
+    }
+
+    if (errors.length > 0) return null;
+
+    const draft: JournalDraft = {
+      content: raw.content as string,
+      mood: raw.mood as MoodLevel,
+      emotionTags: Array.from(new Set(raw.emotionTags as EmotionCategory[])),
+      intensityLevel: raw.intensityLevel as number,
+      isPrivate: raw.isPrivate as boolean
+    };
+    if (raw.title) draft.title = raw.title as string;
+    if (raw.trigger) draft.trigger = raw.trigger as string;
+    if (Array.isArray(raw.tags) && raw.tags.length > 0) draft.tags = JournalSearchService.normalizeTags(raw.tags as string[]);
+    // Consent to analysis doesn't carry over to private entries
+    if (raw.aiAnalysisEnabled !== undefined) draft.aiAnalysisEnabled = !draft.isPrivate && (raw.aiAnalysisEnabled as boolean);
+    if (raw.encrypt === true && draft.isPrivate) draft.encrypt = true;
+    // Prompts from another catalog version are dropped rather than failing the entry
+    if (typeof raw.promptId === 'string' && JournalPromptService.getPrompt(raw.promptId)) draft.promptId = raw.promptId;
+
+    return draft;
+  }
+
+  // Print-ready report with mood charts; the browser's print dialog saves it as a PDF
+  static openPrintableReport(entries: JournalEntry[]): void {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      throw new Error('Allow pop-ups for this site to create the PDF');
+    }
+
+    reportWindow.document.open();
+    reportWindow.document.write(this.toPrintableHtml(entries));
+    reportWindow.document.close();
+    reportWindow.focus();
+    // Give the report a moment to lay out before the print dialog opens
+    setTimeout(() => reportWindow.print(), 300);
+  }
+
+  static toPrintableHtml(entries: JournalEntry[]): string {
+    const averageMood = entries.reduce((sum, entry) => sum + MOOD_VALUES[entry.mood], 0) / entries.length;
+    const first = entries[0].timestamp;
+    const last = entries[entries.length - 1].timestamp;
+
+    const entryHtml = entries.map(entry => `
+      <article>
+        <h2>${this.escapeHtml(entry.title || 'Untitled Entry')}</h2>
+        <p class="meta">${this.escapeHtml(entry.timestamp.toLocaleString())} · ${MOOD_EMOJIS[entry.mood]} ${this.moodLabel(entry.mood)} · intensity ${entry.intensityLevel}/10</p>
+        ${entry.emotionTags.length > 0 ? `<p class="meta">Emotions: ${this.escapeHtml(entry.emotionTags.join(', '))}</p>` : ''}
+        ${entry.tags && entry.tags.length > 0 ? `<p class="meta">Tags: ${this.escapeHtml(entry.tags.map(tag => `#${tag}`).join(' '))}</p>` : ''}
+        ${entry.trigger ? `<p class="meta">What prompted this entry: ${this.escapeHtml(entry.trigger)}</p>` : ''}
+        <div class="content">${this.escapeHtml(entry.content)}</div>
+      </article>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>My Journal</title>
+  <style>
+    body { font-family: Georgia, serif; color: #1f2937; max-width: 720px; margin: 32px auto; padding: 0 16px; }
+    h1 { margin-bottom: 4px; }
+    h2 { margin: 0 0 4px; font-size: 18px; }
+    h3 { font-size: 15px; margin: 24px 0 8px; }
+    .summary, .meta { color: #6b7280; font-size: 13px; margin: 2px 0; }
+    .content { white-space: pre-wrap; line-height: 1.6; margin-top: 12px; }
+    article { border-top: 1px solid #e5e7eb; padding: 20px 0; page-break-inside: avoid; }
+    .charts { page-break-after: always; }
+    @media print { body { margin: 0 auto; } }
+  </style>
+</head>
+<body>
+  <h1>My Journal</h1>
+  <p class="summary">${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} from ${this.escapeHtml(first.toLocaleDateString())} to ${this.escapeHtml(last.toLocaleDateString())} · average mood ${averageMood.toFixed(1)}/10</p>
+  <section class="charts">
+    <h3>Mood over time</h3>
+    ${this.buildMoodLineChart(entries)}
+    <h3>How often each mood came up</h3>
+    ${this.buildMoodDistributionChart(entries)}
+  </section>
+  ${entryHtml}
+</body>
+</html>`;
+  }
+
+  // One point per entry, placed by date
+  private static buildMoodLineChart(entries: JournalEntry[]): string {
+    const start = entries[0].timestamp.getTime();
+    const span = Math.max(1, entries[entries.length - 1].timestamp.getTime() - start);
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+    const points = entries.map(entry => ({
+      x: CHART_PADDING + (entries.length === 1 ? plotWidth / 2 : ((entry.timestamp.getTime() - start) / span) * plotWidth),
+      y: CHART_HEIGHT - CHART_PADDING - ((MOOD_VALUES[entry.mood] - 1) / 8) * plotHeight,
+      color: MOOD_COLORS[entry.mood]
+    }));
+    const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+
+    const gridLines = [1, 5, 9].map(value => {
+      const y = CHART_HEIGHT - CHART_PADDING - ((value - 1) / 8) * plotHeight;
+      return `<line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${y}" y2="${y}" stroke="#e5e7eb" stroke-dasharray="4 4" />` +
+        `<text x="2" y="${y + 4}" font-size="10" fill="#9ca3af">${value}</text>`;
+    }).join('');
+
+    return `<svg width="100%" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      ${gridLines}
+      ${points.length > 1 ? `<path d="${path}" fill="none" stroke="#6366f1" stroke-width="2" />` : ''}
+      ${points.map(point => `<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="3.5" fill="${point.color}" />`).join('')}
+    </svg>`;
+  }
+
+  private static buildMoodDistributionChart(entries: JournalEntry[]): string {
+    const rowHeight = 26;
+    const labelWidth = 120;
+    const barWidth = CHART_WIDTH - labelWidth - 60;
+    const counts = MOOD_LEVELS.map(mood => ({ mood, count: entries.filter(entry => entry.mood === mood).length }));
+    const maxCount = Math.max(1, ...counts.map(item => item.count));
+
+    const rows = counts.map((item, index) => {
+      const y = index * rowHeight;
+      const width = (item.count / maxCount) * barWidth;
+      return `<text x="0" y="${y + 16}" font-size="12" fill="#374151">${MOOD_EMOJIS[item.mood]} ${this.moodLabel(item.mood)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 4}" width="${width.toFixed(1)}" height="16" rx="4" fill="${MOOD_COLORS[item.mood]}" />` +
+        `<text x="${labelWidth + width + 6}" y="${y + 16}" font-size="12" fill="#6b7280">${item.count}</text>`;
+    }).join('');
+
+    return `<svg width="100%" viewBox="0 0 ${CHART_WIDTH} ${rowHeight * MOOD_LEVELS.length}" xmlns="http://www.w3.org/2000/svg">${rows}</svg>`;
+  }
+
+  private static checkOptionalText(value: unknown, field: string, maxLength: number, errors: string[]): void {
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string') {
+      errors.push(`${field} must be text`);
+    } else if (value.length > maxLength) {
+      errors.push(`${field} is longer than ${maxLength} characters`);
+    }
+  }
+
+  // Missing dates import as "now"; future dates are rejected
+  private static validateDate(value: unknown, errors: string[]): Date | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push('writtenAt must be an ISO date');
+      return undefined;
+    }
+    if (date.getTime() > Date.now()) {
+      errors.push('writtenAt is in the future');
+      return undefined;
+    }
+    return date;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static moodLabel(mood: MoodLevel): string {
+    return mood.replace('-', ' ');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static download(content: string, filename: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // Date for filenames, e.g. 20250314
+  private static formatDate(date: Date): string {
+    return date.toISOString().split('T')[0].replace(/-/g, '');
+  }
+}
@@ -0,0 +1,279 @@
+// Counselor notes on shared journal entries.
+// Notes live in their own collection so private notes are never readable by the student;
+// visible notes start unread and drive the student's journal notification badge.
+import {
+  collection,
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  limit,
+  Timestamp,
+  Firestore,
+  WriteBatch,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { CounselorNoteInput, JournalCounselorNote, JournalEntry } from '../types';
+
+const NOTES_COLLECTION = 'journal_counselor_notes';
+const DELETED_ENTRIES_COLLECTION = 'journal_deleted_entries';
+
+const MAX_TAGS = 8;
+
+export class JournalNoteService {
+  // Add a note to an entry the student shared with counselors
+  static async addNote(
+    entryId: string,
+    counselor: { id: string; name: string },
+    input: CounselorNoteInput
+  ): Promise<string> {
+    if (!input.note.trim()) throw new Error('Note cannot be empty');
+
+    try {
+      const entryDoc = await getDoc(doc(db, 'journal_entries', entryId));
+      if (!entryDoc.exists() || entryDoc.data().sharedWithCounselors !== true) {
+        throw new Error('Entry is not shared with counselors');
+      }
+
+      const note: Omit<JournalCounselorNote, 'id'> = {
+        entryId,
+        studentId: entryDoc.data().studentId,
+        counselorId: counselor.id,
+        counselorName: counselor.name,
+        note: input.note.trim(),
+        isVisible: input.isVisible,
+        tags: this.normalizeTags(input.tags),
+        // Only visible notes notify the student
+        readByStudent: !input.isVisible,
+        timestamp: new Date()
+      };
+
+      const docRef = await addDoc(collection(db, NOTES_COLLECTION), note);
+      return docRef.id;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to add counselor note: ' + errorMessage);
+    }
+  }
+
+  // Edit the counselor's own note; making a private note visible notifies the student
+  static async updateNote(
+    noteId: string,
+    counselorId: string,
+    updates: Partial<CounselorNoteInput>
+  ): Promise<void> {
+    try {
+      const noteRef = doc(db, NOTES_COLLECTION, noteId);
+      const noteDoc = await getDoc(noteRef);
+      if (!noteDoc.exists()) throw new Error('Note not found');
+      if (noteDoc.data().counselorId !== counselorId) throw new Error('Only the author can edit this note');
+
+      if (updates.note !== undefined && !updates.note.trim()) throw new Error('Note cannot be empty');
+
+      const becomesVisible = updates.isVisible === true && noteDoc.data().isVisible !== true;
+
+      await updateDoc(noteRef, {
+        ...(updates.note !== undefined && { note: updates.note.trim() }),
+        ...(updates.tags !== undefined && { tags: this.normalizeTags(updates.tags) }),
+        ...(updates.isVisible !== undefined && { isVisible: updates.isVisible }),
+        ...(becomesVisible && { readByStudent: false }),
+        updatedAt: new Date()
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to update counselor note: ' + errorMessage);
+    }
+  }
+
+  static async deleteNote(noteId: string, counselorId: string): Promise<void> {
+    try {
+      const noteRef = doc(db, NOTES_COLLECTION, noteId);
+      const noteDoc = await getDoc(noteRef);
+      if (!noteDoc.exists()) return;
+      if (noteDoc.data().counselorId !== counselorId) throw new Error('Only the author can delete this note');
+
+      await deleteDoc(noteRef);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to delete counselor note: ' + errorMessage);
+    }
+  }
+
+  // Remove the notes the student can see on an entry (the student deleted it). Firestore rules only let
+  // students query visible notes; private notes are removed by the job runner (see recordDeletedEntry)
+  static async deleteNotesForEntry(entryId: string, studentId: string): Promise<void> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, NOTES_COLLECTION),
+        where('entryId', '==', entryId),
+        where('studentId', '==', studentId),
+        where('isVisible', '==', true)
+      ));
+      if (snapshot.empty) return;
+
+      const batch = writeBatch(db);
+      snapshot.docs.forEach(noteDoc => batch.delete(noteDoc.ref));
+      await batch.commit();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to delete counselor notes: ' + errorMessage);
+    }
+  }
+
+  // Record a deleted entry, in the batch that deletes it, so the job runner can remove the
+  // counselors' private notes on it
+  static recordDeletedEntry(batch: WriteBatch, entryId: string, studentId: string): void {
+    batch.set(doc(db, DELETED_ENTRIES_COLLECTION, entryId), { entryId, studentId, deletedAt: Timestamp.now() });
+  }
+
+  // Delete the remaining notes on recorded deleted entries (job runner, service account); returns the
+  // number of entries cleaned up
+  static async deleteNotesForDeletedEntries(maxEntries: number, database: Firestore): Promise<number> {
+    try {
+      const deleted = await getDocs(query(collection(database, DELETED_ENTRIES_COLLECTION), limit(maxEntries)));
+
+      for (const deletedDoc of deleted.docs) {
+        const notes = await getDocs(query(
+          collection(database, NOTES_COLLECTION),
+          where('entryId', '==', deletedDoc.id)
+        ));
+        const batch = writeBatch(database);
+        notes.docs.forEach(noteDoc => batch.delete(noteDoc.ref));
+        batch.delete(deletedDoc.ref);
+        await batch.commit();
+      }
+
+      return deleted.size;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to delete notes on deleted entries: ' + errorMessage);
+    }
+  }
+
+  // All notes (private and visible) on the given entries, for counselors
+  static async getNotesForEntries(entryIds: string[]): Promise<JournalCounselorNote[]> {
+    if (entryIds.length === 0) return [];
+
+    try {
+      const notes: JournalCounselorNote[] = [];
+
+      // Process in batches of 10 (Firestore 'in' query limit)
+      for (let i = 0; i < entryIds.length; i += 10) {
+        const batch = entryIds.slice(i, i + 10);
+        const snapshot = await getDocs(query(
+          collection(db, NOTES_COLLECTION),
+          where('entryId', 'in', batch)
+        ));
+        notes.push(...snapshot.docs.map(noteDoc => this.fromDoc(noteDoc.id, noteDoc.data())));
+      }
+
+      return notes.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to get counselor notes: ' + errorMessage);
+    }
+  }
+
+  // Notes the student is allowed to see, oldest first
+  static async getVisibleNotes(studentId: string): Promise<JournalCounselorNote[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, NOTES_COLLECTION),
+        where('studentId', '==', studentId),
+        where('isVisible', '==', true)
+      ));
+
+      return snapshot.docs
+        .map(noteDoc => this.fromDoc(noteDoc.id, noteDoc.data()))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to get counselor notes: ' + errorMessage);
+    }
+  }
+
+  static async getUnreadNoteCount(studentId: string): Promise<number> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, NOTES_COLLECTION),
+        where('studentId', '==', studentId),
+        where('isVisible', '==', true),
+        where('readByStudent', '==', false)
+      ));
+      return snapshot.size;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to count unread counselor notes: ' + errorMessage);
+    }
+  }
+
+  static async markNotesAsRead(noteIds: string[]): Promise<void> {
+    if (noteIds.length === 0) return;
+
+    try {
+      const batch = writeBatch(db);
+      noteIds.forEach(noteId => {
+        batch.update(doc(db, NOTES_COLLECTION, noteId), { readByStudent: true });
+      });
+      await batch.commit();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to mark counselor notes as read: ' + errorMessage);
+    }
+  }
+
+  // Group notes by entry id
+  static groupByEntry(notes: JournalCounselorNote[]): Record<string, JournalCounselorNote[]> {
+    const grouped: Record<string, JournalCounselorNote[]> = {};
+    notes.forEach(note => {
+      (grouped[note.entryId] = grouped[note.entryId] || []).push(note);
+    });
+    return grouped;
+  }
+
+  // Distinct tags across notes, most used first
+  static collectTags(notes: JournalCounselorNote[]): string[] {
+    const counts: Record<string, number> = {};
+    notes.forEach(note => note.tags.forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    }));
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  }
+
+  // Entries with at least one note carrying every selected tag (no tags selected keeps all entries)
+  static filterEntriesByTags(
+    entries: JournalEntry[],
+    notes: JournalCounselorNote[],
+    tags: string[]
+  ): JournalEntry[] {
+    if (tags.length === 0) return entries;
+
+    const notesByEntry = this.groupByEntry(notes);
+    return entries.filter(entry =>
+      (notesByEntry[entry.id] || []).some(note => tags.every(tag => note.tags.includes(tag)))
+    );
+  }
+
+  static normalizeTags(tags: string[]): string[] {
+    const normalized = tags
+      .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+      .filter(tag => tag.length > 0);
+    return Array.from(new Set(normalized)).slice(0, MAX_TAGS);
+  }
+
+  private static fromDoc(id: string, data: DocumentData): JournalCounselorNote {
+    return {
+      id,
+      ...data,
+      tags: data.tags || [],
+      timestamp: data.timestamp?.toDate(),
+      ...(data.updatedAt && { updatedAt: data.updatedAt.toDate() })
+    } as JournalCounselorNote;
+  }
+}
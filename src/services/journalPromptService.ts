@@ -0,0 +1,243 @@
+// Journal prompt selection and usage tracking.
+// Prompts are scored against the student's recent mood trend, most common emotions, writing streak
+// and cultural background; usage records let admins see which prompts lead to longer or more positive entries.
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  Firestore
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { JOURNAL_PROMPTS } from '../config/journalPrompts';
+import {
+  JournalPrompt,
+  JournalPromptCategory,
+  JournalPromptContext,
+  JournalPromptEffectiveness,
+  JournalPromptUsage,
+  MoodDirection,
+  MoodLevel,
+  MOOD_VALUES
+} from '../types';
+
+const PROMPT_USAGE_COLLECTION = 'journal_prompt_usage';
+
+// Days of mood history the selector looks at
+const RECENT_MOOD_DAYS = 7;
+
+// Streak length after which deeper goal and growth prompts are favoured
+const ESTABLISHED_STREAK_DAYS = 5;
+
+export class JournalPromptService {
+  static getCatalog(): JournalPrompt[] {
+    return JOURNAL_PROMPTS;
+  }
+
+  static getPrompt(promptId: string): JournalPrompt | undefined {
+    return JOURNAL_PROMPTS.find(prompt => prompt.id === promptId);
+  }
+
+  // Pick prompts for the student, at most one per category until every category is used
+  static selectPrompts(context: JournalPromptContext, count: number = 3, now: Date = new Date()): JournalPrompt[] {
+    const available = JOURNAL_PROMPTS.filter(prompt =>
+      !prompt.culturallyAdapted ||
+      (context.culturalBackground && prompt.culturalBackgrounds?.includes(context.culturalBackground))
+    );
+
+    const ranked = available
+      .map(prompt => ({ prompt, score: this.scorePrompt(prompt, context, now) }))
+      .sort((a, b) => b.score - a.score);
+
+    const selected: JournalPrompt[] = [];
+    const usedCategories = new Set<JournalPromptCategory>();
+
+    for (const { prompt } of ranked) {
+      if (selected.length >= count) break;
+      if (usedCategories.has(prompt.category)) continue;
+      selected.push(prompt);
+      usedCategories.add(prompt.category);
+    }
+
+    // Fewer categories than requested prompts: fill with the best remaining ones
+    for (const { prompt } of ranked) {
+      if (selected.length >= count) break;
+      if (!selected.includes(prompt)) selected.push(prompt);
+    }
+
+    return selected;
+  }
+
+  static scorePrompt(prompt: JournalPrompt, context: JournalPromptContext, now: Date = new Date()): number {
+    const recentMood = this.getRecentMood(context);
+    const direction = this.getMoodDirection(context);
+    const streakDays = context.stats?.streakDays || 0;
+    const commonEmotions = context.stats?.mostCommonEmotions || [];
+    let score = 0;
+
+    // Mood: prompts written for the student's current mood
+    if (recentMood && prompt.targetMoods?.includes(recentMood)) score += 3;
+
+    // Emotions the student reports most often
+    const emotionMatches = (prompt.targetEmotions || []).filter(emotion => commonEmotions.includes(emotion)).length;
+    score += Math.min(emotionMatches, 2) * 2;
+
+    // Category fit for the current mood and its direction
+    const moodValue = recentMood ? MOOD_VALUES[recentMood] : null;
+    if (moodValue !== null && moodValue <= 3) {
+      if (prompt.category === 'challenges') score += 2;
+      if (prompt.category === 'gratitude' || prompt.category === 'reflection') score += 1;
+      if (prompt.category === 'goals') score -= 1;
+    } else if (moodValue !== null && moodValue >= 7) {
+      if (prompt.category === 'goals') score += 2;
+      if (prompt.category === 'gratitude' || prompt.category === 'growth') score += 1;
+    }
+    if (direction === 'declining' && (prompt.category === 'challenges' || prompt.category === 'reflection')) score += 1;
+    if (direction === 'improving' && prompt.category === 'growth') score += 2;
+
+    // Streak: easy reflection prompts to restart, deeper prompts once the habit is established
+    if (streakDays === 0 && prompt.category === 'reflection') score += 1;
+    if (streakDays >= ESTABLISHED_STREAK_DAYS && (prompt.category === 'growth' || prompt.category === 'goals')) score += 1;
+
+    // Prompts written for the student's background
+    if (prompt.culturallyAdapted) score += 3;
+
+    if (context.recentPromptIds?.includes(prompt.id)) score -= 5;
+
+    // Stable daily rotation between prompts with equal scores
+    return score + this.dailyJitter(prompt.id, now);
+  }
+
+  // Record that an entry was written from a prompt (keyed by the entry id). Merged, because the
+  // entry's analysis may already have stored its sentiment score
+  static async recordUsage(
+    entryId: string,
+    studentId: string,
+    promptId: string,
+    entry: { wordCount: number; mood: MoodLevel }
+  ): Promise<void> {
+    const prompt = this.getPrompt(promptId);
+    if (!prompt) return;
+
+    try {
+      const usage: Omit<JournalPromptUsage, 'id'> = {
+        promptId,
+        studentId,
+        category: prompt.category,
+        culturallyAdapted: Boolean(prompt.culturallyAdapted),
+        wordCount: entry.wordCount,
+        moodValue: MOOD_VALUES[entry.mood],
+        createdAt: new Date()
+      };
+
+      await setDoc(doc(db, PROMPT_USAGE_COLLECTION, entryId), usage, { merge: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to record prompt usage: ' + errorMessage);
+    }
+  }
+
+  // Add the AI sentiment score once the entry has been analysed (this can finish before recordUsage)
+  static async recordSentiment(entryId: string, studentId: string, sentimentScore: number, database: Firestore = db): Promise<void> {
+    try {
+      await setDoc(doc(database, PROMPT_USAGE_COLLECTION, entryId), { studentId, sentimentScore }, { merge: true });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to record prompt sentiment: ' + errorMessage);
+    }
+  }
+
+  static async removeUsage(entryId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, PROMPT_USAGE_COLLECTION, entryId));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to remove prompt usage: ' + errorMessage);
+    }
+  }
+
+  // Per-prompt averages compared with the average across all prompted entries
+  static async getPromptEffectiveness(): Promise<JournalPromptEffectiveness[]> {
+    try {
+      const snapshot = await getDocs(collection(db, PROMPT_USAGE_COLLECTION));
+      // A record holding only a sentiment score means the usage itself was never recorded
+      const usages = snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as JournalPromptUsage))
+        .filter(usage => usage.promptId);
+      if (usages.length === 0) return [];
+
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      const overallWordCount = average(usages.map(usage => usage.wordCount));
+      const overallMood = average(usages.map(usage => usage.moodValue));
+
+      const byPrompt: Record<string, JournalPromptUsage[]> = {};
+      usages.forEach(usage => {
+        (byPrompt[usage.promptId] = byPrompt[usage.promptId] || []).push(usage);
+      });
+
+      return Object.entries(byPrompt)
+        .map(([promptId, promptUsages]) => {
+          const prompt = this.getPrompt(promptId);
+          const sentiments = promptUsages
+            .map(usage => usage.sentimentScore)
+            .filter((score): score is number => typeof score === 'number');
+          const averageWordCount = average(promptUsages.map(usage => usage.wordCount));
+          const averageMoodValue = average(promptUsages.map(usage => usage.moodValue));
+
+          return {
+            promptId,
+            text: prompt?.text || promptId,
+            category: prompt?.category || promptUsages[0].category,
+            uses: promptUsages.length,
+            averageWordCount: Math.round(averageWordCount),
+            averageMoodValue: round(averageMoodValue),
+            ...(sentiments.length > 0 && { averageSentiment: round(average(sentiments)) }),
+            wordCountLift: Math.round(averageWordCount - overallWordCount),
+            moodLift: round(averageMoodValue - overallMood)
+          };
+        })
+        .sort((a, b) => b.uses - a.uses);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to get prompt effectiveness: ' + errorMessage);
+    }
+  }
+
+  // Mood level closest to the average of recent days with entries
+  private static getRecentMood(context: JournalPromptContext): MoodLevel | null {
+    const recent = context.moodTrends.filter(trend => trend.hasEntry).slice(-RECENT_MOOD_DAYS);
+    if (recent.length === 0) return null;
+
+    const averageValue = recent.reduce((sum, trend) => sum + trend.moodValue, 0) / recent.length;
+    return (Object.keys(MOOD_VALUES) as MoodLevel[]).reduce((closest, level) =>
+      Math.abs(MOOD_VALUES[level] - averageValue) < Math.abs(MOOD_VALUES[closest] - averageValue) ? level : closest
+    );
+  }
+
+  // Compare the latest three days with entries against the three before them
+  private static getMoodDirection(context: JournalPromptContext): MoodDirection {
+    const values = context.moodTrends.filter(trend => trend.hasEntry).map(trend => trend.moodValue);
+    if (values.length < 4) return 'steady';
+
+    const latest = values.slice(-3);
+    const previous = values.slice(-6, -3);
+    const difference = latest.reduce((a, b) => a + b, 0) / latest.length - previous.reduce((a, b) => a + b, 0) / previous.length;
+
+    if (difference >= 1) return 'improving';
+    if (difference <= -1) return 'declining';
+    return 'steady';
+  }
+
+  // Small deterministic value in [0, 0.5) that changes daily
+  private static dailyJitter(promptId: string, now: Date): number {
+    const seed = `${promptId}:${now.toDateString()}`;
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+      hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+    }
+    return (hash % 1000) / 2000;
+  }
+}
@@ -0,0 +1,240 @@
+// Full-text search over a student's journal entries.
+// Entries are tokenized into a local inverted index (title, content, trigger and tags, weighted by field)
+// that stays in memory for the session; JournalService invalidates it whenever entries change.
+import {
+  JournalEntry,
+  JournalFilter,
+  JournalPagination,
+  JournalSearchIndex,
+  JournalSearchPage,
+  MOOD_VALUES
+} from '../types';
+
+// Hits in short, descriptive fields count for more than hits in the body
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 3,
+  trigger: 2,
+  content: 1
+};
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const SNIPPET_RADIUS = 60;
+
+// Splits on anything that isn't a letter, digit or apostrophe in any script
+// (built at runtime because the compile target predates Unicode property escapes)
+const TOKEN_SEPARATOR = new RegExp('[^\\p{L}\\p{N}\']+', 'u');
+
+export const DEFAULT_JOURNAL_PAGE_SIZE = 10;
+
+// One index per student, rebuilt lazily after invalidation
+const indexCache = new Map<string, JournalSearchIndex>();
+
+export class JournalSearchService {
+  static buildIndex(entries: JournalEntry[]): JournalSearchIndex {
+    const index: JournalSearchIndex = {
+      entries: new Map(),
+      postings: new Map(),
+      tagCounts: {},
+      builtAt: new Date()
+    };
+
+    entries.forEach(entry => {
+      index.entries.set(entry.id, entry);
+
+      const fields: [string, number][] = [
+        [entry.title || '', FIELD_WEIGHTS.title],
+        [(entry.tags || []).join(' '), FIELD_WEIGHTS.tags],
+        [entry.trigger || '', FIELD_WEIGHTS.trigger],
+        [entry.content, FIELD_WEIGHTS.content]
+      ];
+
+      fields.forEach(([text, weight]) => {
+        this.tokenize(text).forEach(token => {
+          const posting = index.postings.get(token) || new Map<string, number>();
+          posting.set(entry.id, (posting.get(entry.id) || 0) + weight);
+          index.postings.set(token, posting);
+        });
+      });
+
+      (entry.tags || []).forEach(tag => {
+        index.tagCounts[tag] = (index.tagCounts[tag] || 0) + 1;
+      });
+    });
+
+    return index;
+  }
+
+  static getCachedIndex(studentId: string): JournalSearchIndex | undefined {
+    return indexCache.get(studentId);
+  }
+
+  static cacheIndex(studentId: string, entries: JournalEntry[]): JournalSearchIndex {
+    const index = this.buildIndex(entries);
+    indexCache.set(studentId, index);
+    return index;
+  }
+
+  // Drop a student's index (or every index when the student is unknown)
+  static invalidate(studentId?: string): void {
+    if (studentId) {
+      indexCache.delete(studentId);
+    } else {
+      indexCache.clear();
+    }
+  }
+
+  // All entries matching the filter, sorted
+  static query(index: JournalSearchIndex, filter: JournalFilter): JournalEntry[] {
+    const scores = filter.searchTerm?.trim() ? this.scoreTerms(index, filter.searchTerm) : null;
+    const candidates = scores
+      ? Array.from(scores.keys()).map(id => index.entries.get(id) as JournalEntry)
+      : Array.from(index.entries.values());
+
+    const filtered = candidates.filter(entry => this.matchesFilter(entry, filter));
+    return this.sortEntries(filtered, filter, scores);
+  }
+
+  // One page of matching entries
+  static search(
+    index: JournalSearchIndex,
+    filter: JournalFilter,
+    pagination: JournalPagination = { page: 1, pageSize: DEFAULT_JOURNAL_PAGE_SIZE }
+  ): JournalSearchPage {
+    const results = this.query(index, filter);
+    const page = Math.max(1, pagination.page);
+    const start = (page - 1) * pagination.pageSize;
+
+    return {
+      entries: results.slice(start, start + pagination.pageSize),
+      total: results.length,
+      page,
+      pageSize: pagination.pageSize,
+      hasMore: start + pagination.pageSize < results.length
+    };
+  }
+
+  // Non-text filters shared with JournalService.getEntries
+  static matchesFilter(entry: JournalEntry, filter: JournalFilter): boolean {
+    if (filter.startDate && entry.timestamp < filter.startDate) return false;
+    if (filter.endDate && entry.timestamp > filter.endDate) return false;
+    if (filter.moods && filter.moods.length > 0 && !filter.moods.includes(entry.mood)) return false;
+    if (filter.emotions && filter.emotions.length > 0 &&
+      !entry.emotionTags.some(emotion => filter.emotions!.includes(emotion))) return false;
+    if (filter.tags && filter.tags.length > 0 &&
+      !filter.tags.every(tag => (entry.tags || []).includes(tag))) return false;
+    if (!filter.includePrivate && entry.isPrivate) return false;
+    return true;
+  }
+
+  // Whether the entry contains every search term (used without an index)
+  static matchesText(entry: JournalEntry, searchTerm: string): boolean {
+    const terms = this.tokenize(searchTerm);
+    if (terms.length === 0) return true;
+
+    const tokens = this.tokenize([entry.title, entry.content, entry.trigger, ...(entry.tags || [])].join(' '));
+    return terms.every(term => tokens.some(token => token.startsWith(term)));
+  }
+
+  // Tags across the index, most used first
+  static getTags(index: JournalSearchIndex): string[] {
+    return Object.keys(index.tagCounts).sort((a, b) => index.tagCounts[b] - index.tagCounts[a] || a.localeCompare(b));
+  }
+
+  static normalizeTags(tags: string[]): string[] {
+    const normalized = tags
+      .map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH))
+      .filter(tag => tag.length > 0);
+    return Array.from(new Set(normalized)).slice(0, MAX_TAGS);
+  }
+
+  // Excerpt around the first search term in the text, or the start of the text
+  static getSnippet(text: string, searchTerm: string, maxLength: number = 150): string {
+    const terms = this.tokenize(searchTerm);
+    const lower = text.toLowerCase();
+    const position = terms
+      .map(term => lower.indexOf(term))
+      .filter(found => found >= 0)
+      .sort((a, b) => a - b)[0];
+
+    if (position === undefined || position < SNIPPET_RADIUS) {
+      return text.length <= maxLength ? text : text.substr(0, maxLength) + '...';
+    }
+
+    const start = position - SNIPPET_RADIUS;
+    const snippet = text.substr(start, maxLength);
+    return '...' + snippet + (start + maxLength < text.length ? '...' : '');
+  }
+
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(TOKEN_SEPARATOR)
+      .map(token => token.replace(/^'+|'+$/g, ''))
+      .filter(token => token.length >= MIN_TOKEN_LENGTH);
+  }
+
+  // Relevance per entry id; every term must match some token (prefix match, so "stress" finds "stressed")
+  private static scoreTerms(index: JournalSearchIndex, searchTerm: string): Map<string, number> {
+    const terms = Array.from(new Set(this.tokenize(searchTerm)));
+    if (terms.length === 0) {
+      return new Map(Array.from(index.entries.keys()).map(id => [id, 0]));
+    }
+
+    let scores: Map<string, number> | null = null;
+
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+      index.postings.forEach((posting, token) => {
+        if (!token.startsWith(term)) return;
+        // Exact token matches rank above prefix matches
+        const multiplier = token === term ? 2 : 1;
+        posting.forEach((weight, entryId) => {
+          termScores.set(entryId, (termScores.get(entryId) || 0) + weight * multiplier);
+        });
+      });
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const previous: Map<string, number> = scores;
+        scores = new Map(
+          Array.from(termScores.entries())
+            .filter(([entryId]) => previous.has(entryId))
+            .map(([entryId, score]) => [entryId, score + (previous.get(entryId) as number)])
+        );
+      }
+
+      if (scores.size === 0) break;
+    }
+
+    return scores || new Map();
+  }
+
+  private static sortEntries(
+    entries: JournalEntry[],
+    filter: JournalFilter,
+    scores: Map<string, number> | null
+  ): JournalEntry[] {
+    const direction = filter.sortOrder === 'asc' ? 1 : -1;
+    const byDate = (a: JournalEntry, b: JournalEntry) => (a.timestamp.getTime() - b.timestamp.getTime()) * direction;
+
+    return [...entries].sort((a, b) => {
+      if (filter.sortBy === 'relevance' && scores) {
+        // Highest score first regardless of order; newest first on ties
+        const difference = (scores.get(b.id) || 0) - (scores.get(a.id) || 0);
+        return difference !== 0 ? difference : b.timestamp.getTime() - a.timestamp.getTime();
+      }
+      if (filter.sortBy === 'mood') {
+        const difference = (MOOD_VALUES[a.mood] - MOOD_VALUES[b.mood]) * direction;
+        return difference !== 0 ? difference : byDate(a, b);
+      }
+      if (filter.sortBy === 'title') {
+        return (a.title || '').localeCompare(b.title || '') * direction;
+      }
+      return byDate(a, b);
+    });
+  }
+}
@@ -2,7 +2,6 @@ import {
   collection, 
   addDoc, 
   updateDoc,
-  deleteDoc,
   doc, 
   getDocs, 
   query, 
@@ -10,15 +9,30 @@ import {
   orderBy, 
   limit,
   startAfter,
-  Timestamp 
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  writeBatch,
+  Timestamp,
+  DocumentData
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { JournalContextService } from './journalContextService';
+import { JournalAnalysisService } from './journalAnalysisService';
+import { JournalPromptService } from './journalPromptService';
+import { JournalNoteService } from './journalNoteService';
+import { JournalSearchService } from './journalSearchService';
+import { JournalEncryptionService } from './journalEncryptionService';
 import { 
   JournalEntry, 
   JournalDraft, 
   JournalStats, 
   MoodTrend, 
   JournalFilter,
+  JournalPagination,
+  JournalSearchPage,
+  JournalEncryptedFields,
+  JournalImportResult,
   MoodLevel,
   EmotionCategory,
   MOOD_VALUES 
@@ -26,70 +40,28 @@ import {
 
 export class JournalService {
   private static readonly COLLECTION_NAME = 'journal_entries';
+  private static readonly IMPORT_BATCH_SIZE = 400; // Below Firestore's 500 writes per batch
 
-  // Create a new journal entry
-  static async createEntry(studentId: string, draft: JournalDraft): Promise<string> {
+  // Create a new journal entry (writtenAt keeps the original date of entries written offline)
+  static async createEntry(studentId: string, draft: JournalDraft, writtenAt?: Date): Promise<string> {
     console.log('JournalService.createEntry called with:', { studentId, draft });
     
     try {
-      const timeOfDay = this.getTimeOfDay();
-      const wordCount = draft.content.split(/\s+/).filter(word => word.length > 0).length;
-      const estimatedReadTime = Math.max(1, Math.ceil(wordCount / 200)); // ~200 words per minute
+      const { firestoreData, wordCount } = await this.buildNewEntryData(studentId, draft, writtenAt);
 
-      const entry: Omit<JournalEntry, 'id'> = {
-        studentId,
-        content: draft.content,
-        title: draft.title || `Journal Entry - ${new Date().toLocaleDateString()}`,
-        mood: draft.mood,
-        emotionTags: draft.emotionTags,
-        intensityLevel: draft.intensityLevel,
-        timeOfDay,
-        isPrivate: draft.isPrivate,
-        sharedWithCounselors: false,
-        anonymousSharing: false,
-        timestamp: new Date(),
-        lastModified: new Date(),
-        wordCount,
-        estimatedReadTime,
-        followUpEntries: [],
-        counselorNotes: []
-      };
-
-      // Add optional fields only if they have values
-      if (draft.trigger) {
-        (entry as JournalEntry).trigger = draft.trigger;
-      }
+      const docRef = await addDoc(collection(db, this.COLLECTION_NAME), firestoreData);
+      JournalSearchService.invalidate(studentId);
 
-      console.log('Attempting to save journal entry:', entry);
-
-      // Create the data object for Firestore, filtering out undefined values
-      const firestoreData: Partial<JournalEntry> = {
-        studentId: entry.studentId,
-        content: entry.content,
-        title: entry.title,
-        mood: entry.mood,
-        emotionTags: entry.emotionTags,
-        intensityLevel: entry.intensityLevel,
-        timeOfDay: entry.timeOfDay,
-        isPrivate: entry.isPrivate,
-        sharedWithCounselors: entry.sharedWithCounselors,
-        anonymousSharing: entry.anonymousSharing,
-        timestamp: Timestamp.fromDate(entry.timestamp),
-        lastModified: Timestamp.fromDate(entry.lastModified),
-        wordCount: entry.wordCount,
-        estimatedReadTime: entry.estimatedReadTime,
-        followUpEntries: entry.followUpEntries,
-        counselorNotes: entry.counselorNotes
-      };
+      console.log('Journal entry saved successfully with ID:', docRef.id);
 
-      // Add optional fields only if they exist
-      if (draft.trigger) {
-        firestoreData.trigger = draft.trigger;
+      if (draft.promptId) {
+        JournalPromptService.recordUsage(docRef.id, studentId, draft.promptId, { wordCount, mood: draft.mood }).catch(console.error);
       }
 
-      const docRef = await addDoc(collection(db, this.COLLECTION_NAME), firestoreData);
-
-      console.log('Journal entry saved successfully with ID:', docRef.id);
+      // Opt-in analysis runs in the background so saving is never blocked on the model
+      if (JournalAnalysisService.canAnalyze(draft)) {
+        JournalAnalysisService.analyzeEntry(docRef.id).catch(console.error);
+      }
       return docRef.id;
     } catch (error: Error | unknown) {
       console.error('Failed to create journal entry:', error);
@@ -102,34 +74,114 @@ export class JournalService {
     }
   }
 
+  // Bulk-create imported entries in batched writes. Imports restore past writing, so unlike createEntry
+  // they don't run AI analysis (and with it risk escalation) or record prompt usage.
+  static async importEntries(
+    studentId: string,
+    entries: { draft: JournalDraft; writtenAt?: Date }[]
+  ): Promise<JournalImportResult> {
+    let imported = 0;
+    let failed = 0;
+
+    for (let start = 0; start < entries.length; start += this.IMPORT_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      let batchSize = 0;
+      for (const { draft, writtenAt } of entries.slice(start, start + this.IMPORT_BATCH_SIZE)) {
+        try {
+          const { firestoreData } = await this.buildNewEntryData(studentId, draft, writtenAt);
+          batch.set(doc(collection(db, this.COLLECTION_NAME)), firestoreData);
+          batchSize++;
+        } catch (error) {
+          console.error('Failed to prepare imported journal entry:', error);
+          failed++;
+        }
+      }
+
+      try {
+        await batch.commit();
+        imported += batchSize;
+      } catch (error) {
+        console.error('Failed to import journal entries:', error);
+        failed += batchSize;
+      }
+    }
+
+    JournalSearchService.invalidate(studentId);
+    return { imported, failed };
+  }
+
   // Update an existing journal entry
   static async updateEntry(entryId: string, updates: Partial<JournalDraft>): Promise<void> {
     try {
-      const updateData: Partial<JournalEntry> = { ...updates };
+      const { encrypt, ...draftUpdates } = updates;
+      const updateData: Partial<JournalEntry> = { ...draftUpdates };
 
       if (updates.content) {
         const wordCount = updates.content.split(/\s+/).filter(word => word.length > 0).length;
         updateData.wordCount = wordCount;
         updateData.estimatedReadTime = Math.max(1, Math.ceil(wordCount / 200));
       }
+      if (updates.tags) {
+        updateData.tags = JournalSearchService.normalizeTags(updates.tags);
+      }
 
       // Use a separate object for Firestore to avoid assigning Timestamp to a Date-typed field
-      const firestoreUpdateData = {
+      let firestoreUpdateData: DocumentData = {
         ...updateData,
         lastModified: Timestamp.fromDate(new Date())
       };
 
+      // Encrypted entries stay encrypted unless the student turns encryption off or makes the entry shareable;
+      // an entry shared with counselors has to be unshared before it can be encrypted
+      const existing = await this.getEntry(entryId);
+      if (!existing) throw new Error('Entry not found');
+      const shouldEncrypt = Boolean(encrypt ?? existing.isEncrypted) && (updates.isPrivate ?? existing.isPrivate);
+      if (shouldEncrypt && existing.sharedWithCounselors) {
+        throw new Error('Stop sharing this entry with counselors before encrypting it');
+      }
+      if (shouldEncrypt || existing.isEncrypted) {
+        firestoreUpdateData = {
+          ...firestoreUpdateData,
+          ...(await this.buildPrivateFields(existing, updateData, shouldEncrypt))
+        };
+      }
+
       await updateDoc(doc(db, this.COLLECTION_NAME, entryId), firestoreUpdateData);
+
+      // Re-analyse with the new content, or drop the analysis once consent no longer allows it
+      const entry = await this.getEntry(entryId);
+      JournalSearchService.invalidate(entry?.studentId);
+      if (entry && JournalAnalysisService.canAnalyze(entry)) {
+        JournalAnalysisService.analyzeEntry(entryId).catch(console.error);
+      } else if (entry?.aiAnalysis) {
+        await JournalAnalysisService.clearAnalysis(entryId);
+      }
     } catch (error: Error | unknown) {
       console.error('Failed to update journal entry:', error);
       throw new Error('Failed to update journal entry: ' + error.message);
     }
   }
 
-  // Delete a journal entry
+  // Delete a journal entry (shared snapshots, counselor notes and prompt usage records are removed too;
+  // counselors' private notes are removed afterwards by the job runner)
   static async deleteEntry(entryId: string): Promise<void> {
     try {
-      await deleteDoc(doc(db, this.COLLECTION_NAME, entryId));
+      const entry = await this.getEntry(entryId);
+      if (entry) {
+        await JournalContextService.revokeEntry(entry.studentId, entryId);
+        await JournalNoteService.deleteNotesForEntry(entryId, entry.studentId);
+        await Promise.all((entry.followUpEntries || []).map(relatedId =>
+          updateDoc(doc(db, this.COLLECTION_NAME, relatedId), { followUpEntries: arrayRemove(entryId) })
+        ));
+        if (entry.promptId) {
+          await JournalPromptService.removeUsage(entryId);
+        }
+      }
+      const batch = writeBatch(db);
+      batch.delete(doc(db, this.COLLECTION_NAME, entryId));
+      if (entry) JournalNoteService.recordDeletedEntry(batch, entryId, entry.studentId);
+      await batch.commit();
+      JournalSearchService.invalidate(entry?.studentId);
     } catch (error: Error | unknown) {
       console.error('Failed to delete journal entry:', error);
       throw new Error('Failed to delete journal entry: ' + error.message);
@@ -178,6 +230,16 @@ export class JournalService {
         );
       }
 
+      // Apply tag and full-text filters
+      if (filters.tags && filters.tags.length > 0) {
+        entries = entries.filter(entry => 
+          filters.tags!.every(tag => (entry.tags || []).includes(tag))
+        );
+      }
+      if (filters.searchTerm) {
+        entries = entries.filter(entry => JournalSearchService.matchesText(entry, filters.searchTerm!));
+      }
+
       // Apply privacy filter
       if (!filters.includePrivate) {
         entries = entries.filter(entry => !entry.isPrivate);
@@ -187,7 +249,7 @@ export class JournalService {
       entries.sort((a, b) => {
         let aValue: number | string, bValue: number | string;
         
-        if (filters.sortBy === 'date') {
+        if (filters.sortBy === 'date' || filters.sortBy === 'relevance') {
           aValue = a.timestamp.getTime();
           bValue = b.timestamp.getTime();
         } else if (filters.sortBy === 'mood') {
@@ -212,6 +274,25 @@ export class JournalService {
     }
   }
 
+  // Search a student's entries through the local index, one page at a time
+  static async searchEntries(
+    studentId: string,
+    filters: JournalFilter,
+    pagination: JournalPagination
+  ): Promise<JournalSearchPage> {
+    try {
+      let index = JournalSearchService.getCachedIndex(studentId);
+      if (!index) {
+        index = JournalSearchService.cacheIndex(studentId, await this.getEntries(studentId));
+      }
+      return JournalSearchService.search(index, filters, pagination);
+    } catch (error: unknown) {
+      console.error('Failed to search journal entries:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to search journal entries: ' + errorMessage);
+    }
+  }
+
   // Get a single journal entry
   static async getEntry(entryId: string): Promise<JournalEntry | null> {
     try {
@@ -331,19 +412,75 @@ export class JournalService {
     }
   }
 
-  // Share entry with counselors
+  // Share entry with counselors; unsharing also revokes snapshots attached to requests and conversations,
+  // sharing an entry whose analysis found risk alerts the student's counselors
   static async shareWithCounselors(entryId: string, share: boolean): Promise<void> {
     try {
+      // Counselors can't hold the student's key, and a decrypted copy could outlive the share,
+      // so encrypted entries are never shared
+      const existing = await this.getEntry(entryId);
+      if (share && existing?.isEncrypted) {
+        throw new Error('Encrypted entries cannot be shared with counselors. Turn off encryption for this entry first.');
+      }
+
       await updateDoc(doc(db, this.COLLECTION_NAME, entryId), {
         sharedWithCounselors: share,
-        lastModified: Timestamp.fromDate(new Date())
+        lastModified: Timestamp.fromDate(new Date()),
+        // Sharing again later alerts counselors afresh
+        ...(!share && { escalatedRiskLevel: deleteField() })
       });
+
+      const entry = await this.getEntry(entryId);
+      if (!entry) return;
+      JournalSearchService.invalidate(entry.studentId);
+
+      if (!share) {
+        await JournalContextService.revokeEntry(entry.studentId, entryId);
+      } else if (entry.aiAnalysis && JournalAnalysisService.hasRisk(entry.aiAnalysis)) {
+        // Risk found before the entry was shared reaches the counselor now
+        await JournalAnalysisService.escalateSharedRisk(entry, entry.aiAnalysis);
+      }
     } catch (error: Error | unknown) {
       console.error('Failed to update sharing status:', error);
       throw new Error('Failed to update sharing status: ' + error.message);
     }
   }
 
+  // Link two of a student's entries as related (stored on both in followUpEntries)
+  static async linkEntries(entryId: string, relatedEntryId: string): Promise<void> {
+    try {
+      if (entryId === relatedEntryId) throw new Error('An entry cannot be linked to itself');
+
+      const [entry, related] = await Promise.all([this.getEntry(entryId), this.getEntry(relatedEntryId)]);
+      if (!entry || !related) throw new Error('Entry not found');
+      if (entry.studentId !== related.studentId) throw new Error('Entries belong to different students');
+
+      await Promise.all([
+        updateDoc(doc(db, this.COLLECTION_NAME, entryId), { followUpEntries: arrayUnion(relatedEntryId) }),
+        updateDoc(doc(db, this.COLLECTION_NAME, relatedEntryId), { followUpEntries: arrayUnion(entryId) })
+      ]);
+      JournalSearchService.invalidate(entry.studentId);
+    } catch (error: unknown) {
+      console.error('Failed to link journal entries:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to link journal entries: ' + errorMessage);
+    }
+  }
+
+  static async unlinkEntries(entryId: string, relatedEntryId: string): Promise<void> {
+    try {
+      await Promise.all([
+        updateDoc(doc(db, this.COLLECTION_NAME, entryId), { followUpEntries: arrayRemove(relatedEntryId) }),
+        updateDoc(doc(db, this.COLLECTION_NAME, relatedEntryId), { followUpEntries: arrayRemove(entryId) })
+      ]);
+      JournalSearchService.invalidate();
+    } catch (error: unknown) {
+      console.error('Failed to unlink journal entries:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to unlink journal entries: ' + errorMessage);
+    }
+  }
+
   // Get shared entries for counselors
   static async getSharedEntries(studentId?: string): Promise<JournalEntry[]> {
     try {
@@ -371,8 +508,140 @@ export class JournalService {
   }
 
   // Helper methods
-  private static getTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
-    const hour = new Date().getHours();
+  // Firestore data for a new entry; encrypted entries keep only mood and metadata in the clear
+  private static async buildNewEntryData(
+    studentId: string,
+    draft: JournalDraft,
+    writtenAt?: Date
+  ): Promise<{ firestoreData: Partial<JournalEntry>; wordCount: number }> {
+    const timestamp = writtenAt || new Date();
+    const timeOfDay = this.getTimeOfDay(timestamp);
+    const wordCount = draft.content.split(/\s+/).filter(word => word.length > 0).length;
+    const estimatedReadTime = Math.max(1, Math.ceil(wordCount / 200)); // ~200 words per minute
+
+    const entry: Omit<JournalEntry, 'id'> = {
+      studentId,
+      content: draft.content,
+      title: draft.title || `Journal Entry - ${timestamp.toLocaleDateString()}`,
+      mood: draft.mood,
+      emotionTags: draft.emotionTags,
+      intensityLevel: draft.intensityLevel,
+      timeOfDay,
+      isPrivate: draft.isPrivate,
+      sharedWithCounselors: false,
+      anonymousSharing: false,
+      timestamp,
+      lastModified: new Date(),
+      wordCount,
+      estimatedReadTime,
+      followUpEntries: [],
+      counselorNotes: []
+    };
+
+    // Add optional fields only if they have values
+    if (draft.trigger) {
+      (entry as JournalEntry).trigger = draft.trigger;
+    }
+
+    console.log('Attempting to save journal entry:', entry);
+
+    // Create the data object for Firestore, filtering out undefined values
+    const firestoreData: Partial<JournalEntry> = {
+      studentId: entry.studentId,
+      content: entry.content,
+      title: entry.title,
+      mood: entry.mood,
+      emotionTags: entry.emotionTags,
+      intensityLevel: entry.intensityLevel,
+      timeOfDay: entry.timeOfDay,
+      isPrivate: entry.isPrivate,
+      sharedWithCounselors: entry.sharedWithCounselors,
+      anonymousSharing: entry.anonymousSharing,
+      timestamp: Timestamp.fromDate(entry.timestamp),
+      lastModified: Timestamp.fromDate(entry.lastModified),
+      wordCount: entry.wordCount,
+      estimatedReadTime: entry.estimatedReadTime,
+      followUpEntries: entry.followUpEntries,
+      counselorNotes: entry.counselorNotes
+    };
+
+    // Add optional fields only if they exist
+    if (draft.trigger) {
+      firestoreData.trigger = draft.trigger;
+    }
+    if (draft.aiAnalysisEnabled !== undefined) {
+      firestoreData.aiAnalysisEnabled = draft.aiAnalysisEnabled;
+    }
+    if (draft.promptId) {
+      firestoreData.promptId = draft.promptId;
+    }
+    if (draft.tags && draft.tags.length > 0) {
+      firestoreData.tags = JournalSearchService.normalizeTags(draft.tags);
+    }
+
+    // Encrypted entries keep only mood and metadata in the clear
+    if (draft.encrypt && draft.isPrivate) {
+      firestoreData.encryptedPayload = await JournalEncryptionService.encryptFields(studentId, {
+        content: draft.content,
+        title: firestoreData.title,
+        ...(firestoreData.trigger && { trigger: firestoreData.trigger }),
+        ...(firestoreData.tags && { tags: firestoreData.tags })
+      });
+      firestoreData.isEncrypted = true;
+      firestoreData.content = '';
+      delete firestoreData.title;
+      delete firestoreData.trigger;
+      delete firestoreData.tags;
+    }
+
+    return { firestoreData, wordCount };
+  }
+
+  // Stored title, content, trigger and tags for an entry, either encrypted into the payload or in the clear.
+  // Fields missing from the update come from the existing entry, which needs the journal unlocked if encrypted.
+  private static async buildPrivateFields(
+    existing: JournalEntry,
+    updates: Partial<JournalEntry>,
+    encrypt: boolean
+  ): Promise<DocumentData> {
+    const current = await JournalEncryptionService.decryptEntry(existing);
+    if (JournalEncryptionService.isLocked(current)) {
+      throw new Error('Unlock your journal to change encrypted entries');
+    }
+
+    const title = 'title' in updates ? updates.title : current.title;
+    const trigger = 'trigger' in updates ? updates.trigger : current.trigger;
+    const tags = 'tags' in updates ? updates.tags : current.tags;
+    const fields: JournalEncryptedFields = {
+      content: updates.content ?? current.content,
+      ...(title && { title }),
+      ...(trigger && { trigger }),
+      ...(tags && tags.length > 0 && { tags })
+    };
+
+    if (encrypt) {
+      return {
+        content: '',
+        title: deleteField(),
+        trigger: deleteField(),
+        tags: deleteField(),
+        isEncrypted: true,
+        encryptedPayload: await JournalEncryptionService.encryptFields(existing.studentId, fields)
+      };
+    }
+
+    return {
+      content: fields.content,
+      title: fields.title ?? deleteField(),
+      trigger: fields.trigger ?? deleteField(),
+      tags: fields.tags ?? deleteField(),
+      isEncrypted: deleteField(),
+      encryptedPayload: deleteField()
+    };
+  }
+
+  static getTimeOfDay(date: Date = new Date()): 'morning' | 'afternoon' | 'evening' | 'night' {
+    const hour = date.getHours();
     if (hour < 6) return 'night';
     if (hour < 12) return 'morning';
     if (hour < 18) return 'afternoon';
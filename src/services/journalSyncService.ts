@@ -0,0 +1,430 @@
+// Offline-first journaling: entries written or edited without a connection go into an outbox in
+// localStorage and are written to Firestore once the browser is back online. Queued edits are
+// resolved against the server copy by lastModified (the later change wins; a losing local edit is
+// kept as a conflict the student can still apply). Editor drafts are autosaved the same way.
+import { JournalService } from './journalService';
+import { JournalEncryptionService } from './journalEncryptionService';
+import {
+  JournalAutosave,
+  JournalDraft,
+  JournalEntry,
+  JournalOutboxOperation,
+  JournalStoredDraft,
+  JournalSyncConflict,
+  JournalSyncStatus
+} from '../types';
+
+const OUTBOX_KEY = 'journal_outbox';
+const CONFLICTS_KEY = 'journal_conflicts';
+const AUTOSAVE_KEY = 'journal_autosave';
+const LOCAL_ID_PREFIX = 'local_';
+// A change that fails this many times stops retrying until the student retries or discards it
+const MAX_SYNC_ATTEMPTS = 5;
+
+type SyncListener = (status: JournalSyncStatus) => void;
+
+// Per-student sync progress for this page; the outbox itself lives in localStorage
+const syncState = new Map<string, { syncing: boolean; lastSyncedAt?: Date; lastError?: string }>();
+const listeners = new Map<string, Set<SyncListener>>();
+
+export class JournalSyncService {
+  static isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  static isLocalId(entryId: string): boolean {
+    return entryId.startsWith(LOCAL_ID_PREFIX);
+  }
+
+  // Save a new entry, or queue it when offline
+  static async createEntry(studentId: string, draft: JournalDraft): Promise<{ entryId: string; queued: boolean }> {
+    if (this.isOnline()) {
+      return { entryId: await JournalService.createEntry(studentId, draft), queued: false };
+    }
+
+    const now = new Date().toISOString();
+    const entryId = this.generateId(LOCAL_ID_PREFIX);
+    this.writeOutbox(studentId, [...this.readOutbox(studentId), {
+      id: this.generateId('op_'),
+      type: 'create',
+      entryId,
+      data: await this.seal(studentId, draft),
+      writtenAt: now,
+      queuedAt: now,
+      attempts: 0
+    }]);
+    this.notify(studentId);
+    return { entryId, queued: true };
+  }
+
+  // Save changes to an entry, or queue them when offline; `entry` is the version editing started from
+  static async updateEntry(studentId: string, entry: JournalEntry, draft: Partial<JournalDraft>): Promise<{ queued: boolean }> {
+    if (this.isOnline() && !this.isLocalId(entry.id)) {
+      await JournalService.updateEntry(entry.id, draft);
+      return { queued: false };
+    }
+
+    const now = new Date().toISOString();
+    const data = await this.seal(studentId, draft);
+    const outbox = this.readOutbox(studentId);
+    const existing = outbox.find(operation => operation.entryId === entry.id);
+
+    if (existing) {
+      // The editor saves whole drafts, so a later edit replaces the queued one (a queued create just creates the newer text)
+      existing.data = data;
+      existing.queuedAt = now;
+      // The new text gets a fresh set of attempts, even if the previous one had failed
+      existing.attempts = 0;
+      delete existing.lastError;
+    } else {
+      outbox.push({
+        id: this.generateId('op_'),
+        type: 'update',
+        entryId: entry.id,
+        data,
+        baseLastModified: entry.lastModified.toISOString(),
+        queuedAt: now,
+        attempts: 0
+      });
+    }
+
+    this.writeOutbox(studentId, outbox);
+    this.notify(studentId);
+    if (this.isOnline()) this.sync(studentId).catch(console.error);
+    return { queued: true };
+  }
+
+  // Write queued changes in order; changes that can't be written yet stay queued, and changes that
+  // have failed too often are left for the student to retry or discard
+  static async sync(studentId: string): Promise<number> {
+    const state = this.getState(studentId);
+    const queued = this.readOutbox(studentId).filter(operation => !this.hasFailed(operation));
+    if (state.syncing || !this.isOnline() || queued.length === 0) return 0;
+
+    state.syncing = true;
+    state.lastError = undefined;
+    this.notify(studentId);
+
+    let applied = 0;
+    try {
+      for (const operation of queued) {
+        try {
+          const draft = await this.unseal(studentId, operation.data);
+          if (!draft) {
+            // Encrypted drafts wait until the journal is unlocked
+            state.lastError = 'Unlock your journal to sync encrypted entries';
+            continue;
+          }
+
+          if (operation.type === 'create') {
+            await JournalService.createEntry(studentId, draft as JournalDraft, new Date(operation.writtenAt || operation.queuedAt));
+          } else {
+            await this.applyUpdate(studentId, operation, draft);
+          }
+
+          this.removeOperation(studentId, operation.id);
+          applied++;
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          console.error(`Failed to sync journal change ${operation.id}:`, error);
+          this.updateOperation(studentId, operation.id, { attempts: operation.attempts + 1, lastError: errorMessage });
+          state.lastError = errorMessage;
+        }
+      }
+      state.lastSyncedAt = new Date();
+    } finally {
+      state.syncing = false;
+      this.notify(studentId);
+    }
+
+    return applied;
+  }
+
+  // Sync now and whenever the connection comes back; returns a cleanup function
+  static start(studentId: string): () => void {
+    const handleOnline = () => {
+      this.notify(studentId);
+      this.sync(studentId).catch(console.error);
+    };
+    const handleOffline = () => this.notify(studentId);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    this.sync(studentId).catch(console.error);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }
+
+  static subscribe(studentId: string, listener: SyncListener): () => void {
+    const studentListeners = listeners.get(studentId) || new Set<SyncListener>();
+    studentListeners.add(listener);
+    listeners.set(studentId, studentListeners);
+    listener(this.getStatus(studentId));
+
+    return () => {
+      studentListeners.delete(listener);
+    };
+  }
+
+  static getStatus(studentId: string): JournalSyncStatus {
+    const state = this.getState(studentId);
+    const outbox = this.readOutbox(studentId);
+    const failedChanges = outbox.filter(operation => this.hasFailed(operation));
+    const pendingCount = outbox.length - failedChanges.length;
+
+    return {
+      state: state.syncing ? 'syncing'
+        : !this.isOnline() ? 'offline'
+        : failedChanges.length > 0 ? 'failed'
+        : state.lastError && pendingCount > 0 ? 'error'
+        : pendingCount > 0 ? 'pending'
+        : 'synced',
+      pendingCount,
+      failedChanges,
+      conflicts: this.readConflicts(studentId),
+      ...(state.lastSyncedAt && { lastSyncedAt: state.lastSyncedAt }),
+      ...(state.lastError && { lastError: state.lastError })
+    };
+  }
+
+  // Loaded entries with queued changes applied, plus entries still waiting to be created
+  static applyPending(studentId: string, entries: JournalEntry[]): JournalEntry[] {
+    const outbox = this.readOutbox(studentId);
+    if (outbox.length === 0) return entries;
+
+    const updated = entries.map(entry => {
+      const operation = outbox.find(queued => queued.type === 'update' && queued.entryId === entry.id);
+      return operation ? this.toPendingEntry(studentId, operation, entry) : entry;
+    });
+    const created = outbox
+      .filter(operation => operation.type === 'create')
+      .map(operation => this.toPendingEntry(studentId, operation));
+
+    return [...created, ...updated].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  // Apply a conflicting local edit anyway (as a new entry if the original was deleted)
+  static async keepLocalVersion(studentId: string, conflictId: string): Promise<void> {
+    const conflict = this.readConflicts(studentId).find(item => item.id === conflictId);
+    if (!conflict) return;
+
+    const now = new Date().toISOString();
+    const operation: JournalOutboxOperation = conflict.reason === 'deleted-on-server'
+      ? { id: this.generateId('op_'), type: 'create', entryId: this.generateId(LOCAL_ID_PREFIX), data: conflict.data, writtenAt: conflict.localModifiedAt, queuedAt: now, attempts: 0 }
+      : { id: this.generateId('op_'), type: 'update', entryId: conflict.entryId, data: conflict.data, queuedAt: now, attempts: 0 };
+
+    this.writeOutbox(studentId, [...this.readOutbox(studentId), operation]);
+    this.discardConflict(studentId, conflictId);
+    await this.sync(studentId);
+  }
+
+  static discardConflict(studentId: string, conflictId: string): void {
+    this.writeStorage(`${CONFLICTS_KEY}:${studentId}`, this.readConflicts(studentId).filter(item => item.id !== conflictId));
+    this.notify(studentId);
+  }
+
+  // Give a change that failed to sync a fresh set of attempts
+  static async retryFailedChange(studentId: string, operationId: string): Promise<void> {
+    this.updateOperation(studentId, operationId, { attempts: 0, lastError: undefined });
+    this.notify(studentId);
+    await this.sync(studentId);
+  }
+
+  // Drop a change that failed to sync; an entry written offline is lost with it
+  static discardFailedChange(studentId: string, operationId: string): void {
+    this.removeOperation(studentId, operationId);
+    this.notify(studentId);
+  }
+
+  // Autosave the editor's draft; key is the entry id, or "new" for an unsaved entry
+  static async autosaveDraft(studentId: string, key: string, draft: JournalDraft): Promise<void> {
+    const autosave: JournalAutosave = { data: await this.seal(studentId, draft), savedAt: new Date().toISOString() };
+    this.writeStorage(`${AUTOSAVE_KEY}:${studentId}:${key}`, autosave);
+  }
+
+  // The autosaved draft, or null when there is none or it is encrypted and the journal is locked
+  static async loadAutosave(studentId: string, key: string): Promise<{ draft: Partial<JournalDraft>; savedAt: Date } | null> {
+    const autosave = this.readStorage<JournalAutosave | null>(`${AUTOSAVE_KEY}:${studentId}:${key}`, null);
+    if (!autosave) return null;
+
+    const draft = await this.unseal(studentId, autosave.data).catch(() => null);
+    return draft ? { draft, savedAt: new Date(autosave.savedAt) } : null;
+  }
+
+  static clearAutosave(studentId: string, key: string): void {
+    this.removeStorage(`${AUTOSAVE_KEY}:${studentId}:${key}`);
+  }
+
+  // Last writer wins: the queued edit is dropped (and kept as a conflict) only if the server copy
+  // changed after editing started and more recently than the local edit
+  private static async applyUpdate(
+    studentId: string,
+    operation: JournalOutboxOperation,
+    draft: Partial<JournalDraft>
+  ): Promise<void> {
+    const current = await JournalService.getEntry(operation.entryId);
+    if (!current) {
+      this.addConflict(studentId, operation, 'deleted-on-server');
+      return;
+    }
+
+    const serverModified = current.lastModified.getTime();
+    const changedSinceEditing = operation.baseLastModified !== undefined &&
+      serverModified > new Date(operation.baseLastModified).getTime();
+    if (changedSinceEditing && serverModified > new Date(operation.queuedAt).getTime()) {
+      this.addConflict(studentId, operation, 'newer-on-server', current.lastModified);
+      return;
+    }
+
+    await JournalService.updateEntry(operation.entryId, draft);
+  }
+
+  private static addConflict(
+    studentId: string,
+    operation: JournalOutboxOperation,
+    reason: JournalSyncConflict['reason'],
+    serverModifiedAt?: Date
+  ): void {
+    const conflict: JournalSyncConflict = {
+      id: operation.id,
+      entryId: operation.entryId,
+      data: operation.data,
+      localModifiedAt: operation.queuedAt,
+      ...(serverModifiedAt && { serverModifiedAt: serverModifiedAt.toISOString() }),
+      reason
+    };
+    this.writeStorage(`${CONFLICTS_KEY}:${studentId}`, [...this.readConflicts(studentId), conflict]);
+  }
+
+  private static toPendingEntry(studentId: string, operation: JournalOutboxOperation, base?: JournalEntry): JournalEntry {
+    // encrypt is a save option, not an entry field
+    const fields = { ...operation.data.draft };
+    delete fields.encrypt;
+    const timestamp = base?.timestamp || new Date(operation.writtenAt || operation.queuedAt);
+    const content = fields.content ?? base?.content ?? '';
+    const wordCount = content.split(/\s+/).filter(word => word.length > 0).length;
+
+    const entry: JournalEntry = {
+      id: operation.entryId,
+      studentId,
+      mood: 'neutral',
+      emotionTags: [],
+      intensityLevel: 5,
+      timeOfDay: JournalService.getTimeOfDay(timestamp),
+      isPrivate: true,
+      sharedWithCounselors: false,
+      anonymousSharing: false,
+      followUpEntries: [],
+      ...base,
+      ...fields,
+      content,
+      timestamp,
+      lastModified: new Date(operation.queuedAt),
+      wordCount: operation.data.sealed ? base?.wordCount ?? 0 : wordCount,
+      estimatedReadTime: Math.max(1, Math.ceil(wordCount / 200)),
+      pendingSync: true
+    };
+
+    // Sealed drafts read like encrypted entries, so they decrypt the same way once the journal is unlocked
+    if (operation.data.sealed) {
+      entry.isEncrypted = true;
+      entry.encryptedPayload = operation.data.sealed;
+      entry.content = '';
+    }
+    return entry;
+  }
+
+  // Drafts marked for encryption never reach localStorage in the clear
+  private static async seal(studentId: string, draft: Partial<JournalDraft>): Promise<JournalStoredDraft> {
+    if (!draft.encrypt || draft.isPrivate === false) return { draft };
+
+    const { content, title, trigger, tags, ...rest } = draft;
+    return {
+      draft: rest,
+      sealed: await JournalEncryptionService.encryptFields(studentId, {
+        content: content || '',
+        ...(title && { title }),
+        ...(trigger && { trigger }),
+        ...(tags && tags.length > 0 && { tags })
+      })
+    };
+  }
+
+  private static async unseal(studentId: string, data: JournalStoredDraft): Promise<Partial<JournalDraft> | null> {
+    if (!data.sealed) return data.draft;
+    if (!JournalEncryptionService.isUnlocked(studentId)) return null;
+    return { ...data.draft, ...(await JournalEncryptionService.decryptFields(studentId, data.sealed)) };
+  }
+
+  private static hasFailed(operation: JournalOutboxOperation): boolean {
+    return operation.attempts >= MAX_SYNC_ATTEMPTS;
+  }
+
+  private static readOutbox(studentId: string): JournalOutboxOperation[] {
+    return this.readStorage<JournalOutboxOperation[]>(`${OUTBOX_KEY}:${studentId}`, []);
+  }
+
+  private static writeOutbox(studentId: string, outbox: JournalOutboxOperation[]): void {
+    this.writeStorage(`${OUTBOX_KEY}:${studentId}`, outbox);
+  }
+
+  private static removeOperation(studentId: string, operationId: string): void {
+    this.writeOutbox(studentId, this.readOutbox(studentId).filter(operation => operation.id !== operationId));
+  }
+
+  private static updateOperation(studentId: string, operationId: string, updates: Partial<JournalOutboxOperation>): void {
+    this.writeOutbox(studentId, this.readOutbox(studentId).map(operation =>
+      operation.id === operationId ? { ...operation, ...updates } : operation
+    ));
+  }
+
+  private static readConflicts(studentId: string): JournalSyncConflict[] {
+    return this.readStorage<JournalSyncConflict[]>(`${CONFLICTS_KEY}:${studentId}`, []);
+  }
+
+  private static getState(studentId: string) {
+    const state = syncState.get(studentId) || { syncing: false };
+    syncState.set(studentId, state);
+    return state;
+  }
+
+  private static notify(studentId: string): void {
+    const status = this.getStatus(studentId);
+    listeners.get(studentId)?.forEach(listener => listener(status));
+  }
+
+  // localStorage can be unavailable (private browsing, server rendering) or full
+  private static readStorage<T>(key: string, fallback: T): T {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+      return stored ? JSON.parse(stored) as T : fallback;
+    } catch (error) {
+      console.error(`Failed to read ${key} from local storage:`, error);
+      return fallback;
+    }
+  }
+
+  private static writeStorage(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to save journal changes on this device: ' + errorMessage);
+    }
+  }
+
+  private static removeStorage(key: string): void {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Failed to remove ${key} from local storage:`, error);
+    }
+  }
+
+  private static generateId(prefix: string): string {
+    return `${prefix}${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
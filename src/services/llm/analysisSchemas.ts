@@ -0,0 +1,166 @@
+// Schemas for the structured output of each AI analysis
+// Each schema covers the part of the stored type the model writes; the explicit Schema<...> annotations
+// keep them in step with the types in types/Feedback.ts, types/CBTTraining.ts, types/SimulatedPatient.ts
+// and conversationOutcomeService.
+import { schema, Schema } from './schema';
+import { AIFeedback, ConversationFeedback, ReplyAnalysis } from '../../types/Feedback';
+import { CBTExerciseFeedback } from '../../types/CBTTraining';
+import { CounselorTurnAssessment } from '../../types/SimulatedPatient';
+import type { ConversationOutcome } from '../conversationOutcomeService';
+
+const score = () => schema.number({ min: 1, max: 10 });
+const percentage = () => schema.number({ min: 0, max: 100 });
+const list = () => schema.array(schema.string());
+
+export type AIFeedbackOutput = Pick<AIFeedback, 'scores' | 'culturalAnalysis' | 'suggestions'>;
+
+export const aiFeedbackSchema: Schema<AIFeedbackOutput> = schema.named('AIFeedback', schema.object({
+  scores: schema.object({
+    culturalSensitivity: score(),
+    culturalAwareness: score(),
+    empathy: score(),
+    professionalism: score(),
+    actionability: score(),
+    questionQuality: score(),
+    languageAppropriate: score(),
+    responseLength: score(),
+    overall: score()
+  }),
+  culturalAnalysis: schema.object({
+    assumptions: list(),
+    biases: list(),
+    strengths: list(),
+    culturalMisses: list(),
+    appropriateReferences: list()
+  }),
+  suggestions: schema.object({
+    strengths: list(),
+    improvements: list(),
+    culturalTips: list(),
+    alternativeApproaches: list(),
+    questionsToAsk: list()
+  })
+}));
+
+export type ConversationFeedbackOutput = Pick<ConversationFeedback, 'overallPerformance' | 'conversationAnalysis' | 'suggestions'> & {
+  replyAssessments?: ReplyAnalysis['assessments'];
+};
+
+export const conversationFeedbackSchema: Schema<ConversationFeedbackOutput> = schema.named('ConversationFeedback', schema.object({
+  overallPerformance: schema.object({
+    conversationFlow: score(),
+    culturalSensitivity: score(),
+    therapeuticProgress: score(),
+    professionalBoundaries: score(),
+    empathy: score(),
+    overallScore: score()
+  }),
+  conversationAnalysis: schema.object({
+    strengths: list(),
+    weaknesses: list(),
+    culturalMisses: list(),
+    goodCulturalMoments: list(),
+    conversationPacing: schema.oneOf(['too-fast', 'appropriate', 'too-slow'] as const),
+    questioningTechnique: list(),
+    responseTiming: schema.string()
+  }),
+  suggestions: schema.object({
+    conversationFlow: list(),
+    culturalCompetency: list(),
+    therapeuticTechnique: list(),
+    specificMoments: schema.array(schema.object({
+      messageNumber: schema.number({ min: 1 }),
+      issue: schema.string(),
+      betterApproach: schema.string()
+    })),
+    positiveReinforcement: schema.array(schema.object({
+      messageNumber: schema.number({ min: 1 }),
+      whatWentWell: schema.string(),
+      whyItWorked: schema.string()
+    }))
+  }),
+  // Only asked for when the conversation has reply threads
+  replyAssessments: schema.optional(schema.array(schema.object({
+    replyMessageNumber: schema.number({ min: 1 }),
+    targetMessageNumber: schema.number({ min: 1 }),
+    addressedTarget: schema.boolean(),
+    note: schema.string()
+  })))
+}));
+
+export type CBTExerciseFeedbackOutput = Omit<CBTExerciseFeedback, 'analysisVersion'>;
+
+export const cbtExerciseFeedbackSchema: Schema<CBTExerciseFeedbackOutput> = schema.named('CBTExerciseFeedback', schema.object({
+  overallScore: score(),
+  techniqueScore: score(),
+  empathyScore: score(),
+  strengths: list(),
+  improvements: list(),
+  modelResponse: schema.string()
+}));
+
+export type ConversationOutcomeOutput = Omit<ConversationOutcome, 'conversationId' | 'counselorId' | 'studentId' | 'analyzedAt' | 'analysisVersion'>;
+
+const phase = () => schema.object({ duration: percentage(), effectiveness: score() });
+
+export const conversationOutcomeSchema: Schema<ConversationOutcomeOutput> = schema.named('ConversationOutcome', schema.object({
+  overallEffectiveness: score(),
+  studentSatisfactionEstimate: score(),
+  culturalSensitivityScore: score(),
+  emotionalProgression: schema.array(schema.object({
+    timepoint: percentage(),
+    emotionalState: schema.object({
+      distress: score(),
+      hope: score(),
+      engagement: score(),
+      trust: score(),
+      empowerment: score()
+    }),
+    keyIndicators: list(),
+    significantQuotes: list()
+  })),
+  startingState: schema.object({
+    primaryConcerns: list(),
+    emotionalIntensity: score(),
+    culturalFactors: list()
+  }),
+  endingState: schema.object({
+    resolutionLevel: score(),
+    empowermentLevel: score(),
+    likelyToReturn: schema.boolean(),
+    actionItemsIdentified: list()
+  }),
+  counselorPerformance: schema.object({
+    empathyConsistency: score(),
+    culturalAdaptation: score(),
+    activeListening: score(),
+    questionQuality: score(),
+    appropriateBoundaries: score(),
+    solutionOrientation: score()
+  }),
+  whatWorkedWell: list(),
+  areasForImprovement: list(),
+  culturalConsiderations: list(),
+  recommendedFollowUp: list(),
+  conversationPhases: schema.object({
+    buildingRapport: phase(),
+    problemExploration: phase(),
+    interventionDelivery: phase(),
+    resolutionPlanning: phase()
+  }),
+  concerns: schema.object({
+    missedOpportunities: list(),
+    potentialMisunderstandings: list(),
+    culturalInsensitivities: list(),
+    riskFactors: list()
+  })
+}));
+
+export const counselorTurnAssessmentSchema: Schema<CounselorTurnAssessment> = schema.named('CounselorTurnAssessment', schema.object({
+  empathy: score(),
+  validation: score(),
+  culturalAttunement: score(),
+  triggeredTopics: list(),
+  culturalReferences: list(),
+  tone: schema.string()
+}));
@@ -0,0 +1,111 @@
+// Shared behaviour for LLM provider adapters
+import {
+  Language,
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMJSONCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMSpeechRequest,
+  LLMSpeechResult,
+  LLMTokenHandler,
+  LLMTranslationRequest,
+  ValidationFailureDetails
+} from '../../types';
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Spanish'
+};
+
+// Thrown when a JSON completion cannot be parsed; keeps the raw text for logging
+export class LLMResponseParseError extends Error {
+  constructor(message: string, public readonly raw: string) {
+    super(message);
+    this.name = 'LLMResponseParseError';
+  }
+}
+
+// Thrown when JSON output still does not match its schema after the repair attempts
+export class LLMSchemaValidationError extends LLMResponseParseError {
+  constructor(message: string, raw: string, public readonly details: ValidationFailureDetails) {
+    super(message, raw);
+    this.name = 'LLMSchemaValidationError';
+  }
+}
+
+// Strip markdown code fences and any surrounding prose, then parse the JSON object
+export function parseJSONContent<T = unknown>(content: string): T {
+  let cleanedText = content.trim();
+
+  if (cleanedText.startsWith('```json')) {
+    cleanedText = cleanedText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanedText.startsWith('```')) {
+    cleanedText = cleanedText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  if (cleanedText.includes('```')) {
+    cleanedText = cleanedText.split('```')[0];
+  }
+
+  const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new LLMResponseParseError('No JSON object found in response', content);
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new LLMResponseParseError('Invalid JSON in response: ' + errorMessage, content);
+  }
+}
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  abstract complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion>;
+
+  abstract synthesizeSpeech(request: LLMSpeechRequest, options: LLMCompletionOptions): Promise<LLMSpeechResult>;
+
+  async completeJSON<T = unknown>(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMJSONCompletion<T>> {
+    const completion = await this.complete(messages, options);
+    return {
+      ...completion,
+      data: parseJSONContent<T>(completion.content)
+    };
+  }
+
+  // Adapters without native streaming deliver the whole completion as a single delta
+  async streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: LLMTokenHandler,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(messages, options);
+    signal?.throwIfAborted();
+    onToken(completion.content);
+    return completion;
+  }
+
+  async translate(request: LLMTranslationRequest, options: LLMCompletionOptions): Promise<LLMCompletion> {
+    const targetName = LANGUAGE_NAMES[request.targetLanguage];
+    const sourceLanguage = request.sourceLanguage || 'auto';
+
+    const systemPrompt = sourceLanguage === 'auto'
+      ? `You are a professional translator. Translate the given text to ${targetName}. Maintain the tone, emotion, and cultural nuances. Only respond with the ${targetName} translation, nothing else.`
+      : `You are a professional translator. Translate the given ${LANGUAGE_NAMES[sourceLanguage]} text to ${targetName}. Maintain the tone, emotion, and cultural nuances. Only respond with the ${targetName} translation, nothing else.`;
+
+    const completion = await this.complete(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: request.text }
+      ],
+      options
+    );
+
+    return { ...completion, content: completion.content.trim() };
+  }
+}
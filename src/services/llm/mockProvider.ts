@@ -0,0 +1,125 @@
+// Deterministic scripted provider for running the app offline
+import {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMFeature,
+  LLMMessage,
+  LLMProviderName,
+  LLMSpeechResult,
+  LLMTokenHandler,
+  LLMTranslationRequest
+} from '../../types';
+import { MOCK_MODEL } from '../../config/llm';
+import { BaseLLMProvider } from './baseProvider';
+import { DEFAULT_MOCK_SCRIPTS } from './mockScripts';
+
+// Rough token estimate so usage metadata looks realistic
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Pause between streamed words so the UI renders them progressively
+const STREAM_DELAY_MS = 30;
+
+export class MockProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = 'mock';
+  private scripts: Partial<Record<LLMFeature, string[]>>;
+  private turns: Partial<Record<LLMFeature, number>> = {};
+
+  constructor(scripts: Partial<Record<LLMFeature, string[]>> = DEFAULT_MOCK_SCRIPTS) {
+    super();
+    this.scripts = { ...scripts };
+  }
+
+  // Replace the scripted responses for a feature and restart its sequence
+  script(feature: LLMFeature, responses: string[]): void {
+    this.scripts[feature] = responses;
+    this.turns[feature] = 0;
+  }
+
+  reset(): void {
+    this.turns = {};
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion> {
+    const responses = this.scripts[options.feature];
+    if (!responses || responses.length === 0) {
+      throw new Error(`No mock script registered for feature "${options.feature}"`);
+    }
+
+    // Cycle through the script in order so repeated runs produce the same conversation
+    const turn = this.turns[options.feature] || 0;
+    this.turns[options.feature] = turn + 1;
+    const content = responses[turn % responses.length];
+
+    const promptTokens = messages.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: MOCK_MODEL,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  // Stream the scripted response word by word
+  async streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: LLMTokenHandler,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(messages, options);
+    const words = completion.content.match(/\s*\S+\s*/g) || [];
+
+    for (const word of words) {
+      signal?.throwIfAborted();
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      onToken(word);
+    }
+
+    return completion;
+  }
+
+  // Echo the text tagged with the target language instead of translating
+  async translate(request: LLMTranslationRequest, options: LLMCompletionOptions): Promise<LLMCompletion> {
+    if (this.scripts[options.feature]) {
+      return super.translate(request, options);
+    }
+
+    return {
+      content: `[${request.targetLanguage}] ${request.text}`,
+      model: MOCK_MODEL
+    };
+  }
+
+  // Half a second of silence as a valid 16-bit mono WAV file
+  async synthesizeSpeech(): Promise<LLMSpeechResult> {
+    const sampleRate = 8000;
+    const sampleCount = sampleRate / 2;
+    const buffer = new ArrayBuffer(44 + sampleCount * 2);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + sampleCount * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, sampleCount * 2, true);
+
+    return { audio: buffer, contentType: 'audio/wav' };
+  }
+}
@@ -0,0 +1,152 @@
+// Default scripted responses for the offline mock provider
+import { LLMFeature } from '../../types';
+
+export const DEFAULT_MOCK_SCRIPTS: Record<Exclude<LLMFeature, 'speech' | 'translation'>, string[]> = {
+  'chat': [
+    "Thank you for sharing that with me. It sounds like you have a lot on your mind right now. What feels heaviest for you today?",
+    "That makes a lot of sense given everything you are juggling. You don't have to figure it all out at once. What is one small thing that might help this week?",
+    "I hear how much effort you are putting in. It is okay to ask for support when things feel overwhelming. Would it help to talk through what support looks like for you?"
+  ],
+  'patient-simulation': [
+    "I'm not really sure where to start. Things have just been a lot lately.",
+    "I guess it's mostly school, but my family expects a lot from me too.",
+    "It helps to say it out loud, I think. I haven't really talked to anyone about this."
+  ],
+  'patient-turn-assessment': [JSON.stringify({
+    empathy: 7,
+    validation: 6,
+    culturalAttunement: 5,
+    triggeredTopics: [],
+    culturalReferences: [],
+    tone: 'warm'
+  })],
+  'conversation-title': ['Support Conversation'],
+  'crisis-detection': [JSON.stringify({
+    riskLevel: 'low',
+    rationale: 'The message describes distress but no suicidal ideation, self-harm or danger to others.'
+  })],
+  'journal-analysis': [JSON.stringify({
+    sentimentScore: -0.2,
+    emotionalThemes: ['academic pressure', 'self-doubt'],
+    suggestedResources: ['Campus counseling drop-in hours', 'Study planning workshop'],
+    riskFactors: [],
+    riskLevel: 'none',
+    positiveIndicators: ['Reflects on what helped before', 'Reaching out to a friend']
+  })],
+  'response-feedback': [JSON.stringify({
+    empathyScore: 7,
+    culturalSensitivityScore: 7,
+    questioningScore: 6,
+    goalOrientationScore: 6,
+    professionalismScore: 8,
+    overallRating: 6.8,
+    aiAnalysis: 'Mock analysis: the response is supportive and professional, with room to explore cultural context further.',
+    improvementSuggestions: ['Ask an open-ended question about family expectations', 'Reflect the emotion before offering guidance']
+  })],
+  'response-analysis': [JSON.stringify({
+    scores: {
+      culturalSensitivity: 7,
+      culturalAwareness: 6,
+      empathy: 7,
+      professionalism: 8,
+      actionability: 6,
+      questionQuality: 6,
+      languageAppropriate: 7,
+      responseLength: 7,
+      overall: 6.8
+    },
+    culturalAnalysis: {
+      assumptions: [],
+      biases: [],
+      strengths: ['Acknowledged the student\'s feelings'],
+      culturalMisses: ['Did not explore family or community context'],
+      appropriateReferences: []
+    },
+    suggestions: {
+      strengths: ['Warm, validating tone'],
+      improvements: ['Invite the student to describe their cultural context'],
+      culturalTips: ['Consider how family expectations shape the concern'],
+      alternativeApproaches: ['Reflect feelings first, then ask an open question'],
+      questionsToAsk: ['How does your family see what you are going through?']
+    }
+  })],
+  'conversation-analysis': [JSON.stringify({
+    overallPerformance: {
+      conversationFlow: 7,
+      culturalSensitivity: 7,
+      therapeuticProgress: 6,
+      professionalBoundaries: 8,
+      empathy: 7,
+      overallScore: 7
+    },
+    conversationAnalysis: {
+      strengths: ['Message 2: validated the student\'s stress before problem solving'],
+      weaknesses: ['Few open-ended questions in the middle of the conversation'],
+      culturalMisses: ['Family expectations were mentioned but not explored'],
+      goodCulturalMoments: ['Respected the student\'s framing of their concern'],
+      conversationPacing: 'appropriate',
+      questioningTechnique: ['Mostly closed questions'],
+      responseTiming: 'Responses were timely and consistent'
+    },
+    suggestions: {
+      conversationFlow: ['Summarize before moving to next steps'],
+      culturalCompetency: ['Ask how the student\'s community views help-seeking'],
+      therapeuticTechnique: ['Use reflective listening more often'],
+      specificMoments: [],
+      positiveReinforcement: []
+    }
+  })],
+  'conversation-outcome': [JSON.stringify({
+    overallEffectiveness: 7,
+    studentSatisfactionEstimate: 7,
+    culturalSensitivityScore: 7,
+    emotionalProgression: [
+      {
+        timepoint: 0,
+        emotionalState: { distress: 7, hope: 3, engagement: 5, trust: 4, empowerment: 3 },
+        keyIndicators: ['Hesitant opening'],
+        significantQuotes: []
+      },
+      {
+        timepoint: 100,
+        emotionalState: { distress: 4, hope: 6, engagement: 7, trust: 6, empowerment: 6 },
+        keyIndicators: ['Agreed on next steps'],
+        significantQuotes: []
+      }
+    ],
+    startingState: { primaryConcerns: ['Academic stress'], emotionalIntensity: 7, culturalFactors: [] },
+    endingState: { resolutionLevel: 6, empowermentLevel: 6, likelyToReturn: true, actionItemsIdentified: ['Plan study schedule'] },
+    counselorPerformance: {
+      empathyConsistency: 7,
+      culturalAdaptation: 6,
+      activeListening: 7,
+      questionQuality: 6,
+      appropriateBoundaries: 8,
+      solutionOrientation: 7
+    },
+    whatWorkedWell: ['Consistent validation'],
+    areasForImprovement: ['Explore cultural context earlier'],
+    culturalConsiderations: [],
+    recommendedFollowUp: ['Check in after exams'],
+    conversationPhases: {
+      buildingRapport: { duration: 25, effectiveness: 7 },
+      problemExploration: { duration: 35, effectiveness: 6 },
+      interventionDelivery: { duration: 25, effectiveness: 7 },
+      resolutionPlanning: { duration: 15, effectiveness: 7 }
+    },
+    concerns: {
+      missedOpportunities: [],
+      potentialMisunderstandings: [],
+      culturalInsensitivities: [],
+      riskFactors: []
+    }
+  })],
+  'cbt-feedback': [JSON.stringify({
+    overallScore: 7,
+    techniqueScore: 6,
+    empathyScore: 8,
+    strengths: ['Validated the client\'s feelings', 'Stayed collaborative'],
+    improvements: ['Name the automatic thought explicitly', 'Ask for evidence for and against the thought'],
+    modelResponse: 'It sounds like the thought "I always fail" comes up a lot. Could we look together at what evidence supports it and what might not fit?'
+  })]
+};
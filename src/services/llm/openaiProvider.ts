@@ -0,0 +1,123 @@
+// OpenAI and OpenAI-compatible (local server) provider adapters
+import OpenAI from 'openai';
+import { ENV } from '../../config/env';
+import { DEFAULT_LOCAL_BASE_URL } from '../../config/llm';
+import {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProviderName,
+  LLMSpeechRequest,
+  LLMSpeechResult,
+  LLMTokenHandler
+} from '../../types';
+import { BaseLLMProvider } from './baseProvider';
+
+interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private readonly config: OpenAIProviderConfig = {}) {
+    super();
+  }
+
+  // Created lazily so a missing key only fails when the provider is actually used
+  protected getClient(): OpenAI {
+    if (typeof window !== 'undefined') {
+      throw new Error('LLM providers run server-side only - call an API route instead');
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey ?? ENV.OPENAI_API_KEY,
+        baseURL: this.config.baseURL
+      });
+    }
+    return this.client;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model,
+      usage: response.usage
+    };
+  }
+
+  async streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: LLMTokenHandler,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion> {
+    const stream = await this.getClient().chat.completions.create({
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal });
+
+    let content = '';
+    let model = options.model;
+    let usage: LLMCompletion['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+    }
+
+    return { content, model, usage };
+  }
+
+  async synthesizeSpeech(request: LLMSpeechRequest, options: LLMCompletionOptions): Promise<LLMSpeechResult> {
+    const speech = await this.getClient().audio.speech.create({
+      model: options.model,
+      voice: request.voice,
+      input: request.text,
+      speed: request.speed ?? 1.0
+    });
+
+    return {
+      audio: await speech.arrayBuffer(),
+      contentType: 'audio/mpeg'
+    };
+  }
+}
+
+// Any server speaking the OpenAI API (Ollama, LM Studio, vLLM, llama.cpp server...)
+export class LocalProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'local';
+
+  constructor() {
+    super({
+      apiKey: ENV.LLM.LOCAL_API_KEY || 'local', // Most local servers ignore the key but the SDK requires one
+      baseURL: ENV.LLM.LOCAL_BASE_URL || DEFAULT_LOCAL_BASE_URL
+    });
+  }
+}
@@ -0,0 +1,143 @@
+// Minimal runtime schemas for structured model output
+// A schema checks an untrusted value and returns it typed, or records where it does not match.
+// Object schemas keep only the declared keys and drop optional keys that are missing, so validated
+// output can be written to Firestore as is.
+import { SchemaIssue } from '../../types';
+
+export interface Schema<T> {
+  // Human-readable shape, used when asking the model to repair its output
+  readonly description: string;
+  readonly name?: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const OPTIONAL = Symbol('optional');
+
+type OptionalSchema<T> = Schema<T | undefined> & { [OPTIONAL]: true };
+
+type ObjectOutput<S extends Shape> = {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+const describeValue = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const fail = <T>(issues: SchemaIssue[], path: string, message: string): T | undefined => {
+  issues.push({ path: path || '(root)', message });
+  return undefined;
+};
+
+export const schema = {
+  // Numeric strings such as "7.5" are accepted, as models often quote scores
+  number(options: { min?: number; max?: number } = {}): Schema<number> {
+    const range = options.min !== undefined && options.max !== undefined ? ` ${options.min}-${options.max}` : '';
+    return {
+      description: `number${range}`,
+      check(value, path, issues) {
+        const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof num !== 'number' || Number.isNaN(num)) {
+          return fail(issues, path, `expected a number, got ${describeValue(value)}`);
+        }
+        if ((options.min !== undefined && num < options.min) || (options.max !== undefined && num > options.max)) {
+          return fail(issues, path, `expected a number between ${options.min ?? '-∞'} and ${options.max ?? '∞'}, got ${num}`);
+        }
+        return num;
+      }
+    };
+  },
+
+  string(): Schema<string> {
+    return {
+      description: 'string',
+      check(value, path, issues) {
+        return typeof value === 'string' ? value : fail(issues, path, `expected a string, got ${describeValue(value)}`);
+      }
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      description: 'boolean',
+      check(value, path, issues) {
+        return typeof value === 'boolean' ? value : fail(issues, path, `expected true or false, got ${describeValue(value)}`);
+      }
+    };
+  },
+
+  oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+      description: values.map(value => `"${value}"`).join(' | '),
+      check(value, path, issues) {
+        return values.includes(value as T)
+          ? value as T
+          : fail(issues, path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      description: `[${item.description}]`,
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          return fail(issues, path, `expected an array, got ${describeValue(value)}`);
+        }
+        const before = issues.length;
+        const items = value.map((element, index) => item.check(element, `${path}[${index}]`, issues));
+        return issues.length === before ? items as T[] : undefined;
+      }
+    };
+  },
+
+  object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+    return {
+      description: `{ ${Object.entries(shape).map(([key, field]) =>
+        `"${key}"${OPTIONAL in field ? '?' : ''}: ${field.description}`).join(', ')} }`,
+      check(value, path, issues) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return fail(issues, path, `expected an object, got ${describeValue(value)}`);
+        }
+        const before = issues.length;
+        const record = value as Record<string, unknown>;
+        const output: Record<string, unknown> = {};
+        Object.entries(shape).forEach(([key, field]) => {
+          const fieldPath = path ? `${path}.${key}` : key;
+          if (record[key] === undefined || record[key] === null) {
+            if (!(OPTIONAL in field)) fail(issues, fieldPath, 'is required');
+            return;
+          }
+          const checked = field.check(record[key], fieldPath, issues);
+          if (checked !== undefined) output[key] = checked;
+        });
+        return issues.length === before ? output as ObjectOutput<S> : undefined;
+      }
+    };
+  },
+
+  // Name reported in validation failures
+  named<T>(name: string, inner: Schema<T>): Schema<T> {
+    return { ...inner, name };
+  },
+
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+      [OPTIONAL]: true,
+      description: inner.description,
+      check: (value, path, issues) => (value === undefined || value === null ? undefined : inner.check(value, path, issues))
+    };
+  }
+};
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; issues: SchemaIssue[] };
+
+export function validateSchema<T>(target: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const data = target.check(value, '', issues);
+  return issues.length === 0 && data !== undefined ? { success: true, data } : { success: false, issues };
+}
@@ -0,0 +1,178 @@
+// Single entry point for every AI call in the app
+// Resolves the configured provider and model for a feature and delegates to its adapter
+import { getLLMFeatureConfig, MAX_SCHEMA_REPAIR_ATTEMPTS } from '../config/llm';
+import {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMFeature,
+  LLMJSONCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMSpeechRequest,
+  LLMSpeechResult,
+  LLMTokenHandler,
+  LLMTranslationRequest,
+  LLMValidatedCompletion,
+  SchemaIssue
+} from '../types';
+import { OpenAIProvider, LocalProvider } from './llm/openaiProvider';
+import { MockProvider } from './llm/mockProvider';
+import { LLMResponseParseError, LLMSchemaValidationError, parseJSONContent } from './llm/baseProvider';
+import { Schema, SchemaResult, validateSchema } from './llm/schema';
+
+export { LLMResponseParseError, LLMSchemaValidationError } from './llm/baseProvider';
+export { MockProvider } from './llm/mockProvider';
+
+type CompletionOverrides = Partial<Omit<LLMCompletionOptions, 'feature'>>;
+
+// Length of the invalid response kept in validation failure reports
+const RAW_EXCERPT_LENGTH = 500;
+
+export class LLMService {
+  private static providers: Partial<Record<LLMProviderName, LLMProvider>> = {};
+
+  // Get (and lazily create) the adapter for a provider
+  static getProvider(name: LLMProviderName): LLMProvider {
+    if (!this.providers[name]) {
+      this.providers[name] = name === 'local'
+        ? new LocalProvider()
+        : name === 'mock'
+        ? new MockProvider()
+        : new OpenAIProvider();
+    }
+    return this.providers[name]!;
+  }
+
+  // Swap in a custom adapter, e.g. a MockProvider with feature-specific scripts
+  static setProvider(provider: LLMProvider): void {
+    this.providers[provider.name] = provider;
+  }
+
+  // Drop cached adapters so the next call re-reads configuration
+  static resetProviders(): void {
+    this.providers = {};
+  }
+
+  // Resolve provider and call options for a feature, applying call-site overrides
+  private static resolve(feature: LLMFeature, overrides: CompletionOverrides = {}): {
+    provider: LLMProvider;
+    options: LLMCompletionOptions;
+  } {
+    const config = getLLMFeatureConfig(feature);
+
+    return {
+      provider: this.getProvider(config.provider),
+      options: {
+        feature,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        ...overrides
+      }
+    };
+  }
+
+  static async complete(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    overrides?: CompletionOverrides
+  ): Promise<LLMCompletion> {
+    const { provider, options } = this.resolve(feature, overrides);
+    return provider.complete(messages, options);
+  }
+
+  static async completeJSON<T = unknown>(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    overrides?: CompletionOverrides
+  ): Promise<LLMJSONCompletion<T>> {
+    const { provider, options } = this.resolve(feature, overrides);
+    return provider.completeJSON<T>(messages, options);
+  }
+
+  // JSON completion checked against a schema. Invalid output is sent back to the model with the problems
+  // found, up to MAX_SCHEMA_REPAIR_ATTEMPTS times; after that LLMSchemaValidationError is thrown, so
+  // callers report the failure instead of substituting fallback values
+  static async completeValidated<T>(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    target: Schema<T>,
+    overrides?: CompletionOverrides
+  ): Promise<LLMValidatedCompletion<T>> {
+    const { provider, options } = this.resolve(feature, overrides);
+    const maxAttempts = MAX_SCHEMA_REPAIR_ATTEMPTS + 1;
+    let conversation = messages;
+
+    for (let attempt = 1; ; attempt++) {
+      const completion = await provider.complete(conversation, options);
+      const checked = this.checkOutput(completion.content, target);
+      if (checked.success) {
+        return { ...completion, data: checked.data, attempts: attempt };
+      }
+
+      if (attempt >= maxAttempts) {
+        throw new LLMSchemaValidationError(
+          `${target.name || feature} output failed validation after ${attempt} attempts`,
+          completion.content,
+          {
+            feature,
+            schema: target.name || feature,
+            model: completion.model,
+            attempts: attempt,
+            issues: checked.issues,
+            rawExcerpt: completion.content.substring(0, RAW_EXCERPT_LENGTH)
+          }
+        );
+      }
+
+      console.warn(`${target.name || feature} output failed validation (attempt ${attempt}):`, checked.issues);
+      conversation = [
+        ...messages,
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: this.buildRepairPrompt(checked.issues, target) }
+      ];
+    }
+  }
+
+  private static checkOutput<T>(content: string, target: Schema<T>): SchemaResult<T> {
+    let parsed: unknown;
+    try {
+      parsed = parseJSONContent(content);
+    } catch (error: unknown) {
+      if (!(error instanceof LLMResponseParseError)) throw error;
+      return { success: false, issues: [{ path: '(root)', message: error.message }] };
+    }
+
+    return validateSchema(target, parsed);
+  }
+
+  private static buildRepairPrompt<T>(issues: SchemaIssue[], target: Schema<T>): string {
+    return `Your previous reply did not match the required JSON format:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Reply again with only the corrected JSON object, keeping your analysis the same. Required shape:
+${target.description}`;
+  }
+
+  static async streamComplete(
+    feature: LLMFeature,
+    messages: LLMMessage[],
+    onToken: LLMTokenHandler,
+    signal?: AbortSignal,
+    overrides?: CompletionOverrides
+  ): Promise<LLMCompletion> {
+    const { provider, options } = this.resolve(feature, overrides);
+    return provider.streamComplete(messages, options, onToken, signal);
+  }
+
+  static async translate(request: LLMTranslationRequest, overrides?: CompletionOverrides): Promise<LLMCompletion> {
+    const { provider, options } = this.resolve('translation', overrides);
+    return provider.translate(request, options);
+  }
+
+  static async synthesizeSpeech(request: LLMSpeechRequest, overrides?: CompletionOverrides): Promise<LLMSpeechResult> {
+    const { provider, options } = this.resolve('speech', overrides);
+    return provider.synthesizeSpeech(request, options);
+  }
+}
@@ -14,7 +14,8 @@ import {
   onSnapshot,
   serverTimestamp,
   Timestamp,
-  writeBatch
+  writeBatch,
+  Firestore
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { 
@@ -24,36 +25,76 @@ import {
   MessageSubmission, 
   MessageStatus, 
   CulturalBackground,
+  CrisisEscalationAction,
+  NextBestPick,
+  RankedQueueItem,
   ResponseFeedback 
 } from '../types';
 import { OpenAIService } from './openaiService';
+import { ConversationService } from './conversationService';
+import { CrisisDetectionService } from './crisisDetectionService';
+import { QueueRoutingService } from './queueRoutingService';
+import { DeferredAnalysisService } from './deferredAnalysisService';
+import { JournalContextService } from './journalContextService';
 
 export class MessageService {
   // Submit a new message to the queue
   static async submitMessage(submission: MessageSubmission): Promise<string> {
     try {
+      const crisisAssessment = await CrisisDetectionService.assessMessage(submission.draft.content);
+      const studentLanguage = await ConversationService.getStudentLanguage(submission.studentId);
+      const journalContext = submission.draft.includeJournalContext && submission.draft.selectedJournalEntries?.length
+        ? await JournalContextService.buildSnapshots(
+          submission.studentId,
+          submission.draft.selectedJournalEntries,
+          submission.draft.journalContextOptions
+        )
+        : [];
+
       const messageData: Omit<Message, 'id'> = {
         studentId: submission.studentId,
         content: submission.draft.content,
         messageType: 'support-request',
-        responseType: submission.draft.responseType,
-        status: submission.draft.responseType === 'ai' ? 'answered' : 'pending',
-        priority: submission.draft.priority,
+        // Escalated requests go to the counselor queue even when an AI reply was requested
+        responseType: crisisAssessment.shouldEscalate ? 'human' : submission.draft.responseType,
+        status: submission.draft.responseType === 'ai' && !crisisAssessment.shouldEscalate ? 'answered' : 'pending',
+        priority: crisisAssessment.shouldEscalate ? 'urgent' : submission.draft.priority,
         culturalContext: submission.culturalContext,
         timestamp: new Date(),
         updatedAt: new Date(),
-        tags: await this.generateTags(submission.draft.content),
+        tags: QueueRoutingService.detectTags(submission.draft.content),
         estimatedResponseTime: this.calculateEstimatedResponseTime(submission.draft.responseType),
         isAnonymous: submission.draft.isAnonymous,
+        studentLanguage,
         responses: [],
         responseCount: 0,
-        ...(submission.draft.includeJournalContext && {
-          sharedJournalContext: [] // TODO: Implement journal context sharing
+        // Redacted snapshots of the selected entries; the student can revoke them later
+        ...(journalContext.length > 0 && JournalContextService.toSharedFields(journalContext)),
+        ...(crisisAssessment.shouldEscalate && {
+          crisisRiskLevel: crisisAssessment.riskLevel,
+          pinnedAt: new Date()
         })
       };
 
       const docRef = await addDoc(collection(db, 'messages'), messageData);
 
+      if (crisisAssessment.shouldEscalate) {
+        const actions: CrisisEscalationAction[] = ['priority-urgent', 'pinned-to-queue'];
+        if (submission.draft.responseType === 'ai') {
+          actions.push('resources-injected');
+        }
+
+        await addDoc(collection(db, 'crisis_events'), CrisisDetectionService.buildCrisisEvent({
+          assessment: crisisAssessment,
+          studentId: submission.studentId,
+          source: 'support-request',
+          messageId: docRef.id,
+          actions,
+          culturalContext: submission.culturalContext,
+          language: studentLanguage
+        }));
+      }
+
       // If AI response requested, generate it immediately
       if (submission.draft.responseType === 'ai') {
         await this.generateAIResponse(docRef.id, messageData);
@@ -65,7 +106,7 @@ export class MessageService {
     }
   }
 
-  // Get pending messages for counselors (oldest first)
+  // Get pending messages for counselors (oldest first, or ranked for the counselor when given)
   static async getPendingMessages(counselorId?: string): Promise<Message[]> {
     try {
       const q = query(
@@ -76,17 +117,42 @@ export class MessageService {
       );
 
       const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => ({
+      const messages = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
         timestamp: doc.data().timestamp?.toDate(),
-        updatedAt: doc.data().updatedAt?.toDate()
+        updatedAt: doc.data().updatedAt?.toDate(),
+        pinnedAt: doc.data().pinnedAt?.toDate()
       } as Message));
+
+      if (counselorId) {
+        return (await this.rankMessages(messages, counselorId)).map(ranked => ranked.item);
+      }
+
+      return CrisisDetectionService.sortPinnedFirst(messages);
     } catch (error: unknown) {
       throw new Error('Failed to fetch pending messages: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
 
+  // Get the single best pending message for a counselor to claim next (with the reason when nothing suitable)
+  static async getNextBestMessage(counselorId: string): Promise<NextBestPick<Message>> {
+    try {
+      const messages = await this.getPendingMessages();
+      const context = await QueueRoutingService.getRoutingContext(counselorId);
+      const ranked = QueueRoutingService.rankItems(messages, QueueRoutingService.fromMessage, context);
+      return QueueRoutingService.pickNextBest(ranked, context, QueueRoutingService.fromMessage);
+    } catch (error: unknown) {
+      throw new Error('Failed to get next message: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Rank messages for a counselor
+  private static async rankMessages(messages: Message[], counselorId: string): Promise<RankedQueueItem<Message>[]> {
+    const context = await QueueRoutingService.getRoutingContext(counselorId);
+    return QueueRoutingService.rankItems(messages, QueueRoutingService.fromMessage, context);
+  }
+
   // Claim a message (counselor takes ownership)
   static async claimMessage(messageId: string, counselorId: string): Promise<void> {
     try {
@@ -241,12 +307,13 @@ export class MessageService {
       );
 
       const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => ({
+      return CrisisDetectionService.sortPinnedFirst(snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().timestamp?.toDate(),
-        updatedAt: doc.data().updatedAt?.toDate()
-      } as Message));
+        updatedAt: doc.data().updatedAt?.toDate(),
+        pinnedAt: doc.data().pinnedAt?.toDate()
+      } as Message)));
     } catch (error: unknown) {
       throw new Error('Failed to fetch unclaimed messages: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
@@ -268,10 +335,11 @@ export class MessageService {
         timestamp: doc.data().timestamp?.toDate(),
         updatedAt: doc.data().updatedAt?.toDate(),
         claimedAt: doc.data().claimedAt?.toDate(),
-        responseDeadline: doc.data().responseDeadline?.toDate()
+        responseDeadline: doc.data().responseDeadline?.toDate(),
+        pinnedAt: doc.data().pinnedAt?.toDate()
       } as Message));
 
-      callback(messages);
+      callback(CrisisDetectionService.sortPinnedFirst(messages));
     });
   }
 
@@ -283,11 +351,19 @@ export class MessageService {
         messageData.culturalContext
       );
 
+      // Escalated requests always carry crisis resources in the reply
+      const content = messageData.crisisRiskLevel
+        ? CrisisDetectionService.appendCrisisResources(
+            aiResponse.content,
+            await ConversationService.getStudentLanguage(messageData.studentId)
+          )
+        : aiResponse.content;
+
       const responseData: Omit<Response, 'id'> = {
         messageId,
         responderId: 'ai',
         responderType: 'ai',
-        content: aiResponse.content,
+        content,
         timestamp: new Date(),
         readByStudent: false,
         aiModel: aiResponse.model,
@@ -331,25 +407,9 @@ export class MessageService {
         feedback: feedback
       });
     } catch (error) {
-      console.error('Failed to generate response feedback:', error);
-    }
-  }
-
-  // Auto-generate tags from message content
-  private static async generateTags(content: string): Promise<string[]> {
-    try {
-      // Simple keyword extraction (can be enhanced with AI later)
-      const keywords = content.toLowerCase().match(/\b\w+\b/g) || [];
-      const commonConcepts = [
-        'anxiety', 'stress', 'depression', 'family', 'relationships', 
-        'academic', 'career', 'identity', 'cultural', 'social'
-      ];
-
-      return commonConcepts.filter(concept => 
-        keywords.some(keyword => keyword.includes(concept) || concept.includes(keyword))
-      );
-    } catch (error) {
-      return [];
+      console.error('Failed to generate response feedback, deferring to job runner:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      await DeferredAnalysisService.enqueue('response-feedback', responseId, errorMessage);
     }
   }
 
@@ -499,18 +559,20 @@ export class MessageService {
     }
   }
 
-  // Auto-release expired claimed messages (should run as a cloud function)
-  static async releaseExpiredClaims(): Promise<void> {
+  // Auto-release expired claimed messages (run by the release-expired-claims job)
+  // Returns the number of claims released
+  static async releaseExpiredClaims(maxClaims: number = 500, database: Firestore = db): Promise<number> {
     try {
       const now = new Date();
       const q = query(
-        collection(db, 'messages'),
+        collection(database, 'messages'),
         where('status', '==', 'claimed'),
-        where('responseDeadline', '<=', now)
+        where('responseDeadline', '<=', now),
+        limit(maxClaims) // A write batch holds at most 500 operations
       );
 
       const snapshot = await getDocs(q);
-      const batch = writeBatch(db);
+      const batch = writeBatch(database);
 
       snapshot.docs.forEach(doc => {
         batch.update(doc.ref, {
@@ -524,8 +586,9 @@ export class MessageService {
 
       await batch.commit();
       console.log(`Released ${snapshot.docs.length} expired message claims`);
-    } catch (error) {
-      console.error('Failed to release expired claims:', error);
+      return snapshot.docs.length;
+    } catch (error: unknown) {
+      throw new Error('Failed to release expired claims: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,388 @@
+// Mood analytics over a student's journal entries.
+// Everything is computed from entries already loaded on the client: rolling averages, volatility,
+// day-of-week and time-of-day patterns, emotion co-occurrence, trigger themes and a weekly reflection.
+import { TRIGGER_THEMES, TIME_OF_DAY_LABELS, DAY_OF_WEEK_LABELS, TriggerTheme } from '../config/moodAnalytics';
+import {
+  EmotionCategory,
+  EmotionCoOccurrence,
+  JournalEntry,
+  MoodAnalytics,
+  MoodDirection,
+  MoodPatternBucket,
+  MoodVolatilityLevel,
+  RollingMoodPoint,
+  TimeOfDay,
+  TriggerMoodCorrelation,
+  WeeklyReflection,
+  MOOD_VALUES
+} from '../types';
+
+const TIMES_OF_DAY: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+
+// Buckets and pairs need this many entries before they are turned into insights
+const MIN_PATTERN_ENTRIES = 2;
+
+// Difference in mood points (1-10 scale) worth pointing out
+const NOTABLE_MOOD_DIFFERENCE = 1.5;
+
+const MAX_CO_OCCURRENCES = 8;
+
+const OTHER_TRIGGER_THEME = { id: 'other', label: 'Other triggers' };
+
+export interface MoodAnalyticsOptions {
+  days?: number;
+  windowDays?: number;
+  now?: Date;
+}
+
+export class MoodAnalyticsService {
+  static analyze(entries: JournalEntry[], options: MoodAnalyticsOptions = {}): MoodAnalytics {
+    const { days = 30, windowDays = 7, now = new Date() } = options;
+    const periodStart = this.addDays(this.startOfDay(now), -(days - 1));
+    const periodEntries = entries.filter(entry => entry.timestamp >= periodStart && entry.timestamp <= now);
+    const averageMood = this.averageMood(periodEntries);
+
+    const rollingAverages = this.buildRollingAverages(periodEntries, periodStart, days, windowDays);
+    const dailyValues = rollingAverages
+      .map(point => point.moodValue)
+      .filter((value): value is number => value !== null);
+    const volatility = this.round(this.standardDeviation(dailyValues), 2);
+
+    const analytics: MoodAnalytics = {
+      periodStart,
+      periodEnd: now,
+      entryCount: periodEntries.length,
+      averageMood,
+      rollingWindowDays: windowDays,
+      rollingAverages,
+      volatility,
+      volatilityLevel: this.getVolatilityLevel(volatility),
+      direction: this.getDirection(rollingAverages),
+      dayOfWeek: this.buildDayOfWeekPattern(periodEntries),
+      timeOfDay: this.buildTimeOfDayPattern(periodEntries),
+      emotionCoOccurrence: this.buildEmotionCoOccurrence(periodEntries),
+      triggerCorrelations: this.buildTriggerCorrelations(periodEntries, averageMood),
+      insights: []
+    };
+
+    analytics.insights = this.buildInsights(analytics);
+    return analytics;
+  }
+
+  // Summary of the last seven days compared with the seven before them
+  static buildWeeklyReflection(entries: JournalEntry[], now: Date = new Date()): WeeklyReflection {
+    const weekStart = this.addDays(this.startOfDay(now), -6);
+    const previousStart = this.addDays(weekStart, -7);
+    const weekEntries = entries.filter(entry => entry.timestamp >= weekStart && entry.timestamp <= now);
+    const previousEntries = entries.filter(entry => entry.timestamp >= previousStart && entry.timestamp < weekStart);
+
+    const averageMood = this.averageMood(weekEntries);
+    const previousAverageMood = this.averageMood(previousEntries);
+    const daysWithEntries = new Set(weekEntries.map(entry => entry.timestamp.toDateString())).size;
+    const topEmotions = this.countEmotions(weekEntries).slice(0, 3);
+
+    const byMood = [...weekEntries].sort((a, b) => MOOD_VALUES[b.mood] - MOOD_VALUES[a.mood]);
+    const brightest = byMood[0];
+    const hardest = byMood[byMood.length - 1];
+    const hasMoodRange = Boolean(brightest && hardest && MOOD_VALUES[brightest.mood] > MOOD_VALUES[hardest.mood]);
+
+    const change = averageMood !== null && previousAverageMood !== null
+      ? this.round(averageMood - previousAverageMood, 1)
+      : null;
+
+    let summary: string;
+    if (weekEntries.length === 0) {
+      summary = 'You didn\'t write this week. Even a few lines can help you notice how you\'re doing.';
+    } else {
+      summary = `You wrote ${weekEntries.length} ${weekEntries.length === 1 ? 'entry' : 'entries'} on ` +
+        `${daysWithEntries} ${daysWithEntries === 1 ? 'day' : 'days'} this week, with an average mood of ${averageMood}/10`;
+      if (change === null) summary += '.';
+      else if (change >= 1) summary += `, up from ${previousAverageMood}/10 last week.`;
+      else if (change <= -1) summary += `, down from ${previousAverageMood}/10 last week.`;
+      else summary += ', about the same as last week.';
+    }
+
+    const highlights: string[] = [];
+    if (hasMoodRange) {
+      highlights.push(`Your brightest day was ${DAY_OF_WEEK_LABELS[brightest.timestamp.getDay()]}.`);
+      highlights.push(`${DAY_OF_WEEK_LABELS[hardest.timestamp.getDay()]} felt the hardest.`);
+    }
+    if (topEmotions.length > 0) {
+      highlights.push(`You felt ${this.joinList(topEmotions)} most often.`);
+    }
+    const heaviestTheme = this.buildTriggerCorrelations(weekEntries, averageMood)
+      .filter(correlation => correlation.theme !== OTHER_TRIGGER_THEME.id && correlation.moodDifference <= -1)
+      .sort((a, b) => a.moodDifference - b.moodDifference)[0];
+    if (heaviestTheme) {
+      highlights.push(`${heaviestTheme.label} weighed on your mood the most.`);
+    }
+
+    let suggestion: string;
+    if (weekEntries.length === 0) {
+      suggestion = 'Try setting aside five minutes this week to check in with yourself.';
+    } else if (averageMood !== null && averageMood <= 3) {
+      suggestion = 'This week looked heavy. Consider reaching out to a counselor or someone you trust - you don\'t have to carry it alone.';
+    } else if (change !== null && change <= -1) {
+      suggestion = 'Your mood dipped compared with last week. What helped on your brighter days might be worth repeating.';
+    } else if (change !== null && change >= 1) {
+      suggestion = 'Your mood lifted this week. Take a moment to notice what helped, so you can come back to it.';
+    } else {
+      suggestion = 'Keep checking in - small, regular entries make your patterns easier to see.';
+    }
+
+    return {
+      weekStart,
+      weekEnd: now,
+      entryCount: weekEntries.length,
+      daysWithEntries,
+      averageMood,
+      previousAverageMood,
+      ...(hasMoodRange && {
+        brightestDay: { date: brightest.timestamp, mood: brightest.mood },
+        hardestDay: { date: hardest.timestamp, mood: hardest.mood }
+      }),
+      topEmotions,
+      summary,
+      highlights,
+      suggestion
+    };
+  }
+
+  // Themes whose keywords appear in the trigger text
+  static matchTriggerThemes(trigger: string): TriggerTheme[] {
+    const words = new Set(trigger.toLowerCase().split(/[^a-z']+/).filter(Boolean));
+    return TRIGGER_THEMES.filter(theme => theme.keywords.some(keyword => words.has(keyword)));
+  }
+
+  static getVolatilityLevel(volatility: number): MoodVolatilityLevel {
+    if (volatility < 1) return 'stable';
+    if (volatility < 2) return 'moderate';
+    return 'high';
+  }
+
+  private static buildRollingAverages(
+    entries: JournalEntry[],
+    periodStart: Date,
+    days: number,
+    windowDays: number
+  ): RollingMoodPoint[] {
+    const points: RollingMoodPoint[] = [];
+
+    for (let i = 0; i < days; i++) {
+      const date = this.addDays(periodStart, i);
+      const dayEntries = entries.filter(entry => entry.timestamp.toDateString() === date.toDateString());
+      const moodValue = this.averageMood(dayEntries);
+
+      const windowValues = [...points.slice(Math.max(0, i - windowDays + 1)).map(point => point.moodValue), moodValue]
+        .filter((value): value is number => value !== null);
+
+      points.push({
+        date,
+        moodValue,
+        rollingAverage: windowValues.length > 0 ? this.round(this.mean(windowValues), 1) : null,
+        entryCount: dayEntries.length
+      });
+    }
+
+    return points;
+  }
+
+  // Compare the rolling average at the end of the period with the one a window earlier
+  private static getDirection(points: RollingMoodPoint[]): MoodDirection {
+    const withAverage = points.filter(point => point.rollingAverage !== null);
+    if (withAverage.length < 2) return 'steady';
+
+    const latest = withAverage[withAverage.length - 1];
+    const earlier = withAverage[Math.max(0, withAverage.length - 8)];
+    const difference = (latest.rollingAverage as number) - (earlier.rollingAverage as number);
+
+    if (difference >= 1) return 'improving';
+    if (difference <= -1) return 'declining';
+    return 'steady';
+  }
+
+  private static buildDayOfWeekPattern(entries: JournalEntry[]): MoodPatternBucket<number>[] {
+    return DAY_OF_WEEK_LABELS.map((label, day) => {
+      const dayEntries = entries.filter(entry => entry.timestamp.getDay() === day);
+      return { key: day, label, averageMood: this.averageMood(dayEntries), entryCount: dayEntries.length };
+    });
+  }
+
+  private static buildTimeOfDayPattern(entries: JournalEntry[]): MoodPatternBucket<TimeOfDay>[] {
+    return TIMES_OF_DAY.map(timeOfDay => {
+      const timeEntries = entries.filter(entry => entry.timeOfDay === timeOfDay);
+      return {
+        key: timeOfDay,
+        label: TIME_OF_DAY_LABELS[timeOfDay],
+        averageMood: this.averageMood(timeEntries),
+        entryCount: timeEntries.length
+      };
+    });
+  }
+
+  // Emotion pairs tagged on the same entry, most frequent first
+  private static buildEmotionCoOccurrence(entries: JournalEntry[]): EmotionCoOccurrence[] {
+    const pairs: Record<string, { emotions: [EmotionCategory, EmotionCategory]; count: number; moodTotal: number }> = {};
+
+    entries.forEach(entry => {
+      const emotions = Array.from(new Set(entry.emotionTags)).sort();
+      for (let i = 0; i < emotions.length; i++) {
+        for (let j = i + 1; j < emotions.length; j++) {
+          const key = `${emotions[i]}|${emotions[j]}`;
+          const pair = pairs[key] = pairs[key] || { emotions: [emotions[i], emotions[j]], count: 0, moodTotal: 0 };
+          pair.count += 1;
+          pair.moodTotal += MOOD_VALUES[entry.mood];
+        }
+      }
+    });
+
+    return Object.values(pairs)
+      .filter(pair => pair.count >= MIN_PATTERN_ENTRIES)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_CO_OCCURRENCES)
+      .map(pair => ({
+        emotions: pair.emotions,
+        count: pair.count,
+        averageMood: this.round(pair.moodTotal / pair.count, 1)
+      }));
+  }
+
+  // Average mood of entries per trigger theme, compared with the overall average
+  private static buildTriggerCorrelations(entries: JournalEntry[], overallMood: number | null): TriggerMoodCorrelation[] {
+    if (overallMood === null) return [];
+
+    const byTheme: Record<string, { label: string; moods: number[] }> = {};
+
+    entries
+      .filter(entry => entry.trigger && entry.trigger.trim())
+      .forEach(entry => {
+        const themes: { id: string; label: string }[] = this.matchTriggerThemes(entry.trigger as string);
+        (themes.length > 0 ? themes : [OTHER_TRIGGER_THEME]).forEach(theme => {
+          const bucket = byTheme[theme.id] = byTheme[theme.id] || { label: theme.label, moods: [] };
+          bucket.moods.push(MOOD_VALUES[entry.mood]);
+        });
+      });
+
+    return Object.entries(byTheme)
+      .map(([theme, { label, moods }]) => {
+        const averageMood = this.round(this.mean(moods), 1);
+        return {
+          theme,
+          label,
+          entryCount: moods.length,
+          averageMood,
+          moodDifference: this.round(averageMood - overallMood, 1)
+        };
+      })
+      .sort((a, b) => Math.abs(b.moodDifference) - Math.abs(a.moodDifference));
+  }
+
+  // Plain-language observations, only when there is enough data behind them
+  private static buildInsights(analytics: MoodAnalytics): string[] {
+    const insights: string[] = [];
+
+    if (analytics.direction === 'improving') {
+      insights.push('Your mood has been lifting over the past week.');
+    } else if (analytics.direction === 'declining') {
+      insights.push('Your mood has dipped over the past week. Be gentle with yourself, and reach out if it feels heavy.');
+    }
+
+    if (analytics.volatilityLevel === 'high') {
+      insights.push('Your mood has been moving up and down a lot. Noticing what happens on the harder days can help.');
+    } else if (analytics.volatilityLevel === 'stable' && analytics.entryCount >= 5) {
+      insights.push('Your mood has been fairly steady.');
+    }
+
+    const [bestDay, worstDay] = this.getExtremes(analytics.dayOfWeek);
+    if (bestDay && worstDay) {
+      insights.push(`You tend to feel best on ${bestDay.label}s and lowest on ${worstDay.label}s.`);
+    }
+
+    const [bestTime, worstTime] = this.getExtremes(analytics.timeOfDay);
+    if (bestTime && worstTime) {
+      insights.push(`${bestTime.label}s tend to be your brightest time of day; ${worstTime.label.toLowerCase()}s are harder.`);
+    }
+
+    const topPair = analytics.emotionCoOccurrence[0];
+    if (topPair) {
+      insights.push(`You often feel ${topPair.emotions[0]} and ${topPair.emotions[1]} together (${topPair.count} entries).`);
+    }
+
+    analytics.triggerCorrelations
+      .filter(correlation =>
+        correlation.theme !== OTHER_TRIGGER_THEME.id &&
+        correlation.entryCount >= MIN_PATTERN_ENTRIES &&
+        Math.abs(correlation.moodDifference) >= 1
+      )
+      .slice(0, 2)
+      .forEach(correlation => {
+        const direction = correlation.moodDifference < 0 ? 'below' : 'above';
+        insights.push(
+          `Entries about ${correlation.label.toLowerCase()} average ${Math.abs(correlation.moodDifference)} points ${direction} your usual mood.`
+        );
+      });
+
+    return insights;
+  }
+
+  // Highest and lowest buckets with enough entries, when they differ notably
+  private static getExtremes<K extends string | number>(
+    buckets: MoodPatternBucket<K>[]
+  ): [MoodPatternBucket<K> | null, MoodPatternBucket<K> | null] {
+    const eligible = buckets
+      .filter(bucket => bucket.averageMood !== null && bucket.entryCount >= MIN_PATTERN_ENTRIES)
+      .sort((a, b) => (b.averageMood as number) - (a.averageMood as number));
+    if (eligible.length < 2) return [null, null];
+
+    const best = eligible[0];
+    const worst = eligible[eligible.length - 1];
+    if ((best.averageMood as number) - (worst.averageMood as number) < NOTABLE_MOOD_DIFFERENCE) return [null, null];
+    return [best, worst];
+  }
+
+  private static countEmotions(entries: JournalEntry[]): EmotionCategory[] {
+    const counts: Partial<Record<EmotionCategory, number>> = {};
+    entries.forEach(entry => entry.emotionTags.forEach(emotion => {
+      counts[emotion] = (counts[emotion] || 0) + 1;
+    }));
+    return (Object.keys(counts) as EmotionCategory[]).sort((a, b) => (counts[b] || 0) - (counts[a] || 0));
+  }
+
+  private static averageMood(entries: JournalEntry[]): number | null {
+    if (entries.length === 0) return null;
+    return this.round(this.mean(entries.map(entry => MOOD_VALUES[entry.mood])), 1);
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private static standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = this.mean(values);
+    return Math.sqrt(this.mean(values.map(value => (value - mean) ** 2)));
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+
+  private static startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+
+  // Calendar arithmetic, so days stay aligned across daylight saving changes
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private static joinList(items: string[]): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+}
@@ -1,6 +1,6 @@
 // OpenAI API service for AI responses and analysis
-import { CulturalBackground, ResponseFeedback } from '../types';
-import { ENV } from '../config/env';
+import { CrisisClassification, CulturalBackground, LLMStreamEvent, ResponseFeedback } from '../types';
+import { ApiClient } from './apiClient';
 
 interface OpenAIResponse {
   content: string;
@@ -18,11 +18,8 @@ interface OpenAIMessage {
 }
 
 export class OpenAIService {
-  private static readonly BASE_URL = 'https://api.openai.com/v1/chat/completions';
-  private static readonly MODEL = 'gpt-4-turbo';
-  
   // Cultural prompts for different backgrounds
-  private static readonly CULTURAL_PROMPTS = {
+  private static readonly CULTURAL_PROMPTS: Record<CulturalBackground, string> = {
     'african-american': `
       You are a culturally-aware mental health companion for African American students. 
       Understand the intersection of racial identity, systemic challenges, and academic pressures.
@@ -145,7 +142,7 @@ export class OpenAIService {
   `;
 
   // Clean AI response to remove markdown and formatting artifacts
-  private static cleanAIResponse(content: string): string {
+  static cleanAIResponse(content: string): string {
     return content
       // Remove markdown bold (**text** or __text__)
       .replace(/\*\*(.*?)\*\*/g, '$1')
@@ -176,6 +173,31 @@ export class OpenAIService {
       .trim();
   }
 
+  // Build the system prompt and context window for a chat reply (used by the chat API routes)
+  static buildChatMessages(
+    userMessage: string,
+    culturalBackground: CulturalBackground,
+    conversationHistory: OpenAIMessage[] = [],
+    preferredLanguage?: 'en' | 'es'
+  ): OpenAIMessage[] {
+    const culturalPrompt = this.CULTURAL_PROMPTS[culturalBackground] || this.CULTURAL_PROMPTS['prefer-not-to-say'];
+
+    // Add language instruction if preferred language is specified
+    const languageInstruction = preferredLanguage === 'es'
+      ? '\n\nIMPORTANT: Respond ONLY in Spanish. Do not use English.'
+      : preferredLanguage === 'en'
+      ? '\n\nIMPORTANT: Respond ONLY in English.'
+      : '';
+
+    const systemPrompt = this.BASE_SYSTEM_PROMPT + '\n\n' + culturalPrompt + languageInstruction;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...conversationHistory.slice(-6), // Include last 6 messages for context
+      { role: 'user', content: userMessage }
+    ];
+  }
+
   // Generate culturally-aware AI response
   static async generateCulturalResponse(
     userMessage: string,
@@ -220,14 +242,98 @@ export class OpenAIService {
     }
   }
 
-  // Analyze counselor response quality
+  // Stream a culturally-aware AI response from /api/chat/stream, reporting each token as it arrives
+  static async streamCulturalResponse(
+    userMessage: string,
+    culturalBackground: CulturalBackground,
+    conversationHistory: OpenAIMessage[] = [],
+    preferredLanguage: 'en' | 'es' | undefined,
+    handlers: { onToken: (delta: string) => void; signal?: AbortSignal }
+  ): Promise<OpenAIResponse> {
+    const response = await fetch('/api/chat/stream', {
+      method: 'POST',
+      headers: await ApiClient.getAuthHeaders(),
+      body: JSON.stringify({
+        userMessage,
+        culturalBackground,
+        conversationHistory: conversationHistory.slice(-6),
+        preferredLanguage: preferredLanguage || 'en'
+      }),
+      signal: handlers.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Chat stream error: ${response.status} ${errorData.error || response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any incomplete event in the buffer
+      const rawEvents = buffer.split('\n\n');
+      buffer = rawEvents.pop() || '';
+
+      for (const rawEvent of rawEvents) {
+        if (!rawEvent.startsWith('data: ')) continue;
+
+        const event = JSON.parse(rawEvent.slice('data: '.length)) as LLMStreamEvent;
+        if (event.type === 'token') {
+          handlers.onToken(event.delta);
+        } else if (event.type === 'done') {
+          return { content: event.content, model: event.model, usage: event.usage };
+        } else {
+          throw new Error(event.error);
+        }
+      }
+    }
+
+    throw new Error('Chat stream ended before the response was complete');
+  }
+
+  // Analyze counselor response quality (the model runs server-side in /api/analyze-response)
   static async analyzeCounselorResponse(
     originalMessage: string,
     counselorResponse: string,
     culturalBackground: CulturalBackground
   ): Promise<ResponseFeedback> {
     try {
-      const analysisPrompt = `
+      const data = await ApiClient.post<{ feedback: ResponseFeedback }>('/api/analyze-response', {
+        kind: 'rating',
+        originalMessage,
+        counselorResponse,
+        culturalBackground
+      });
+
+      return {
+        ...data.feedback,
+        analyzedAt: new Date(data.feedback.analyzedAt)
+      };
+    } catch (error: unknown) {
+      console.error('Failed to analyze counselor response:', error);
+      // Return default feedback if analysis fails
+      return {
+        aiAnalysis: 'Analysis temporarily unavailable. Please try again later.',
+        analyzedAt: new Date(),
+        feedbackVersion: '1.0'
+      };
+    }
+  }
+
+  // Build the messages sent to the model to rate a counselor response
+  static buildResponseFeedbackMessages(
+    originalMessage: string,
+    counselorResponse: string,
+    culturalBackground: CulturalBackground
+  ): OpenAIMessage[] {
+    const analysisPrompt = `
         You are an expert mental health supervisor analyzing a counselor's response for quality and cultural sensitivity.
 
         ORIGINAL STUDENT MESSAGE:
@@ -262,65 +368,49 @@ export class OpenAIService {
         }
       `;
 
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ENV.OPENAI_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: this.MODEL,
-          messages: [
-            { role: 'system', content: 'You are an expert mental health supervisor providing constructive feedback.' },
-            { role: 'user', content: analysisPrompt }
-          ],
-          max_tokens: 500,
-          temperature: 0.3
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const analysisText = data.choices[0].message.content;
-
-      // Parse the JSON response
-      const jsonMatch = analysisText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Invalid analysis format');
-      }
-
-      const analysisResult = JSON.parse(jsonMatch[0]);
+    return [
+      { role: 'system', content: 'You are an expert mental health supervisor providing constructive feedback.' },
+      { role: 'user', content: analysisPrompt }
+    ];
+  }
 
-      return {
-        empathyScore: analysisResult.empathyScore,
-        culturalSensitivityScore: analysisResult.culturalSensitivityScore,
-        questioningScore: analysisResult.questioningScore,
-        goalOrientationScore: analysisResult.goalOrientationScore,
-        professionalismScore: analysisResult.professionalismScore,
-        overallRating: analysisResult.overallRating,
-        aiAnalysis: analysisResult.aiAnalysis,
-        improvementSuggestions: analysisResult.improvementSuggestions,
-        analyzedAt: new Date(),
-        feedbackVersion: '1.0'
-      };
-    } catch (error: unknown) {
-      console.error('Failed to analyze counselor response:', error);
-      // Return default feedback if analysis fails
-      return {
-        aiAnalysis: 'Analysis temporarily unavailable. Please try again later.',
-        analyzedAt: new Date(),
-        feedbackVersion: '1.0'
-      };
+  // Parse the model's rating into response feedback
+  static parseResponseFeedback(analysisText: string): ResponseFeedback {
+    const jsonMatch = analysisText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Invalid analysis format');
     }
+
+    const analysisResult = JSON.parse(jsonMatch[0]);
+
+    return {
+      empathyScore: analysisResult.empathyScore,
+      culturalSensitivityScore: analysisResult.culturalSensitivityScore,
+      questioningScore: analysisResult.questioningScore,
+      goalOrientationScore: analysisResult.goalOrientationScore,
+      professionalismScore: analysisResult.professionalismScore,
+      overallRating: analysisResult.overallRating,
+      aiAnalysis: analysisResult.aiAnalysis,
+      improvementSuggestions: analysisResult.improvementSuggestions,
+      analyzedAt: new Date(),
+      feedbackVersion: '1.0'
+    };
   }
 
-  // Generate conversation title from messages
+  // Generate conversation title from messages (the model runs server-side in /api/title)
   static async generateConversationTitle(messages: OpenAIMessage[]): Promise<string> {
     try {
-      const titlePrompt = `
+      const data = await ApiClient.post<{ title: string }>('/api/title', { messages });
+      return data.title;
+    } catch (error) {
+      console.error('Failed to generate title:', error);
+      return `Session ${new Date().toLocaleDateString()}`;
+    }
+  }
+
+  // Build the messages sent to the model to title a conversation
+  static buildTitleMessages(messages: OpenAIMessage[]): OpenAIMessage[] {
+    const titlePrompt = `
         Based on this mental health conversation, generate a short, descriptive title (3-6 words max).
         Focus on the main topic or concern discussed. Be sensitive and avoid clinical language.
 
@@ -336,76 +426,43 @@ export class OpenAIService {
         Generate only the title, no additional text:
       `;
 
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ENV.OPENAI_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo', // Use cheaper model for title generation
-          messages: [
-            { role: 'user', content: titlePrompt }
-          ],
-          max_tokens: 20,
-          temperature: 0.5
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
+    return [
+      { role: 'user', content: titlePrompt }
+    ];
+  }
 
-      const data = await response.json();
-      return data.choices[0].message.content.trim();
-    } catch (error) {
-      console.error('Failed to generate title:', error);
-      return `Session ${new Date().toLocaleDateString()}`;
-    }
+  // Classify the crisis risk of a message (the model runs server-side in /api/crisis-check)
+  static async classifyCrisisRisk(message: string): Promise<CrisisClassification> {
+    const data = await ApiClient.post<{ classification: CrisisClassification }>('/api/crisis-check', { message });
+    return data.classification;
   }
 
-  // Check if message indicates crisis situation
-  static async detectCrisis(message: string): Promise<boolean> {
-    try {
-      const crisisPrompt = `
-        Analyze this message for signs of immediate mental health crisis, including:
-        - Suicidal thoughts or self-harm
+  // Build the messages sent to the model for crisis risk classification
+  static buildCrisisMessages(message: string): OpenAIMessage[] {
+    const crisisPrompt = `
+        Assess this message from a student for signs of a mental health crisis, including:
+        - Suicidal thoughts, plans or intent
+        - Self-harm
         - Immediate danger to self or others
+        - Abuse or an unsafe living situation
         - Severe psychological distress requiring immediate intervention
 
         Message: "${message}"
 
-        Respond with only "CRISIS" or "SAFE". Be cautious - err on the side of safety.
-      `;
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${ENV.OPENAI_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: 'You are a crisis detection system. Be extremely cautious and prioritize safety.' },
-            { role: 'user', content: crisisPrompt }
-          ],
-          max_tokens: 10,
-          temperature: 0.1
-        })
-      });
+        Respond with JSON only, in this exact format:
+        {
+          "riskLevel": "none" | "low" | "moderate" | "high" | "imminent",
+          "rationale": "<one or two sentences explaining the level>"
+        }
 
-      if (!response.ok) {
-        // If API fails, err on the side of caution
-        return true;
-      }
+        Use "imminent" for a stated plan, intent or means; "high" for active suicidal or self-harm ideation
+        or danger to others; "moderate" for passive ideation or hopelessness without intent.
+        Be cautious - when unsure between two levels, choose the higher one.
+      `;
 
-      const data = await response.json();
-      return data.choices[0].message.content.trim().toUpperCase().includes('CRISIS');
-    } catch (error) {
-      console.error('Crisis detection failed:', error);
-      // If detection fails, assume crisis to be safe
-      return true;
-    }
+    return [
+      { role: 'system', content: 'You are a crisis risk classifier for a student mental health service. Be extremely cautious and prioritize safety.' },
+      { role: 'user', content: crisisPrompt }
+    ];
   }
 }
\ No newline at end of file
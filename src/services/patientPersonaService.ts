@@ -0,0 +1,177 @@
+// Library of saved simulated patients
+// The persona document holds the latest version; each save also writes an immutable copy to its
+// versions subcollection, so a session can be replayed against the exact version it used.
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  runTransaction,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { TrainingSessionService } from './trainingSessionService';
+import {
+  PatientPersona,
+  PatientPersonaDraft,
+  PatientPersonaPrompt,
+  PersonaAttemptComparison,
+  SimulatedPatient
+} from '../types/SimulatedPatient';
+
+const PERSONAS_COLLECTION = 'patient_personas';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+const cleanList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+const fromFirestore = (id: string, data: DocumentData): PatientPersona => ({
+  ...data,
+  id,
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate()
+} as PatientPersona);
+
+export class PatientPersonaService {
+  // Save a new persona, or a new version of an existing one
+  static async savePersona(
+    draft: PatientPersonaDraft,
+    author: { id: string; name?: string },
+    personaId?: string
+  ): Promise<PatientPersona> {
+    try {
+      const personaRef = personaId
+        ? doc(db, PERSONAS_COLLECTION, personaId)
+        : doc(collection(db, PERSONAS_COLLECTION));
+
+      const prompt: PatientPersonaPrompt = {
+        basePersona: draft.prompt.basePersona.trim(),
+        culturalNuances: cleanList(draft.prompt.culturalNuances),
+        commonResponses: cleanList(draft.prompt.commonResponses),
+        progressionStages: cleanList(draft.prompt.progressionStages),
+        triggerTopics: cleanList(draft.prompt.triggerTopics),
+        culturalStrengths: cleanList(draft.prompt.culturalStrengths)
+      };
+
+      return await runTransaction(db, async (transaction) => {
+        const existing = personaId ? await transaction.get(personaRef) : null;
+        if (personaId && !existing?.exists()) {
+          throw new Error('Persona not found');
+        }
+
+        const now = new Date();
+        const current = existing?.exists() ? fromFirestore(existing.id, existing.data()) : null;
+        const persona: Omit<PatientPersona, 'id'> = {
+          version: (current?.version || 0) + 1,
+          profile: {
+            ...draft.profile,
+            name: draft.profile.name.trim(),
+            backstory: draft.profile.backstory.trim(),
+            personalityTraits: cleanList(draft.profile.personalityTraits),
+            sessionGoals: cleanList(draft.profile.sessionGoals),
+            culturalFactors: cleanList(draft.profile.culturalFactors)
+          },
+          prompt,
+          ...(draft.openingMessage?.trim() && { openingMessage: draft.openingMessage.trim() }),
+          ...(draft.changeNote?.trim() && { changeNote: draft.changeNote.trim() }),
+          authorId: current?.authorId || author.id,
+          ...((current?.authorName || author.name) && { authorName: current?.authorName || author.name }),
+          shared: draft.shared,
+          createdAt: current?.createdAt || now,
+          updatedAt: now
+        };
+
+        transaction.set(personaRef, persona);
+        transaction.set(doc(personaRef, VERSIONS_SUBCOLLECTION, String(persona.version)), persona);
+        return { id: personaRef.id, ...persona };
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to save persona: ' + errorMessage);
+    }
+  }
+
+  // Sharing applies to every version and does not create a new one
+  static async setShared(personaId: string, shared: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, PERSONAS_COLLECTION, personaId), { shared });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to update persona sharing: ' + errorMessage);
+    }
+  }
+
+  // Shared personas plus the user's own, most recently updated first
+  static async getLibrary(userId: string): Promise<PatientPersona[]> {
+    try {
+      const [sharedSnapshot, ownSnapshot] = await Promise.all([
+        getDocs(query(collection(db, PERSONAS_COLLECTION), where('shared', '==', true))),
+        getDocs(query(collection(db, PERSONAS_COLLECTION), where('authorId', '==', userId)))
+      ]);
+
+      const personas = new Map<string, PatientPersona>();
+      [...sharedSnapshot.docs, ...ownSnapshot.docs].forEach(personaDoc => {
+        personas.set(personaDoc.id, fromFirestore(personaDoc.id, personaDoc.data()));
+      });
+
+      return [...personas.values()].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load persona library: ' + errorMessage);
+    }
+  }
+
+  // Every saved version of a persona, newest first
+  static async getVersions(personaId: string): Promise<PatientPersona[]> {
+    try {
+      const snapshot = await getDocs(collection(db, PERSONAS_COLLECTION, personaId, VERSIONS_SUBCOLLECTION));
+      return snapshot.docs
+        .map(versionDoc => fromFirestore(personaId, versionDoc.data()))
+        .sort((a, b) => b.version - a.version);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load persona versions: ' + errorMessage);
+    }
+  }
+
+  // The patient a session runs against. The id stays the persona id, so replays are recognisable
+  static toPatient(persona: PatientPersona): SimulatedPatient {
+    return {
+      id: persona.id,
+      ...persona.profile,
+      personaPrompt: persona.prompt
+    };
+  }
+
+  // How a counselor's attempts at the same persona compare
+  static async getAttemptComparison(counselorId: string, personaId: string): Promise<PersonaAttemptComparison> {
+    const sessions = await TrainingSessionService.getPersonaTrainingSessions(counselorId, personaId);
+
+    const attempts = sessions
+      .filter(session => session.sessionOutcome === 'completed')
+      .map(session => ({
+        sessionId: session.id,
+        personaVersion: session.personaVersion || 1,
+        sessionStarted: session.sessionStarted,
+        messageCount: session.messages.length,
+        ...(session.sessionDuration !== undefined && { sessionDuration: session.sessionDuration }),
+        ...(session.analysisResults && { analysisResults: session.analysisResults })
+      }))
+      .sort((a, b) => a.sessionStarted.getTime() - b.sessionStarted.getTime());
+
+    const overallScores = attempts
+      .filter(attempt => attempt.analysisResults)
+      .map(attempt => attempt.analysisResults!.overallScore);
+
+    return {
+      personaId,
+      attempts,
+      scoredAttempts: overallScores.length,
+      ...(overallScores.length > 0 && { bestOverallScore: Math.max(...overallScores) }),
+      ...(overallScores.length > 1 && {
+        overallScoreChange: Math.round((overallScores[overallScores.length - 1] - overallScores[0]) * 10) / 10
+      })
+    };
+  }
+}
@@ -1,22 +1,23 @@
-import OpenAI from 'openai';
-import { ENV } from '../config/env';
+import { ApiClient } from './apiClient';
+import { AnalysisValidationService } from './analysisValidationService';
+import { PatientStateService } from './patientStateService';
 import { 
   SimulatedPatient, 
   PatientGenerationOptions, 
   MentalHealthConcern, 
   Gender, 
   SimulationMessage,
+  PatientPersonaPrompt,
+  PatientEmotionalState,
+  PatientTurnResult,
   PERSONALITY_TRAITS
 } from '../types/SimulatedPatient';
 import { CulturalBackground } from '../types/User';
+import { LLMMessage, ValidationFailureDetails } from '../types/LLM';
 import { CULTURAL_BACKGROUNDS_INFO } from '../types/Feedback';
+import { DEFAULT_PERSONA_PROMPTS } from '../config/patientPersonaPrompts';
 
 export class PatientSimulationService {
-  private static openai = new OpenAI({
-    apiKey: ENV.OPENAI_API_KEY,
-    dangerouslyAllowBrowser: true // Note: In production, move this to backend
-  });
-
   // Generate a random simulated patient
   static generateRandomPatient(options: PatientGenerationOptions = {}): SimulatedPatient {
     const culturalBackgrounds: CulturalBackground[] = [
@@ -48,6 +49,8 @@ export class PatientSimulationService {
     const selectedTraits = this.shuffleArray([...PERSONALITY_TRAITS])
       .slice(0, numTraits);
 
+    const personaPrompt = DEFAULT_PERSONA_PROMPTS[culturalBackground]?.[concern];
+
     const patient: SimulatedPatient = {
       id: `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       name: this.generateName(culturalBackground, gender),
@@ -61,59 +64,88 @@ export class PatientSimulationService {
       communicationStyle: this.getCommunicationStyle(culturalBackground),
       emotionalExpression: this.getEmotionalExpression(culturalBackground, selectedTraits),
       trustLevel: this.getTrustLevel(culturalBackground, concern),
-      culturalFactors: this.getCulturalFactors(culturalBackground, concern)
+      culturalFactors: this.getCulturalFactors(culturalBackground, concern),
+      ...(personaPrompt && { personaPrompt })
     };
 
     return patient;
   }
 
-  // Generate patient response during conversation
+  // Generate patient response during conversation (the model runs server-side in /api/simulate-patient).
+  // The route scores the counselor's message, moves the emotional state and replies from the new state
   static async generatePatientResponse(
     patient: SimulatedPatient,
     conversationHistory: SimulationMessage[],
     counselorMessage: string,
+    emotionalState: PatientEmotionalState,
     additionalSystemContext?: string
-  ): Promise<string> {
+  ): Promise<PatientTurnResult> {
     try {
-      const prompt = this.buildPatientPrompt(patient, conversationHistory, counselorMessage);
+      const data = await ApiClient.post<PatientTurnResult & { validationFailure?: ValidationFailureDetails }>('/api/simulate-patient', {
+        patient,
+        conversationHistory,
+        counselorMessage,
+        emotionalState,
+        additionalSystemContext
+      });
 
-      let systemPrompt = this.getPatientSystemPrompt();
-      if (additionalSystemContext) {
-        systemPrompt += '\n\nADDITIONAL CONTEXT:\n' + additionalSystemContext;
+      // The reply still arrives when the turn could not be assessed; the state just stays where it was
+      if (data.validationFailure) {
+        await AnalysisValidationService.recordFailure(data.validationFailure, conversationHistory[0]?.sessionId);
       }
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8, // Higher temperature for more natural, varied responses
-        max_tokens: 200
-      });
-
-      const rawResponse = response.choices[0]?.message?.content || '';
-      return this.cleanPatientResponse(rawResponse);
+      return {
+        content: data.content,
+        state: data.state,
+        ...(data.assessment && { assessment: data.assessment }),
+        ...(data.emotionalTone && { emotionalTone: data.emotionalTone }),
+        ...(data.culturalReferences && { culturalReferences: data.culturalReferences })
+      };
     } catch (error: unknown) {
       console.error('Failed to generate patient response:', error);
-      return this.getFallbackResponse(patient, counselorMessage);
+      return {
+        content: this.getFallbackResponse(patient, counselorMessage),
+        state: emotionalState
+      };
     }
   }
 
+  // Build the roleplay messages sent to the model for the patient's next turn
+  static buildPatientMessages(
+    patient: SimulatedPatient,
+    conversationHistory: SimulationMessage[],
+    counselorMessage: string,
+    emotionalState: PatientEmotionalState,
+    additionalSystemContext?: string
+  ): LLMMessage[] {
+    const prompt = this.buildPatientPrompt(patient, conversationHistory, counselorMessage, emotionalState);
+
+    let systemPrompt = this.getPatientSystemPrompt();
+    if (additionalSystemContext) {
+      systemPrompt += '\n\nADDITIONAL CONTEXT:\n' + additionalSystemContext;
+    }
+
+    return [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+  }
+
   // Build the patient persona prompt
   private static buildPatientPrompt(
     patient: SimulatedPatient, 
     conversationHistory: SimulationMessage[], 
-    counselorMessage: string
+    counselorMessage: string,
+    emotionalState: PatientEmotionalState
   ): string {
     const culturalInfo = CULTURAL_BACKGROUNDS_INFO[patient.culturalBackground];
-    const personaPrompt = this.getPersonaPrompt(patient);
+    const personaPrompt = this.getPersonaPrompt(patient, emotionalState);
 
     const historyText = conversationHistory
       .slice(-4) // Last 4 messages for context
@@ -126,6 +158,8 @@ PATIENT ROLEPLAY CONTEXT:
 PATIENT PROFILE:
 ${personaPrompt}
 
+${PatientStateService.describeForPrompt(emotionalState)}
+
 CONVERSATION HISTORY:
 ${historyText}
 
@@ -140,7 +174,7 @@ CULTURAL CONTEXT FOR ${patient.culturalBackground.toUpperCase()}:
 RESPONSE GUIDELINES:
 1. Stay completely in character as ${patient.name}
 2. Respond authentically based on their cultural background and personality
-3. Show realistic emotional progression based on counselor's cultural competency
+3. Show the emotional state above; it reflects how the counselor has treated you so far
 4. Reference cultural elements naturally when relevant
 5. React to how well the counselor understands your cultural context
 6. Keep response conversational and realistic (2-4 sentences typically)
@@ -150,8 +184,11 @@ Generate ${patient.name}'s response to the counselor's message:
   }
 
   // Get persona prompt for specific patient
-  private static getPersonaPrompt(patient: SimulatedPatient): string {
-    
+  private static getPersonaPrompt(patient: SimulatedPatient, emotionalState: PatientEmotionalState): string {
+    const authored = patient.personaPrompt
+      ? '\n\n' + this.getAuthoredPersonaPrompt(patient.personaPrompt, emotionalState)
+      : '';
+
     return `
 You are ${patient.name}, a ${patient.age}-year-old ${patient.gender} college student with ${patient.culturalBackground} cultural background.
 
@@ -170,7 +207,38 @@ TRUST LEVEL: ${patient.trustLevel} - ${this.getTrustDescription(patient.trustLev
 CULTURAL FACTORS: ${patient.culturalFactors.join(', ')}
 
 SESSION GOALS: ${patient.sessionGoals.join(', ')}
-    `.trim();
+    `.trim() + authored;
+  }
+
+  // Roleplay detail written for the persona: nuances, triggers and how far the patient has opened up
+  private static getAuthoredPersonaPrompt(prompt: PatientPersonaPrompt, emotionalState: PatientEmotionalState): string {
+    const sections = [`PERSONA NOTES: ${prompt.basePersona}`];
+
+    if (prompt.culturalNuances.length > 0) {
+      sections.push(`CULTURAL NUANCES:\n${prompt.culturalNuances.map(nuance => `- ${nuance}`).join('\n')}`);
+    }
+    if (prompt.culturalStrengths.length > 0) {
+      sections.push(`CULTURAL STRENGTHS YOU MAY DRAW ON: ${prompt.culturalStrengths.join(', ')}`);
+    }
+    if (prompt.commonResponses.length > 0) {
+      sections.push(`THINGS YOU TEND TO SAY (use the spirit, not the exact words):\n${prompt.commonResponses.map(line => `- "${line}"`).join('\n')}`);
+    }
+    if (prompt.triggerTopics.length > 0) {
+      sections.push(`SENSITIVE TOPICS: ${prompt.triggerTopics.join('; ')}. If the counselor raises one of these carelessly, become noticeably more guarded, defensive or upset.`);
+    }
+    if (prompt.progressionStages.length > 0) {
+      // Stages are spread evenly over disclosure depth, so the patient only moves on as trust is earned
+      const stageIndex = Math.min(
+        prompt.progressionStages.length - 1,
+        Math.floor((emotionalState.disclosureDepth / 100) * prompt.progressionStages.length)
+      );
+      sections.push(
+        `HOW YOU OPEN UP OVER THE SESSION:\n${prompt.progressionStages.map((stage, index) => `${index + 1}. ${stage}`).join('\n')}\n` +
+        `You are currently at stage ${stageIndex + 1}. Do not share what belongs to later stages yet.`
+      );
+    }
+
+    return sections.join('\n\n');
   }
 
   // System prompt for patient roleplay
@@ -349,7 +417,7 @@ Your goal is to provide realistic training scenarios that help counselors improv
     return descriptions[trust] || descriptions.medium;
   }
 
-  private static cleanPatientResponse(content: string): string {
+  static cleanPatientResponse(content: string): string {
     return content
       .replace(/^\*+|\*+$/g, '') // Remove asterisks
       .replace(/\*([^*]+)\*/g, '$1') // Remove italic formatting
@@ -0,0 +1,161 @@
+// Emotional state of a simulated patient across a training session
+// Each counselor message is scored for empathy, validation and cultural attunement; those scores move
+// the patient's trust, distress, disclosure depth and engagement, and the resulting state is written
+// into the roleplay prompt for the patient's reply.
+import {
+  SimulatedPatient,
+  SimulationMessage,
+  PatientEmotionalState,
+  CounselorTurnAssessment
+} from '../types/SimulatedPatient';
+import { LLMMessage } from '../types/LLM';
+
+const STARTING_TRUST: Record<SimulatedPatient['trustLevel'], number> = { high: 55, medium: 40, low: 25 };
+
+// How quickly trust is earned; low-trust patients also lose it faster after a misstep
+const TRUST_GAIN_RATE: Record<SimulatedPatient['trustLevel'], number> = { high: 12, medium: 9, low: 6 };
+const TRUST_LOSS_RATE: Record<SimulatedPatient['trustLevel'], number> = { high: 8, medium: 10, low: 14 };
+
+// Disclosure gained per well-received turn
+const DISCLOSURE_STEP: Record<SimulatedPatient['emotionalExpression'], number> = { open: 14, selective: 10, reserved: 7 };
+const STARTING_DISCLOSURE: Record<SimulatedPatient['emotionalExpression'], number> = { open: 20, selective: 10, reserved: 5 };
+
+const TRIGGER_TRUST_PENALTY = 12;
+const TRIGGER_DISTRESS_PENALTY = 10;
+
+const clamp = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+// Short words that say nothing about which cultural factor was referenced
+const STOPWORDS = new Set(['with', 'from', 'their', 'about', 'that', 'this', 'into', 'they']);
+
+export class PatientStateService {
+  static initialState(patient: SimulatedPatient): PatientEmotionalState {
+    const trust = STARTING_TRUST[patient.trustLevel] ?? STARTING_TRUST.medium;
+    return {
+      trust,
+      distress: 65,
+      disclosureDepth: Math.min(trust, STARTING_DISCLOSURE[patient.emotionalExpression] ?? STARTING_DISCLOSURE.selective),
+      engagement: patient.trustLevel === 'low' ? 40 : 55
+    };
+  }
+
+  // Move the state after one counselor message
+  static applyTurn(
+    state: PatientEmotionalState,
+    assessment: CounselorTurnAssessment,
+    patient: SimulatedPatient
+  ): PatientEmotionalState {
+    // Turn quality from -1 (harmful) to 1 (excellent); 5.5 on the 1-10 scales is neutral
+    const weighted = assessment.empathy * 0.35 + assessment.validation * 0.3 + assessment.culturalAttunement * 0.35;
+    const quality = Math.max(-1, Math.min(1, (weighted - 5.5) / 4.5));
+    const triggers = assessment.triggeredTopics.length;
+
+    const trustChange = quality >= 0
+      ? quality * (TRUST_GAIN_RATE[patient.trustLevel] ?? TRUST_GAIN_RATE.medium)
+      : quality * (TRUST_LOSS_RATE[patient.trustLevel] ?? TRUST_LOSS_RATE.medium);
+    const trust = clamp(state.trust + trustChange - triggers * TRIGGER_TRUST_PENALTY);
+
+    // Feeling validated eases distress more once the patient trusts the counselor
+    const validationRelief = ((assessment.validation - 5.5) / 4.5) * (trust >= 50 ? 8 : 4);
+    const distress = clamp(state.distress - validationRelief - quality * 2 + triggers * TRIGGER_DISTRESS_PENALTY);
+
+    const engagement = clamp(state.engagement + quality * 8 - triggers * 6);
+
+    // Patients never share more than their trust allows; a poor turn makes them pull back a little
+    const step = DISCLOSURE_STEP[patient.emotionalExpression] ?? DISCLOSURE_STEP.selective;
+    const pullback = quality < 0 || triggers > 0 ? 4 : 0;
+    const disclosureDepth = clamp(Math.min(
+      trust,
+      pullback > 0 ? state.disclosureDepth - pullback : state.disclosureDepth + quality * step
+    ));
+
+    return { trust, distress, disclosureDepth, engagement };
+  }
+
+  // One-word tone for the patient's reply in this state
+  static describeTone(state: PatientEmotionalState): string {
+    if (state.distress >= 80) return 'overwhelmed';
+    if (state.trust < 25) return 'guarded';
+    if (state.engagement < 30) return 'withdrawn';
+    if (state.trust >= 60 && state.disclosureDepth >= 55) return 'open';
+    if (state.trust >= 55 && state.distress <= 40) return 'hopeful';
+    if (state.trust < 45) return 'hesitant';
+    return 'reflective';
+  }
+
+  // Roleplay instructions for the state; the patient prompt includes these verbatim
+  static describeForPrompt(state: PatientEmotionalState): string {
+    const band = (value: number, low: string, mid: string, high: string) =>
+      value < 35 ? low : value < 65 ? mid : high;
+
+    return `
+CURRENT EMOTIONAL STATE (0-100, updated after the counselor's latest message):
+- Trust ${state.trust}: ${band(state.trust, 'you doubt this counselor gets you; keep answers short and test them', 'you are cautiously willing to talk but watch how they respond', 'you feel safe with this counselor and speak more freely')}
+- Distress ${state.distress}: ${band(state.distress, 'you feel calmer and can think about next steps', 'you are worried but can hold a conversation', 'you are upset and it shows in how you talk')}
+- Disclosure depth ${state.disclosureDepth}: ${band(state.disclosureDepth, 'share only surface-level facts', 'share some feelings and context, but keep the most personal details back', 'share the personal, painful parts of your story')}
+- Engagement ${state.engagement}: ${band(state.engagement, 'you are tempted to disengage; give minimal replies', 'you respond to questions without volunteering much', 'you are invested and volunteer thoughts')}
+Your reply must fit this state; overall you come across as ${this.describeTone(state)}.
+    `.trim();
+  }
+
+  // Messages asking the model to score how the counselor's latest message landed with the patient
+  static buildAssessmentMessages(
+    patient: SimulatedPatient,
+    conversationHistory: SimulationMessage[],
+    counselorMessage: string
+  ): LLMMessage[] {
+    const historyText = conversationHistory
+      .slice(-6)
+      .map(msg => `${msg.senderType.toUpperCase()}: ${msg.content}`)
+      .join('\n');
+
+    const sensitiveTopics = patient.personaPrompt?.triggerTopics || [];
+
+    return [
+      {
+        role: 'system',
+        content: 'You assess counselor messages in cultural competency training simulations. You score how a single counselor message would land with the patient described, and respond only with JSON.'
+      },
+      {
+        role: 'user',
+        content: `
+PATIENT: ${patient.name}, ${patient.age}, ${patient.culturalBackground} background, struggling with ${patient.mentalHealthConcern}.
+BACKSTORY: ${patient.backstory}
+CULTURAL FACTORS: ${patient.culturalFactors.join(', ')}
+SENSITIVE TOPICS: ${sensitiveTopics.length > 0 ? sensitiveTopics.join('; ') : 'none listed; judge from the cultural factors'}
+
+RECENT CONVERSATION:
+${historyText}
+
+COUNSELOR'S LATEST MESSAGE:
+"${counselorMessage}"
+
+Score only the latest message, from the patient's point of view:
+- empathy (1-10): does it show the counselor understands how the patient feels?
+- validation (1-10): does it treat the patient's feelings and situation as legitimate, rather than minimizing or rushing to fix?
+- culturalAttunement (1-10): does it respect and engage with the patient's cultural context without stereotyping?
+- triggeredTopics: sensitive topics the message raised carelessly (empty if none)
+- culturalReferences: the patient's cultural factors the message engaged with (empty if none)
+- tone: one or two words describing the counselor's tone
+
+Respond with JSON: {"empathy": number, "validation": number, "culturalAttunement": number, "triggeredTopics": [string], "culturalReferences": [string], "tone": string}
+        `.trim()
+      }
+    ];
+  }
+
+  // Cultural factors and strengths of the patient that a reply mentions
+  static findCulturalReferences(content: string, patient: SimulatedPatient): string[] {
+    const text = content.toLowerCase();
+    const candidates = [...patient.culturalFactors, ...(patient.personaPrompt?.culturalStrengths || [])];
+
+    // A factor matches when every meaningful word in one of its alternatives ("church/spirituality")
+    // appears in the reply, compared on the first five letters so "expects" matches "expectations"
+    const mentions = (phrase: string) => phrase.toLowerCase().split('/').some(alternative => {
+      const words = alternative.split(/[^a-z]+/).filter(word => word.length > 3 && !STOPWORDS.has(word));
+      return words.length > 0 && words.every(word => text.includes(word.substring(0, 5)));
+    });
+
+    return [...new Set(candidates.filter(mentions))];
+  }
+}
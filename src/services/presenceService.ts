@@ -0,0 +1,236 @@
+// Presence and typing indicators for conversations
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  onSnapshot,
+  documentId,
+  DocumentReference
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { ConversationParticipant, PresenceState, UserPresence } from '../types';
+
+const PRESENCE_COLLECTION = 'presence';
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Clients that miss two heartbeats are treated as offline (covers crashes and lost connections)
+const ONLINE_TIMEOUT_MS = 2.5 * 60 * 1000;
+// Typing stops being published after this long without input
+const TYPING_IDLE_MS = 4000;
+// Minimum gap between typing writes so fast typists don't flood Firestore
+const TYPING_WRITE_INTERVAL_MS = 2000;
+// Readers ignore a typing flag older than this
+const TYPING_STALE_MS = 10 * 1000;
+
+export interface TypingPublisher {
+  notifyTyping: () => void; // Call on every keystroke; writes are throttled
+  stop: () => void; // Clear typing state, e.g. after sending
+}
+
+export class PresenceService {
+  // Participant document refs by conversationId:userId (participant docs have generated IDs)
+  private static participantRefs = new Map<string, DocumentReference>();
+  // The signed-in user's presence session (one per browser tab)
+  private static session: { userId: string; userType: UserPresence['userType']; activeConversationId: string | null } | null = null;
+
+  // Publish this user's presence until the returned cleanup function is called
+  static connect(user: { uid: string; userType: UserPresence['userType'] }): () => void {
+    this.session = { userId: user.uid, userType: user.userType, activeConversationId: null };
+
+    const currentState = (): PresenceState => document.visibilityState === 'hidden' ? 'away' : 'online';
+
+    this.publish('online');
+    const heartbeat = setInterval(() => this.publish(currentState()), HEARTBEAT_INTERVAL_MS);
+
+    const handleVisibilityChange = () => this.publish(currentState());
+    const handlePageHide = () => this.publish('offline');
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      this.publish('offline');
+      this.session = null;
+    };
+  }
+
+  // Record which conversation the user has open (null when they leave it)
+  static setActiveConversation(conversationId: string | null): void {
+    if (!this.session) return;
+    this.session.activeConversationId = conversationId;
+    this.publish(document.visibilityState === 'hidden' ? 'away' : 'online');
+  }
+
+  private static publish(state: PresenceState): void {
+    if (!this.session) return;
+    const { userId, userType, activeConversationId } = this.session;
+    this.setPresence(userId, userType, state, activeConversationId).catch(error =>
+      console.warn('Failed to update presence:', error)
+    );
+  }
+
+  static async setPresence(
+    userId: string,
+    userType: UserPresence['userType'],
+    state: PresenceState,
+    activeConversationId: string | null = null
+  ): Promise<void> {
+    const presence: UserPresence = {
+      userId,
+      userType,
+      state,
+      lastSeenAt: new Date(),
+      activeConversationId
+    };
+
+    await setDoc(doc(db, PRESENCE_COLLECTION, userId), presence, { merge: true });
+  }
+
+  // Effective state, downgrading to offline when the heartbeat has stopped
+  static getEffectiveState(presence: UserPresence | undefined, now: Date = new Date()): PresenceState {
+    if (!presence || presence.state === 'offline') return 'offline';
+    return now.getTime() - presence.lastSeenAt.getTime() > ONLINE_TIMEOUT_MS ? 'offline' : presence.state;
+  }
+
+  static isParticipantTyping(participant: ConversationParticipant, now: Date = new Date()): boolean {
+    if (!participant.isTyping) return false;
+    return !participant.typingUpdatedAt || now.getTime() - participant.typingUpdatedAt.getTime() < TYPING_STALE_MS;
+  }
+
+  // Typing state for one user in one conversation, written only on transitions and throttled
+  static createTypingPublisher(conversationId: string, userId: string): TypingPublisher {
+    let isTyping = false;
+    let lastWriteAt = 0;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const write = (typing: boolean) => {
+      isTyping = typing;
+      lastWriteAt = Date.now();
+      this.updateParticipant(conversationId, userId, { isTyping: typing, typingUpdatedAt: new Date() }).catch(error =>
+        console.warn('Failed to update typing state:', error)
+      );
+    };
+
+    const stop = () => {
+      if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+      }
+      if (isTyping) write(false);
+    };
+
+    return {
+      notifyTyping: () => {
+        // Starting to type is always published (even right after stop() wrote false); while typing
+        // continues the flag is refreshed, throttled, so readers don't treat it as stale
+        if (!isTyping) {
+          write(true);
+        } else if (Date.now() - lastWriteAt > TYPING_STALE_MS / 2 && Date.now() - lastWriteAt >= TYPING_WRITE_INTERVAL_MS) {
+          write(true);
+        }
+        if (idleTimer) clearTimeout(idleTimer);
+        idleTimer = setTimeout(stop, TYPING_IDLE_MS);
+      },
+      stop
+    };
+  }
+
+  // Real-time participants of a conversation
+  static subscribeToParticipants(
+    conversationId: string,
+    callback: (participants: ConversationParticipant[]) => void
+  ) {
+    const q = query(
+      collection(db, 'conversation_participants'),
+      where('conversationId', '==', conversationId)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      const participants = snapshot.docs.map(doc => ({
+        ...doc.data(),
+        joinedAt: doc.data().joinedAt?.toDate(),
+        lastReadAt: doc.data().lastReadAt?.toDate(),
+        typingUpdatedAt: doc.data().typingUpdatedAt?.toDate()
+      } as ConversationParticipant));
+
+      callback(participants);
+    });
+  }
+
+  // Real-time presence for a set of users (Firestore 'in' queries take at most 10 IDs)
+  static subscribeToUserPresence(
+    userIds: string[],
+    callback: (presence: Record<string, UserPresence>) => void
+  ) {
+    const ids = userIds.slice(0, 10);
+    if (ids.length === 0) {
+      callback({});
+      return () => {};
+    }
+
+    const q = query(collection(db, PRESENCE_COLLECTION), where(documentId(), 'in', ids));
+
+    return onSnapshot(q, (snapshot) => {
+      const presence: Record<string, UserPresence> = {};
+      snapshot.docs.forEach(doc => {
+        presence[doc.id] = {
+          ...doc.data(),
+          lastSeenAt: doc.data().lastSeenAt?.toDate()
+        } as UserPresence;
+      });
+
+      callback(presence);
+    });
+  }
+
+  // Counselors with a live heartbeat (feeds QueueStats.counselorsOnline)
+  static async getOnlineCounselorCount(): Promise<number> {
+    try {
+      const q = query(
+        collection(db, PRESENCE_COLLECTION),
+        where('userType', '==', 'counselor'),
+        where('state', '==', 'online')
+      );
+
+      const snapshot = await getDocs(q);
+      const now = new Date();
+      return snapshot.docs.filter(doc => {
+        const presence = { ...doc.data(), lastSeenAt: doc.data().lastSeenAt?.toDate() } as UserPresence;
+        return this.getEffectiveState(presence, now) === 'online';
+      }).length;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to count online counselors: ' + errorMessage);
+    }
+  }
+
+  private static async updateParticipant(
+    conversationId: string,
+    userId: string,
+    updates: Partial<ConversationParticipant>
+  ): Promise<void> {
+    const key = `${conversationId}:${userId}`;
+    let participantRef = this.participantRefs.get(key);
+
+    if (!participantRef) {
+      const snapshot = await getDocs(query(
+        collection(db, 'conversation_participants'),
+        where('conversationId', '==', conversationId),
+        where('userId', '==', userId)
+      ));
+      if (snapshot.empty) return; // Observers without a participant record don't publish typing
+
+      participantRef = snapshot.docs[0].ref;
+      this.participantRefs.set(key, participantRef);
+    }
+
+    await updateDoc(participantRef, updates);
+  }
+}
@@ -0,0 +1,216 @@
+// Counselor queue routing: scores pending conversations and support requests for a specific counselor
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  Conversation,
+  CounselorRoutingContext,
+  CulturalBackground,
+  Language,
+  Message,
+  MessagePriority,
+  NextBestPick,
+  QueueItem,
+  RankedQueueItem,
+  RoutingScoreBreakdown,
+  User
+} from '../types';
+
+// Keywords that map message content to the topic tags counselors specialize in.
+// Keywords match whole words; a trailing * also matches longer words starting with the stem.
+const TAG_KEYWORDS: Record<string, string[]> = {
+  anxiety: ['anxi*', 'panic*', 'worr*', 'nervous', 'ansiedad', 'nervios*'],
+  stress: ['stress*', 'overwhelm*', 'pressure*', 'burnout', 'estrés', 'estres*', 'presión'],
+  depression: ['depress*', 'sad', 'sadness', 'empty', 'numb', 'depresi*', 'triste*'],
+  family: ['famil*', 'parent*', 'mother*', 'father*', 'mom', 'moms', 'dad', 'dads', 'sibling*', 'padre*', 'madre*'],
+  relationships: ['relationship*', 'boyfriend*', 'girlfriend*', 'partner*', 'breakup*', 'friend*', 'relación', 'pareja*', 'amig*'],
+  academic: ['academic*', 'exam', 'exams', 'class', 'classes', 'grade*', 'study', 'studying', 'professor*', 'homework', 'examen', 'exámenes', 'clase*', 'estudi*'],
+  career: ['career*', 'job', 'jobs', 'internship*', 'interview*', 'future', 'trabajo*', 'carrera*'],
+  identity: ['identity', 'who i am', 'belong*', 'identidad'],
+  cultural: ['cultur*', 'immigra*', 'international', 'racis*', 'discriminat*', 'homesick*'],
+  social: ['social*', 'lonely', 'loneliness', 'alone', 'isolat*', 'solo', 'soledad']
+};
+
+// Letter-aware boundaries (\b treats accented letters as non-word characters)
+const TAG_PATTERNS: Record<string, RegExp[]> = Object.fromEntries(
+  Object.entries(TAG_KEYWORDS).map(([tag, keywords]) => [tag, keywords.map(keyword => {
+    const isStem = keyword.endsWith('*');
+    const body = (isStem ? keyword.slice(0, -1) : keyword)
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<!\\p{L})${body}${isStem ? '\\p{L}*' : ''}(?!\\p{L})`, 'iu');
+  })])
+);
+
+const PRIORITY_POINTS: Record<MessagePriority, number> = {
+  urgent: 40,
+  high: 25,
+  medium: 12,
+  low: 5
+};
+
+const PINNED_BONUS = 100; // Crisis-pinned items always outrank everything else
+const WAIT_POINTS_PER_MINUTE = 1 / 6;
+const MAX_WAIT_POINTS = 20; // Reached after two hours
+const SPECIALIZATION_POINTS = 8;
+const MAX_SPECIALIZATION_POINTS = 16;
+const LANGUAGE_MATCH_POINTS = 10;
+const LANGUAGE_MISMATCH_POINTS = -10;
+const CULTURAL_MATCH_POINTS = 6;
+const MAX_LOAD_PENALTY = 15;
+const DEFAULT_CAPACITY = 5;
+
+export class QueueRoutingService {
+  // Detect topic tags in message content
+  static detectTags(content: string): string[] {
+    return Object.keys(TAG_PATTERNS).filter(tag =>
+      TAG_PATTERNS[tag].some(pattern => pattern.test(content))
+    );
+  }
+
+  static fromConversation(conversation: Conversation): QueueItem {
+    return {
+      kind: 'conversation',
+      id: conversation.id,
+      priority: conversation.priority,
+      waitingSince: conversation.createdAt || conversation.lastMessageAt,
+      tags: conversation.tags || [],
+      culturalContext: conversation.culturalContext,
+      studentLanguage: conversation.studentLanguage,
+      pinnedAt: conversation.pinnedAt
+    };
+  }
+
+  static fromMessage(message: Message): QueueItem {
+    return {
+      kind: 'support-request',
+      id: message.id,
+      priority: message.priority,
+      waitingSince: message.timestamp,
+      tags: message.tags || [],
+      culturalContext: message.culturalContext,
+      studentLanguage: message.studentLanguage,
+      pinnedAt: message.pinnedAt
+    };
+  }
+
+  // Load a counselor's specializations, languages, cultural competencies and current load
+  static async getRoutingContext(counselorId: string): Promise<CounselorRoutingContext> {
+    try {
+      const [userDoc, conversationsSnapshot, claimedSnapshot] = await Promise.all([
+        getDoc(doc(db, 'users', counselorId)),
+        getDocs(query(
+          collection(db, 'conversations'),
+          where('counselorId', '==', counselorId),
+          where('status', '==', 'active')
+        )),
+        getDocs(query(
+          collection(db, 'messages'),
+          where('claimedBy', '==', counselorId),
+          where('status', '==', 'claimed')
+        ))
+      ]);
+
+      const profile = userDoc.exists() ? (userDoc.data() as User).counselorProfile : undefined;
+
+      return {
+        counselorId,
+        specializations: (profile?.specializations || []).map(specialization => specialization.toLowerCase()),
+        languages: profile?.languages?.length ? profile.languages : ['en'],
+        culturalCompetencies: profile?.culturalCompetencies || [],
+        activeLoad: conversationsSnapshot.size + claimedSnapshot.size,
+        capacity: profile?.maxActiveConversations
+          || (profile?.availability?.hoursPerWeek ? Math.min(10, Math.max(1, Math.ceil(profile.availability.hoursPerWeek / 4))) : DEFAULT_CAPACITY)
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load counselor routing context: ' + errorMessage);
+    }
+  }
+
+  // Score a single queue item for a counselor
+  static scoreItem(item: QueueItem, context: CounselorRoutingContext, now: Date = new Date()): Omit<RankedQueueItem<QueueItem>, 'item'> {
+    const waitMinutes = Math.max(0, (now.getTime() - item.waitingSince.getTime()) / 60000);
+    const matchedSpecializations = item.tags.filter(tag =>
+      context.specializations.some(specialization => specialization.includes(tag) || tag.includes(specialization))
+    );
+    const languageMatch = item.studentLanguage ? context.languages.includes(item.studentLanguage) : null;
+    const culturalMatch = this.isCulturalMatch(item.culturalContext, context);
+
+    // Busy counselors are steered towards urgent work; urgent items carry no load penalty
+    const loadRatio = Math.min(1, context.activeLoad / context.capacity);
+    const isUrgent = item.priority === 'urgent' || Boolean(item.pinnedAt);
+
+    const breakdown: RoutingScoreBreakdown = {
+      priority: PRIORITY_POINTS[item.priority] + (item.pinnedAt ? PINNED_BONUS : 0),
+      waitTime: Math.min(MAX_WAIT_POINTS, waitMinutes * WAIT_POINTS_PER_MINUTE),
+      specialization: Math.min(MAX_SPECIALIZATION_POINTS, matchedSpecializations.length * SPECIALIZATION_POINTS),
+      language: languageMatch === null ? 0 : languageMatch ? LANGUAGE_MATCH_POINTS : LANGUAGE_MISMATCH_POINTS,
+      culture: culturalMatch ? CULTURAL_MATCH_POINTS : 0,
+      load: isUrgent ? 0 : -loadRatio * MAX_LOAD_PENALTY
+    };
+
+    return {
+      score: Math.round(Object.values(breakdown).reduce((sum, points) => sum + points, 0) * 10) / 10,
+      breakdown,
+      matchedSpecializations,
+      languageMatch,
+      culturalMatch
+    };
+  }
+
+  // Students who did not share a background are never counted as a match
+  static isCulturalMatch(culturalContext: CulturalBackground | undefined, context: CounselorRoutingContext): boolean {
+    if (!culturalContext || culturalContext === 'prefer-not-to-say' || culturalContext === 'other') return false;
+    return context.culturalCompetencies.includes(culturalContext);
+  }
+
+  // Rank items for a counselor, best match first (ties go to the longest wait)
+  static rankItems<T>(
+    items: T[],
+    toQueueItem: (item: T) => QueueItem,
+    context: CounselorRoutingContext
+  ): RankedQueueItem<T>[] {
+    const now = new Date();
+
+    return items
+      .map(item => {
+        const queueItem = toQueueItem(item);
+        return { waitingSince: queueItem.waitingSince, ranked: { item, ...this.scoreItem(queueItem, context, now) } };
+      })
+      .sort((a, b) => b.ranked.score - a.ranked.score || a.waitingSince.getTime() - b.waitingSince.getTime())
+      .map(entry => entry.ranked);
+  }
+
+  // Whether the counselor should be offered non-urgent work
+  static hasCapacity(context: CounselorRoutingContext): boolean {
+    return context.activeLoad < context.capacity;
+  }
+
+  // Pick the best item, skipping non-urgent work when the counselor is at capacity
+  static pickNextBest<T>(ranked: RankedQueueItem<T>[], context: CounselorRoutingContext, toQueueItem: (item: T) => QueueItem): NextBestPick<T> {
+    if (ranked.length === 0) {
+      return { match: null, reason: 'queue-empty' };
+    }
+
+    if (this.hasCapacity(context)) {
+      return { match: ranked[0] };
+    }
+
+    const urgent = ranked.find(entry => {
+      const queueItem = toQueueItem(entry.item);
+      return queueItem.priority === 'urgent' || Boolean(queueItem.pinnedAt);
+    });
+    return urgent ? { match: urgent } : { match: null, reason: 'at-capacity' };
+  }
+
+  static describeLanguage(language: Language): string {
+    return language === 'es' ? 'Spanish' : 'English';
+  }
+}
@@ -0,0 +1,109 @@
+// Re-running stored analyses under another rubric version, and comparing score distributions across versions.
+// Re-runs are queued as deferred analyses; the job runner writes their scores to rubric_reruns, so the
+// feedback counselors already saw is never replaced.
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  Firestore
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { DeferredAnalysisService } from './deferredAnalysisService';
+import { RubricService } from './rubricService';
+import { RerunnableRubricKind, RubricRerun, RubricScoreSample, RubricVersionComparison } from '../types';
+
+const RERUNS_COLLECTION = 'rubric_reruns';
+
+export const RERUN_SOURCE_COLLECTIONS: Record<RerunnableRubricKind, string> = {
+  'response-analysis': 'ai_feedback',
+  'conversation-analysis': 'conversation_feedback'
+};
+
+// Most recent stored results considered for re-runs and comparisons
+const MAX_SOURCES = 500;
+
+export class RubricRerunService {
+  // Queue up to maxItems recent results not yet scored under the version; returns how many were queued
+  static async queueReruns(kind: RerunnableRubricKind, rubricVersion: string, maxItems: number): Promise<number> {
+    // Fails early for a version that is not in the registry
+    RubricService.getRubric(kind, rubricVersion);
+
+    try {
+      const [sources, reruns, pending] = await Promise.all([
+        this.getSourceSamples(kind),
+        this.getReruns(kind),
+        DeferredAnalysisService.getPendingReruns(kind, rubricVersion)
+      ]);
+
+      const alreadyScored = new Set([
+        ...reruns.filter(rerun => rerun.rubricVersion === rubricVersion).map(rerun => rerun.sourceId),
+        ...pending.map(analysis => analysis.targetId)
+      ]);
+      const toQueue = sources
+        .filter(source => source.version !== rubricVersion && !alreadyScored.has(source.sourceId))
+        .slice(0, maxItems);
+
+      for (const source of toQueue) {
+        await DeferredAnalysisService.enqueueRerun(kind, rubricVersion, source.sourceId);
+      }
+      return toQueue.length;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to queue re-runs: ' + errorMessage);
+    }
+  }
+
+  // Written by the job runner once a re-run completes
+  static async saveRerun(rerun: Omit<RubricRerun, 'id'>, database: Firestore = db): Promise<string> {
+    const docRef = await addDoc(collection(database, RERUNS_COLLECTION), rerun);
+    return docRef.id;
+  }
+
+  static async getReruns(kind: RerunnableRubricKind): Promise<RubricRerun[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, RERUNS_COLLECTION), where('kind', '==', kind)));
+      return snapshot.docs.map(rerunDoc => ({
+        id: rerunDoc.id,
+        ...rerunDoc.data(),
+        analyzedAt: rerunDoc.data().analyzedAt?.toDate()
+      } as RubricRerun));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load re-runs: ' + errorMessage);
+    }
+  }
+
+  // Original and re-run scores of recent results, by rubric version
+  static async getComparison(kind: RerunnableRubricKind): Promise<RubricVersionComparison> {
+    const [sources, reruns] = await Promise.all([this.getSourceSamples(kind), this.getReruns(kind)]);
+    const sourceIds = new Set(sources.map(source => source.sourceId));
+
+    return RubricService.compareVersions(kind, [
+      ...sources,
+      // Re-runs of results outside the loaded window are left out, so the comparison stays within the same recent results
+      ...reruns
+        .filter(rerun => sourceIds.has(rerun.sourceId))
+        .map(rerun => ({ sourceId: rerun.sourceId, version: rerun.rubricVersion, scores: rerun.scores, isRerun: true }))
+    ]);
+  }
+
+  // Scores of recent stored results under the version they were analyzed with
+  private static async getSourceSamples(kind: RerunnableRubricKind): Promise<RubricScoreSample[]> {
+    const snapshot = await getDocs(query(
+      collection(db, RERUN_SOURCE_COLLECTIONS[kind]),
+      orderBy('analyzedAt', 'desc'),
+      limit(MAX_SOURCES)
+    ));
+
+    return snapshot.docs.map(sourceDoc => {
+      const data = sourceDoc.data();
+      const version = data.analysisVersion || RubricService.getRubric(kind).version;
+      const rubric = RubricService.findRubric(kind, version) || RubricService.getRubric(kind);
+      return { sourceId: sourceDoc.id, version, scores: RubricService.resultScores(kind, rubric, data), isRerun: false };
+    });
+  }
+}
@@ -0,0 +1,181 @@
+// Analysis rubric registry lookups, and score distributions for comparing rubric versions
+import { ACTIVE_RUBRIC_VERSIONS, ANALYSIS_RUBRICS } from '../config/analysisRubrics';
+import {
+  AnalysisRubric,
+  RerunnableRubricKind,
+  RubricKind,
+  RubricPairedDifference,
+  RubricScoreDistribution,
+  RubricScoreSample,
+  RubricVersionComparison
+} from '../types/Rubric';
+
+// Object holding the dimension scores, in both the model output and the stored result
+const SCORE_CONTAINERS: Record<RerunnableRubricKind, string> = {
+  'response-analysis': 'scores',
+  'conversation-analysis': 'overallPerformance'
+};
+
+export class RubricService {
+  // The active version unless a version is given
+  static getRubric(kind: RubricKind, version?: string): AnalysisRubric {
+    const rubric = this.findRubric(kind, version || ACTIVE_RUBRIC_VERSIONS[kind]);
+    if (!rubric) {
+      throw new Error(`Unknown ${kind} rubric version: ${version}`);
+    }
+    return rubric;
+  }
+
+  static findRubric(kind: RubricKind, version: string): AnalysisRubric | undefined {
+    return ANALYSIS_RUBRICS.find(rubric => rubric.kind === kind && rubric.version === version);
+  }
+
+  static listVersions(kind: RubricKind): AnalysisRubric[] {
+    return ANALYSIS_RUBRICS.filter(rubric => rubric.kind === kind);
+  }
+
+  static isActive(rubric: AnalysisRubric): boolean {
+    return ACTIVE_RUBRIC_VERSIONS[rubric.kind] === rubric.version;
+  }
+
+  // Fill the rubric's {{placeholder}} user prompt
+  static renderUserPrompt(rubric: AnalysisRubric, values: Record<string, string>): string {
+    if (!rubric.userPromptTemplate) {
+      throw new Error(`The ${rubric.kind} rubric has no user prompt template`);
+    }
+    return rubric.userPromptTemplate.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+  }
+
+  // Dimension scores plus the overall score, taken from a stored result or model output
+  static pickScores(rubric: AnalysisRubric, scores: object): Record<string, number> {
+    const values = scores as Record<string, unknown>;
+    return Object.fromEntries(
+      [...rubric.dimensions.map(dimension => dimension.key), rubric.overallKey]
+        .filter(key => typeof values[key] === 'number')
+        .map(key => [key, values[key] as number])
+    );
+  }
+
+  // Scores in a stored result or raw model output of a re-runnable analysis
+  static resultScores(kind: RerunnableRubricKind, rubric: AnalysisRubric, result: unknown): Record<string, number> {
+    const container = (result as Record<string, unknown> | null)?.[SCORE_CONTAINERS[kind]];
+    return this.pickScores(rubric, typeof container === 'object' && container !== null ? container : {});
+  }
+
+  // Scores from a re-run's model output; unlike the live analyses there is no fallback, so a bad
+  // response fails the re-run instead of adding neutral scores to the distribution
+  static extractRerunScores(kind: RerunnableRubricKind, rubric: AnalysisRubric, output: unknown): Record<string, number> {
+    const scores = this.resultScores(kind, rubric, output);
+    const missing = [...rubric.dimensions.map(dimension => dimension.key), rubric.overallKey]
+      .filter(key => !(scores[key] >= 1 && scores[key] <= 10));
+    if (missing.length > 0) {
+      throw new Error('Analysis output is missing scores for: ' + missing.join(', '));
+    }
+    return scores;
+  }
+
+  // Overall score recomputed from the dimensions with the rubric's weights, so versions that weight
+  // dimensions differently, or whose model-reported overall drifts, stay comparable
+  static weightedScore(rubric: AnalysisRubric, scores: Record<string, number>): number {
+    const scored = rubric.dimensions.filter(dimension => typeof scores[dimension.key] === 'number');
+    const totalWeight = scored.reduce((sum, dimension) => sum + dimension.weight, 0);
+    if (totalWeight === 0) return scores[rubric.overallKey] ?? 0;
+
+    return scored.reduce((sum, dimension) => sum + scores[dimension.key] * dimension.weight, 0) / totalWeight;
+  }
+
+  // Distribution per version, and the mean change for results scored under more than one version
+  static compareVersions(kind: RerunnableRubricKind, samples: RubricScoreSample[]): RubricVersionComparison {
+    // Results stored under versions that are no longer registered are weighted with the active rubric
+    const rubricFor = (version: string) => this.findRubric(kind, version) || this.getRubric(kind);
+    const versions = [...new Set(samples.map(sample => sample.version))].sort((a, b) => parseFloat(a) - parseFloat(b));
+
+    const distributions = versions.map(version => {
+      const rubric = rubricFor(version);
+      const members = samples.filter(sample => sample.version === version);
+      return this.distribution(version, rubric, members);
+    });
+
+    const pairs = new Map<string, Array<{ from: RubricScoreSample; to: RubricScoreSample }>>();
+    const bySource = new Map<string, RubricScoreSample[]>();
+    samples.forEach(sample => bySource.set(sample.sourceId, [...(bySource.get(sample.sourceId) || []), sample]));
+    bySource.forEach(sourceSamples => {
+      const original = sourceSamples.find(sample => !sample.isRerun);
+      if (!original) return;
+      sourceSamples
+        .filter(sample => sample.isRerun && sample.version !== original.version)
+        .forEach(rerun => {
+          const key = `${original.version}→${rerun.version}`;
+          pairs.set(key, [...(pairs.get(key) || []), { from: original, to: rerun }]);
+        });
+    });
+
+    const pairedDifferences: RubricPairedDifference[] = Array.from(pairs.values()).map(members => {
+      const fromRubric = rubricFor(members[0].from.version);
+      const toRubric = rubricFor(members[0].to.version);
+      const sharedKeys = toRubric.dimensions
+        .map(dimension => dimension.key)
+        .filter(key => fromRubric.dimensions.some(dimension => dimension.key === key));
+
+      return {
+        fromVersion: members[0].from.version,
+        toVersion: members[0].to.version,
+        pairs: members.length,
+        meanDifference: this.round(this.average(members.map(pair =>
+          this.weightedScore(toRubric, pair.to.scores) - this.weightedScore(fromRubric, pair.from.scores)))),
+        dimensionDifferences: Object.fromEntries(sharedKeys.map(key => [
+          key,
+          this.round(this.average(members
+            .filter(pair => typeof pair.from.scores[key] === 'number' && typeof pair.to.scores[key] === 'number')
+            .map(pair => pair.to.scores[key] - pair.from.scores[key])))
+        ]))
+      };
+    });
+
+    return { kind, distributions, pairedDifferences };
+  }
+
+  private static distribution(version: string, rubric: AnalysisRubric, samples: RubricScoreSample[]): RubricScoreDistribution {
+    const scores = samples.map(sample => this.weightedScore(rubric, sample.scores)).sort((a, b) => a - b);
+    const mean = this.average(scores);
+    const histogram = new Array(10).fill(0);
+    scores.forEach(score => {
+      histogram[Math.min(10, Math.max(1, Math.round(score))) - 1]++;
+    });
+
+    return {
+      version,
+      count: scores.length,
+      rerunCount: samples.filter(sample => sample.isRerun).length,
+      mean: this.round(mean),
+      standardDeviation: this.round(Math.sqrt(this.average(scores.map(score => (score - mean) ** 2)))),
+      p25: this.round(this.percentile(scores, 0.25)),
+      median: this.round(this.percentile(scores, 0.5)),
+      p75: this.round(this.percentile(scores, 0.75)),
+      histogram,
+      dimensionMeans: Object.fromEntries(rubric.dimensions.map(dimension => [
+        dimension.key,
+        this.round(this.average(samples
+          .map(sample => sample.scores[dimension.key])
+          .filter(score => typeof score === 'number')))
+      ]))
+    };
+  }
+
+  // Linear interpolation between closest ranks of sorted values
+  private static percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) return 0;
+    const position = (sorted.length - 1) * fraction;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,56 @@
+// Server-side verification of Firebase ID tokens for API routes
+import { ENV } from '../config/env';
+
+export interface VerifiedUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+// The Auth emulator serves the Identity Toolkit API under its own host
+const IDENTITY_TOOLKIT_URL = process.env.VITE_USE_FIREBASE_EMULATOR === 'true'
+  ? 'http://127.0.0.1:9099/identitytoolkit.googleapis.com/v1'
+  : 'https://identitytoolkit.googleapis.com/v1';
+
+export class ServerAuthService {
+  // Verify the Bearer token on a request; returns null when missing or invalid
+  static async verifyRequest(request: Request): Promise<VerifiedUser | null> {
+    const authorization = request.headers.get('authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const idToken = authorization.slice('Bearer '.length).trim();
+    if (!idToken) {
+      return null;
+    }
+
+    try {
+      // accounts:lookup only succeeds for an unexpired token issued for this project
+      const response = await fetch(`${IDENTITY_TOOLKIT_URL}/accounts:lookup?key=${ENV.FIREBASE_CONFIG.apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ idToken })
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json();
+      const account = data.users?.[0];
+      if (!account?.localId) {
+        return null;
+      }
+
+      return {
+        uid: account.localId,
+        email: account.email || null,
+        emailVerified: Boolean(account.emailVerified)
+      };
+    } catch (error) {
+      console.error('Failed to verify ID token:', error);
+      return null;
+    }
+  }
+}
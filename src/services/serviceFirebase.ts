@@ -0,0 +1,44 @@
+// Firebase app for the server's admin service account (server-only): used by the job runner and
+// by API routes that write records clients must not create themselves.
+// Kept separate from the shared app in firebase.ts: signing that one in would give every other
+// server-side Firestore call in the process the service account's admin privileges.
+import { getApp, getApps, initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { getFirestore, initializeFirestore, Firestore } from 'firebase/firestore';
+import { ENV } from '../config/env';
+
+const SERVICE_APP_NAME = 'aimes-service';
+
+function getServiceApp() {
+  if (getApps().some(app => app.name === SERVICE_APP_NAME)) return getApp(SERVICE_APP_NAME);
+
+  const app = initializeApp(ENV.FIREBASE_CONFIG, SERVICE_APP_NAME);
+  // Analysis records are written as built from model output, where optional fields may be undefined
+  initializeFirestore(app, { ignoreUndefinedProperties: true });
+  return app;
+}
+
+let signInPromise: Promise<unknown> | null = null;
+
+// Firestore signed in as the service account; Firestore rules require an authenticated admin
+export async function getServiceDb(): Promise<Firestore> {
+  if (typeof window !== 'undefined') {
+    throw new Error('The service account is only available on the server');
+  }
+
+  const app = getServiceApp();
+  const serviceAuth = getAuth(app);
+
+  if (!serviceAuth.currentUser) {
+    if (!ENV.JOBS.SERVICE_EMAIL || !ENV.JOBS.SERVICE_PASSWORD) {
+      throw new Error('Job runner credentials are not configured (JOBS_SERVICE_EMAIL / JOBS_SERVICE_PASSWORD)');
+    }
+
+    // Concurrent callers share one sign-in
+    signInPromise = signInPromise || signInWithEmailAndPassword(serviceAuth, ENV.JOBS.SERVICE_EMAIL, ENV.JOBS.SERVICE_PASSWORD)
+      .finally(() => { signInPromise = null; });
+    await signInPromise;
+  }
+
+  return getFirestore(app);
+}
@@ -0,0 +1,282 @@
+// Supervisor review of AI feedback.
+// Supervisors score responses the AI already scored, without seeing the AI scores first; the paired
+// scores give per-dimension agreement (MAE, bias, Cohen's kappa) and show where the AI rubric drifts.
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  AIFeedback,
+  AgreementGroup,
+  CalibrationReport,
+  DimensionAgreement,
+  FeedbackScores,
+  SupervisorReview,
+  SCORE_THRESHOLDS
+} from '../types/Feedback';
+
+const REVIEWS_COLLECTION = 'supervisor_reviews';
+const FEEDBACK_COLLECTION = 'ai_feedback';
+
+// Recent unflagged feedback mixed into the queue, so agreement is not only measured on hard cases
+const UNFLAGGED_SAMPLE_SIZE = 50;
+
+// Groups smaller than this are shown but not used to call out drift
+const MIN_PAIRS = 5;
+const BIAS_LIMIT = 1;
+const KAPPA_LIMIT = 0.4;
+
+export const FEEDBACK_DIMENSIONS: (keyof FeedbackScores)[] = [
+  'culturalSensitivity',
+  'culturalAwareness',
+  'empathy',
+  'professionalism',
+  'actionability',
+  'questionQuality',
+  'languageAppropriate',
+  'responseLength',
+  'overall'
+];
+
+export class SupervisorReviewService {
+  // Feedback still waiting for a supervisor: flagged responses first, then optionally a recent unflagged sample
+  static async getReviewQueue(includeUnflagged = false): Promise<AIFeedback[]> {
+    try {
+      const flaggedSnapshot = await getDocs(query(
+        collection(db, FEEDBACK_COLLECTION),
+        where('flaggedForReview', '==', true)
+      ));
+      const flagged = flaggedSnapshot.docs
+        .map(feedbackDoc => this.feedbackFromDoc(feedbackDoc.id, feedbackDoc.data()))
+        .sort((a, b) => b.analyzedAt.getTime() - a.analyzedAt.getTime());
+
+      let sample: AIFeedback[] = [];
+      if (includeUnflagged) {
+        const recentSnapshot = await getDocs(query(
+          collection(db, FEEDBACK_COLLECTION),
+          orderBy('analyzedAt', 'desc'),
+          limit(UNFLAGGED_SAMPLE_SIZE)
+        ));
+        sample = recentSnapshot.docs
+          .map(feedbackDoc => this.feedbackFromDoc(feedbackDoc.id, feedbackDoc.data()))
+          .filter(f => !f.flaggedForReview);
+      }
+
+      return [...flagged, ...sample].filter(f => !f.supervisorReviewId);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load review queue: ' + errorMessage);
+    }
+  }
+
+  // Save a supervisor's scores and link them from the feedback
+  static async submitReview(
+    feedback: AIFeedback,
+    reviewer: { id: string; name?: string },
+    scores: FeedbackScores,
+    notes?: string
+  ): Promise<SupervisorReview> {
+    if (FEEDBACK_DIMENSIONS.some(dimension => !(scores[dimension] >= 1 && scores[dimension] <= 10))) {
+      throw new Error('Scores must be between 1 and 10');
+    }
+    if (feedback.supervisorReviewId) {
+      throw new Error('This feedback has already been reviewed');
+    }
+
+    try {
+      const reviewRef = doc(collection(db, REVIEWS_COLLECTION));
+      const reviewData: Omit<SupervisorReview, 'id'> = {
+        feedbackId: feedback.id,
+        counselorId: feedback.counselorId,
+        reviewerId: reviewer.id,
+        ...(reviewer.name && { reviewerName: reviewer.name }),
+        scores,
+        ...(notes?.trim() && { notes: notes.trim() }),
+        wasFlagged: feedback.flaggedForReview,
+        reviewedAt: new Date(),
+        aiScores: feedback.scores,
+        aiModel: feedback.aiModel,
+        analysisVersion: feedback.analysisVersion,
+        culturalBackground: feedback.responseContext.culturalBackground,
+        analyzedAt: feedback.analyzedAt
+      };
+
+      const batch = writeBatch(db);
+      batch.set(reviewRef, reviewData);
+      batch.update(doc(db, FEEDBACK_COLLECTION, feedback.id), { supervisorReviewId: reviewRef.id });
+      await batch.commit();
+
+      return { id: reviewRef.id, ...reviewData };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to submit supervisor review: ' + errorMessage);
+    }
+  }
+
+  static async getReviews(dateFrom?: Date): Promise<SupervisorReview[]> {
+    try {
+      const snapshot = await getDocs(collection(db, REVIEWS_COLLECTION));
+      return snapshot.docs
+        .map(reviewDoc => ({
+          id: reviewDoc.id,
+          ...reviewDoc.data(),
+          reviewedAt: reviewDoc.data().reviewedAt?.toDate(),
+          analyzedAt: reviewDoc.data().analyzedAt?.toDate()
+        } as SupervisorReview))
+        .filter(review => !dateFrom || review.analyzedAt >= dateFrom);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error('Failed to load supervisor reviews: ' + errorMessage);
+    }
+  }
+
+  static async getCalibrationReport(dateFrom?: Date): Promise<CalibrationReport> {
+    return this.buildCalibrationReport(await this.getReviews(dateFrom));
+  }
+
+  static buildCalibrationReport(reviews: SupervisorReview[]): CalibrationReport {
+    const sorted = [...reviews].sort((a, b) => a.analyzedAt.getTime() - b.analyzedAt.getTime());
+    const overall = this.agreement(sorted);
+    const byWeek = this.groupBy(sorted, review => this.weekStart(review.analyzedAt));
+    const byAnalysisVersion = this.groupBy(sorted, review => `${review.aiModel} v${review.analysisVersion}`);
+
+    return {
+      generatedAt: new Date(),
+      totalPairs: sorted.length,
+      flaggedPairs: sorted.filter(review => review.wasFlagged).length,
+      overall,
+      byWeek,
+      byCulture: this.groupBy(sorted, review => review.culturalBackground),
+      byAnalysisVersion,
+      driftingDimensions: this.findDrift(overall, byWeek, byAnalysisVersion)
+    };
+  }
+
+  // Dimensions where the AI is biased, disagrees with supervisors, or has moved over time or across versions
+  private static findDrift(
+    overall: DimensionAgreement[],
+    byWeek: AgreementGroup[],
+    byVersion: AgreementGroup[]
+  ): CalibrationReport['driftingDimensions'] {
+    const weeks = byWeek.filter(group => group.pairs >= MIN_PAIRS);
+    const versions = byVersion.filter(group => group.pairs >= MIN_PAIRS);
+
+    return FEEDBACK_DIMENSIONS.flatMap(dimension => {
+      const reasons: string[] = [];
+      const stats = overall.find(item => item.dimension === dimension);
+
+      if (stats && stats.pairs >= MIN_PAIRS) {
+        if (Math.abs(stats.bias) >= BIAS_LIMIT) {
+          reasons.push(`AI scores ${Math.abs(stats.bias)} points ${stats.bias > 0 ? 'higher' : 'lower'} than supervisors on average`);
+        }
+        if (stats.kappa < KAPPA_LIMIT) {
+          reasons.push(`Low agreement on score bands (kappa ${stats.kappa})`);
+        }
+      }
+
+      const biasIn = (group: AgreementGroup) => group.dimensions.find(item => item.dimension === dimension)?.bias ?? 0;
+
+      if (weeks.length >= 2) {
+        const first = weeks[0];
+        const last = weeks[weeks.length - 1];
+        if (Math.abs(biasIn(last) - biasIn(first)) >= BIAS_LIMIT) {
+          reasons.push(`Bias moved from ${biasIn(first)} (week of ${first.label}) to ${biasIn(last)} (week of ${last.label})`);
+        }
+      }
+
+      if (versions.length >= 2) {
+        const biases = versions.map(group => ({ label: group.label, bias: biasIn(group) }));
+        const lowest = biases.reduce((a, b) => (b.bias < a.bias ? b : a));
+        const highest = biases.reduce((a, b) => (b.bias > a.bias ? b : a));
+        if (highest.bias - lowest.bias >= BIAS_LIMIT) {
+          reasons.push(`Bias differs between ${lowest.label} (${lowest.bias}) and ${highest.label} (${highest.bias})`);
+        }
+      }
+
+      return reasons.length > 0 ? [{ dimension, reasons }] : [];
+    });
+  }
+
+  private static groupBy(reviews: SupervisorReview[], keyOf: (review: SupervisorReview) => string): AgreementGroup[] {
+    const groups = new Map<string, SupervisorReview[]>();
+    reviews.forEach(review => {
+      const key = keyOf(review);
+      groups.set(key, [...(groups.get(key) || []), review]);
+    });
+
+    return Array.from(groups.entries()).map(([label, members]) => ({
+      label,
+      pairs: members.length,
+      dimensions: this.agreement(members)
+    }));
+  }
+
+  private static agreement(reviews: SupervisorReview[]): DimensionAgreement[] {
+    return FEEDBACK_DIMENSIONS.map(dimension => {
+      const pairs = reviews.map(review => ({ ai: review.aiScores[dimension], human: review.scores[dimension] }));
+      const differences = pairs.map(pair => pair.ai - pair.human);
+
+      return {
+        dimension,
+        pairs: pairs.length,
+        meanAbsoluteError: this.round(this.average(differences.map(Math.abs))),
+        bias: this.round(this.average(differences)),
+        kappa: Math.round(this.cohensKappa(pairs.map(pair => [this.band(pair.ai), this.band(pair.human)])) * 100) / 100
+      };
+    });
+  }
+
+  // Unweighted Cohen's kappa between two raters' category assignments
+  private static cohensKappa(ratings: Array<[number, number]>): number {
+    if (ratings.length === 0) return 0;
+
+    const categories = [...new Set(ratings.flat())];
+    const observed = ratings.filter(([a, b]) => a === b).length / ratings.length;
+    const expected = categories.reduce((sum, category) => {
+      const first = ratings.filter(([a]) => a === category).length / ratings.length;
+      const second = ratings.filter(([, b]) => b === category).length / ratings.length;
+      return sum + first * second;
+    }, 0);
+
+    // Both raters used a single identical category throughout
+    if (expected === 1) return observed === 1 ? 1 : 0;
+    return (observed - expected) / (1 - expected);
+  }
+
+  // Score band used for kappa: poor, needs improvement, fair, good, excellent
+  private static band(score: number): number {
+    if (score < SCORE_THRESHOLDS.POOR) return 0;
+    if (score < SCORE_THRESHOLDS.NEEDS_IMPROVEMENT) return 1;
+    if (score < SCORE_THRESHOLDS.GOOD) return 2;
+    if (score < SCORE_THRESHOLDS.EXCELLENT) return 3;
+    return 4;
+  }
+
+  // Monday of the week, as YYYY-MM-DD
+  private static weekStart(date: Date): string {
+    const monday = new Date(date);
+    monday.setHours(0, 0, 0, 0);
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
+  }
+
+  private static feedbackFromDoc(id: string, data: DocumentData): AIFeedback {
+    return { id, ...data, analyzedAt: data.analyzedAt?.toDate() } as AIFeedback;
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
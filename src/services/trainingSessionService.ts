@@ -17,6 +17,7 @@ import {
   SimulationMessage, 
   SessionAnalysisResults
 } from '../types/SimulatedPatient';
+import { ConversationFeedback } from '../types/Feedback';
 
 export class TrainingSessionService {
   private static readonly TRAINING_SESSIONS_COLLECTION = 'trainingSessions';
@@ -113,6 +114,52 @@ export class TrainingSessionService {
     }
   }
 
+  // Get a counselor's sessions with one library persona, across all of its versions
+  static async getPersonaTrainingSessions(counselorId: string, personaId: string): Promise<SimulationSession[]> {
+    try {
+      const q = query(
+        collection(db, this.TRAINING_SESSIONS_COLLECTION),
+        where('counselorId', '==', counselorId),
+        where('personaId', '==', personaId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          sessionStarted: data.sessionStarted.toDate(),
+          sessionEnded: data.sessionEnded ? data.sessionEnded.toDate() : undefined,
+          messages: data.messages.map((msg: {timestamp: {toDate(): Date}, [key: string]: unknown}) => ({
+            ...msg,
+            timestamp: msg.timestamp.toDate()
+          }))
+        } as SimulationSession;
+      });
+    } catch (error) {
+      console.error('Failed to fetch persona training sessions:', error);
+      throw new Error('Failed to fetch persona training sessions');
+    }
+  }
+
+  // Summary scores kept on the session, so attempts can be compared without re-running the analysis
+  static toSessionAnalysisResults(
+    feedback: Pick<ConversationFeedback, 'overallPerformance' | 'conversationAnalysis'>
+  ): SessionAnalysisResults {
+    return {
+      culturalCompetencyScore: feedback.overallPerformance.culturalSensitivity,
+      empathyScore: feedback.overallPerformance.empathy,
+      therapeuticProgressScore: feedback.overallPerformance.therapeuticProgress,
+      sessionFlowScore: feedback.overallPerformance.conversationFlow,
+      overallScore: feedback.overallPerformance.overallScore,
+      strengths: feedback.conversationAnalysis.strengths,
+      improvements: feedback.conversationAnalysis.weaknesses,
+      culturalHighlights: feedback.conversationAnalysis.goodCulturalMoments,
+      missedOpportunities: feedback.conversationAnalysis.culturalMisses
+    };
+  }
+
   // Get a specific training session
   static async getTrainingSession(sessionId: string): Promise<SimulationSession | null> {
     try {
@@ -47,4 +47,5 @@ export interface CBTExerciseFeedback {
   strengths: string[];
   improvements: string[];
   modelResponse: string;
+  analysisVersion?: string;
 }
@@ -77,10 +77,24 @@ export interface MessageEdit {
 export interface MessageAttachment {
   id: string;
   type: 'image' | 'document' | 'link' | 'resource';
-  url: string;
+  url: string; // gs:// storage reference for uploaded files, web address for links and resources
   name: string;
   size?: number;
   mimeType?: string;
+  thumbnailUrl?: string; // gs:// storage reference to a generated preview (images only)
+  uploadedBy?: string;
+  description?: string; // Short note shown under links and resources
+}
+
+// Attachment details included in conversation exports (file locations are left out)
+export interface AttachmentExportMetadata {
+  id: string;
+  type: MessageAttachment['type'];
+  name: string;
+  size?: number;
+  mimeType?: string;
+  url?: string; // Links and resources only
+  hasThumbnail: boolean;
 }
 
 // Chat context and state management
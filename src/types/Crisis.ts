@@ -0,0 +1,53 @@
+// Crisis detection and escalation types
+import { CulturalBackground, Language } from './User';
+
+export type CrisisRiskLevel = 'none' | 'low' | 'moderate' | 'high' | 'imminent';
+
+export type CrisisIndicatorCategory = 'suicidal-ideation' | 'self-harm' | 'harm-to-others' | 'hopelessness' | 'abuse';
+
+export type CrisisEscalationAction = 'priority-urgent' | 'pinned-to-queue' | 'resources-injected';
+
+// Result of the fast local keyword/regex screen
+export interface CrisisScreenResult {
+  flagged: boolean;
+  categories: CrisisIndicatorCategory[];
+  matchedIndicators: string[]; // The phrases that triggered the screen
+}
+
+// Output of the LLM risk classifier
+export interface CrisisClassification {
+  riskLevel: CrisisRiskLevel;
+  rationale: string;
+}
+
+// Combined result of all detection stages for a single message
+export interface CrisisAssessment extends CrisisClassification {
+  screen: CrisisScreenResult;
+  classifiedBy: 'screen' | 'llm' | 'fallback'; // fallback = classifier unavailable, screen result used
+  shouldEscalate: boolean;
+  assessedAt: Date;
+}
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  description: string;
+}
+
+// Audit record written to crisis_events for every escalation
+export interface CrisisEvent {
+  id: string;
+  studentId: string;
+  source: 'conversation' | 'support-request' | 'journal-entry';
+  conversationId?: string;
+  messageId: string; // conversation_messages, messages or journal_entries document that triggered the event
+  riskLevel: CrisisRiskLevel;
+  rationale: string;
+  classifiedBy: CrisisAssessment['classifiedBy'];
+  categories: CrisisIndicatorCategory[];
+  matchedIndicators: string[];
+  actions: CrisisEscalationAction[];
+  culturalContext: CulturalBackground;
+  language: Language;
+  createdAt: Date;
+}
@@ -53,6 +53,7 @@ export interface ConversationAnalysisContext {
     senderType: 'student' | 'counselor' | 'ai';
     timestamp: Date;
     messageNumber: number;
+    replyToMessageNumber?: number; // Earlier message this one explicitly replies to
   }>;
   
   // Conversation metadata
@@ -79,6 +80,27 @@ export interface ConversationAnalysisContext {
   };
 }
 
+// Explicit reply (ConversationMessage.replyTo) between two numbered messages
+export interface ReplyLink {
+  replyMessageNumber: number;
+  replySenderType: 'student' | 'counselor' | 'ai';
+  targetMessageNumber: number;
+  targetSenderType: 'student' | 'counselor' | 'ai';
+  skippedStudentTurns: number[];    // Student messages between the target and the reply
+}
+
+// Whether explicit counselor replies answered the student turn they quoted
+export interface ReplyAnalysis {
+  links: ReplyLink[];
+  studentTurnsWithoutReplies: number[]; // Student messages no counselor reply points to
+  assessments: Array<{
+    replyMessageNumber: number;
+    targetMessageNumber: number;
+    addressedTarget: boolean;
+    note: string;
+  }>;
+}
+
 // Enhanced feedback for full conversation analysis
 export interface ConversationFeedback {
   id: string;
@@ -124,6 +146,9 @@ export interface ConversationFeedback {
     }>;
   };
   
+  // Reply threading analysis (only when the conversation has explicit replies)
+  replyAnalysis?: ReplyAnalysis;
+  
   // Context
   analysisContext: ConversationAnalysisContext;
   
@@ -156,12 +181,123 @@ export interface AIFeedback {
   analysisVersion: string;       // Version of analysis prompt
   reviewedByCounselor: boolean;  // Has counselor seen this feedback
   counselorRating?: number;      // 1-5: How helpful was this feedback
+  selfAssessment?: CounselorSelfAssessment; // Counselor's own rating of the same response
+  supervisorReviewId?: string;   // Human supervisor scoring of the same response
   
   // Training data flags
   flaggedForReview: boolean;     // Human review needed
   trainingDataQuality: 'high' | 'medium' | 'low'; // Quality for ML training
 }
 
+// A human supervisor's independent scoring of a response the AI already scored
+export interface SupervisorReview {
+  id: string;
+  feedbackId: string;            // AIFeedback being checked
+  counselorId: string;
+  reviewerId: string;
+  reviewerName?: string;
+  scores: FeedbackScores;        // Human scores on the same rubric
+  notes?: string;
+  wasFlagged: boolean;           // Whether the AI had flagged the response for review
+  reviewedAt: Date;
+
+  // Snapshot of the AI analysis at review time
+  aiScores: FeedbackScores;
+  aiModel: string;
+  analysisVersion: string;
+  culturalBackground: CulturalBackground;
+  analyzedAt: Date;
+}
+
+// How closely AI and supervisor scores agree on one dimension
+export interface DimensionAgreement {
+  dimension: keyof FeedbackScores;
+  pairs: number;
+  meanAbsoluteError: number;     // Average |AI - human|
+  bias: number;                  // Average AI - human; positive means the AI scores higher
+  kappa: number;                 // Cohen's kappa on score bands (see SCORE_THRESHOLDS)
+}
+
+export interface AgreementGroup {
+  label: string;                 // Week start, culture or model/prompt version
+  pairs: number;
+  dimensions: DimensionAgreement[];
+}
+
+// Agreement between AI feedback and supervisor reviews, and where the AI rubric drifts
+export interface CalibrationReport {
+  generatedAt: Date;
+  totalPairs: number;
+  flaggedPairs: number;
+  overall: DimensionAgreement[];
+  byWeek: AgreementGroup[];
+  byCulture: AgreementGroup[];
+  byAnalysisVersion: AgreementGroup[];
+  driftingDimensions: Array<{
+    dimension: keyof FeedbackScores;
+    reasons: string[];
+  }>;
+}
+
+// Areas counselors rate themselves on, and the AI score each is compared against
+export type SelfAssessmentArea = 'empathy' | 'culturalSensitivity' | 'questioning' | 'goalOrientation' | 'professionalism';
+
+export const SELF_ASSESSMENT_SCORE_KEYS: Record<SelfAssessmentArea, keyof FeedbackScores> = {
+  empathy: 'empathy',
+  culturalSensitivity: 'culturalSensitivity',
+  questioning: 'questionQuality',
+  goalOrientation: 'actionability',
+  professionalism: 'professionalism'
+};
+
+export interface CounselorSelfAssessment {
+  selfRating: number;              // 1-10: Overall, compared against scores.overall
+  selfReflection: string;
+  areas: Record<SelfAssessmentArea, number>; // 1-10 each
+  improvementGoals: string[];
+  timeSpent: number;               // Minutes spent on the response
+  submittedAt: Date;
+}
+
+// How a counselor's self-ratings line up with the AI scores for the same responses
+export interface SelfAssessmentComparison {
+  assessedResponses: number;
+  averageGap: Record<SelfAssessmentArea | 'overall', number>; // Self minus AI; positive means self-rated higher
+  meanAbsoluteGap: number;         // Overall rating, ignoring direction
+  calibrationTrend: 'converging' | 'stable' | 'diverging'; // Earlier vs later half of the period
+  history: Array<{
+    feedbackId: string;
+    date: Date;
+    selfRating: number;
+    aiOverall: number;
+  }>;
+}
+
+export type FeedbackTimeframe = '7d' | '30d' | '90d';
+
+// Counselor performance over a timeframe, built from stored AI feedback
+export interface CounselorFeedbackAnalytics {
+  counselorId: string;
+  timeframe: FeedbackTimeframe;
+  totalResponses: number;
+  previousPeriodResponses: number;
+  averageScores: FeedbackScores;
+  scoreChange: number;             // Overall average vs the previous period
+  flaggedResponses: number;
+  previousPeriodFlagged: number;
+  averageTimeSpent?: number;       // Minutes, from self-assessments
+  previousAverageTimeSpent?: number;
+  dailyScores: Array<{ date: string; score: number; responses: number }>;
+  culturalCompetency: Partial<Record<CulturalBackground, {
+    score: number;
+    responses: number;
+    trend: 'up' | 'down' | 'stable';
+  }>>;
+  commonStrengths: string[];
+  improvementAreas: string[];
+  selfAssessment: SelfAssessmentComparison;
+}
+
 export interface CounselorPerformance {
   counselorId: string;
   timeframe: {
@@ -0,0 +1,68 @@
+// Scheduled job types
+import type { Firestore } from 'firebase/firestore';
+import { RerunnableRubricKind } from './Rubric';
+
+export type JobName =
+  | 'release-expired-claims'
+  | 'close-stale-conversations'
+  | 'recompute-counselor-stats'
+  | 'run-deferred-analyses'
+  | 'delete-deleted-entry-notes';
+
+export type JobTrigger = 'cron' | 'local' | 'manual';
+
+export type JobRunStatus = 'success' | 'partial' | 'failed';
+
+// What a job reports back after a run
+export interface JobResult {
+  processed: number;
+  failed: number;
+  errors?: string[];
+}
+
+// Run history record stored in job_runs
+export interface JobRun {
+  id: string;
+  job: JobName;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  result?: JobResult;
+  error?: string;
+}
+
+// Latest state per job stored in job_state/{job}, used to decide when a job is due
+export interface JobState {
+  job: JobName;
+  lastRunAt?: Date;
+  lastStatus?: JobRunStatus;
+  runningSince?: Date | null;
+  consecutiveFailures: number;
+}
+
+export interface JobDefinition {
+  name: JobName;
+  description: string;
+  intervalMinutes: number;
+  run: (database: Firestore) => Promise<JobResult>; // Firestore signed in as the runner's service account
+}
+
+// AI analyses queued for the job runner when they could not run inline, and re-runs of stored
+// results under another rubric version
+export type DeferredAnalysisType = 'response-feedback' | 'journal-analysis' | 'rubric-rerun';
+
+export interface DeferredAnalysis {
+  id: string;
+  type: DeferredAnalysisType;
+  targetId: string; // Document the analysis result is written to; for re-runs, the result being re-scored
+  requestedBy: string; // User who queued it; the runner only writes to targets this user owns
+  rubricKind?: RerunnableRubricKind;
+  rubricVersion?: string;
+  status: 'pending' | 'completed' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
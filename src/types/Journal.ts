@@ -1,3 +1,6 @@
+import { CrisisRiskLevel } from './Crisis';
+import { CulturalBackground } from './User';
+
 export type MoodLevel = 'very-low' | 'low' | 'neutral' | 'good' | 'very-good';
 
 export const MOOD_VALUES: Record<MoodLevel, number> = {
@@ -28,6 +31,12 @@ export type EmotionCategory =
   | 'happy' | 'excited' | 'calm' | 'grateful' | 'hopeful'
   | 'confused' | 'lonely' | 'stressed' | 'proud' | 'content';
 
+export const EMOTION_CATEGORIES: EmotionCategory[] = [
+  'anxious', 'sad', 'angry', 'frustrated', 'overwhelmed',
+  'happy', 'excited', 'calm', 'grateful', 'hopeful',
+  'confused', 'lonely', 'stressed', 'proud', 'content'
+];
+
 export interface JournalEntry {
   id: string;
   studentId: string;
@@ -41,6 +50,7 @@ export interface JournalEntry {
   
   // Contextual information
   trigger?: string; // What prompted this entry
+  tags?: string[]; // Student-defined tags, stored lowercase
   location?: string; // Where they were when writing
   timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night';
   
@@ -49,16 +59,25 @@ export interface JournalEntry {
   sharedWithCounselors: boolean;
   anonymousSharing: boolean;
   
+  // End-to-end encryption (private entries only) - title, content, trigger and tags live in
+  // encryptedPayload and are blank in the stored document; decrypted copies drop the payload
+  isEncrypted?: boolean;
+  encryptedPayload?: EncryptedJournalPayload;
+  pendingSync?: boolean; // Local change still waiting in the offline outbox (never stored)
+  
   // Metadata
   timestamp: Date;
   lastModified: Date;
   wordCount: number;
   estimatedReadTime: number; // in minutes
   
-  // AI analysis (optional, for insights)
+  // AI analysis (optional, for insights) - only for non-private entries the student opted in
+  aiAnalysisEnabled?: boolean;
   aiAnalysis?: JournalAnalysis;
+  escalatedRiskLevel?: CrisisRiskLevel; // Highest analysed risk already escalated to counselors while shared
   
   // Responses or reflections
+  promptId?: string; // Journal prompt the entry was written in response to
   followUpEntries?: string[]; // IDs of related entries
   counselorNotes?: CounselorNote[];
 }
@@ -68,10 +87,22 @@ export interface JournalAnalysis {
   emotionalThemes: string[];
   suggestedResources: string[];
   riskFactors?: string[];
+  riskLevel?: CrisisRiskLevel; // Overall risk suggested by the risk factors
   positiveIndicators: string[];
   analyzedAt: Date;
 }
 
+// Fields of an entry sent to the model for analysis
+export type JournalAnalysisInput = Pick<JournalEntry, 'content' | 'mood' | 'emotionTags' | 'intensityLevel' | 'title' | 'trigger'>;
+
+// Set on a student's open conversations when a shared entry's analysis finds risk factors
+export interface JournalRiskAlert {
+  entryId: string;
+  riskLevel: CrisisRiskLevel;
+  riskFactors: string[];
+  raisedAt: Date;
+}
+
 export interface CounselorNote {
   counselorId: string;
   counselorName: string;
@@ -81,6 +112,17 @@ export interface CounselorNote {
   tags: string[];
 }
 
+// Counselor note stored in journal_counselor_notes; private notes never reach the student's entry document
+export interface JournalCounselorNote extends CounselorNote {
+  id: string;
+  entryId: string;
+  studentId: string;
+  readByStudent: boolean; // Unread visible notes notify the student
+  updatedAt?: Date;
+}
+
+export type CounselorNoteInput = Pick<CounselorNote, 'note' | 'isVisible' | 'tags'>;
+
 // Journal management types
 export interface JournalStats {
   totalEntries: number;
@@ -99,12 +141,117 @@ export interface MoodTrend {
   hasEntry: boolean;
 }
 
+// Mood analytics (computed client-side from a student's entries)
+export type TimeOfDay = JournalEntry['timeOfDay'];
+
+export type MoodVolatilityLevel = 'stable' | 'moderate' | 'high';
+
+export type MoodDirection = 'improving' | 'declining' | 'steady';
+
+export interface RollingMoodPoint {
+  date: Date;
+  moodValue: number | null; // Average of the day's entries, null without entries
+  rollingAverage: number | null; // Average over the window ending on this day
+  entryCount: number;
+}
+
+export interface MoodPatternBucket<K extends string | number> {
+  key: K;
+  label: string;
+  averageMood: number | null;
+  entryCount: number;
+}
+
+export interface EmotionCoOccurrence {
+  emotions: [EmotionCategory, EmotionCategory];
+  count: number;
+  averageMood: number;
+}
+
+export interface TriggerMoodCorrelation {
+  theme: string; // Trigger theme matched from the entry's trigger text
+  label: string;
+  entryCount: number;
+  averageMood: number;
+  moodDifference: number; // Compared with the average of all entries in the period
+}
+
+export interface MoodAnalytics {
+  periodStart: Date;
+  periodEnd: Date;
+  entryCount: number;
+  averageMood: number | null;
+  rollingWindowDays: number;
+  rollingAverages: RollingMoodPoint[];
+  volatility: number; // Standard deviation of daily mood values
+  volatilityLevel: MoodVolatilityLevel;
+  direction: MoodDirection;
+  dayOfWeek: MoodPatternBucket<number>[]; // 0 = Sunday
+  timeOfDay: MoodPatternBucket<TimeOfDay>[];
+  emotionCoOccurrence: EmotionCoOccurrence[];
+  triggerCorrelations: TriggerMoodCorrelation[];
+  insights: string[];
+}
+
+export interface WeeklyReflection {
+  weekStart: Date;
+  weekEnd: Date;
+  entryCount: number;
+  daysWithEntries: number;
+  averageMood: number | null;
+  previousAverageMood: number | null;
+  brightestDay?: { date: Date; mood: MoodLevel };
+  hardestDay?: { date: Date; mood: MoodLevel };
+  topEmotions: EmotionCategory[];
+  summary: string;
+  highlights: string[];
+  suggestion: string;
+}
+
+export type JournalPromptCategory = 'reflection' | 'gratitude' | 'goals' | 'challenges' | 'growth';
+
 export interface JournalPrompt {
   id: string;
   text: string;
-  category: 'reflection' | 'gratitude' | 'goals' | 'challenges' | 'growth';
+  category: JournalPromptCategory;
   culturallyAdapted?: boolean;
+  culturalBackgrounds?: CulturalBackground[]; // Backgrounds an adapted prompt was written for
   targetMoods?: MoodLevel[];
+  targetEmotions?: EmotionCategory[];
+}
+
+// What the prompt selector knows about the student's recent journaling
+export interface JournalPromptContext {
+  culturalBackground?: CulturalBackground;
+  moodTrends: MoodTrend[];
+  stats: JournalStats | null;
+  recentPromptIds?: string[]; // Prompts answered recently, suggested less often
+}
+
+// One entry written from a prompt, stored in journal_prompt_usage under the entry's id
+export interface JournalPromptUsage {
+  id: string;
+  promptId: string;
+  studentId: string;
+  category: JournalPromptCategory;
+  culturallyAdapted: boolean;
+  wordCount: number;
+  moodValue: number;
+  sentimentScore?: number; // Added when the entry is analysed
+  createdAt: Date;
+}
+
+// How entries written from a prompt compare with entries written from any prompt
+export interface JournalPromptEffectiveness {
+  promptId: string;
+  text: string;
+  category: JournalPromptCategory;
+  uses: number;
+  averageWordCount: number;
+  averageMoodValue: number;
+  averageSentiment?: number;
+  wordCountLift: number; // Difference from the average across all prompts
+  moodLift: number;
 }
 
 // Journal composition types
@@ -115,8 +262,11 @@ export interface JournalDraft {
   emotionTags: EmotionCategory[];
   intensityLevel: number;
   trigger?: string;
+  tags?: string[];
   isPrivate: boolean;
+  aiAnalysisEnabled?: boolean;
   promptId?: string; // if responding to a prompt
+  encrypt?: boolean; // Encrypt with the student's passphrase before saving (private entries only)
 }
 
 export interface JournalFilter {
@@ -124,7 +274,136 @@ export interface JournalFilter {
   endDate?: Date;
   moods?: MoodLevel[];
   emotions?: EmotionCategory[];
+  tags?: string[]; // Entries must carry every listed tag
+  searchTerm?: string; // Full-text search over title, content, trigger and tags
   includePrivate: boolean;
-  sortBy: 'date' | 'mood' | 'title';
+  sortBy: 'date' | 'mood' | 'title' | 'relevance'; // relevance applies to searches, otherwise date
   sortOrder: 'asc' | 'desc';
+}
+
+// Local full-text index over a student's entries (kept in memory only, never persisted)
+export interface JournalSearchIndex {
+  entries: Map<string, JournalEntry>;
+  postings: Map<string, Map<string, number>>; // token -> entry id -> weighted hits
+  tagCounts: Record<string, number>;
+  builtAt: Date;
+}
+
+// AES-GCM ciphertext of the entry's private fields, base64 encoded
+export interface EncryptedJournalPayload {
+  algorithm: 'AES-GCM';
+  iv: string;
+  ciphertext: string;
+}
+
+// The fields that are encrypted together
+export interface JournalEncryptedFields {
+  content: string;
+  title?: string;
+  trigger?: string;
+  tags?: string[];
+}
+
+// Per-student key derivation settings; the passphrase itself is never stored
+export interface JournalEncryptionKeyRecord {
+  studentId: string;
+  salt: string; // base64
+  iterations: number;
+  verifier: EncryptedJournalPayload; // Known text encrypted with the derived key, to check passphrases
+  createdAt: Date;
+  updatedAt?: Date; // Last passphrase change
+}
+
+export type JournalExportFormat = 'markdown' | 'json' | 'pdf';
+
+// An entry in a JSON export: the draft that recreates it plus when it was written
+export interface JournalExportEntry extends JournalDraft {
+  writtenAt: string; // ISO date
+}
+
+// JSON export file; the same shape is accepted for import
+export interface JournalExportFile {
+  format: 'journal-export';
+  version: 1;
+  exportedAt: string;
+  entries: JournalExportEntry[];
+}
+
+export interface JournalExportResult {
+  exported: number;
+  skippedEncrypted: number; // Encrypted entries that were still locked
+}
+
+export interface JournalImportIssue {
+  index: number; // Position in the file's entries array
+  errors: string[];
+}
+
+// Validated import, ready to save
+export interface JournalImportPreview {
+  entries: Array<{ draft: JournalDraft; writtenAt?: Date }>;
+  issues: JournalImportIssue[];
+}
+
+export interface JournalImportResult {
+  imported: number;
+  failed: number;
+}
+
+// A draft kept on the device; drafts marked for encryption keep their private fields sealed
+export interface JournalStoredDraft {
+  draft: Partial<JournalDraft>;
+  sealed?: EncryptedJournalPayload;
+}
+
+// A change made while offline, waiting to be written to Firestore
+export interface JournalOutboxOperation {
+  id: string;
+  type: 'create' | 'update';
+  entryId: string; // Local id (local_...) for entries not created yet
+  data: JournalStoredDraft;
+  writtenAt?: string; // ISO date; when an offline entry was written
+  baseLastModified?: string; // ISO date; the entry's lastModified when editing started
+  queuedAt: string; // ISO date; when the change was made
+  attempts: number;
+  lastError?: string;
+}
+
+// A queued edit the server's newer version won over; kept so the student can still apply it
+export interface JournalSyncConflict {
+  id: string;
+  entryId: string;
+  data: JournalStoredDraft;
+  localModifiedAt: string;
+  serverModifiedAt?: string; // Missing when the entry was deleted elsewhere
+  reason: 'newer-on-server' | 'deleted-on-server';
+}
+
+export type JournalSyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error' | 'failed';
+
+export interface JournalSyncStatus {
+  state: JournalSyncState;
+  pendingCount: number; // Changes still being retried
+  failedChanges: JournalOutboxOperation[]; // Changes that stopped retrying after too many failures
+  conflicts: JournalSyncConflict[];
+  lastSyncedAt?: Date;
+  lastError?: string;
+}
+
+export interface JournalAutosave {
+  data: JournalStoredDraft;
+  savedAt: string; // ISO date
+}
+
+export interface JournalPagination {
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface JournalSearchPage {
+  entries: JournalEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+// LLM Provider Types
+import { Language } from './User';
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+// Every AI call site is tagged with a feature so provider and model can be configured per feature
+export type LLMFeature =
+  | 'chat'
+  | 'translation'
+  | 'speech'
+  | 'cbt-feedback'
+  | 'conversation-outcome'
+  | 'conversation-analysis'
+  | 'response-analysis'
+  | 'response-feedback'
+  | 'patient-simulation'
+  | 'patient-turn-assessment'
+  | 'conversation-title'
+  | 'crisis-detection'
+  | 'journal-analysis';
+
+export type LLMVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMFeatureConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMCompletionOptions {
+  feature: LLMFeature;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export type LLMTokenHandler = (delta: string) => void;
+
+export interface LLMJSONCompletion<T = unknown> extends LLMCompletion {
+  data: T;
+}
+
+// A JSON completion that passed its schema, possibly after asking the model to repair it
+export interface LLMValidatedCompletion<T> extends LLMJSONCompletion<T> {
+  attempts: number;
+}
+
+// Where and why model output did not match its schema
+export interface SchemaIssue {
+  path: string;                    // e.g. "scores.empathy" or "suggestions.specificMoments[0].messageNumber"
+  message: string;
+}
+
+// What an API route reports when a model's output still failed validation after the repair attempts
+export interface ValidationFailureDetails {
+  feature: LLMFeature;
+  schema: string;
+  model: string;
+  attempts: number;
+  issues: SchemaIssue[];
+  rawExcerpt: string;              // Start of the last response, for debugging the prompt
+}
+
+// Stored in analysis_validation_failures instead of saving fallback scores
+export interface AnalysisValidationFailure extends ValidationFailureDetails {
+  id: string;
+  targetId?: string;               // Message, conversation or analysis the output was for
+  recordedBy: string;
+  createdAt: Date;
+}
+
+export interface LLMTranslationRequest {
+  text: string;
+  sourceLanguage?: Language | 'auto';
+  targetLanguage: Language;
+}
+
+export interface LLMSpeechRequest {
+  text: string;
+  voice: LLMVoice;
+  speed?: number;
+}
+
+export interface LLMSpeechResult {
+  audio: ArrayBuffer;
+  contentType: string;
+}
+
+// Server-sent events emitted by streaming API routes
+export type LLMStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'done'; content: string; model: string; usage?: LLMUsage }
+  | { type: 'error'; error: string };
+
+// Common interface implemented by every provider adapter
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion>;
+  completeJSON<T = unknown>(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMJSONCompletion<T>>;
+  // Calls onToken for each content delta and resolves with the full completion
+  streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: LLMTokenHandler,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion>;
+  translate(request: LLMTranslationRequest, options: LLMCompletionOptions): Promise<LLMCompletion>;
+  synthesizeSpeech(request: LLMSpeechRequest, options: LLMCompletionOptions): Promise<LLMSpeechResult>;
+}
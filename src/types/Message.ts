@@ -1,4 +1,7 @@
-import { CulturalBackground } from './User';
+import { CulturalBackground, Language } from './User';
+import { CrisisRiskLevel } from './Crisis';
+import { MessageAttachment, MessageEdit } from './Chat';
+import { JournalRiskAlert } from './Journal';
 
 export type MessageType = 'support-request' | 'journal-entry';
 export type ResponseType = 'ai' | 'human' | 'none';
@@ -29,6 +32,16 @@ export interface Message {
   
   // Context from journal entries (if student opts to share)
   sharedJournalContext?: JournalContext[];
+  sharedJournalEntryIds?: string[]; // Mirrors sharedJournalContext so revocation can query it
+  
+  studentLanguage?: Language; // Used by queue routing to match counselors
+  
+  // Crisis escalation (set when crisis detection escalates the request)
+  crisisRiskLevel?: CrisisRiskLevel;
+  pinnedAt?: Date; // Pinned requests sort to the top of the counselor queue
+  
+  // Set on 'journal-entry' requests queued because a shared entry showed risk and the student had no open conversation
+  journalRiskAlert?: JournalRiskAlert;
   
   // Response tracking
   responses: Response[];
@@ -86,6 +99,19 @@ export interface JournalContext {
   mood: string;
   emotionTags: string[];
   relevantSnippet?: string; // Relevant portion of journal entry
+  title?: string;
+  intensityLevel?: number;
+  trigger?: string;
+  contentLevel: JournalContextOptions['contentLevel'];
+  sharedAt: Date;
+}
+
+// What the student chooses to reveal when attaching journal entries
+export interface JournalContextOptions {
+  contentLevel: 'none' | 'snippet' | 'full'; // Mood and emotions are always included
+  includeTitle: boolean;
+  includeTrigger: boolean;
+  redactContactDetails: boolean; // Mask emails, phone numbers, links and @handles in shared text
 }
 
 // Queue management types
@@ -96,6 +122,55 @@ export interface MessageQueue {
   archivedMessages: Message[];
 }
 
+// Queue routing types
+export type QueueItemKind = 'conversation' | 'support-request';
+
+// Common view of a conversation or support request for routing
+export interface QueueItem {
+  kind: QueueItemKind;
+  id: string;
+  priority: MessagePriority;
+  waitingSince: Date;
+  tags: string[];
+  culturalContext: CulturalBackground;
+  studentLanguage?: Language;
+  pinnedAt?: Date;
+}
+
+export interface CounselorRoutingContext {
+  counselorId: string;
+  specializations: string[];
+  languages: Language[];
+  culturalCompetencies: CulturalBackground[];
+  activeLoad: number; // Active conversations + claimed support requests
+  capacity: number;
+}
+
+// Points contributed by each routing factor
+export interface RoutingScoreBreakdown {
+  priority: number;
+  waitTime: number;
+  specialization: number;
+  language: number;
+  culture: number;
+  load: number;
+}
+
+export interface RankedQueueItem<T> {
+  item: T;
+  score: number;
+  breakdown: RoutingScoreBreakdown;
+  matchedSpecializations: string[];
+  languageMatch: boolean | null; // null when the student's language is unknown
+  culturalMatch: boolean;
+}
+
+// Outcome of picking the next item for a counselor; reason explains an empty pick
+export interface NextBestPick<T> {
+  match: RankedQueueItem<T> | null;
+  reason?: 'queue-empty' | 'at-capacity';
+}
+
 export interface QueueStats {
   totalPending: number;
   totalClaimed: number;
@@ -112,6 +187,7 @@ export interface MessageDraft {
   isAnonymous: boolean;
   includeJournalContext: boolean;
   selectedJournalEntries?: string[]; // journal entry IDs
+  journalContextOptions?: JournalContextOptions;
 }
 
 export interface MessageSubmission {
@@ -130,6 +206,7 @@ export interface Conversation {
   type: 'ai' | 'human';
   title: string; // Auto-generated or user-set
   status: 'active' | 'closed' | 'archived';
+  closedReason?: 'inactive'; // Set when housekeeping closes a stale conversation
   culturalContext: CulturalBackground;
   
   // Metadata
@@ -142,6 +219,19 @@ export interface Conversation {
   isAnonymous: boolean;
   priority: MessagePriority;
   tags: string[];
+  
+  studentLanguage?: Language; // Used by queue routing to match counselors
+  
+  // Crisis escalation (set when crisis detection escalates the conversation)
+  crisisRiskLevel?: CrisisRiskLevel;
+  pinnedAt?: Date; // Pinned conversations sort to the top of the counselor queue
+  
+  // Journal entries the student attached when starting the conversation
+  sharedJournalContext?: JournalContext[];
+  sharedJournalEntryIds?: string[];
+
+  // Raised when AI analysis finds risk factors in a journal entry the student shared
+  journalRiskAlert?: JournalRiskAlert;
 }
 
 export interface ConversationMessage {
@@ -155,12 +245,34 @@ export interface ConversationMessage {
   // Message metadata
   readBy: string[]; // Array of user IDs who have read this message
   editedAt?: Date;
+  editCount?: number;
+  editableUntil?: Date; // Sender can edit or delete until then (enforced by Firestore rules)
+  deletedAt?: Date; // Soft delete: content and attachments are cleared, the original is kept in the edit history
+  deletedBy?: string;
   replyTo?: string; // Message ID this is replying to
+  attachments?: MessageAttachment[];
   
   // AI metadata (if from AI)
   aiModel?: string;
   promptTokens?: number;
   completionTokens?: number;
+  isPartial?: boolean; // AI reply was cut short because the student stopped the stream
+  
+  // Crisis detection result for student messages that were escalated
+  crisisRiskLevel?: CrisisRiskLevel;
+}
+
+// Edit history record stored in conversation_message_edits (readable by counselors and admins only)
+export type MessageRevisionAction = 'edit' | 'delete';
+
+export interface ConversationMessageRevision extends MessageEdit {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  action: MessageRevisionAction;
+  editedBy: string;
+  editedByType: 'student' | 'counselor';
+  originalAttachments?: MessageAttachment[]; // Set when a delete removed attachments
 }
 
 export interface ConversationParticipant {
@@ -170,5 +282,18 @@ export interface ConversationParticipant {
   joinedAt: Date;
   lastReadAt: Date;
   isTyping: boolean;
+  typingUpdatedAt?: Date; // Lets readers ignore a typing flag left behind by a crashed client
   role: 'participant' | 'observer'; // For group conversations later
+}
+
+// Presence types
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// One document per user in the presence collection
+export interface UserPresence {
+  userId: string;
+  userType: 'student' | 'counselor';
+  state: PresenceState;
+  lastSeenAt: Date; // Refreshed by a heartbeat while the app is open
+  activeConversationId?: string | null;
 }
\ No newline at end of file
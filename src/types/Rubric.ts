@@ -0,0 +1,74 @@
+// Versioned analysis rubrics: prompts, scoring dimensions and weights for each AI analysis
+
+export type RubricKind = 'response-analysis' | 'conversation-analysis' | 'conversation-outcome' | 'cbt-feedback';
+
+// Kinds whose stored results keep enough context to be analyzed again under another version
+export type RerunnableRubricKind = Extract<RubricKind, 'response-analysis' | 'conversation-analysis'>;
+
+export interface RubricDimension {
+  key: string;                     // Score field in the model output
+  label: string;
+  definition: string;              // What the score measures, as given to the model
+  weight: number;                  // Relative weight in the weighted overall score
+}
+
+export interface AnalysisRubric {
+  kind: RubricKind;
+  version: string;                 // Stored as analysisVersion on results; never reuse a version
+  name: string;
+  changes: string;                 // What differs from the previous version
+  systemPrompt: string;
+  userPromptTemplate?: string;     // {{placeholder}} template; kinds without one build the request in code
+  dimensions: RubricDimension[];
+  overallKey: string;              // Field holding the model's own overall score
+}
+
+// Scores from analyzing a stored result again under another rubric version
+export interface RubricRerun {
+  id: string;
+  kind: RerunnableRubricKind;
+  sourceId: string;                // ai_feedback or conversation_feedback document
+  sourceVersion: string;
+  rubricVersion: string;
+  aiModel: string;
+  scores: Record<string, number>;  // Dimension scores plus the overall key
+  sourceScores: Record<string, number>;
+  analyzedAt: Date;
+}
+
+// One set of scores for a result, either as originally stored or from a re-run
+export interface RubricScoreSample {
+  sourceId: string;
+  version: string;
+  scores: Record<string, number>;
+  isRerun: boolean;
+}
+
+// Weighted overall scores of one rubric version
+export interface RubricScoreDistribution {
+  version: string;
+  count: number;
+  rerunCount: number;              // How many of the scores came from re-runs
+  mean: number;
+  standardDeviation: number;
+  p25: number;
+  median: number;
+  p75: number;
+  histogram: number[];             // Counts per whole point, 1 through 10
+  dimensionMeans: Record<string, number>;
+}
+
+// The same results scored by two versions
+export interface RubricPairedDifference {
+  fromVersion: string;
+  toVersion: string;
+  pairs: number;
+  meanDifference: number;          // Weighted score, new version minus original
+  dimensionDifferences: Record<string, number>;
+}
+
+export interface RubricVersionComparison {
+  kind: RerunnableRubricKind;
+  distributions: RubricScoreDistribution[];
+  pairedDifferences: RubricPairedDifference[];
+}
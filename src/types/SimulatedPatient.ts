@@ -28,6 +28,7 @@ export interface SimulatedPatient {
   emotionalExpression: 'open' | 'reserved' | 'selective';
   trustLevel: 'high' | 'medium' | 'low'; // How quickly they open up
   culturalFactors: string[]; // Specific cultural elements affecting their case
+  personaPrompt?: PatientPersonaPrompt; // Authored roleplay detail, from the persona library or the defaults
 }
 
 export interface SimulationSession {
@@ -41,6 +42,9 @@ export interface SimulationSession {
   counselorFeedback?: string;
   sessionDuration?: number; // in minutes
   analysisResults?: SessionAnalysisResults;
+  personaId?: string; // Set when the patient came from the persona library
+  personaVersion?: number;
+  emotionalTrajectory?: EmotionalStatePoint[];
 }
 
 export interface SimulationMessage {
@@ -54,6 +58,39 @@ export interface SimulationMessage {
   culturalReferences?: string[];
 }
 
+// The patient's internal state during a simulation, each on a 0-100 scale
+export interface PatientEmotionalState {
+  trust: number;
+  distress: number;
+  disclosureDepth: number; // How much of their story they are willing to share
+  engagement: number;
+}
+
+// How a counselor message landed with the patient
+export interface CounselorTurnAssessment {
+  empathy: number;              // 1-10
+  validation: number;           // 1-10
+  culturalAttunement: number;   // 1-10
+  triggeredTopics: string[];    // Sensitive topics the message handled carelessly
+  culturalReferences: string[]; // Cultural factors the counselor engaged with
+  tone: string;                 // Short label for the counselor's tone
+}
+
+// The patient's reply to one counselor message, with the state it was written from
+export interface PatientTurnResult {
+  content: string;
+  state: PatientEmotionalState;
+  assessment?: CounselorTurnAssessment; // Missing when the counselor's message could not be assessed
+  emotionalTone?: string;
+  culturalReferences?: string[];
+}
+
+export interface EmotionalStatePoint {
+  messageNumber: number; // Counselor message that moved the state; 0 for the starting state
+  state: PatientEmotionalState;
+  assessment?: CounselorTurnAssessment;
+}
+
 export interface SessionAnalysisResults {
   culturalCompetencyScore: number;
   empathyScore: number;
@@ -76,11 +113,47 @@ export interface PatientPersonaPrompt {
 }
 
 export interface PatientSimulationPrompts {
-  [key: string]: { // Format: "culturalBackground-gender-concern"
+  [key: string]: { // Keyed by cultural background
     [concern in MentalHealthConcern]?: PatientPersonaPrompt;
   };
 }
 
+// A saved patient that trainers author and counselors can replay across sessions.
+// Every save creates a new version; sessions record the version they used.
+export interface PatientPersona {
+  id: string;
+  version: number;
+  profile: Omit<SimulatedPatient, 'id' | 'personaPrompt'>;
+  prompt: PatientPersonaPrompt;
+  openingMessage?: string;
+  changeNote?: string;
+  authorId: string;
+  authorName?: string;
+  shared: boolean; // Visible to every counselor, not just the author
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PatientPersonaDraft = Pick<PatientPersona, 'profile' | 'prompt' | 'openingMessage' | 'changeNote' | 'shared'>;
+
+export interface PersonaAttempt {
+  sessionId: string;
+  personaVersion: number;
+  sessionStarted: Date;
+  messageCount: number;
+  sessionDuration?: number;
+  analysisResults?: SessionAnalysisResults;
+}
+
+// A counselor's sessions with one persona, oldest first
+export interface PersonaAttemptComparison {
+  personaId: string;
+  attempts: PersonaAttempt[];
+  scoredAttempts: number;
+  bestOverallScore?: number;
+  overallScoreChange?: number; // Latest scored attempt minus the first
+}
+
 export interface ValidationFeedback {
   id: string;
   participantId: string;
@@ -55,6 +55,9 @@ export interface CounselorProfile {
     hoursPerWeek: number;
     preferredHours: string[];
   };
+  languages?: Language[]; // Languages the counselor can counsel in (defaults to English)
+  culturalCompetencies?: CulturalBackground[]; // Cultural backgrounds the counselor has experience supporting
+  maxActiveConversations?: number; // Load cap used by queue routing (derived from hoursPerWeek if unset)
 }
 
 export interface AdminProfile {
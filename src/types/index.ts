@@ -4,6 +4,10 @@ export * from './Message';
 export * from './Journal';
 export * from './Chat';
 export * from './CBTTraining';
+export * from './LLM';
+export * from './Crisis';
+export * from './Jobs';
+export * from './Rubric';
 
 // Common utility types
 export interface ApiResponse<T = unknown> {